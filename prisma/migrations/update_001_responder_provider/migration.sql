@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `responders` ADD COLUMN `provider` VARCHAR(50) NOT NULL DEFAULT 'apipie';
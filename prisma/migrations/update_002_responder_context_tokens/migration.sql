@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `responders` ADD COLUMN `context_tokens` INTEGER NOT NULL DEFAULT 8192;
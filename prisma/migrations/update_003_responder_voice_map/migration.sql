@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `responders` ADD COLUMN `voice_map` JSON NULL;
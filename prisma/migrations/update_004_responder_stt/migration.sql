@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `responders` ADD COLUMN `stt_model` VARCHAR(100) NULL,
+    ADD COLUMN `stt_languages` VARCHAR(100) NULL,
+    ADD COLUMN `stt_prompt` TEXT NULL;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE `library` ADD COLUMN `search_text` LONGTEXT NULL;
+
+-- Backfill: plain message text of existing transcripts
+SET SESSION group_concat_max_len = 67108864;
+
+UPDATE `library`
+SET `search_text` = (
+    SELECT GROUP_CONCAT(jt.`content` SEPARATOR '\n')
+    FROM JSON_TABLE(`library`.`messages_json`, '$[*]' COLUMNS (`content` LONGTEXT PATH '$.content')) AS jt
+)
+WHERE JSON_VALID(`messages_json`);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `library` ADD COLUMN `source_id` CHAR(36) NULL,
+    ADD COLUMN `source_message_id` VARCHAR(64) NULL;
+
+-- CreateIndex
+CREATE INDEX `library_source_id_idx` ON `library`(`source_id`);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `library` MODIFY `type` ENUM('transcript', 'note', 'draft') NOT NULL DEFAULT 'transcript';
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE `library` ADD COLUMN `version` INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE `library_version` (
+    `id` CHAR(36) NOT NULL,
+    `library_id` CHAR(36) NOT NULL,
+    `user_id` VARCHAR(64) NOT NULL,
+    `version` INTEGER NOT NULL,
+    `title` VARCHAR(255) NOT NULL,
+    `responder` VARCHAR(100) NULL,
+    `message_count` INTEGER NOT NULL DEFAULT 0,
+    `messages_json` LONGTEXT NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `library_version_user_id_idx`(`user_id`),
+    UNIQUE INDEX `library_version_library_id_version_key`(`library_id`, `version`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `library` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `library_deleted_at_idx` ON `library`(`deleted_at`);
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `audio_clip` (
+    `id` CHAR(36) NOT NULL,
+    `user_id` VARCHAR(64) NOT NULL,
+    `message_id` VARCHAR(64) NOT NULL,
+    `kind` ENUM('user', 'tts') NOT NULL,
+    `seq` INTEGER NOT NULL DEFAULT 0,
+    `span` INTEGER NOT NULL DEFAULT 0,
+    `storage_key` VARCHAR(255) NOT NULL,
+    `content_type` VARCHAR(100) NOT NULL,
+    `size` INTEGER NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `audio_clip_message_id_idx`(`message_id`),
+    UNIQUE INDEX `audio_clip_user_id_message_id_kind_seq_span_key`(`user_id`, `message_id`, `kind`, `seq`, `span`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `responders` ADD COLUMN `temperature` DOUBLE NULL,
+    ADD COLUMN `top_p` DOUBLE NULL,
+    ADD COLUMN `frequency_penalty` DOUBLE NULL,
+    ADD COLUMN `presence_penalty` DOUBLE NULL,
+    ADD COLUMN `stop` JSON NULL,
+    ADD COLUMN `seed` INTEGER NULL,
+    ADD COLUMN `reasoning_effort` VARCHAR(10) NULL;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE FULLTEXT INDEX `library_title_search_text_idx` ON `library`(`title`, `search_text`);
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE `library` ADD COLUMN `messages_deleted_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `library_messages_deleted_at_idx` ON `library`(`messages_deleted_at`);
+
+-- Backfill: the oldest `deletedAt` (an ISO string) among each transcript's messages.
+UPDATE `library` SET `messages_deleted_at` = (
+    SELECT MIN(STR_TO_DATE(`m`.`deleted_at`, '%Y-%m-%dT%H:%i:%s.%fZ'))
+    FROM JSON_TABLE(`library`.`messages_json`, '$[*]' COLUMNS (`deleted_at` VARCHAR(32) PATH '$.deletedAt')) AS `m`
+)
+WHERE `type` = 'transcript' AND `messages_json` LIKE '%"deletedAt"%';
@@ -0,0 +1,137 @@
+// public/worklets/vad-processor.js
+//
+// AudioWorklet processor behind startVAD (src/components/chat/helpers/vad.ts).
+// Runs on the audio rendering thread, so detection keeps going when the tab is in the
+// background or the screen is off (requestAnimationFrame stops in both cases).
+//
+// Levels are measured over ~20 ms windows in dBFS. A noise floor is calibrated over the
+// first `calibrationMs` (or seeded from a previous session) and then tracked while nobody
+// is speaking: it follows quieter levels quickly and louder ones slowly. Speech starts once
+// the level stays `startMarginDb` above the floor for `minSpeechMs`, and ends after
+// `silenceDuration` below `stopMarginDb` (hysteresis between the two margins).
+//
+// Messages posted: { type: "onset" | "start" | "stop" } and { type: "floor", value }.
+// Messages handled: { type: "echoRisk", value } (answer to "onset") and { type: "stop" }.
+
+const WINDOW_SECONDS = 0.02;
+const MIN_FLOOR_DB = -80;
+const FLOOR_FALL = 0.2;
+const FLOOR_RISE = 0.01;
+const FLOOR_REPORT_SECONDS = 0.5;
+
+class VADProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions ?? {};
+    this.settings = opts.settings;
+    this.echoMarginDb = opts.echoMarginDb ?? 10;
+    this.echoMinSpeechMs = opts.echoMinSpeechMs ?? 250;
+
+    this.floor =
+      typeof opts.noiseFloorDb === "number" ? opts.noiseFloorDb : null;
+    this.calibrationEnd = currentTime + this.settings.calibrationMs / 1000;
+    this.calibrationEnergy = 0;
+    this.calibrationWindows = 0;
+
+    this.windowEnergy = 0;
+    this.windowSamples = 0;
+
+    this.speaking = false;
+    this.onsetAt = null;
+    this.quietSince = null;
+    this.echoRisk = false;
+    this.lastFloorReport = 0;
+    this.stopped = false;
+
+    this.port.onmessage = (event) => {
+      if (event.data?.type === "echoRisk") this.echoRisk = !!event.data.value;
+      if (event.data?.type === "stop") this.stopped = true;
+    };
+  }
+
+  process(inputs) {
+    if (this.stopped) return false;
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.windowEnergy += channel[i] * channel[i];
+    }
+    this.windowSamples += channel.length;
+
+    if (this.windowSamples >= sampleRate * WINDOW_SECONDS) {
+      const energy = this.windowEnergy / this.windowSamples;
+      this.windowEnergy = 0;
+      this.windowSamples = 0;
+      this.handleWindow(energy);
+    }
+    return true;
+  }
+
+  handleWindow(energy) {
+    const level = Math.max(MIN_FLOOR_DB, 10 * Math.log10(energy + 1e-12));
+
+    if (this.floor === null) {
+      this.calibrationEnergy += energy;
+      this.calibrationWindows++;
+      if (currentTime >= this.calibrationEnd) {
+        const mean = this.calibrationEnergy / this.calibrationWindows;
+        this.floor = Math.max(MIN_FLOOR_DB, 10 * Math.log10(mean + 1e-12));
+        this.reportFloor();
+      }
+      return;
+    }
+
+    const s = this.settings;
+    const startLevel =
+      this.floor + s.startMarginDb + (this.echoRisk ? this.echoMarginDb : 0);
+    const stopLevel = this.floor + s.stopMarginDb;
+
+    if (this.speaking) {
+      if (level > stopLevel) {
+        this.quietSince = null;
+      } else {
+        this.quietSince ??= currentTime;
+        if ((currentTime - this.quietSince) * 1000 >= s.silenceDuration) {
+          this.speaking = false;
+          this.quietSince = null;
+          this.port.postMessage({ type: "stop" });
+        }
+      }
+      return;
+    }
+
+    if (level > startLevel) {
+      if (this.onsetAt === null) {
+        this.onsetAt = currentTime;
+        this.port.postMessage({ type: "onset" });
+      }
+      const minMs = this.echoRisk
+        ? Math.max(s.minSpeechMs, this.echoMinSpeechMs)
+        : s.minSpeechMs;
+      if ((currentTime - this.onsetAt) * 1000 >= minMs) {
+        this.speaking = true;
+        this.onsetAt = null;
+        this.port.postMessage({ type: "start" });
+      }
+      return;
+    }
+
+    if (level <= stopLevel) this.onsetAt = null;
+    if (this.onsetAt === null) {
+      const rate = level < this.floor ? FLOOR_FALL : FLOOR_RISE;
+      this.floor += (level - this.floor) * rate;
+    }
+
+    if (currentTime - this.lastFloorReport >= FLOOR_REPORT_SECONDS) {
+      this.reportFloor();
+    }
+  }
+
+  reportFloor() {
+    this.lastFloorReport = currentTime;
+    this.port.postMessage({ type: "floor", value: this.floor });
+  }
+}
+
+registerProcessor("vad-processor", VADProcessor);
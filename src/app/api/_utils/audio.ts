@@ -0,0 +1,160 @@
+// src/app/api/_utils/audio.ts
+//
+// Shared helpers for stored message audio (AudioClip rows plus blobs in the audio storage).
+//
+// When AUDIO_STORAGE is configured, the user's recorded utterances and the speech generated
+// for replies are kept per chat message: a clip row records the message id, whether it is the
+// user's recording or TTS, and its position (`seq` = chunk of the reply, `span` = language span
+// within the chunk); the audio itself lives in the storage under `<user id>/<clip id>`.
+// Transcripts link to their audio through the message ids in messages_json, so copies of a
+// conversation (drafts, "Save as new", versions) share the clips.
+// - storeClip: stores one clip unless that position of the message already has one.
+// - deleteOrphanedAudio: after Library rows were deleted, removes the clips of their messages
+//   that no remaining row or version refers to.
+// - toClipResponse: API shape of a clip.
+// storeClip and deleteOrphanedAudio take the user id and only store under, read or delete that
+// user's clips and rows; the clip routes must pass the session user.
+//##########################################
+
+import { Prisma, type AudioClip, type AudioKind } from "@prisma/client";
+import { db } from "~/server/db";
+import { getAudioStorage } from "~/server/storage";
+
+export const MAX_CLIP_BYTES = 10 * 1024 * 1024;
+
+const MESSAGE_ID_PATTERN = /^[\w-]{1,64}$/;
+
+// Whether `id` can name a chat message (client ids are UUIDs).
+// Used in: `/api/audio`, `/api/tts`
+export function isMessageId(id: unknown): id is string {
+  return typeof id === "string" && MESSAGE_ID_PATTERN.test(id);
+}
+
+// Stores a clip for a message. Returns the clip id, or null when storing audio is disabled or
+// the position is taken (the first recording or synthesis of a sentence is kept).
+// Used in: `/api/audio`, `/api/tts`
+export async function storeClip(clip: {
+  userId: string;
+  messageId: string;
+  kind: AudioKind;
+  seq?: number;
+  span?: number;
+  data: Uint8Array;
+  contentType: string;
+}): Promise<string | null> {
+  const storage = getAudioStorage();
+  if (!storage || !clip.data.byteLength) return null;
+
+  const position = {
+    user_id: clip.userId,
+    message_id: clip.messageId,
+    kind: clip.kind,
+    seq: clip.seq ?? 0,
+    span: clip.span ?? 0,
+  };
+  const existing = await db.audioClip.findUnique({
+    where: { user_id_message_id_kind_seq_span: position },
+    select: { id: true },
+  });
+  if (existing) return null;
+
+  const id = crypto.randomUUID();
+  const key = `${clip.userId}/${id}`;
+  await storage.put(key, clip.data, clip.contentType);
+  try {
+    await db.audioClip.create({
+      data: {
+        id,
+        ...position,
+        storage_key: key,
+        content_type: clip.contentType,
+        size: clip.data.byteLength,
+      },
+    });
+  } catch (error) {
+    await storage.delete([key]);
+    // Another request stored the same position first.
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return null;
+    }
+    throw error;
+  }
+  return id;
+}
+
+// Message ids found in a messages_json column (rows without ids yield none).
+function messageIdsOf(messagesJson: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(messagesJson);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((m) =>
+      typeof m === "object" &&
+      m !== null &&
+      isMessageId((m as { id?: unknown }).id)
+        ? [(m as { id: string }).id]
+        : [],
+    );
+  } catch {
+    return [];
+  }
+}
+
+// Removes the audio of messages that only appeared in deleted Library rows. Call it after the
+// rows are gone, with their messages_json. Failures are logged; stray clips are harmless.
+// Used in: `_utils/trash` (purge), `/api/transcripts/draft` (draft pruning)
+export async function deleteOrphanedAudio(
+  userId: string,
+  removedMessagesJson: string[],
+): Promise<void> {
+  const storage = getAudioStorage();
+  const candidates = [...new Set(removedMessagesJson.flatMap(messageIdsOf))];
+  if (!storage || !candidates.length) return;
+
+  try {
+    const clips = await db.audioClip.findMany({
+      where: { user_id: userId, message_id: { in: candidates } },
+      select: { id: true, message_id: true, storage_key: true },
+    });
+    if (!clips.length) return;
+
+    const withAudio = [...new Set(clips.map((c) => c.message_id))];
+    const where = {
+      user_id: userId,
+      OR: withAudio.map((id) => ({ messages_json: { contains: id } })),
+    };
+    const [rows, versions] = await Promise.all([
+      db.library.findMany({ where, select: { messages_json: true } }),
+      db.libraryVersion.findMany({ where, select: { messages_json: true } }),
+    ]);
+    const referenced = new Set(
+      [...rows, ...versions].flatMap((row) => messageIdsOf(row.messages_json)),
+    );
+
+    const orphaned = clips.filter((c) => !referenced.has(c.message_id));
+    if (!orphaned.length) return;
+    await db.audioClip.deleteMany({
+      where: { id: { in: orphaned.map((c) => c.id) } },
+    });
+    await storage.delete(orphaned.map((c) => c.storage_key));
+  } catch (error) {
+    console.error("Failed to delete orphaned audio:", error);
+  }
+}
+
+// Serializes a clip for the client; `url` streams the audio.
+// Used in: `/api/audio`
+export function toClipResponse(clip: AudioClip) {
+  return {
+    id: clip.id,
+    kind: clip.kind,
+    seq: clip.seq,
+    span: clip.span,
+    content_type: clip.content_type,
+    size: clip.size,
+    created_at: clip.created_at,
+    url: `/api/audio/${clip.id}`,
+  };
+}
@@ -0,0 +1,93 @@
+// src/app/api/_utils/drafts.ts
+//
+// Shared helpers for autosaved chat drafts (Library rows of type "draft").
+//
+// The chat page autosaves the conversation on screen after every turn into one draft per
+// chat session, so an unsaved conversation survives a reload and can be resumed. Drafts are
+// stored exactly like transcripts (messages_json with all branches, search_text,
+// message_count of the active thread) and stay out of the transcript list until the user
+// saves them under a title.
+// - generateTitle: short LLM-written title for a new draft, from the start of the conversation.
+// - fallbackTitle: first line of the first user message, when no title could be generated.
+// - MAX_DRAFTS: how many drafts a user keeps; older ones are pruned on autosave.
+// Nothing here touches the database; the draft route loads, saves and prunes the rows itself.
+// generateTitle passes the user id upstream only as the provider's `user` field.
+//##########################################
+
+import type { Responders } from "@prisma/client";
+import type { UpstreamProvider } from "~/server/providers";
+import type { TranscriptMessage } from "~/types/message";
+import { toSamplingOptions } from "~/lib/utils/sampling";
+import { readCompletionText } from "./stream";
+
+export const MAX_DRAFTS = 5;
+
+const TITLE_LENGTH = 80;
+const TITLE_TOKENS = 24;
+// Only the opening of the conversation is sent; it is enough to name it and keeps the call cheap.
+const TITLE_CONTEXT_CHARS = 2000;
+
+const TITLE_INSTRUCTIONS =
+  "Write a short title (at most six words) for the following conversation, in the language of the conversation. Reply with the title only, without quotes or punctuation at the end.";
+
+function shorten(text: string): string {
+  return text.length > TITLE_LENGTH
+    ? `${text.slice(0, TITLE_LENGTH - 1).trimEnd()}…`
+    : text;
+}
+
+// First line of the first user message of the active thread.
+// Used in: `/api/transcripts/draft`
+export function fallbackTitle(messages: TranscriptMessage[]): string {
+  const first = messages.find((m) => m.role === "user" && m.active !== false);
+  const line = first?.content
+    .split("\n")
+    .map((l) => l.trim())
+    .find(Boolean);
+  return line ? shorten(line) : "Untitled conversation";
+}
+
+// Asks the responder's model for a title. Returns null when the upstream call fails or
+// answers with nothing, so the caller can fall back to fallbackTitle.
+// Used in: `/api/transcripts/draft`
+export async function generateTitle({
+  provider,
+  responder,
+  messages,
+  userId,
+}: {
+  provider: UpstreamProvider;
+  responder: Pick<Responders, "model">;
+  messages: TranscriptMessage[];
+  userId: string;
+}): Promise<string | null> {
+  const conversation = messages
+    .filter((m) => m.active !== false && m.content.trim())
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n")
+    .slice(0, TITLE_CONTEXT_CHARS);
+  if (!conversation) return null;
+
+  try {
+    const response = await provider.chatCompletion({
+      model: responder.model,
+      messages: [
+        { role: "system", content: TITLE_INSTRUCTIONS },
+        { role: "user", content: conversation },
+      ],
+      max_tokens: TITLE_TOKENS,
+      ...toSamplingOptions(responder.model, { temperature: 0.3 }),
+      user: userId,
+    });
+    if (!response.ok) return null;
+
+    const title = (await readCompletionText(response))
+      .split("\n")[0]!
+      .replace(/^["'“”«»]+|["'“”«».]+$/g, "")
+      .trim();
+    return title ? shorten(title) : null;
+  } catch (error) {
+    console.error("Title generation failed:", error);
+    return null;
+  }
+}
@@ -0,0 +1,41 @@
+// src/app/api/_utils/export.test.ts
+//
+// Tests for the CSV export: cells that spreadsheet apps would run as formulas are neutralized.
+
+import { describe, expect, it } from "vitest";
+import { renderExport, type ExportTranscript } from "./export";
+
+function csvRows(contents: string[]) {
+  const transcript: ExportTranscript = {
+    title: "Test",
+    responder: "General",
+    created_at: new Date("2024-05-01T10:00:00Z"),
+    updated_at: new Date("2024-05-01T10:00:00Z"),
+    messages: contents.map((content) => ({
+      role: "user",
+      content,
+      usage: { cost: 0.5 },
+    })),
+  };
+  return renderExport(transcript, "csv").body.trim().split("\r\n").slice(1);
+}
+
+describe("CSV export", () => {
+  it.each(["=1+1", "+SUM(A1)", "-2+3", "@cmd", "\tx", "\r=HYPERLINK()"])(
+    "prefixes %j with ' and quotes it",
+    (content) => {
+      const [row] = csvRows([content]);
+      expect(row).toContain(`,"'${content}",`);
+    },
+  );
+
+  it("leaves ordinary text and numbers unchanged", () => {
+    const [row] = csvRows(["hello"]);
+    expect(row).toMatch(/,hello,0\.5,/);
+  });
+
+  it("doubles quotes inside neutralized cells", () => {
+    const [row] = csvRows(['=A1&"x"']);
+    expect(row).toContain(`,"'=A1&""x""",`);
+  });
+});
@@ -0,0 +1,303 @@
+// src/app/api/_utils/export.ts
+//
+// Transcript export renderers for /api/transcripts/[id]/export
+//
+// Turns a saved transcript (Library row + parsed messages) into Markdown, structured JSON,
+// standalone HTML, SRT / WebVTT subtitles or CSV. Only the active thread is exported
+// (messages not marked `active: false`), so alternative branches do not interleave.
+// Speaker labels use the message's responder, falling back to the transcript's responder.
+// Subtitle cues start at each message's createdAt offset from the first message and last
+// for an estimated reading time; cues are pushed back so they never overlap, since a reply
+// is created only milliseconds after the message it answers.
+//##########################################
+
+import type { TranscriptMessage } from "~/types/message";
+import type { ExportFormat } from "~/types/export";
+
+export type ExportTranscript = {
+  title: string;
+  responder: string | null;
+  created_at: Date;
+  updated_at: Date;
+  messages: TranscriptMessage[];
+};
+
+export type RenderedExport = {
+  body: string;
+  contentType: string;
+  extension: string;
+};
+
+const CHARS_PER_SECOND = 15;
+const MIN_CUE_MS = 1500;
+
+type Usage = NonNullable<TranscriptMessage["usage"]>;
+
+function activeThread(messages: TranscriptMessage[]) {
+  return messages.filter((m) => m.active !== false);
+}
+
+function speaker(message: TranscriptMessage, transcript: ExportTranscript) {
+  if (message.role === "user") return "User";
+  return message.responder ?? transcript.responder ?? "Assistant";
+}
+
+// One-line usage summary ("cost $0.000120 · 350 tokens · 900 ms · audio $0.000300"),
+// empty when the message has no usage.
+function formatUsage(usage: Usage | undefined): string {
+  if (!usage) return "";
+  const parts: string[] = [];
+  if (typeof usage.cost === "number")
+    parts.push(`cost $${usage.cost.toFixed(6)}`);
+  if (typeof usage.totalTokens === "number")
+    parts.push(`${usage.estimated ? "~" : ""}${usage.totalTokens} tokens`);
+  if (typeof usage.latencyMs === "number") parts.push(`${usage.latencyMs} ms`);
+  if (typeof usage.audioUsage?.cost === "number") {
+    parts.push(`audio $${usage.audioUsage.cost.toFixed(6)}`);
+  }
+  return parts.join(" · ");
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Text starting with one of these is run as a formula by spreadsheet apps (CSV injection).
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes a CSV cell when needed. Text cells that a spreadsheet would read as a formula get a
+// leading ' (shown as text, not evaluated) and are quoted; numbers are written as they are.
+function csvCell(value: string | number | undefined | null) {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "number") return String(value);
+  if (FORMULA_PREFIX.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderMarkdown(
+  transcript: ExportTranscript,
+  messages: TranscriptMessage[],
+) {
+  const lines = [
+    `# ${transcript.title}`,
+    "",
+    ...(transcript.responder ? [`- Responder: ${transcript.responder}`] : []),
+    `- Created: ${transcript.created_at.toISOString()}`,
+    `- Updated: ${transcript.updated_at.toISOString()}`,
+    "",
+  ];
+  for (const message of messages) {
+    const time = message.createdAt ? ` (${message.createdAt})` : "";
+    lines.push(
+      `## ${speaker(message, transcript)}${time}`,
+      "",
+      message.content,
+      "",
+    );
+    const usage = formatUsage(message.usage);
+    if (usage) lines.push(`_${usage}_`, "");
+  }
+  return lines.join("\n");
+}
+
+function renderJson(
+  transcript: ExportTranscript,
+  messages: TranscriptMessage[],
+) {
+  return JSON.stringify(
+    {
+      title: transcript.title,
+      responder: transcript.responder,
+      created_at: transcript.created_at,
+      updated_at: transcript.updated_at,
+      exported_at: new Date(),
+      messages: messages.map((m) => ({
+        role: m.role,
+        speaker: speaker(m, transcript),
+        content: m.content,
+        createdAt: m.createdAt ?? null,
+        usage: m.usage ?? null,
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+function renderHtml(
+  transcript: ExportTranscript,
+  messages: TranscriptMessage[],
+) {
+  const items = messages
+    .map((m) => {
+      const usage = formatUsage(m.usage);
+      return `<div class="msg ${m.role}">
+  <div class="meta">${escapeHtml(speaker(m, transcript))}${m.createdAt ? ` · ${escapeHtml(new Date(m.createdAt).toLocaleString())}` : ""}</div>
+  <div class="text">${escapeHtml(m.content)}</div>${usage ? `\n  <div class="usage">${escapeHtml(usage)}</div>` : ""}
+</div>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(transcript.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+  header p { color: #6b7280; margin: 0.25rem 0; }
+  .msg { border-radius: 1rem; padding: 0.75rem 1rem; margin: 0.75rem 0; max-width: 80%; }
+  .msg.user { background: #dbeafe; margin-left: auto; }
+  .msg.assistant { background: #f3f4f6; }
+  .meta, .usage { font-size: 0.75rem; color: #6b7280; }
+  .text { white-space: pre-wrap; margin: 0.25rem 0; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(transcript.title)}</h1>
+  ${transcript.responder ? `<p>Responder: ${escapeHtml(transcript.responder)}</p>` : ""}
+  <p>Created ${escapeHtml(transcript.created_at.toISOString())} · Updated ${escapeHtml(transcript.updated_at.toISOString())}</p>
+</header>
+${items}
+</body>
+</html>
+`;
+}
+
+// Start/end offsets (ms) for each message's subtitle cue.
+function cueTimings(messages: TranscriptMessage[]) {
+  const first = messages
+    .map((m) => (m.createdAt ? Date.parse(m.createdAt) : NaN))
+    .find((t) => !Number.isNaN(t));
+  let previousEnd = 0;
+
+  return messages.map((m) => {
+    const at = m.createdAt ? Date.parse(m.createdAt) : NaN;
+    const offset =
+      first !== undefined && !Number.isNaN(at) ? at - first : previousEnd;
+    const start = Math.max(offset, previousEnd);
+    const end =
+      start +
+      Math.max(MIN_CUE_MS, (m.content.length / CHARS_PER_SECOND) * 1000);
+    previousEnd = end;
+    return { start, end };
+  });
+}
+
+function formatTimestamp(ms: number, separator: "," | ".") {
+  const total = Math.round(ms);
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const millis = total % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function renderSubtitles(
+  transcript: ExportTranscript,
+  messages: TranscriptMessage[],
+  format: "srt" | "vtt",
+) {
+  const separator = format === "srt" ? "," : ".";
+  const timings = cueTimings(messages);
+  const cues = messages.map((m, i) => {
+    const { start, end } = timings[i]!;
+    const text = `${speaker(m, transcript)}: ${m.content}`.replace(
+      /\n{2,}/g,
+      "\n",
+    );
+    return `${i + 1}\n${formatTimestamp(start, separator)} --> ${formatTimestamp(end, separator)}\n${text}\n`;
+  });
+  return format === "vtt" ? `WEBVTT\n\n${cues.join("\n")}` : cues.join("\n");
+}
+
+function renderCsv(
+  transcript: ExportTranscript,
+  messages: TranscriptMessage[],
+) {
+  const header = [
+    "index",
+    "role",
+    "speaker",
+    "created_at",
+    "content",
+    "cost",
+    "total_tokens",
+    "latency_ms",
+    "audio_cost",
+    "audio_chars",
+  ];
+  const rows = messages.map((m, i) =>
+    [
+      i + 1,
+      m.role,
+      speaker(m, transcript),
+      m.createdAt,
+      m.content,
+      m.usage?.cost,
+      m.usage?.totalTokens,
+      m.usage?.latencyMs,
+      m.usage?.audioUsage?.cost,
+      m.usage?.audioUsage?.char_count,
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+  // BOM so spreadsheet apps detect UTF-8.
+  return `\uFEFF${[header.join(","), ...rows].join("\r\n")}\r\n`;
+}
+
+/**
+ * renderExport
+ * Renders the transcript's active thread in the requested format.
+ * Used in: `/api/transcripts/[id]/export`
+ */
+export function renderExport(
+  transcript: ExportTranscript,
+  format: ExportFormat,
+): RenderedExport {
+  const messages = activeThread(transcript.messages);
+  switch (format) {
+    case "md":
+      return {
+        body: renderMarkdown(transcript, messages),
+        contentType: "text/markdown; charset=utf-8",
+        extension: "md",
+      };
+    case "json":
+      return {
+        body: renderJson(transcript, messages),
+        contentType: "application/json; charset=utf-8",
+        extension: "json",
+      };
+    case "html":
+      return {
+        body: renderHtml(transcript, messages),
+        contentType: "text/html; charset=utf-8",
+        extension: "html",
+      };
+    case "srt":
+    case "vtt":
+      return {
+        body: renderSubtitles(transcript, messages, format),
+        contentType:
+          format === "srt"
+            ? "application/x-subrip; charset=utf-8"
+            : "text/vtt; charset=utf-8",
+        extension: format,
+      };
+    case "csv":
+      return {
+        body: renderCsv(transcript, messages),
+        contentType: "text/csv; charset=utf-8",
+        extension: "csv",
+      };
+  }
+}
@@ -0,0 +1,72 @@
+// src/app/api/_utils/history.ts
+//
+// Conversation window builder for /api/chat
+//
+// Assembles the message list sent upstream from the responder prompt, the prior turns the
+// client sent along (`history`) and the new user text. Older turns are dropped first until
+// the prompt fits the responder's context window minus the tokens reserved for the reply.
+// Token counts are estimated (~4 characters per token) since the upstream tokenizer depends
+// on the model; the estimate errs on the high side for typical chat text.
+//##########################################
+
+import type { ChatMessage } from "~/server/providers";
+
+export type HistoryTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Rough token estimate for a single message including role/formatting overhead.
+export function estimateTokens(content: string): number {
+  return Math.ceil(content.length / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+// Estimated prompt size of a full message list (the window actually sent upstream).
+// Used in: `/api/chat` (app/api/chat/route.ts)
+export function estimatePromptTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+}
+
+// Builds [system, ...recent history, user] so that the estimated prompt size stays within
+// `contextTokens - replyTokens`. The system prompt and new user text are always kept; history
+// is taken newest-first and the window never starts with an assistant turn.
+// Used in: `/api/chat` (app/api/chat/route.ts)
+export function buildHistoryWindow({
+  system,
+  history,
+  text,
+  contextTokens,
+  replyTokens,
+}: {
+  system: string;
+  history: HistoryTurn[];
+  text: string;
+  contextTokens: number;
+  replyTokens: number;
+}): ChatMessage[] {
+  let budget =
+    contextTokens - replyTokens - estimateTokens(system) - estimateTokens(text);
+
+  const kept: HistoryTurn[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const turn = history[i]!;
+    if (!turn.content.trim()) continue;
+
+    const cost = estimateTokens(turn.content);
+    if (cost > budget) break;
+
+    budget -= cost;
+    kept.unshift(turn);
+  }
+
+  while (kept[0]?.role === "assistant") kept.shift();
+
+  return [
+    { role: "system", content: system },
+    ...kept,
+    { role: "user", content: text },
+  ];
+}
@@ -0,0 +1,269 @@
+// src/app/api/_utils/importers.ts
+//
+// Conversation importers for /api/transcripts/import
+//
+// Validates uploaded exports with zod and maps them to transcripts in the app's saved
+// format (TranscriptMessage[] with ids, parents and `active` flags). Supported sources:
+// - OpenAI (ChatGPT) `conversations.json`: conversations hold a `mapping` tree of nodes;
+//   regenerated and edited turns become branches and the path to `current_node` is active.
+// - Claude `conversations.json`: conversations with a linear `chat_messages` list
+//   (sender "human" / "assistant").
+// - Generic `{ role, content }[]` JSON: a single conversation; system messages are dropped.
+// Only plain text is imported (attachments, tool calls and images are skipped). Message ids
+// are regenerated so foreign ids never collide with existing transcripts.
+//##########################################
+
+import { z } from "zod";
+import type { TranscriptMessage } from "~/types/message";
+
+const MAX_TITLE_LENGTH = 150;
+
+export type ImportFormat = "openai" | "claude" | "generic";
+
+export type ImportedTranscript = {
+  title: string;
+  created_at: Date | null;
+  updated_at: Date | null;
+  messages: TranscriptMessage[];
+};
+
+const openAiNodeSchema = z.object({
+  parent: z.string().nullable().optional(),
+  message: z
+    .object({
+      author: z.object({ role: z.string() }),
+      content: z.object({
+        content_type: z.string(),
+        parts: z.array(z.unknown()).optional(),
+      }),
+      create_time: z.number().nullable().optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+const openAiExportSchema = z
+  .array(
+    z.object({
+      title: z.string().nullable().optional(),
+      create_time: z.number().nullable().optional(),
+      update_time: z.number().nullable().optional(),
+      mapping: z.record(openAiNodeSchema),
+      current_node: z.string().nullable().optional(),
+    }),
+  )
+  .min(1);
+
+const claudeExportSchema = z
+  .array(
+    z.object({
+      name: z.string().nullable().optional(),
+      created_at: z.string().optional(),
+      updated_at: z.string().optional(),
+      chat_messages: z.array(
+        z.object({
+          sender: z.enum(["human", "assistant"]),
+          text: z.string().optional(),
+          content: z
+            .array(z.object({ type: z.string(), text: z.string().optional() }))
+            .optional(),
+          created_at: z.string().optional(),
+        }),
+      ),
+    }),
+  )
+  .min(1);
+
+const genericExportSchema = z
+  .array(
+    z.object({
+      role: z.enum(["user", "assistant", "system"]),
+      content: z.string(),
+      createdAt: z.string().optional(),
+    }),
+  )
+  .min(1);
+
+function toTitle(title: string | null | undefined, fallback: string) {
+  const trimmed = title?.trim() ?? "";
+  return (trimmed.length > 0 ? trimmed : fallback).slice(0, MAX_TITLE_LENGTH);
+}
+
+function toDate(value: string | number | null | undefined): Date | null {
+  if (value === null || value === undefined) return null;
+  const date = new Date(typeof value === "number" ? value * 1000 : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * fromOpenAi
+ * Flattens each conversation's node tree into parent-before-child order, keeping user and
+ * assistant text nodes and linking every kept node to its nearest kept ancestor.
+ */
+function fromOpenAi(
+  data: z.infer<typeof openAiExportSchema>,
+): ImportedTranscript[] {
+  return data.map((conversation, index) => {
+    const { mapping } = conversation;
+
+    const textOf = (
+      id: string,
+    ): { role: TranscriptMessage["role"]; text: string } | null => {
+      const message = mapping[id]?.message;
+      const role = message?.author.role;
+      if (role !== "user" && role !== "assistant") return null;
+      if (message?.content.content_type !== "text") return null;
+      const text = (message.content.parts ?? [])
+        .filter((p): p is string => typeof p === "string")
+        .join("\n")
+        .trim();
+      return text ? { role, text } : null;
+    };
+
+    const activeIds = new Set<string>();
+    for (
+      let id = conversation.current_node ?? null;
+      id && !activeIds.has(id);
+      id = mapping[id]?.parent ?? null
+    ) {
+      activeIds.add(id);
+    }
+
+    const children = new Map<string | null, string[]>();
+    for (const [id, node] of Object.entries(mapping)) {
+      const parent = node.parent && mapping[node.parent] ? node.parent : null;
+      children.set(parent, [...(children.get(parent) ?? []), id]);
+    }
+
+    const messages: TranscriptMessage[] = [];
+    // Iterative depth-first walk (long conversations are deep chains).
+    const stack: { id: string; keptParent: string | null }[] = (
+      children.get(null) ?? []
+    )
+      .map((id) => ({ id, keptParent: null }))
+      .reverse();
+    while (stack.length > 0) {
+      const { id, keptParent } = stack.pop()!;
+      const content = textOf(id);
+      let parentForChildren = keptParent;
+      if (content) {
+        const newId = crypto.randomUUID();
+        const createTime = mapping[id]?.message?.create_time;
+        messages.push({
+          id: newId,
+          parentId: keptParent,
+          role: content.role,
+          content: content.text,
+          ...(createTime
+            ? { createdAt: toDate(createTime)?.toISOString() }
+            : {}),
+          active: activeIds.size === 0 || activeIds.has(id),
+        });
+        parentForChildren = newId;
+      }
+      for (const child of [...(children.get(id) ?? [])].reverse()) {
+        stack.push({ id: child, keptParent: parentForChildren });
+      }
+    }
+
+    return {
+      title: toTitle(conversation.title, `ChatGPT conversation ${index + 1}`),
+      created_at: toDate(conversation.create_time),
+      updated_at: toDate(conversation.update_time),
+      messages,
+    };
+  });
+}
+
+function fromClaude(
+  data: z.infer<typeof claudeExportSchema>,
+): ImportedTranscript[] {
+  return data.map((conversation, index) => {
+    const messages: TranscriptMessage[] = [];
+    for (const message of conversation.chat_messages) {
+      const parts = (message.content ?? [])
+        .filter((c) => c.type === "text" && c.text)
+        .map((c) => c.text!);
+      const text = (
+        parts.length ? parts.join("\n") : (message.text ?? "")
+      ).trim();
+      if (!text) continue;
+      messages.push({
+        id: crypto.randomUUID(),
+        parentId: messages[messages.length - 1]?.id ?? null,
+        role: message.sender === "human" ? "user" : "assistant",
+        content: text,
+        ...(message.created_at ? { createdAt: message.created_at } : {}),
+        active: true,
+      });
+    }
+
+    return {
+      title: toTitle(conversation.name, `Claude conversation ${index + 1}`),
+      created_at: toDate(conversation.created_at),
+      updated_at: toDate(conversation.updated_at),
+      messages,
+    };
+  });
+}
+
+function fromGeneric(
+  data: z.infer<typeof genericExportSchema>,
+  title: string,
+): ImportedTranscript[] {
+  const messages: TranscriptMessage[] = [];
+  for (const message of data) {
+    if (message.role === "system" || !message.content.trim()) continue;
+    messages.push({
+      id: crypto.randomUUID(),
+      parentId: messages[messages.length - 1]?.id ?? null,
+      role: message.role,
+      content: message.content,
+      ...(message.createdAt ? { createdAt: message.createdAt } : {}),
+      active: true,
+    });
+  }
+  return [
+    {
+      title: toTitle(title, "Imported conversation"),
+      created_at: toDate(messages[0]?.createdAt),
+      updated_at: toDate(messages[messages.length - 1]?.createdAt),
+      messages,
+    },
+  ];
+}
+
+/**
+ * parseImport
+ * Detects the export format and maps it to transcripts; conversations without any text
+ * messages are dropped. Returns null when the data matches none of the supported formats.
+ * `title` names the conversation of a generic import.
+ */
+export function parseImport(
+  data: unknown,
+  title: string,
+): { format: ImportFormat; transcripts: ImportedTranscript[] } | null {
+  const openAi = openAiExportSchema.safeParse(data);
+  const claude = openAi.success ? null : claudeExportSchema.safeParse(data);
+  const generic =
+    openAi.success || claude?.success
+      ? null
+      : genericExportSchema.safeParse(data);
+
+  const result: {
+    format: ImportFormat;
+    transcripts: ImportedTranscript[];
+  } | null = openAi.success
+    ? { format: "openai", transcripts: fromOpenAi(openAi.data) }
+    : claude?.success
+      ? { format: "claude", transcripts: fromClaude(claude.data) }
+      : generic?.success
+        ? { format: "generic", transcripts: fromGeneric(generic.data, title) }
+        : null;
+
+  if (!result) return null;
+  return {
+    format: result.format,
+    transcripts: result.transcripts.filter((t) => t.messages.length > 0),
+  };
+}
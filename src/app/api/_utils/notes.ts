@@ -0,0 +1,82 @@
+// src/app/api/_utils/notes.ts
+//
+// Shared helpers for notes (Library rows of type "note").
+//
+// A note is stored like a one-message transcript: messages_json holds
+// [{ role, content, createdAt }] and search_text the plain content, so search and export code
+// written for transcripts works on notes unchanged. role records who said the text ("user"
+// for dictated or typed notes and notes taken from the user's own messages).
+// - toNoteMessages: messages_json payload for a note's content.
+// - toNoteTitle: default title (first line of the content) when none is given.
+// - toNoteResponse: API shape of a note row.
+// These only map between note rows and API payloads; the note routes run the queries.
+//##########################################
+
+import type { Library } from "@prisma/client";
+import type { TranscriptMessage } from "~/types/message";
+
+const TITLE_LENGTH = 80;
+
+export type NoteRow = Pick<
+  Library,
+  | "id"
+  | "title"
+  | "responder"
+  | "created_at"
+  | "updated_at"
+  | "messages_json"
+  | "source_id"
+  | "source_message_id"
+>;
+
+// Builds the stored message list for a note.
+// Used in: `/api/notes`, `/api/notes/[id]`
+export function toNoteMessages(
+  content: string,
+  role: TranscriptMessage["role"],
+  createdAt: Date = new Date(),
+): TranscriptMessage[] {
+  return [{ role, content, createdAt: createdAt.toISOString() }];
+}
+
+// First non-empty line of the content, shortened for use as a title.
+// Used in: `/api/notes`
+export function toNoteTitle(content: string): string {
+  const line =
+    content
+      .split("\n")
+      .map((l) => l.trim())
+      .find(Boolean) ?? "Note";
+  return line.length > TITLE_LENGTH
+    ? `${line.slice(0, TITLE_LENGTH - 1).trimEnd()}…`
+    : line;
+}
+
+// Serializes a note row; content and role come from its single stored message.
+// Used in: `/api/notes`, `/api/notes/[id]`
+export function toNoteResponse(n: NoteRow) {
+  let message: Partial<TranscriptMessage> = {};
+  try {
+    const parsed = JSON.parse(n.messages_json) as unknown;
+    if (Array.isArray(parsed) && typeof parsed[0] === "object") {
+      message = (parsed[0] ?? {}) as Partial<TranscriptMessage>;
+    }
+  } catch {
+    message = {};
+  }
+
+  const role: TranscriptMessage["role"] =
+    message.role === "assistant" ? "assistant" : "user";
+
+  return {
+    id: n.id,
+    title: n.title,
+    content: typeof message.content === "string" ? message.content : "",
+    role,
+    responder: n.responder,
+    source_id: n.source_id,
+    source_message_id: n.source_message_id,
+    created_at: n.created_at,
+    updated_at: n.updated_at,
+  };
+}
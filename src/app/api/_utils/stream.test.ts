@@ -0,0 +1,60 @@
+// src/app/api/_utils/stream.test.ts
+//
+// Tests for createResponseStream's usage handling: the prompt estimate that opens a chat
+// stream, and the estimated usage emitted when the upstream reports none.
+
+import { describe, expect, it } from "vitest";
+import { createResponseStream } from "./stream";
+
+function upstream(events: unknown[]): Response {
+  const body = events
+    .map((e) => `data: ${JSON.stringify(e)}\n\n`)
+    .concat("data: [DONE]\n\n")
+    .join("");
+  return new Response(body);
+}
+
+async function readEvents(stream: ReadableStream<Uint8Array>) {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n")
+    .filter((line) => line.startsWith("data: ") && !line.includes("[DONE]"))
+    .map((line) => JSON.parse(line.slice(6)) as Record<string, unknown>);
+}
+
+const delta = (content: string) => ({ choices: [{ delta: { content } }] });
+
+describe("createResponseStream", () => {
+  it("opens with the prompt estimate and estimates usage the upstream did not report", async () => {
+    const events = await readEvents(
+      createResponseStream(upstream([delta("Hello "), delta("world")]), 120),
+    );
+
+    expect(events[0]).toEqual({ usage_estimate: { prompt_tokens: 120 } });
+    expect(events.at(-1)).toEqual({
+      usage: {
+        prompt_tokens: 120,
+        completion_tokens: 7,
+        total_tokens: 127,
+        estimated: true,
+      },
+    });
+  });
+
+  it("passes reported usage through unchanged", async () => {
+    const usage = { prompt_tokens: 90, completion_tokens: 3, cost: 0.0001 };
+    const events = await readEvents(
+      createResponseStream(upstream([delta("Hi"), { usage }]), 120),
+    );
+
+    expect(events.at(-1)).toEqual({ usage });
+  });
+
+  it("adds no usage events without a prompt estimate", async () => {
+    const events = await readEvents(
+      createResponseStream(upstream([delta("Hi")])),
+    );
+
+    expect(events).toEqual([delta("Hi")]);
+  });
+});
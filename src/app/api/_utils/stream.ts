@@ -5,25 +5,46 @@
 // This module reads a streaming `Response` from the chat API (`/api/chat`) and emits
 // decoded data chunks while capturing usage metadata. It is used inside the chat
 // system, especially in `useStreamingChat`, to progressively build assistant messages
-// and gather token/audio usage information.
+// and gather token/audio usage information. readCompletionText is the non-streaming
+// counterpart for server-side callers that only need the final text.
 //##########################################
 
+import { estimateTokens } from "./history";
+
 // Creates a readable stream from an API response and extracts usage data for analytics.
+// Cancelling the returned stream (the client disconnected or aborted its fetch) cancels the
+// upstream reader, which closes the upstream request instead of letting it run to the end.
+// With `promptTokens` (chat completions), the stream opens with a `usage_estimate` event
+// carrying the estimated prompt size, so a client that stops the reply early can still account
+// for the prompt; and when the upstream ends without reporting usage, an estimated usage event
+// (prompt + generated text, `estimated: true`, no cost) is emitted in its place.
 // Used in: `useStreamingChat` (chat/hooks/useStreamingChat.ts)
 export function createResponseStream(
   response: Response,
+  promptTokens?: number,
 ): ReadableStream<Uint8Array> {
+  const reader = response.body?.getReader();
+  let cancelled = false;
+
   return new ReadableStream({
     async start(controller) {
-      const reader = response.body?.getReader();
       const decoder = new TextDecoder();
+      const encoder = new TextEncoder();
       let usageData: unknown = null;
       let buffer = "";
+      let generated = "";
+
+      if (promptTokens !== undefined) {
+        const estimate = { usage_estimate: { prompt_tokens: promptTokens } };
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(estimate)}\n\n`),
+        );
+      }
 
       try {
         while (true) {
           const { done, value } = await reader!.read();
-          if (done) break;
+          if (done || cancelled) break;
 
           const chunk = decoder.decode(value, { stream: true });
           buffer += chunk;
@@ -39,30 +60,81 @@ export function createResponseStream(
             if (!jsonStr || jsonStr === "[DONE]") continue;
 
             try {
-              const parsed: unknown = JSON.parse(jsonStr);
-              if (
-                typeof parsed === "object" &&
-                parsed !== null &&
-                "usage" in parsed
-              ) {
-                usageData = (parsed as { usage: unknown }).usage;
-              }
+              const parsed = JSON.parse(jsonStr) as {
+                usage?: unknown;
+                choices?: { delta?: { content?: string } }[];
+              } | null;
+              if (parsed?.usage) usageData = parsed.usage;
+              generated += parsed?.choices?.[0]?.delta?.content ?? "";
             } catch {
               console.warn("Skipping malformed JSON:", jsonStr);
             }
           }
 
-          controller.enqueue(new TextEncoder().encode(chunk));
+          controller.enqueue(encoder.encode(chunk));
         }
 
-        if (usageData) {
+        if (!usageData && promptTokens !== undefined) {
+          const completionTokens = generated ? estimateTokens(generated) : 0;
+          usageData = {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: promptTokens + completionTokens,
+            estimated: true,
+          };
+        }
+        if (usageData && !cancelled) {
           const finalChunk = `data: ${JSON.stringify({ usage: usageData })}\n\n`;
-          controller.enqueue(new TextEncoder().encode(finalChunk));
+          controller.enqueue(encoder.encode(finalChunk));
         }
+      } catch (error) {
+        if (!cancelled) throw error;
       } finally {
         reader?.releaseLock();
-        controller.close();
+        if (!cancelled) controller.close();
       }
     },
+    async cancel(reason) {
+      cancelled = true;
+      await reader?.cancel(reason);
+    },
   });
 }
+
+// Reads an OpenAI-style SSE chat completion to the end and returns the concatenated text.
+// Used in: `summarizeTranscript` (_utils/summary.ts), `generateTitle` (_utils/drafts.ts)
+export async function readCompletionText(response: Response): Promise<string> {
+  const reader = response.body?.getReader();
+  if (!reader) return "";
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+
+  const consume = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return;
+    const jsonStr = trimmed.slice(5).trim();
+    if (!jsonStr || jsonStr === "[DONE]") return;
+    try {
+      const parsed = JSON.parse(jsonStr) as {
+        choices?: { delta?: { content?: string } }[];
+      };
+      text += parsed.choices?.[0]?.delta?.content ?? "";
+    } catch {
+      console.warn("Skipping malformed JSON:", jsonStr);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(consume);
+  }
+  consume(buffer);
+
+  return text.trim();
+}
@@ -0,0 +1,192 @@
+// src/app/api/_utils/summary.ts
+//
+// Study-note summaries for /api/transcripts/[id]/summarize
+//
+// Runs a responder over a saved transcript's active thread and returns Markdown study notes:
+// a summary, key vocabulary, grammar points and the learner's mistakes with corrections.
+// Transcripts larger than the responder's context window are summarized map-reduce style:
+// the conversation is split with batchMessagesWithLimit, each part is summarized on its own,
+// then the partial notes are merged (in several rounds if they still do not fit together).
+// Sizes are the same ~4 characters per token estimate used for chat history.
+//##########################################
+
+import type { Responders } from "@prisma/client";
+import type { ChatMessage, UpstreamProvider } from "~/server/providers";
+import type { TranscriptMessage } from "~/types/message";
+import { batchMessagesWithLimit } from "~/lib/utils/batching";
+import { toSamplingOptions } from "~/lib/utils/sampling";
+import { estimateTokens } from "./history";
+import { readCompletionText } from "./stream";
+
+const SUMMARY_REPLY_TOKENS = 1500;
+const CHARS_PER_TOKEN = 4;
+// Room for the instructions wrapped around each chunk and the message overhead.
+const PROMPT_OVERHEAD_TOKENS = 400;
+const MAX_MESSAGES_PER_CHUNK = 500;
+
+const NOTE_FORMAT = `Write study notes in Markdown with exactly these sections:
+## Summary
+## Key vocabulary
+## Grammar points
+## Mistakes & corrections
+Use bullet points. For vocabulary give the word or phrase and its meaning; for mistakes quote what the learner said and the corrected form. Write "None" under a section with nothing to list.`;
+
+const CHUNK_INSTRUCTIONS = `You are summarizing part of a longer language-practice conversation. ${NOTE_FORMAT}`;
+const FINAL_INSTRUCTIONS = `You are summarizing a language-practice conversation between a learner (User) and a tutor (Assistant). ${NOTE_FORMAT}`;
+const MERGE_INSTRUCTIONS = `The following are study notes for consecutive parts of one language-practice conversation. Merge them into one set of notes, removing duplicates. ${NOTE_FORMAT}`;
+
+export type SummaryResult =
+  | { ok: true; content: string }
+  | { ok: false; status: number; error: string };
+
+type Piece = { content: string };
+
+type SummaryContext = {
+  provider: UpstreamProvider;
+  responder: Pick<Responders, "model" | "prompt" | "context_tokens">;
+  userId: string;
+  replyTokens: number;
+  signal?: AbortSignal;
+};
+
+// One completion over `content` with the responder's persona followed by `instructions`.
+async function complete(
+  content: string,
+  instructions: string,
+  ctx: SummaryContext,
+): Promise<SummaryResult> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: `${ctx.responder.prompt}\n\n${instructions}` },
+    { role: "user", content },
+  ];
+
+  const response = await ctx.provider.chatCompletion({
+    model: ctx.responder.model,
+    messages,
+    max_tokens: ctx.replyTokens,
+    ...toSamplingOptions(ctx.responder.model, { temperature: 0.3 }),
+    user: ctx.userId,
+    signal: ctx.signal,
+  });
+
+  if (!response.ok) {
+    const errorData = (await response.json().catch(() => ({}))) as {
+      error?: { message?: string };
+    };
+    return {
+      ok: false,
+      status: response.status,
+      error: errorData.error?.message ?? "Summary completion failed",
+    };
+  }
+
+  const text = await readCompletionText(response);
+  return text
+    ? { ok: true, content: text }
+    : { ok: false, status: 502, error: "The responder returned no summary" };
+}
+
+// Summarizes each batch with `instructions`, stopping at the first failure.
+async function completeEach(
+  batches: Piece[][],
+  instructions: string,
+  ctx: SummaryContext,
+): Promise<SummaryResult[]> {
+  const results: SummaryResult[] = [];
+  for (const batch of batches) {
+    const result = await complete(
+      batch.map((p) => p.content).join("\n\n"),
+      instructions,
+      ctx,
+    );
+    results.push(result);
+    if (!result.ok) break;
+  }
+  return results;
+}
+
+// Produces study notes for the transcript's active thread (messages not marked
+// `active: false`). Parts are summarized one after another so a long transcript does not
+// fire a burst of parallel upstream requests.
+// Used in: `/api/transcripts/[id]/summarize`
+export async function summarizeTranscript({
+  provider,
+  responder,
+  title,
+  messages,
+  userId,
+  signal,
+}: {
+  provider: UpstreamProvider;
+  responder: Pick<Responders, "model" | "prompt" | "context_tokens">;
+  title: string;
+  messages: TranscriptMessage[];
+  userId: string;
+  signal?: AbortSignal;
+}): Promise<SummaryResult> {
+  const replyTokens = Math.min(
+    SUMMARY_REPLY_TOKENS,
+    Math.floor(responder.context_tokens / 4),
+  );
+  const ctx: SummaryContext = {
+    provider,
+    responder,
+    userId,
+    replyTokens,
+    signal,
+  };
+
+  const budgetTokens =
+    responder.context_tokens -
+    replyTokens -
+    estimateTokens(responder.prompt) -
+    PROMPT_OVERHEAD_TOKENS;
+  const maxChars = Math.max(1, budgetTokens) * CHARS_PER_TOKEN;
+
+  const lines: Piece[] = messages
+    .filter((m) => m.active !== false && m.content.trim())
+    .map((m) => ({
+      content: `${m.role === "user" ? "User" : "Assistant"}: ${m.content.trim()}`,
+    }));
+
+  const chunks = batchMessagesWithLimit(
+    lines,
+    MAX_MESSAGES_PER_CHUNK,
+    maxChars,
+  );
+  if (chunks.length <= 1) {
+    return complete(
+      `Conversation "${title}":\n\n${lines.map((l) => l.content).join("\n\n")}`,
+      FINAL_INSTRUCTIONS,
+      ctx,
+    );
+  }
+
+  const partials = await completeEach(chunks, CHUNK_INSTRUCTIONS, ctx);
+  const failed = partials.find((r) => !r.ok);
+  if (failed) return failed;
+
+  let notes: Piece[] = partials.map((r) => ({
+    content: r.ok ? r.content : "",
+  }));
+  while (true) {
+    const groups = batchMessagesWithLimit(
+      notes,
+      MAX_MESSAGES_PER_CHUNK,
+      maxChars,
+    );
+    // Merge everything at once when it fits, or when grouping no longer shrinks the notes.
+    if (groups.length <= 1 || groups.length === notes.length) {
+      return complete(
+        `Study notes for "${title}", in order:\n\n${notes.map((n) => n.content).join("\n\n---\n\n")}`,
+        MERGE_INSTRUCTIONS,
+        ctx,
+      );
+    }
+
+    const merged = await completeEach(groups, MERGE_INSTRUCTIONS, ctx);
+    const mergeFailed = merged.find((r) => !r.ok);
+    if (mergeFailed) return mergeFailed;
+    notes = merged.map((r) => ({ content: r.ok ? r.content : "" }));
+  }
+}
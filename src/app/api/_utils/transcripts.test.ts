@@ -0,0 +1,101 @@
+// src/app/api/_utils/transcripts.test.ts
+//
+// Tests for the transcript search helpers: the FULLTEXT search condition and the
+// preview/snippet post-processing of loadSummaryTexts (MySQL is replaced by canned rows).
+
+import { Prisma } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+let rawRows: unknown[] = [];
+let lastQuery: Prisma.Sql | null = null;
+
+vi.mock("~/server/db", () => ({
+  db: {
+    $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      lastQuery = Prisma.sql(strings, ...values);
+      return rawRows;
+    },
+  },
+}));
+
+const { loadSummaryTexts, transcriptSearchWhere } = await import(
+  "./transcripts"
+);
+
+describe("transcriptSearchWhere", () => {
+  it("requires every term as a word prefix through the FULLTEXT index", () => {
+    expect(transcriptSearchWhere(["spanish", "verbs"])).toEqual({
+      title: { search: "+spanish* +verbs*" },
+      search_text: { search: "+spanish* +verbs*" },
+      AND: [],
+    });
+  });
+
+  it("strips boolean-mode operators and matches short terms with LIKE", () => {
+    expect(transcriptSearchWhere(['"react"', "-js", "ai"])).toEqual({
+      title: { search: "+react*" },
+      search_text: { search: "+react*" },
+      AND: [
+        {
+          OR: [
+            { title: { contains: "-js" } },
+            { search_text: { contains: "-js" } },
+          ],
+        },
+        {
+          OR: [
+            { title: { contains: "ai" } },
+            { search_text: { contains: "ai" } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("adds no condition without terms", () => {
+    expect(transcriptSearchWhere([])).toEqual({ AND: [] });
+  });
+});
+
+describe("loadSummaryTexts", () => {
+  beforeEach(() => {
+    rawRows = [];
+    lastQuery = null;
+  });
+
+  it("skips the query for an empty page", async () => {
+    expect((await loadSummaryTexts("alice", [], ["x"])).size).toBe(0);
+    expect(lastQuery).toBeNull();
+  });
+
+  it("scopes the query to the user and the page's ids", async () => {
+    await loadSummaryTexts("alice", ["t1", "t2"], []);
+
+    expect(lastQuery?.sql).toContain("WHERE user_id = ? AND id IN (?,?)");
+    expect(lastQuery?.values).toEqual(
+      expect.arrayContaining(["alice", "t1", "t2"]),
+    );
+  });
+
+  it("builds previews and snippets with ellipses from the cut-out text", async () => {
+    const text = `${"a ".repeat(100)}needle${" b".repeat(100)}`;
+    const hit = text.indexOf("needle") + 1;
+    const start = hit - 80;
+    rawRows = [
+      {
+        id: "t1",
+        head: text.slice(0, 161),
+        hit: BigInt(hit),
+        around: text.slice(start - 1, start - 1 + 160),
+        length: BigInt(text.length),
+      },
+      { id: "t2", head: "short", hit: 4294967295, around: "", length: 5 },
+    ];
+
+    const texts = await loadSummaryTexts("alice", ["t1", "t2"], ["needle"]);
+
+    expect(texts.get("t1")?.preview.endsWith("…")).toBe(true);
+    expect(texts.get("t1")?.snippet).toMatch(/^….*needle.*…$/);
+    expect(texts.get("t2")).toEqual({ preview: "short", snippet: null });
+  });
+});
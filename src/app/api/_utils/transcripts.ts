@@ -0,0 +1,199 @@
+// src/app/api/_utils/transcripts.ts
+//
+// Shared helpers for saved transcripts (Library rows of type "transcript").
+//
+// - toTranscriptResponse: full record for /api/transcripts/[id], parsing messages_json (null
+//   when it is not valid JSON).
+// - toSearchText: plain message text stored in Library.search_text when saving, so search can
+//   match content without touching the JSON (keys, escapes) or loading it.
+// - transcriptSearchWhere: search condition using the FULLTEXT index on (title, search_text).
+// - loadSummaryTexts: preview and search snippet for a page of rows, computed in MySQL.
+// - toTranscriptSummary: lightweight list item for /api/transcripts with a preview and, when
+//   searching, a snippet around the first hit.
+// loadSummaryTexts scopes its query to the given user; the other helpers work on rows or
+// conditions the calling route has already scoped to the session user.
+//##########################################
+
+import { Prisma, type Library } from "@prisma/client";
+import { db } from "~/server/db";
+
+const PREVIEW_LENGTH = 160;
+const SNIPPET_RADIUS = 80;
+// InnoDB's default innodb_ft_min_token_size; shorter words are not in the FULLTEXT index.
+const MIN_FULLTEXT_LENGTH = 3;
+// Characters with a meaning in boolean-mode FULLTEXT queries; stripped from search terms.
+const FULLTEXT_OPERATORS = /[+\-<>()~*"@]/g;
+// Position reported when no term occurs in the text.
+const NO_HIT = 4294967295;
+
+export type SummaryText = {
+  preview: string;
+  snippet: string | null;
+};
+
+export type TranscriptSummaryRow = Pick<
+  Library,
+  | "id"
+  | "title"
+  | "responder"
+  | "created_at"
+  | "updated_at"
+  | "message_count"
+  | "version"
+>;
+
+// Serializes a transcript row, including its messages, for API responses.
+// Used in: `/api/transcripts/[id]`, `/api/transcripts/draft`
+export function toTranscriptResponse(t: Library) {
+  let parsedMessages: unknown = null;
+  try {
+    parsedMessages = JSON.parse(t.messages_json);
+  } catch {
+    parsedMessages = null;
+  }
+
+  return {
+    id: t.id,
+    title: t.title,
+    responder: t.responder,
+    created_at: t.created_at,
+    updated_at: t.updated_at,
+    message_count: t.message_count,
+    version: t.version,
+    messages: parsedMessages,
+  };
+}
+
+// Joins the `content` of every message (all branches) into searchable plain text. Messages
+// deleted in the chat (`deletedAt`) are left out.
+// Used in: `/api/transcript/save`, `/api/transcripts/import`, `/api/transcripts/draft`,
+// `/api/transcripts/[id]/versions/[version]`, `/api/transcripts/[id]/restore`
+export function toSearchText(messages: unknown[]): string {
+  return messages
+    .map((m) =>
+      typeof m === "object" &&
+      m !== null &&
+      "content" in m &&
+      !(m as { deletedAt?: unknown }).deletedAt
+        ? (m as { content: unknown }).content
+        : null,
+    )
+    .filter((c): c is string => typeof c === "string" && c.length > 0)
+    .join("\n");
+}
+
+// Search condition for `terms`: every term must occur in the title or the message text.
+// Terms of MIN_FULLTEXT_LENGTH characters or more go through the FULLTEXT index on
+// (title, search_text) as one boolean-mode query with each term required and matched as a
+// word prefix; shorter terms are below InnoDB's minimum token size and fall back to LIKE, which
+// only scans the rows the index already narrowed down (or all rows if every term is short).
+// Used in: `/api/transcripts`
+export function transcriptSearchWhere(
+  terms: string[],
+): Prisma.LibraryWhereInput {
+  const words = terms
+    .map((term) => term.replace(FULLTEXT_OPERATORS, ""))
+    .filter((term) => term.length >= MIN_FULLTEXT_LENGTH);
+  const short = terms.filter(
+    (term) => term.replace(FULLTEXT_OPERATORS, "").length < MIN_FULLTEXT_LENGTH,
+  );
+  const query = words.map((word) => `+${word}*`).join(" ");
+
+  return {
+    ...(query && {
+      title: { search: query },
+      search_text: { search: query },
+    }),
+    AND: short.map((term) => ({
+      OR: [{ title: { contains: term } }, { search_text: { contains: term } }],
+    })),
+  };
+}
+
+// Reads the preview (start of search_text) and, when searching, the text around the first
+// occurrence of a term for the given rows. Both are cut out by MySQL in one query over the
+// page's ids, so the (possibly long) search_text column never leaves the database.
+// Used in: `/api/transcripts`, `/api/transcripts/trash`
+export async function loadSummaryTexts(
+  userId: string,
+  ids: string[],
+  terms: string[],
+): Promise<Map<string, SummaryText>> {
+  const texts = new Map<string, SummaryText>();
+  if (!ids.length) return texts;
+
+  const positions = terms.map(
+    (term) =>
+      Prisma.sql`COALESCE(NULLIF(LOCATE(${term}, search_text), 0), ${NO_HIT})`,
+  );
+  const hit =
+    positions.length === 0
+      ? Prisma.sql`${NO_HIT}`
+      : positions.length === 1
+        ? positions[0]!
+        : Prisma.sql`LEAST(${Prisma.join(positions)})`;
+
+  const rows = await db.$queryRaw<
+    {
+      id: string;
+      head: string | null;
+      hit: bigint | number | null;
+      around: string | null;
+      length: bigint | number | null;
+    }[]
+  >`
+    SELECT id,
+      LEFT(search_text, ${PREVIEW_LENGTH + 1}) AS head,
+      ${hit} AS hit,
+      SUBSTRING(search_text, GREATEST(1, ${hit} - ${SNIPPET_RADIUS}), ${SNIPPET_RADIUS * 2}) AS around,
+      CHAR_LENGTH(search_text) AS length
+    FROM library
+    WHERE user_id = ${userId} AND id IN (${Prisma.join(ids)})
+  `;
+
+  for (const row of rows) {
+    const head = row.head ?? "";
+    const preview = head.slice(0, PREVIEW_LENGTH).replace(/\s+/g, " ").trim();
+    const position = Number(row.hit ?? NO_HIT);
+    const length = Number(row.length ?? 0);
+
+    let snippet: string | null = null;
+    if (terms.length && position !== NO_HIT && row.around) {
+      // 0-based bounds of ~SNIPPET_RADIUS characters either side of the hit.
+      const hitIndex = position - 1;
+      const start = Math.max(0, hitIndex - SNIPPET_RADIUS);
+      const end = Math.min(length, hitIndex + SNIPPET_RADIUS);
+      const body = row.around
+        .slice(0, end - start)
+        .replace(/\s+/g, " ")
+        .trim();
+      snippet = `${start > 0 ? "…" : ""}${body}${end < length ? "…" : ""}`;
+    }
+
+    texts.set(row.id, {
+      preview: head.length > PREVIEW_LENGTH ? `${preview}…` : preview,
+      snippet,
+    });
+  }
+  return texts;
+}
+
+// Serializes a transcript row as a list item without its messages; `text` comes from
+// loadSummaryTexts (missing when the row has no message text).
+// Used in: `/api/transcripts`, `/api/transcripts/trash`
+export function toTranscriptSummary(
+  t: TranscriptSummaryRow,
+  text: SummaryText | undefined,
+) {
+  return {
+    id: t.id,
+    title: t.title,
+    responder: t.responder,
+    created_at: t.created_at,
+    updated_at: t.updated_at,
+    message_count: t.message_count,
+    version: t.version,
+    preview: text?.preview ?? "",
+    snippet: text?.snippet ?? null,
+  };
+}
@@ -0,0 +1,63 @@
+// src/app/api/_utils/trash.test.ts
+//
+// Tests for putting a message deleted in the chat back into a saved transcript: the flag is
+// cleared and the message rejoins the thread on screen when it belonged to it.
+
+import { describe, expect, it, vi } from "vitest";
+import type { TranscriptMessage } from "~/types/message";
+
+vi.mock("~/server/db", () => ({ db: {} }));
+
+const { restoreMessage } = await import("./trash");
+
+function message(
+  id: string,
+  parentId: string | null,
+  extra: Partial<TranscriptMessage> = {},
+): TranscriptMessage {
+  return { id, parentId, role: "user", content: id, active: true, ...extra };
+}
+
+const deletedAt = "2024-05-02T00:00:00.000Z";
+
+describe("restoreMessage", () => {
+  it("puts a message back on the thread when its reply is on it", () => {
+    const restored = restoreMessage(
+      [
+        message("a", null),
+        message("b", "a", { active: false, deletedAt }),
+        message("c", "b"),
+      ],
+      "b",
+    );
+
+    expect(restored?.[1]).toEqual(message("b", "a"));
+  });
+
+  it("continues the thread with a deleted last message", () => {
+    const restored = restoreMessage(
+      [message("a", null), message("b", "a", { active: false, deletedAt })],
+      "b",
+    );
+
+    expect(restored?.[1]?.active).toBe(true);
+  });
+
+  it("keeps a message off the thread when a live sibling is on it", () => {
+    const restored = restoreMessage(
+      [
+        message("a", null),
+        message("b", "a", { active: false, deletedAt }),
+        message("b2", "a"),
+      ],
+      "b",
+    );
+
+    expect(restored?.[1]).toEqual(message("b", "a", { active: false }));
+  });
+
+  it("returns null for a message that is not deleted", () => {
+    expect(restoreMessage([message("a", null)], "a")).toBeNull();
+    expect(restoreMessage([message("a", null)], "x")).toBeNull();
+  });
+});
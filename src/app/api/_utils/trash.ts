@@ -0,0 +1,286 @@
+// src/app/api/_utils/trash.ts
+//
+// Shared helpers for the transcript trash.
+//
+// Deleting a transcript only sets Library.deleted_at; the row (and its versions) stays in the
+// trash, hidden from every other transcript endpoint, until it is restored or purged. Rows
+// deleted longer ago than the retention window (TRASH_RETENTION_DAYS, default 30) are purged
+// lazily whenever the owner deletes a transcript or opens the trash; there is no scheduler.
+// - retentionDays / purgeDate: the configured window and when a trashed row expires.
+// - purgeTranscripts: permanently deletes trashed rows with their versions and unused audio.
+// - purgeExpired: purges the user's rows and deleted messages whose window has passed.
+// Messages deleted in the chat are saved in place with `deletedAt` (see TranscriptMessage); the
+// trash lists those of the user's saved transcripts (not of drafts or trashed transcripts) and
+// can put them back or remove them for good, from the transcript and all of its versions.
+// Library.messages_deleted_at holds the oldest of a transcript's `deletedAt`s, so these rows are
+// found through its index instead of by scanning messages_json; every write of a transcript's
+// messages_json sets it with messagesDeletedAt.
+// - messagesDeletedAt: the value of messages_deleted_at for a list of messages.
+// - listDeletedMessages: the deleted messages, most recently deleted first.
+// - restoreMessage: messages with one deleted message put back.
+// - purgeMessages: permanently removes the deleted messages a predicate picks.
+// purgeTranscripts ignores ids that are not the user's or are not in the trash, so routes can
+// pass ids straight from the request body; purgeMessages only looks at the user's rows.
+//##########################################
+
+import { Prisma } from "@prisma/client";
+import { db } from "~/server/db";
+import { removeNode } from "~/lib/utils/messageTree";
+import type { TranscriptMessage } from "~/types/message";
+import { deleteOrphanedAudio } from "./audio";
+
+const PREVIEW_LENGTH = 160;
+
+type DeletedTranscriptMessage = TranscriptMessage & {
+  id: string;
+  deletedAt: string;
+};
+
+function parseMessages(messagesJson: string): TranscriptMessage[] {
+  try {
+    const parsed: unknown = JSON.parse(messagesJson);
+    return Array.isArray(parsed) ? (parsed as TranscriptMessage[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isDeleted(m: TranscriptMessage): m is DeletedTranscriptMessage {
+  return typeof m.id === "string" && typeof m.deletedAt === "string";
+}
+
+// When the longest-deleted of the messages was deleted, or null when none is deleted.
+// Used in: `/api/transcript/save`, `/api/transcripts/[id]/restore`,
+// `/api/transcripts/[id]/versions/[version]`, `purgeMessages`
+export function messagesDeletedAt(messages: TranscriptMessage[]): Date | null {
+  const times = messages
+    .filter(isDeleted)
+    .map((m) => new Date(m.deletedAt).getTime())
+    .filter((time) => !Number.isNaN(time));
+  return times.length ? new Date(Math.min(...times)) : null;
+}
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a deleted transcript stays restorable.
+// Used in: `/api/transcripts/trash`
+export function retentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+// When a transcript deleted at `deletedAt` is purged.
+// Used in: `/api/transcripts`, `/api/transcripts/trash`
+export function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + retentionDays() * DAY_MS);
+}
+
+// Permanently deletes the given trashed transcripts of the user (rows that are not in the
+// trash are left alone), with audio no other conversation uses, and returns how many were
+// deleted.
+// Used in: `/api/transcripts/trash`
+export async function purgeTranscripts(
+  userId: string,
+  ids: string[],
+): Promise<number> {
+  if (!ids.length) return 0;
+  const trashed = await db.library.findMany({
+    where: {
+      id: { in: ids },
+      user_id: userId,
+      type: "transcript",
+      deleted_at: { not: null },
+    },
+    select: { id: true, messages_json: true },
+  });
+  if (!trashed.length) return 0;
+
+  const trashedIds = trashed.map((t) => t.id);
+  const versions = await db.libraryVersion.findMany({
+    where: { library_id: { in: trashedIds }, user_id: userId },
+    select: { messages_json: true },
+  });
+  const [, deleted] = await db.$transaction([
+    db.libraryVersion.deleteMany({
+      where: { library_id: { in: trashedIds }, user_id: userId },
+    }),
+    db.library.deleteMany({
+      where: { id: { in: trashedIds }, user_id: userId },
+    }),
+  ]);
+  await deleteOrphanedAudio(userId, [
+    ...trashed.map((t) => t.messages_json),
+    ...versions.map((v) => v.messages_json),
+  ]);
+  return deleted.count;
+}
+
+// Purges the user's transcripts that have been in the trash longer than the retention window.
+// Used in: `/api/transcripts`, `/api/transcripts/trash`
+export async function purgeExpired(userId: string): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays() * DAY_MS);
+  const expired = await db.library.findMany({
+    where: {
+      user_id: userId,
+      type: "transcript",
+      deleted_at: { lt: cutoff },
+    },
+    select: { id: true },
+  });
+  await purgeMessages(
+    userId,
+    { messages_deleted_at: { lt: cutoff } },
+    (_, m) => new Date(m.deletedAt).getTime() < cutoff.getTime(),
+  );
+  return purgeTranscripts(
+    userId,
+    expired.map((t) => t.id),
+  );
+}
+
+// Deleted messages of the user's saved transcripts in API shape, most recently deleted first.
+// Used in: `/api/transcripts/trash`
+export async function listDeletedMessages(userId: string, limit: number) {
+  const rows = await db.library.findMany({
+    where: {
+      user_id: userId,
+      type: "transcript",
+      deleted_at: null,
+      messages_deleted_at: { not: null },
+    },
+    select: { id: true, title: true, messages_json: true },
+  });
+  return rows
+    .flatMap((row) =>
+      parseMessages(row.messages_json)
+        .filter(isDeleted)
+        .map((m) => ({
+          id: m.id,
+          transcript_id: row.id,
+          transcript_title: row.title,
+          role: m.role,
+          preview: m.content.slice(0, PREVIEW_LENGTH),
+          deleted_at: m.deletedAt,
+          purge_at: purgeDate(new Date(m.deletedAt)),
+        })),
+    )
+    .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+    .slice(0, limit);
+}
+
+// Returns the messages with the deleted message `id` put back, or null when there is no such
+// deleted message. It rejoins the thread on screen if one of its replies is on it, or, without
+// replies, if it continues the thread's last message.
+// Used in: `/api/transcripts/[id]/restore`
+export function restoreMessage(
+  messages: TranscriptMessage[],
+  id: string,
+): TranscriptMessage[] | null {
+  const target = messages.find((m) => m.id === id);
+  if (!target || !isDeleted(target)) return null;
+
+  const live = messages.filter((m) => !m.deletedAt);
+  const parentId = target.parentId ?? null;
+  const replies = live.filter((m) => m.parentId === id);
+  const parentActive =
+    parentId === null ||
+    live.some((m) => m.id === parentId && m.active !== false);
+  const active = replies.length
+    ? replies.some((m) => m.active !== false)
+    : parentActive &&
+      !live.some(
+        (m) => (m.parentId ?? null) === parentId && m.active !== false,
+      );
+
+  const restored: TranscriptMessage = { ...target, active };
+  delete restored.deletedAt;
+  return messages.map((m) => (m === target ? restored : m));
+}
+
+// Permanently removes the deleted messages that `match` picks from the user's saved
+// transcripts that also match `where`, and from every version of them (their replies move up,
+// as in the chat), then the audio no other conversation uses. Each transcript is written only
+// if it is still at the version read, and its version is raised so a client holding the old
+// content gets 409 on its next save instead of bringing the messages back; a transcript saved
+// meanwhile is skipped, leaving its messages in the trash. Returns how many messages were
+// removed from the transcripts.
+// Used in: `purgeExpired`, `/api/transcripts/trash`
+export async function purgeMessages(
+  userId: string,
+  where: Prisma.LibraryWhereInput,
+  match: (transcriptId: string, message: DeletedTranscriptMessage) => boolean,
+): Promise<number> {
+  const rows = await db.library.findMany({
+    where: {
+      messages_deleted_at: { not: null },
+      ...where,
+      user_id: userId,
+      type: "transcript",
+      deleted_at: null,
+    },
+    select: { id: true, messages_json: true, version: true },
+  });
+
+  let purged = 0;
+  const removed: TranscriptMessage[] = [];
+  for (const row of rows) {
+    const messages = parseMessages(row.messages_json);
+    const doomed = messages.filter((m) => isDeleted(m) && match(row.id, m));
+    if (!doomed.length) continue;
+    const ids = doomed.map((m) => m.id!);
+    const without = (list: TranscriptMessage[]) =>
+      ids.reduce(
+        (nodes, id) => removeNode(nodes, id),
+        list as (TranscriptMessage & { id: string })[],
+      );
+
+    // Earlier versions may still show the message as part of the conversation.
+    const versions = await db.libraryVersion.findMany({
+      where: { library_id: row.id, user_id: userId },
+      select: { id: true, messages_json: true },
+    });
+    const remaining = without(messages);
+    try {
+      await db.$transaction([
+        db.library.update({
+          where: { id: row.id, version: row.version },
+          data: {
+            messages_json: JSON.stringify(remaining),
+            messages_deleted_at: messagesDeletedAt(remaining),
+            version: row.version + 1,
+          },
+        }),
+        ...versions.flatMap((v) => {
+          const before = parseMessages(v.messages_json);
+          if (!before.some((m) => m.id && ids.includes(m.id))) return [];
+          const after = without(before);
+          return db.libraryVersion.update({
+            where: { id: v.id },
+            data: {
+              messages_json: JSON.stringify(after),
+              message_count: after.filter(
+                (m) => m.active !== false && !m.deletedAt,
+              ).length,
+            },
+          });
+        }),
+      ]);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2025"
+      ) {
+        continue;
+      }
+      throw error;
+    }
+    purged += doomed.length;
+    removed.push(...doomed);
+  }
+
+  if (removed.length) {
+    await deleteOrphanedAudio(userId, [JSON.stringify(removed)]);
+  }
+  return purged;
+}
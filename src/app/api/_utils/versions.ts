@@ -0,0 +1,74 @@
+// src/app/api/_utils/versions.ts
+//
+// Shared helpers for transcript version history (LibraryVersion rows).
+//
+// A transcript row always holds its latest content and its current version number. Before it
+// is overwritten (an "update" save or a restore) the current content is copied into
+// library_version under that number and the row's version is incremented, so every earlier
+// state stays readable and restorable.
+// - snapshotOf: LibraryVersion data preserving a transcript's current content.
+// - toVersionSummary / toVersionResponse: API shapes of a version, without / with messages.
+// snapshotOf copies user_id from the row it is given, so load that row for its owner first and
+// write the snapshot and the update in one transaction.
+//##########################################
+
+import type { Library, LibraryVersion } from "@prisma/client";
+
+export type VersionSummaryRow = Pick<
+  LibraryVersion,
+  "version" | "title" | "message_count" | "created_at"
+>;
+
+// Snapshot of the transcript's current content, stored under its current version number.
+// Used in: `/api/transcript/save`, `/api/transcripts/[id]/versions/[version]`
+export function snapshotOf(
+  t: Pick<
+    Library,
+    | "id"
+    | "user_id"
+    | "version"
+    | "title"
+    | "responder"
+    | "message_count"
+    | "messages_json"
+  >,
+) {
+  return {
+    id: crypto.randomUUID(),
+    library_id: t.id,
+    user_id: t.user_id,
+    version: t.version,
+    title: t.title,
+    responder: t.responder,
+    message_count: t.message_count,
+    messages_json: t.messages_json,
+  };
+}
+
+// Serializes a version row as a list item.
+// Used in: `/api/transcripts/[id]/versions`
+export function toVersionSummary(v: VersionSummaryRow) {
+  return {
+    version: v.version,
+    title: v.title,
+    message_count: v.message_count,
+    created_at: v.created_at,
+  };
+}
+
+// Serializes a version with its parsed messages (null when messages_json is not valid JSON).
+// Used in: `/api/transcripts/[id]/versions/[version]`
+export function toVersionResponse(v: LibraryVersion) {
+  let messages: unknown = null;
+  try {
+    messages = JSON.parse(v.messages_json);
+  } catch {
+    messages = null;
+  }
+
+  return {
+    ...toVersionSummary(v),
+    responder: v.responder,
+    messages,
+  };
+}
@@ -0,0 +1,74 @@
+/*
+src/app/api/audio/[id]/route.ts
+
+Summary:
+API route that streams one stored audio clip (a user's recording or a piece of generated
+speech) to its owner.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function GET(req: Request, context: RouteContext)
+
+Exports used by:
+- src/components/chat/hooks/useAudioArchive.ts (clip `url`s from GET /api/audio, played by
+  "Replay")
+
+Nuances:
+- Owner-scoped: another user's clip answers 404 like a missing one.
+- Clips never change once stored, so the response may be cached privately by the browser.
+- A clip row whose blob is gone from the storage (e.g. a wiped disk) also answers 404.
+*/
+
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import { getAudioStorage } from "~/server/storage";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET
+ *
+ * Returns the clip's audio with its content type; 401 if not authenticated, 404 if the clip
+ * is unknown or storage is disabled.
+ */
+export async function GET(_req: Request, context: RouteContext) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  const storage = getAudioStorage();
+
+  try {
+    const clip = storage
+      ? await db.audioClip.findFirst({
+          where: { id, user_id: session.user.id },
+        })
+      : null;
+    const data = clip && storage ? await storage.get(clip.storage_key) : null;
+
+    if (!clip || !data) {
+      return NextResponse.json({ error: "Audio not found" }, { status: 404 });
+    }
+
+    return new Response(data, {
+      headers: {
+        "Content-Type": clip.content_type,
+        "Content-Length": String(data.byteLength),
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Error reading audio clip:", error);
+    return NextResponse.json(
+      { error: "Failed to read audio" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,130 @@
+/*
+src/app/api/audio/route.ts
+
+Summary:
+API route for stored message audio. GET reports whether audio is stored at all and lists the
+clips of one chat message; POST stores the user's recording of a message.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function GET(req: Request)
+- export async function POST(req: Request)
+
+Exports used by:
+- src/components/chat/hooks/useAudioArchive.ts (upload after a recording was transcribed,
+  "Replay" on chat bubbles)
+
+Nuances:
+- Storing audio is optional (AUDIO_STORAGE, see src/server/storage). GET always answers with
+  `enabled`; POST answers 503 while it is disabled.
+- Speech generated for replies is stored by /api/tts itself, since the audio passes through it.
+- GET ?message_id=… returns { enabled, clips } ordered by kind, seq and span, i.e. in playback
+  order; each clip's `url` (/api/audio/[id]) streams the audio. Without message_id only
+  { enabled } is returned.
+- POST multipart form: file (audio/*, up to MAX_CLIP_BYTES) and message_id. A message keeps its
+  first recording; repeating the upload answers 200 with `stored: false`.
+- Both handlers are scoped to the session user.
+*/
+
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import { getAudioStorage } from "~/server/storage";
+import {
+  isMessageId,
+  MAX_CLIP_BYTES,
+  storeClip,
+  toClipResponse,
+} from "../_utils/audio";
+
+/**
+ * GET
+ *
+ * Answers { enabled } and, for a message_id query parameter, the message's clips.
+ * Returns 400 for an invalid message_id or 401 if not authenticated.
+ */
+export async function GET(req: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const enabled = getAudioStorage() !== null;
+  const messageId = new URL(req.url).searchParams.get("message_id");
+  if (messageId === null) return NextResponse.json({ enabled });
+  if (!isMessageId(messageId)) {
+    return NextResponse.json({ error: "Invalid message_id" }, { status: 400 });
+  }
+
+  try {
+    const clips = await db.audioClip.findMany({
+      where: { user_id: session.user.id, message_id: messageId },
+      orderBy: [{ kind: "asc" }, { seq: "asc" }, { span: "asc" }],
+    });
+    return NextResponse.json({ enabled, clips: clips.map(toClipResponse) });
+  } catch (error) {
+    console.error("Error fetching audio clips:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch audio" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST
+ *
+ * Stores the recording of a user message. Responds with 201 { stored: true, id }, or 200
+ * { stored: false } when the message already has one; 400 for a bad form, 401 if not
+ * authenticated, 413 for oversized files and 503 while audio storage is disabled.
+ */
+export async function POST(req: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!getAudioStorage()) {
+    return NextResponse.json(
+      { error: "Audio storage is disabled" },
+      { status: 503 },
+    );
+  }
+
+  try {
+    const form = await req.formData();
+    const file = form.get("file");
+    const messageId = form.get("message_id");
+
+    if (
+      !(file instanceof File) ||
+      !file.type.startsWith("audio/") ||
+      !isMessageId(messageId)
+    ) {
+      return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+    }
+    if (file.size > MAX_CLIP_BYTES) {
+      return NextResponse.json({ error: "File too large" }, { status: 413 });
+    }
+
+    const id = await storeClip({
+      userId: session.user.id,
+      messageId,
+      kind: "user",
+      data: new Uint8Array(await file.arrayBuffer()),
+      contentType: file.type,
+    });
+
+    return id
+      ? NextResponse.json({ stored: true, id }, { status: 201 })
+      : NextResponse.json({ stored: false });
+  } catch (error) {
+    console.error("Error storing recording:", error);
+    return NextResponse.json(
+      { error: "Failed to store recording" },
+      { status: 500 },
+    );
+  }
+}
@@ -4,14 +4,15 @@
  * Summary:
  * Handles the /api/chat POST route. Validates incoming chat requests, resolves the
  * requested responder configuration from the database, assembles the payload for the
- * upstream Apipie chat completions endpoint, and proxies a streaming response back to the client.
+ * responder's upstream provider (APIpie, OpenAI-compatible or Ollama), and proxies a streaming
+ * response back to the client.
  *
  * Responsibilities:
  * - Authenticate the request (session-based).
  * - Validate and normalize input using Zod.
- * - Look up the responder by name and apply its model and defaults.
- * - Decrypt and select the appropriate Apipie API key (user-specific or system-wide).
- * - Forward a streaming chat completion request to the Apipie API and convert the response
+ * - Look up the responder by name (caller's own first, then system) and apply its model and defaults.
+ * - Resolve the responder's provider (including API key selection) via resolveProvider.
+ * - Forward a streaming chat completion request to that provider and convert the response
  *   into a text/event-stream for the client using createResponseStream.
  * - Surface API and internal errors as JSON responses (non-streaming) when necessary.
  *
@@ -31,17 +32,31 @@
  *   Events (SSE) response. Consumers must handle streaming message assembly.
  * - The handler requires a responder entry to exist in the database. Missing responders are
  *   treated as server errors and returned as a 500 with a descriptive message.
- * - API keys may be stored per-user (encrypted) or provided by the system; the encrypted key
- *   is decrypted via decryptApiKey before use.
+ * - API keys may be stored per-user (encrypted) or provided by the system; key selection and
+ *   provider-specific request shaping live in src/server/providers.
+ * - Sampling settings the chosen model does not accept are left out of the upstream request
+ *   instead of being sent (reasoning models reject temperature with a 400); see
+ *   src/lib/utils/sampling.ts.
+ * - Memory flags (memory, mem_clear, short_mem, ...) are APIpie features; other providers
+ *   ignore them.
+ * - Without memory, conversation continuity comes from the `history` window the client sends;
+ *   token counts for truncation are estimates (see _utils/history.ts).
+ * - The upstream request is tied to the client's request: when the client aborts (stop button,
+ *   barge-in) the upstream fetch is aborted via request.signal and createResponseStream
+ *   cancels the upstream reader, so the provider stops generating.
  * - This module intentionally keeps request validation and response streaming logic here;
  *   heavier business rules belong in upstream helpers or services if expanded.
  */
 import { NextResponse } from "next/server";
-import { db } from "../../../server/db";
 import { z } from "zod";
-import { decryptApiKey } from "../../../lib/utils/crypto";
 import { createResponseStream } from "../_utils/stream";
+import { buildHistoryWindow, estimatePromptTokens } from "../_utils/history";
 import { auth } from "../../../server/auth";
+import { resolveProvider } from "../../../server/providers";
+import { findResponder } from "../../../server/responders";
+import { responderSampling, toSamplingOptions } from "~/lib/utils/sampling";
+
+const DEFAULT_TEMPERATURE = 0.6;
 
 const bodySchema = z.object({
   text: z.string().min(1).optional(),
@@ -53,6 +68,14 @@ const bodySchema = z.object({
       }),
     )
     .optional(),
+  history: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string(),
+      }),
+    )
+    .optional(),
   promptName: z.string().optional().default("General"),
   memory: z.boolean().optional().default(false),
   mem_clear: z.boolean().optional().default(false),
@@ -76,6 +99,7 @@ const bodySchema = z.object({
  * - Expects a JSON body matching `bodySchema`:
  *   - text?: string
  *   - messages?: { role: "system" | "user" | "assistant", content: string }[]
+ *   - history?: { role: "user" | "assistant", content: string }[] (prior turns, oldest first)
  *   - promptName?: string (defaults to "General")
  *   - memory?: boolean
  *   - mem_clear?: boolean
@@ -88,11 +112,19 @@ const bodySchema = z.object({
  * Behavior:
  * - Authenticates the caller using `auth()`. Returns 401 if unauthenticated.
  * - Parses and validates the request body with Zod.
- * - Looks up the responder (by promptName) in the database and uses its model and defaults.
- * - Resolves an Apipie API key (user-specific encrypted key or fallback system key).
- * - Calls the Apipie chat completions endpoint with `stream: true` and proxies the streaming
+ * - Looks up the responder (by promptName) via findResponder, preferring the caller's own
+ *   responder over a system responder of the same name, and uses its model and defaults.
+ * - When `messages` is not given, builds [system, ...history, user] via buildHistoryWindow,
+ *   trimming the oldest turns to fit the responder's context_tokens minus max_tokens.
+ *   History is ignored when APIpie memory is on, since the memory service already
+ *   injects prior context.
+ * - Resolves the responder's upstream provider and its API key.
+ * - Adds the responder's sampling settings (temperature, top_p, penalties, stop, seed,
+ *   reasoning_effort) that its model accepts; temperature defaults to 0.6.
+ * - Calls the provider's chat completion with streaming enabled and proxies the streaming
  *   response back to the client as `text/event-stream`. Usage metadata (when present) is
- *   captured by createResponseStream and emitted in the stream.
+ *   captured by createResponseStream and emitted in the stream; the stream also starts with
+ *   an estimate of the prompt tokens (usage_estimate) so a reply stopped early can be counted.
  * - On upstream API failures returns a JSON error with the upstream status code.
  * - Logs unexpected errors and returns a 500 JSON error response.
  *
@@ -119,20 +151,14 @@ export async function POST(request: Request) {
     const {
       text,
       messages,
+      history,
       promptName,
       memory,
       web_search_options,
       mem_clear,
     } = parsed;
 
-    const responder = await db.responders.findUnique({
-      where: {
-        responder: {
-          owner: "system",
-          name: promptName,
-        },
-      },
-    });
+    const responder = await findResponder(promptName, session.user.id);
 
     if (!responder) {
       return NextResponse.json(
@@ -141,49 +167,41 @@ export async function POST(request: Request) {
       );
     }
 
-    let apipieApiKey = process.env.APIPIE_API_KEY ?? "";
-    const user = await db.user.findUnique({ where: { id: session.user.id } });
-    const encryptedKey = user?.apipie_key;
+    const provider = await resolveProvider(responder.provider, session.user.id);
+    if (provider instanceof NextResponse) return provider;
 
-    if (encryptedKey) {
-      const decrypted = decryptApiKey(encryptedKey);
-      if (typeof decrypted !== "string") return decrypted;
-      apipieApiKey = decrypted;
-    }
+    const maxTokens = responder.max_tokens ?? 300;
+    const sampling = responderSampling(responder);
 
-    if (!apipieApiKey) {
-      return NextResponse.json(
-        { error: "APIpie API key not configured" },
-        { status: 500 },
-      );
-    }
+    const prompt =
+      messages ??
+      buildHistoryWindow({
+        system: responder.prompt,
+        history: memory ? [] : (history ?? []),
+        text: text ?? "",
+        contextTokens: responder.context_tokens,
+        replyTokens: maxTokens,
+      });
 
-    const baseUrl = process.env.APIPIE_BASE_URL ?? "https://apipie.ai";
-    const chatResponse = await fetch(`${baseUrl}/v1/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apipieApiKey}`,
-      },
-      body: JSON.stringify({
-        model: responder.model,
-        messages: messages ?? [
-          { role: "system", content: responder.prompt },
-          { role: "user", content: text ?? "" },
-        ],
-        ...(web_search_options && { web_search_options }),
-        ...(memory && { memory: true }),
-        ...(mem_clear && { mem_clear: true }),
-        user: session.user.id,
-        ...(parsed.short_mem !== undefined && { short_mem: parsed.short_mem }),
-        ...(parsed.long_mem !== undefined && { long_mem: parsed.long_mem }),
-        ...(parsed.mem_expire !== undefined && {
+    const chatResponse = await provider.chatCompletion({
+      model: responder.model,
+      messages: prompt,
+      ...(web_search_options && { web_search_options }),
+      ...(memory && {
+        memory: {
+          mem_clear,
+          short_mem: parsed.short_mem,
+          long_mem: parsed.long_mem,
           mem_expire: parsed.mem_expire,
-        }),
-        stream: true,
-        temperature: 0.6,
-        max_tokens: responder.max_tokens ?? 300,
+        },
+      }),
+      ...toSamplingOptions(responder.model, {
+        ...sampling,
+        temperature: sampling.temperature ?? DEFAULT_TEMPERATURE,
       }),
+      user: session.user.id,
+      max_tokens: maxTokens,
+      signal: request.signal,
     });
 
     if (!chatResponse.ok) {
@@ -195,7 +213,10 @@ export async function POST(request: Request) {
       );
     }
 
-    const stream = createResponseStream(chatResponse);
+    const stream = createResponseStream(
+      chatResponse,
+      estimatePromptTokens(prompt),
+    );
 
     return new Response(stream, {
       headers: {
@@ -205,6 +226,9 @@ export async function POST(request: Request) {
       },
     });
   } catch (error) {
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
     console.error("Chat completion error:", error);
     return NextResponse.json(
       { error: "Internal server error" },
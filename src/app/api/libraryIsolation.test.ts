@@ -0,0 +1,638 @@
+// src/app/api/libraryIsolation.test.ts
+//
+// Integration tests for the Library routes (transcripts, drafts, notes, versions, trash): a
+// signed-in user can never list, read, change or delete another user's rows, and rows in the
+// trash (deleted_at set) stay out of the routes that only serve live transcripts.
+// The database is an in-memory stand-in for the queries these routes run. It applies `where`
+// like Prisma on MySQL: update, delete and findUnique need the unique id, a miss throws P2025,
+// filters it does not know throw, and writes run only when awaited or inside $transaction.
+
+import { Prisma } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+type Order = Record<string, "asc" | "desc">;
+type Query = {
+  where?: Where;
+  data?: Row;
+  select?: Record<string, boolean>;
+  orderBy?: Order | Order[];
+  cursor?: { id: string };
+  skip?: number;
+  take?: number;
+};
+type Pending<T> = PromiseLike<T> & { run: () => T };
+
+let currentUser = "bob";
+let tables: Record<string, Row[]> = {};
+
+// Column defaults from prisma/schema.prisma.
+const DEFAULTS: Record<string, () => Row> = {
+  library: () => ({
+    type: "transcript",
+    responder: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    message_count: 0,
+    search_text: null,
+    source_id: null,
+    source_message_id: null,
+    version: 1,
+    deleted_at: null,
+    messages_deleted_at: null,
+  }),
+  libraryVersion: () => ({ message_count: 0, created_at: new Date() }),
+};
+
+const UNIQUE: Record<string, string[][]> = {
+  library: [["id"]],
+  libraryVersion: [["id"], ["library_id", "version"]],
+  audioClip: [["id"]],
+};
+
+function knownError(code: string): Prisma.PrismaClientKnownRequestError {
+  return new Prisma.PrismaClientKnownRequestError(code, {
+    code,
+    clientVersion: Prisma.prismaVersion.client,
+  });
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+// One column condition: a plain value (null included) or the filter operators the routes use.
+// Comparisons with NULL are never true, as in SQL; `contains` ignores case like MySQL's
+// default collation. `search` is boolean-mode FULLTEXT over (title, search_text), the one
+// index it can use, so every "+word*" must start a word in either column.
+function matchesField(value: unknown, condition: unknown, row: Row): boolean {
+  if (condition === undefined) return true;
+  if (
+    condition === null ||
+    typeof condition !== "object" ||
+    condition instanceof Date
+  ) {
+    return comparable(value) === comparable(condition);
+  }
+  const actual = comparable(value) as number | string | null;
+  return Object.entries(condition).every(([operator, operand]) => {
+    if (operand === undefined) return true;
+    const expected = comparable(operand) as number | string | null;
+    if (operator === "not") {
+      return actual !== null && (expected === null || actual !== expected);
+    }
+    if (operator === "search") {
+      const text = `${row.title as string} ${(row.search_text as string | null) ?? ""}`;
+      return (operand as string)
+        .split(" ")
+        .map((word) => word.replace(/^\+|\*$/g, ""))
+        .every((word) => new RegExp(`\\b${word}`, "i").test(text));
+    }
+    if (actual === null) return false;
+    switch (operator) {
+      case "in":
+        return (operand as unknown[]).map(comparable).includes(actual);
+      case "lt":
+        return expected !== null && actual < expected;
+      case "lte":
+        return expected !== null && actual <= expected;
+      case "gte":
+        return expected !== null && actual >= expected;
+      case "contains":
+        return String(actual)
+          .toLowerCase()
+          .includes((operand as string).toLowerCase());
+      default:
+        throw new Error(`Unsupported filter: ${operator}`);
+    }
+  });
+}
+
+function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === "AND")
+      return (condition as Where[]).every((w) => matches(row, w));
+    if (key === "OR")
+      return (condition as Where[]).some((w) => matches(row, w));
+    if (!(key in row) && condition !== undefined) {
+      throw new Error(`Unknown column: ${key}`);
+    }
+    return matchesField(row[key], condition, row);
+  });
+}
+
+function pick(row: Row, select?: Record<string, boolean>): Row {
+  if (!select) return { ...row };
+  return Object.fromEntries(
+    Object.keys(select)
+      .filter((key) => select[key])
+      .map((key) => [key, row[key]]),
+  );
+}
+
+function findMany(table: string, query: Query = {}): Row[] {
+  let rows = tables[table]!.filter((row) => matches(row, query.where));
+  const orders = [query.orderBy ?? []].flat();
+  rows.sort((a, b) => {
+    for (const order of orders) {
+      const [field, direction] = Object.entries(order)[0]!;
+      const x = comparable(a[field]) as number | string;
+      const y = comparable(b[field]) as number | string;
+      if (x !== y) return (x < y ? -1 : 1) * (direction === "asc" ? 1 : -1);
+    }
+    return 0;
+  });
+  if (query.cursor) {
+    const start = rows.findIndex((row) => row.id === query.cursor!.id);
+    rows = start === -1 ? [] : rows.slice(start);
+  }
+  rows = rows.slice(query.skip ?? 0);
+  if (query.take !== undefined) rows = rows.slice(0, query.take);
+  return rows.map((row) => pick(row, query.select));
+}
+
+// WhereUniqueInput: the id is required, other columns only narrow the match.
+function findUnique(table: string, where: Where = {}): Row | undefined {
+  if (typeof where.id !== "string") {
+    throw new Error(`${table}: where needs the unique id`);
+  }
+  return tables[table]!.find((row) => matches(row, where));
+}
+
+function create(table: string, data: Row): Row {
+  const row = { ...DEFAULTS[table]?.(), ...data };
+  const taken = UNIQUE[table]!.some((columns) =>
+    tables[table]!.some((existing) =>
+      columns.every((column) => existing[column] === row[column]),
+    ),
+  );
+  if (taken) throw knownError("P2002");
+  tables[table]!.push(row);
+  return row;
+}
+
+function deleteMany(table: string, where?: Where): number {
+  const before = tables[table]!.length;
+  tables[table] = tables[table]!.filter((row) => !matches(row, where));
+  return before - tables[table].length;
+}
+
+// Like a PrismaPromise: nothing runs until it is awaited or passed to $transaction.
+function pending<T>(run: () => T): Pending<T> {
+  return {
+    run,
+    then(onFulfilled, onRejected) {
+      return new Promise<T>((resolve) => resolve(run())).then(
+        onFulfilled,
+        onRejected,
+      );
+    },
+  };
+}
+
+function model(table: string) {
+  return {
+    findMany: (query?: Query) => pending(() => findMany(table, query)),
+    findFirst: (query?: Query) =>
+      pending(() => findMany(table, { ...query, take: 1 })[0] ?? null),
+    findUnique: (query: Query) =>
+      pending(() => {
+        const row = findUnique(table, query.where);
+        return row ? pick(row, query.select) : null;
+      }),
+    create: (query: Query) =>
+      pending(() => pick(create(table, query.data!), query.select)),
+    update: (query: Query) =>
+      pending(() => {
+        const row = findUnique(table, query.where);
+        if (!row) throw knownError("P2025");
+        const touched = table === "library" ? { updated_at: new Date() } : {};
+        Object.assign(row, touched, query.data);
+        return pick(row, query.select);
+      }),
+    delete: (query: Query) =>
+      pending(() => {
+        const row = findUnique(table, query.where);
+        if (!row) throw knownError("P2025");
+        tables[table] = tables[table]!.filter((r) => r !== row);
+        return row;
+      }),
+    deleteMany: (query?: Query) =>
+      pending(() => ({ count: deleteMany(table, query?.where) })),
+  };
+}
+
+vi.mock("~/server/auth", () => ({
+  auth: async () => ({ user: { id: currentUser } }),
+}));
+
+vi.mock("~/server/db", () => ({
+  db: {
+    library: model("library"),
+    libraryVersion: model("libraryVersion"),
+    audioClip: model("audioClip"),
+    // The only raw query is the list preview (loadSummaryTexts). Its `user_id = ? AND id IN (…)`
+    // filter is applied; head and length come back, hit and around stay NULL (no snippets).
+    $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const query = Prisma.sql(strings, ...(values as Prisma.Sql[]));
+      const filter = /WHERE user_id = \? AND id IN \([?, ]+\)\s*$/.exec(
+        query.sql,
+      );
+      if (!filter) throw new Error(`Unsupported raw query: ${query.sql}`);
+      const at = query.sql.slice(0, filter.index).split("?").length - 1;
+      const [userId, ...ids] = query.values.slice(at);
+      return tables
+        .library!.filter(
+          (row) => row.user_id === userId && ids.includes(row.id),
+        )
+        .map((row) => ({
+          id: row.id,
+          head: row.search_text,
+          hit: null,
+          around: null,
+          length: (row.search_text as string | null)?.length ?? null,
+        }));
+    },
+    // All or nothing: a failing query rolls back the ones before it.
+    $transaction: async (queries: Pending<unknown>[]) => {
+      const before = structuredClone(tables);
+      try {
+        return queries.map((query) => query.run());
+      } catch (error) {
+        tables = before;
+        throw error;
+      }
+    },
+  },
+}));
+
+const transcripts = await import("./transcripts/route");
+const transcript = await import("./transcripts/[id]/route");
+const exportRoute = await import("./transcripts/[id]/export/route");
+const versions = await import("./transcripts/[id]/versions/route");
+const version = await import("./transcripts/[id]/versions/[version]/route");
+const restore = await import("./transcripts/[id]/restore/route");
+const summarize = await import("./transcripts/[id]/summarize/route");
+const trash = await import("./transcripts/trash/route");
+const draft = await import("./transcripts/draft/route");
+const save = await import("./transcript/save/route");
+const notes = await import("./notes/route");
+const note = await import("./notes/[id]/route");
+
+const ALICE_DRAFT = "00000000-0000-4000-8000-00000000a11c";
+const DELETED_AT = new Date(Date.now() - 60_000);
+const ALICE_MESSAGES = JSON.stringify([
+  { id: "m1", parentId: null, role: "user", content: "secret", active: true },
+  {
+    id: "m2",
+    parentId: "m1",
+    role: "assistant",
+    content: "hidden",
+    active: false,
+    deletedAt: DELETED_AT.toISOString(),
+  },
+]);
+
+function library(id: string, userId: string, extra: Row = {}): Row {
+  return {
+    ...DEFAULTS.library!(),
+    id,
+    user_id: userId,
+    title: `${userId} ${id}`,
+    messages_json: ALICE_MESSAGES,
+    search_text: "secret",
+    message_count: 1,
+    messages_deleted_at: DELETED_AT,
+    ...extra,
+  };
+}
+
+function aliceRow(id: string): Row {
+  return tables.library!.find((row) => row.id === id)!;
+}
+
+const url = (path: string) => `http://localhost${path}`;
+const get = (path: string) => new Request(url(path));
+const send = (path: string, method: string, body?: unknown) =>
+  new Request(url(path), {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+const params = <T extends Record<string, string>>(value: T) => ({
+  params: Promise.resolve(value),
+});
+
+async function idsOf(response: Response): Promise<string[]> {
+  const body = (await response.json()) as { items: { id: string }[] };
+  return body.items.map((item) => item.id);
+}
+
+beforeEach(() => {
+  currentUser = "bob";
+  const trashedAt = new Date(Date.now() - 60_000);
+  const empty = { messages_json: "[]", messages_deleted_at: null };
+  tables = {
+    library: [
+      library("a-live", "alice", { version: 2 }),
+      library("a-trashed", "alice", { deleted_at: trashedAt }),
+      library("a-note", "alice", { type: "note", source_id: "a-live" }),
+      library(ALICE_DRAFT, "alice", { type: "draft" }),
+      library("b-live", "bob", { ...empty, search_text: null }),
+      library("b-trashed", "bob", { ...empty, deleted_at: trashedAt }),
+    ],
+    libraryVersion: [
+      {
+        id: "a-live-v1",
+        library_id: "a-live",
+        user_id: "alice",
+        version: 1,
+        title: "alice old",
+        responder: null,
+        message_count: 1,
+        messages_json: ALICE_MESSAGES,
+        created_at: new Date(),
+      },
+    ],
+    audioClip: [],
+  };
+});
+
+describe("Library routes list only the user's own rows", () => {
+  it("transcripts", async () => {
+    const response = await transcripts.GET(get("/api/transcripts"));
+
+    expect(await idsOf(response)).toEqual(["b-live"]);
+  });
+
+  it("transcripts matching a search for another user's text", async () => {
+    const response = await transcripts.GET(get("/api/transcripts?q=secret"));
+
+    expect(await idsOf(response)).toEqual([]);
+  });
+
+  it("notes, including those about another user's transcript", async () => {
+    expect(await idsOf(await notes.GET(get("/api/notes")))).toEqual([]);
+    expect(
+      await idsOf(await notes.GET(get("/api/notes?source_id=a-live"))),
+    ).toEqual([]);
+  });
+
+  it("trash, including deleted messages", async () => {
+    const response = await trash.GET();
+    const body = (await response.json()) as {
+      items: { id: string }[];
+      messages: unknown[];
+    };
+
+    expect(body.items.map((item) => item.id)).toEqual(["b-trashed"]);
+    expect(body.messages).toEqual([]);
+  });
+
+  it("the latest draft", async () => {
+    expect((await draft.GET()).status).toBe(404);
+  });
+});
+
+describe("Library routes answer 404 for another user's rows", () => {
+  it.each([
+    ["a transcript", () => transcript.GET(get("/"), params({ id: "a-live" }))],
+    [
+      "a transcript export",
+      () => exportRoute.GET(get("/?format=md"), params({ id: "a-live" })),
+    ],
+    [
+      "a transcript's versions",
+      () => versions.GET(get("/"), params({ id: "a-live" })),
+    ],
+    [
+      "a version",
+      () => version.GET(get("/"), params({ id: "a-live", version: "1" })),
+    ],
+    ["a note", () => note.GET(get("/"), params({ id: "a-note" }))],
+    [
+      "a summary request",
+      () => summarize.POST(send("/", "POST", {}), params({ id: "a-live" })),
+    ],
+  ])("reading %s", async (_, request) => {
+    expect((await request()).status).toBe(404);
+  });
+
+  it.each([
+    [
+      "saving over a transcript",
+      () =>
+        save.POST(
+          send("/api/transcript/save", "POST", {
+            id: "a-live",
+            title: "mine now",
+            messages: [],
+          }),
+        ),
+    ],
+    [
+      "restoring a version",
+      () => version.POST(get("/"), params({ id: "a-live", version: "1" })),
+    ],
+    [
+      "restoring a trashed transcript",
+      () => restore.POST(send("/", "POST"), params({ id: "a-trashed" })),
+    ],
+    [
+      "restoring a deleted message",
+      () =>
+        restore.POST(
+          send("/", "POST", { message_id: "m2" }),
+          params({ id: "a-live" }),
+        ),
+    ],
+    [
+      "editing a note",
+      () =>
+        note.PATCH(
+          send("/", "PATCH", { content: "mine now" }),
+          params({ id: "a-note" }),
+        ),
+    ],
+    [
+      "deleting a note",
+      () => note.DELETE(send("/", "DELETE"), params({ id: "a-note" })),
+    ],
+    [
+      "trashing a transcript",
+      () => transcripts.DELETE(send("/api/transcripts?id=a-live", "DELETE")),
+    ],
+    [
+      "autosaving into a draft",
+      () =>
+        draft.PUT(
+          send("/api/transcripts/draft", "PUT", {
+            id: ALICE_DRAFT,
+            title: "mine now",
+            messages: [{ role: "user", content: "mine now" }],
+          }),
+        ),
+    ],
+    [
+      "linking a draft to a transcript",
+      () =>
+        draft.PUT(
+          send("/api/transcripts/draft", "PUT", {
+            id: crypto.randomUUID(),
+            title: "mine now",
+            messages: [{ role: "user", content: "mine now" }],
+            transcript_id: "a-live",
+          }),
+        ),
+    ],
+  ])("%s, leaving the rows untouched", async (_, request) => {
+    const before = structuredClone(tables);
+
+    expect((await request()).status).toBe(404);
+    expect(tables).toEqual(before);
+  });
+});
+
+describe("Library routes never write into another user's rows", () => {
+  it("purging from the trash skips another user's transcripts and messages", async () => {
+    const response = await trash.DELETE(
+      send("/api/transcripts/trash?id=a-trashed&message=a-live/m2", "DELETE"),
+    );
+
+    expect(await response.json()).toMatchObject({
+      purged: 0,
+      purged_messages: 0,
+    });
+    expect(aliceRow("a-trashed")).toBeDefined();
+    expect(aliceRow("a-live").messages_json).toBe(ALICE_MESSAGES);
+  });
+
+  it("emptying the trash only purges the user's own", async () => {
+    const response = await trash.DELETE(
+      send("/api/transcripts/trash", "DELETE"),
+    );
+
+    expect(await response.json()).toMatchObject({ purged: 1 });
+    expect(tables.library!.map((row) => row.id)).not.toContain("b-trashed");
+    expect(aliceRow("a-trashed")).toBeDefined();
+    expect(tables.libraryVersion).toHaveLength(1);
+  });
+
+  it("a note cannot be attached to another user's transcript", async () => {
+    const response = await notes.POST(
+      send("/api/notes", "POST", { content: "note", source_id: "a-live" }),
+    );
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ source_id: null });
+  });
+});
+
+describe("Library routes keep trashed transcripts out of live operations", () => {
+  beforeEach(() => {
+    currentUser = "alice";
+  });
+
+  it("the list leaves them out", async () => {
+    const response = await transcripts.GET(get("/api/transcripts?q=secret"));
+    const body = (await response.json()) as {
+      items: { id: string; preview: string }[];
+    };
+
+    expect(body.items).toEqual([
+      expect.objectContaining({ id: "a-live", preview: "secret" }),
+    ]);
+  });
+
+  it.each([
+    ["reading", () => transcript.GET(get("/"), params({ id: "a-trashed" }))],
+    [
+      "exporting",
+      () => exportRoute.GET(get("/?format=md"), params({ id: "a-trashed" })),
+    ],
+    [
+      "listing versions",
+      () => versions.GET(get("/"), params({ id: "a-trashed" })),
+    ],
+    [
+      "saving",
+      () =>
+        save.POST(
+          send("/api/transcript/save", "POST", {
+            id: "a-trashed",
+            title: "edited",
+            messages: [],
+          }),
+        ),
+    ],
+    [
+      "trashing again",
+      () => transcripts.DELETE(send("/api/transcripts?id=a-trashed", "DELETE")),
+    ],
+  ])("%s answers 404", async (_, request) => {
+    const before = structuredClone(tables);
+
+    expect((await request()).status).toBe(404);
+    expect(tables).toEqual(before);
+  });
+
+  it("restoring only applies to transcripts in the trash", async () => {
+    const live = await restore.POST(
+      send("/", "POST"),
+      params({ id: "a-live" }),
+    );
+    const trashed = await restore.POST(
+      send("/", "POST"),
+      params({ id: "a-trashed" }),
+    );
+
+    expect(live.status).toBe(404);
+    expect(trashed.status).toBe(200);
+    expect(aliceRow("a-trashed").deleted_at).toBeNull();
+  });
+
+  it("purging only applies to transcripts in the trash", async () => {
+    const response = await trash.DELETE(
+      send("/api/transcripts/trash?id=a-live", "DELETE"),
+    );
+
+    expect(await response.json()).toMatchObject({ purged: 0 });
+    expect(aliceRow("a-live")).toBeDefined();
+  });
+});
+
+describe("Purging a deleted message", () => {
+  beforeEach(() => {
+    currentUser = "alice";
+  });
+
+  const purge = () =>
+    trash.DELETE(send("/api/transcripts/trash?message=a-live/m2", "DELETE"));
+
+  it("removes it from the transcript and its versions and raises the version", async () => {
+    expect(await (await purge()).json()).toMatchObject({ purged_messages: 1 });
+
+    const row = aliceRow("a-live");
+    expect(row.messages_json).not.toContain('"m2"');
+    expect(row.messages_deleted_at).toBeNull();
+    expect(row.version).toBe(3);
+    expect(tables.libraryVersion![0]!.messages_json).not.toContain('"m2"');
+    expect(await idsOf(await trash.GET())).toEqual(["a-trashed"]);
+  });
+
+  it("leaves a transcript saved meanwhile alone", async () => {
+    // A save lands between the purge reading the transcript and writing it.
+    const { db } = await import("~/server/db");
+    const findVersions = db.libraryVersion.findMany.bind(db.libraryVersion);
+    vi.spyOn(db.libraryVersion, "findMany").mockImplementationOnce((query) => {
+      aliceRow("a-live").version = 3;
+      return findVersions(query);
+    });
+
+    expect(await (await purge()).json()).toMatchObject({ purged_messages: 0 });
+    expect(aliceRow("a-live")).toMatchObject({
+      messages_json: ALICE_MESSAGES,
+      version: 3,
+    });
+  });
+});
@@ -2,7 +2,7 @@
 src/app/api/models/route.ts
 
 Summary:
-API route for fetching available AI models, voice-capable models, and concrete voice entries from the apipie.ai backend. Handles query parameters to filter by type, provider, or request voice entries, and returns normalized model or voice data for use in the responder editing UI.
+API route for fetching available AI models, voice-capable models, and concrete voice entries from an upstream provider (APIpie by default). Handles query parameters to filter by type, provider, or request voice entries, and returns normalized model or voice data for use in the responder editing UI.
 
 Imports to:
 - Used internally by Next.js API routing.
@@ -14,7 +14,8 @@ Exports used by:
 - src/components/bottomBar/hooks/useResponderModels.ts
 
 Nuances:
-- The endpoint dynamically builds the backend API URL based on query parameters (?type, ?provider, ?voices).
+- ?source selects the upstream provider (apipie, openai, ollama); voice queries fall back to the default provider when the source has no speech support.
+- The provider builds the backend request from the remaining query parameters (?type, ?provider, ?voices).
 - Handles and normalizes error responses from the backend, returning appropriate HTTP status codes and error messages.
 - Expects the backend to return a JSON object with a "data" property; returns only the "data" field to the client.
 - Uses zod for query validation and returns 400 on validation errors.
@@ -22,20 +23,19 @@ Nuances:
 
 import { NextResponse } from "next/server";
 import { z } from "zod";
-
-const baseUrl = process.env.APIPIE_BASE_URL ?? "https://apipie.ai";
-const apiKey = process.env.APIPIE_API_KEY;
+import { resolveProvider } from "~/server/providers";
 
 const querySchema = z.object({
   type: z.enum(["voice", "llm"]).optional(),
   provider: z.string().optional(),
   voices: z.string().optional(),
+  source: z.string().optional(),
 });
 
 /**
  * GET
- * Handles GET requests to /api/models. Validates query parameters, builds the appropriate backend API endpoint,
- * fetches model or voice data from apipie.ai, and returns the normalized result or error.
+ * Handles GET requests to /api/models. Validates query parameters, resolves the requested provider,
+ * fetches model or voice data from it, and returns the normalized result or error.
  */
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -44,22 +44,17 @@ export async function GET(request: Request) {
   try {
     const validated = querySchema.parse(query);
 
-    let endpoint = "/v1/models";
-
-    if ("voices" in validated) {
-      endpoint = "/v1/models?voices";
-    } else if (validated.type) {
-      endpoint += `?type=${validated.type}`;
-    } else if (validated.provider === "pool") {
-      endpoint += `?provider=pool`;
-    }
-
-    const url = `${baseUrl}${endpoint}`;
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
+    const wantsVoices = "voices" in validated;
+    const provider =
+      wantsVoices || validated.type === "voice"
+        ? await resolveProvider(validated.source, undefined, "synthesizeSpeech")
+        : await resolveProvider(validated.source);
+    if (provider instanceof NextResponse) return provider;
+
+    const response = await provider.listModels({
+      type: validated.type,
+      provider: validated.provider,
+      voices: wantsVoices,
     });
 
     if (!response.ok) {
@@ -0,0 +1,154 @@
+/*
+src/app/api/notes/[id]/route.ts
+
+Summary:
+API route for a single note. GET returns it, PATCH changes its title and/or content and DELETE
+removes it, always only when the note belongs to the authenticated user.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function GET(req: Request, context: RouteContext)
+- export async function PATCH(req: Request, context: RouteContext)
+- export async function DELETE(req: Request, context: RouteContext)
+
+Exports used by:
+- src/components/notes/hooks/useNotes.ts (edit and delete on the notes page)
+
+Nuances:
+- Lookups are scoped to the session user (user_id) and type "note"; another user's note
+  answers 404 exactly like a missing one.
+- Editing the content keeps the note's role and original timestamp and refreshes search_text.
+  The link to the source transcript cannot be changed.
+*/
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import { toNoteMessages, toNoteResponse } from "../../_utils/notes";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const updateSchema = z
+  .object({
+    title: z.string().trim().min(1).max(255).optional(),
+    content: z.string().trim().min(1).max(100_000).optional(),
+  })
+  .refine((b) => b.title !== undefined || b.content !== undefined);
+
+/**
+ * findNote
+ *
+ * Loads the user's note with the given id, or null.
+ */
+function findNote(id: string, userId: string) {
+  return db.library.findFirst({
+    where: { id, type: "note", user_id: userId },
+  });
+}
+
+/**
+ * GET
+ *
+ * Returns the note with the given id for the authenticated user.
+ * Returns 401 if not authenticated or 404 if no such note is owned by the user.
+ */
+export async function GET(_req: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const note = await findNote(id, session.user.id);
+  if (!note) {
+    return NextResponse.json({ error: "Note not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(toNoteResponse(note));
+}
+
+/**
+ * PATCH
+ *
+ * Updates the title and/or content of the user's note and returns the updated note.
+ * Returns 400 for an invalid payload, 401 if not authenticated or 404 if not found.
+ */
+export async function PATCH(req: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: z.infer<typeof updateSchema>;
+  try {
+    body = updateSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  try {
+    const note = await findNote(id, session.user.id);
+    if (!note) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
+    const current = toNoteResponse(note);
+    const updated = await db.library.update({
+      where: { id: note.id },
+      data: {
+        ...(body.title !== undefined && { title: body.title }),
+        ...(body.content !== undefined && {
+          messages_json: JSON.stringify(
+            toNoteMessages(body.content, current.role, note.created_at),
+          ),
+          search_text: body.content,
+        }),
+        updated_at: new Date(),
+      },
+    });
+
+    return NextResponse.json(toNoteResponse(updated));
+  } catch (error) {
+    console.error("Error updating note:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE
+ *
+ * Deletes the user's note. Returns 401 if not authenticated, 404 if not found or
+ * 200 on success.
+ */
+export async function DELETE(_req: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const note = await findNote(id, session.user.id);
+    if (!note) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
+    await db.library.delete({ where: { id: note.id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting note:", error);
+    return NextResponse.json(
+      { error: "Failed to delete note" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,184 @@
+/*
+src/app/api/notes/route.ts
+
+Summary:
+API route for the signed-in user's notes (Library rows of type "note"). GET searches and pages
+through notes; POST creates one, optionally linked to the transcript and message it was taken
+from. A single note is read, edited or deleted through /api/notes/[id].
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side hooks.
+
+Exports:
+- export async function GET(req: Request)
+- export async function POST(req: Request)
+
+Exports used by:
+- src/components/notes/hooks/useNotes.ts (notes page: list, search, create)
+- src/components/notes/hooks/saveNote.ts (chat page: save a bubble or selection as a note)
+
+Nuances:
+- Notes are stored like one-message transcripts (see _utils/notes), so search works the same
+  way as for transcripts: every term must occur in the title or search_text.
+- POST links a note to its transcript by `source_id` (the chat page sends the id of the
+  transcript the chat was saved as or reloaded from) or by `transcript_title`, which picks the
+  most recently updated transcript of that name. Either must name a transcript of the same
+  user; an unknown one just leaves the note unlinked.
+- Dictated notes are created from text transcribed by /api/transcribe; nothing here calls the LLM.
+- Both handlers require authentication and only see notes owned by the authenticated user.
+*/
+
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { z } from "zod";
+import { auth } from "~/server/auth";
+import { toNoteMessages, toNoteResponse, toNoteTitle } from "../_utils/notes";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_TERMS = 8;
+
+const querySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  source_id: z.string().max(36).optional(),
+  cursor: z.string().max(36).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT),
+});
+
+const createSchema = z.object({
+  content: z.string().trim().min(1).max(100_000),
+  title: z.string().trim().max(255).optional(),
+  role: z.enum(["user", "assistant"]).default("user"),
+  responder: z.string().max(100).optional(),
+  source_id: z.string().max(36).optional(),
+  transcript_title: z.string().max(255).optional(),
+  source_message_id: z.string().max(64).optional(),
+});
+
+const NOTE_SELECT = {
+  id: true,
+  title: true,
+  responder: true,
+  created_at: true,
+  updated_at: true,
+  messages_json: true,
+  source_id: true,
+  source_message_id: true,
+} as const;
+
+/**
+ * GET
+ *
+ * Returns a page of the authenticated user's notes, most recently updated first.
+ * Query parameters (all optional):
+ * - q: search text; every term must occur in the title or content
+ * - source_id: only notes taken from this transcript
+ * - cursor: nextCursor from the previous page; limit: page size (1–100, default 20)
+ * Responds with { items, nextCursor }, 400 for invalid parameters or 401 if not authenticated.
+ */
+export async function GET(req: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const parsed = querySchema.safeParse(
+    Object.fromEntries([...searchParams].filter(([, value]) => value !== "")),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid query", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { q, source_id, cursor, limit } = parsed.data;
+  const terms = (q ?? "").split(/\s+/).filter(Boolean).slice(0, MAX_TERMS);
+
+  const rows = await db.library.findMany({
+    where: {
+      type: "note",
+      user_id: session.user.id,
+      ...(source_id && { source_id }),
+      AND: terms.map((term) => ({
+        OR: [
+          { title: { contains: term } },
+          { search_text: { contains: term } },
+        ],
+      })),
+    },
+    orderBy: [{ updated_at: "desc" }, { id: "desc" }],
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    take: limit + 1,
+    select: NOTE_SELECT,
+  });
+
+  const page = rows.slice(0, limit);
+  return NextResponse.json({
+    items: page.map(toNoteResponse),
+    nextCursor: rows.length > limit ? page[page.length - 1]!.id : null,
+  });
+}
+
+/**
+ * POST
+ *
+ * Creates a note for the authenticated user. The title defaults to the first line of the
+ * content. Returns the created note, 400 for an invalid payload or 401 if not authenticated.
+ */
+export async function POST(req: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: z.infer<typeof createSchema>;
+  try {
+    body = createSchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  try {
+    const userId = session.user.id;
+    const source =
+      body.source_id || body.transcript_title
+        ? await db.library.findFirst({
+            where: {
+              user_id: userId,
+              type: "transcript",
+              ...(body.source_id
+                ? { id: body.source_id }
+                : { title: body.transcript_title }),
+            },
+            orderBy: { updated_at: "desc" },
+            select: { id: true },
+          })
+        : null;
+
+    const note = await db.library.create({
+      data: {
+        id: crypto.randomUUID(),
+        user_id: userId,
+        type: "note",
+        title: body.title?.length ? body.title : toNoteTitle(body.content),
+        responder: body.responder ?? null,
+        messages_json: JSON.stringify(toNoteMessages(body.content, body.role)),
+        search_text: body.content,
+        message_count: 1,
+        source_id: source?.id ?? null,
+        source_message_id: source ? (body.source_message_id ?? null) : null,
+      },
+      select: NOTE_SELECT,
+    });
+
+    return NextResponse.json(toNoteResponse(note), { status: 201 });
+  } catch (error) {
+    console.error("Error saving note:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
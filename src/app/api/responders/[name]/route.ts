@@ -18,6 +18,11 @@ Exports used by:
 
 Nuances:
 - PATCH allows renaming a responder, but prevents duplicate names for the same owner.
+- PATCH rejects unknown `provider` ids and malformed `voice_map` objects with 400; a null
+  `voice_map` clears the language voices.
+- PATCH also rejects malformed `stop` sequences, unknown `reasoning_effort` values and
+  temperature, top_p, penalties or seed that are not numbers in samplingSchema's ranges (an
+  integer seed); null sampling settings fall back to the model's default.
 - Admins can update system responders; regular users can only update their own.
 - DELETE only allows users to delete their own responders, not system responders.
 - All operations require authentication; PATCH/DELETE require ownership or admin rights.
@@ -25,7 +30,16 @@ Nuances:
 
 import { auth } from "../../../../server/auth";
 import { db } from "../../../../server/db";
+import { Prisma } from "@prisma/client";
 import { NextResponse } from "next/server";
+import { samplingSchema } from "../../../../components/bottomBar/schemas/responderSchema";
+import { isProviderId } from "../../../../types/provider";
+import {
+  isReasoningEffort,
+  isStopSequences,
+  isVoiceMap,
+  type VoiceMap,
+} from "../../../../types/responder";
 
 interface RouteContext {
   params: Promise<{ name: string }>;
@@ -41,6 +55,19 @@ interface ResponderUpdate {
   short_mem?: number;
   long_mem?: number;
   mem_expire?: number;
+  provider?: string;
+  context_tokens?: number;
+  voice_map?: VoiceMap | null;
+  stt_model?: string | null;
+  stt_languages?: string | null;
+  stt_prompt?: string | null;
+  temperature?: number | null;
+  top_p?: number | null;
+  frequency_penalty?: number | null;
+  presence_penalty?: number | null;
+  stop?: string[] | null;
+  seed?: number | null;
+  reasoning_effort?: string | null;
 }
 
 /**
@@ -135,7 +162,48 @@ export async function PATCH(request: Request, context: RouteContext) {
     );
   }
 
-  const update = data as ResponderUpdate;
+  const sampling = samplingSchema.safeParse(data);
+  if (!sampling.success) {
+    return NextResponse.json(
+      { error: "Invalid sampling settings", details: sampling.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { voice_map, stop, ...update } = data as ResponderUpdate;
+
+  if (update.provider !== undefined && !isProviderId(update.provider)) {
+    return NextResponse.json({ error: "Unknown provider" }, { status: 400 });
+  }
+
+  if (voice_map != null && !isVoiceMap(voice_map)) {
+    return NextResponse.json({ error: "Invalid voice map" }, { status: 400 });
+  }
+
+  if (stop != null && !isStopSequences(stop)) {
+    return NextResponse.json(
+      { error: "Invalid stop sequences" },
+      { status: 400 },
+    );
+  }
+
+  if (
+    update.reasoning_effort != null &&
+    !isReasoningEffort(update.reasoning_effort)
+  ) {
+    return NextResponse.json(
+      { error: "Unknown reasoning effort" },
+      { status: 400 },
+    );
+  }
+
+  const updateData: Prisma.RespondersUpdateInput = {
+    ...update,
+    ...(voice_map !== undefined && {
+      voice_map: voice_map ?? Prisma.JsonNull,
+    }),
+    ...(stop !== undefined && { stop: stop ?? Prisma.JsonNull }),
+  };
 
   const responder = await db.responders.findUnique({
     where: {
@@ -170,7 +238,7 @@ export async function PATCH(request: Request, context: RouteContext) {
           owner: userId,
         },
       },
-      data: update,
+      data: updateData,
     });
 
     return NextResponse.json({ success: true });
@@ -213,7 +281,7 @@ export async function PATCH(request: Request, context: RouteContext) {
           owner: "system",
         },
       },
-      data: update,
+      data: updateData,
     });
 
     return NextResponse.json({ success: true });
@@ -0,0 +1,66 @@
+// src/app/api/responders/route.test.ts
+//
+// Tests for validating the sampling settings of a new responder before it is stored.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+let created: Record<string, unknown> | null = null;
+
+vi.mock("~/server/auth", () => ({
+  auth: async () => ({ user: { id: "alice" } }),
+}));
+
+vi.mock("~/server/db", () => ({
+  db: {
+    responders: {
+      findFirst: async () => null,
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        created = data;
+        return data;
+      },
+    },
+  },
+}));
+
+const { POST } = await import("./route");
+
+function create(sampling: Record<string, unknown>) {
+  return POST(
+    new Request("http://localhost/api/responders", {
+      method: "POST",
+      body: JSON.stringify({
+        name: "Tutor",
+        model: "gpt-4o",
+        prompt: "You are a patient tutor.",
+        voice: "alloy",
+        voice_model: "tts-1",
+        max_tokens: 500,
+        ...sampling,
+      }),
+    }),
+  );
+}
+
+describe("POST /api/responders sampling settings", () => {
+  beforeEach(() => {
+    created = null;
+  });
+
+  it("stores settings in range and null as the model's default", async () => {
+    const response = await create({ temperature: 0.7, top_p: null, seed: 42 });
+
+    expect(response.status).toBe(200);
+    expect(created).toMatchObject({ temperature: 0.7, top_p: null, seed: 42 });
+  });
+
+  it.each([
+    ["a temperature out of range", { temperature: 3 }],
+    ["a penalty given as a string", { presence_penalty: "1" }],
+    ["a fractional seed", { seed: 1.5 }],
+  ])("rejects %s with 400", async (_, sampling) => {
+    const response = await create(sampling);
+
+    expect(response.status).toBe(400);
+    expect(created).toBeNull();
+  });
+});
@@ -16,7 +16,16 @@
 //
 // Nuances:
 // - GET returns both user-owned and system responders if authenticated, otherwise only system responders.
-// - POST enforces unique responder names per user and sets default values for memory fields if not provided.
+// - POST enforces unique responder names per user and sets default values for memory fields and context_tokens if not provided.
+// - `provider` must be a known upstream provider id and defaults to "apipie".
+// - `voice_map` (language code → voice) is optional and must be an object of strings.
+// - Speech-to-text settings (stt_model, stt_languages, stt_prompt) are optional; null means
+//   /api/transcribe uses its defaults.
+// - Sampling settings (temperature, top_p, frequency_penalty, presence_penalty, stop, seed,
+//   reasoning_effort) are optional; null means the model's default. `stop` must be a list of
+//   strings, `reasoning_effort` one of low/medium/high, and the numeric settings numbers in
+//   samplingSchema's ranges (temperature 0-2, top_p up to 1, penalties -2 to 2, an integer
+//   seed); anything else is a 400 before the database is touched.
 // - Only authenticated users can create responders; unauthenticated requests are rejected.
 // - Responders are associated with the user's id as owner.
 */
@@ -24,6 +33,14 @@
 import { auth } from "../../../server/auth";
 import { db } from "../../../server/db";
 import { NextResponse } from "next/server";
+import { samplingSchema } from "../../../components/bottomBar/schemas/responderSchema";
+import { isProviderId } from "../../../types/provider";
+import {
+  isReasoningEffort,
+  isStopSequences,
+  isVoiceMap,
+  type VoiceMap,
+} from "../../../types/responder";
 
 interface ResponderRequest {
   name: string;
@@ -35,6 +52,19 @@ interface ResponderRequest {
   short_mem?: number;
   long_mem?: number;
   mem_expire?: number;
+  provider?: string;
+  context_tokens?: number;
+  voice_map?: VoiceMap | null;
+  stt_model?: string | null;
+  stt_languages?: string | null;
+  stt_prompt?: string | null;
+  temperature?: number | null;
+  top_p?: number | null;
+  frequency_penalty?: number | null;
+  presence_penalty?: number | null;
+  stop?: string[] | null;
+  seed?: number | null;
+  reasoning_effort?: string | null;
 }
 
 /**
@@ -85,6 +115,19 @@ export async function POST(req: Request) {
     short_mem,
     long_mem,
     mem_expire,
+    provider,
+    context_tokens,
+    voice_map,
+    stt_model,
+    stt_languages,
+    stt_prompt,
+    temperature,
+    top_p,
+    frequency_penalty,
+    presence_penalty,
+    stop,
+    seed,
+    reasoning_effort,
   } = json;
 
   if (!name || !model || !prompt || !voice || !voice_model || !max_tokens) {
@@ -94,6 +137,36 @@ export async function POST(req: Request) {
     );
   }
 
+  const sampling = samplingSchema.safeParse(json);
+  if (!sampling.success) {
+    return NextResponse.json(
+      { error: "Invalid sampling settings", details: sampling.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  if (provider !== undefined && !isProviderId(provider)) {
+    return NextResponse.json({ error: "Unknown provider" }, { status: 400 });
+  }
+
+  if (voice_map != null && !isVoiceMap(voice_map)) {
+    return NextResponse.json({ error: "Invalid voice map" }, { status: 400 });
+  }
+
+  if (stop != null && !isStopSequences(stop)) {
+    return NextResponse.json(
+      { error: "Invalid stop sequences" },
+      { status: 400 },
+    );
+  }
+
+  if (reasoning_effort != null && !isReasoningEffort(reasoning_effort)) {
+    return NextResponse.json(
+      { error: "Unknown reasoning effort" },
+      { status: 400 },
+    );
+  }
+
   const existing = await db.responders.findFirst({
     where: {
       name,
@@ -120,6 +193,19 @@ export async function POST(req: Request) {
       short_mem: short_mem ?? 3,
       long_mem: long_mem ?? 2,
       mem_expire: mem_expire ?? 1440,
+      provider: provider ?? "apipie",
+      context_tokens: context_tokens ?? 8192,
+      voice_map: voice_map ?? undefined,
+      stt_model: stt_model ?? null,
+      stt_languages: stt_languages ?? null,
+      stt_prompt: stt_prompt ?? null,
+      temperature: temperature ?? null,
+      top_p: top_p ?? null,
+      frequency_penalty: frequency_penalty ?? null,
+      presence_penalty: presence_penalty ?? null,
+      stop: stop ?? undefined,
+      seed: seed ?? null,
+      reasoning_effort: reasoning_effort ?? null,
     },
   });
 
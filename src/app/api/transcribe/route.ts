@@ -4,8 +4,9 @@
   Summary:
     Next.js API route for audio transcription. Handles both JSON and multipart/form-data requests.
     For JSON requests with mode "chat", it echoes back the provided text. For multipart/form-data,
-    it authenticates the user, retrieves the appropriate API key, and streams audio transcription
-    results from the APIpie service back to the client as a server-sent event (SSE) stream.
+    it authenticates the user, looks up the active responder's speech-to-text settings, resolves the
+    transcription provider, and streams audio transcription results back to the client as a
+    server-sent event (SSE) stream.
 
   Imports to:
     - (Imported by Next.js API route system)
@@ -17,29 +18,71 @@
     - src/components/bottomBar/hooks/useHandsfree.ts (calls /api/transcribe endpoint for streaming transcription)
 
   Nuances:
-    - If a user has a stored apipie_key, it is decrypted and used instead of the default API key.
-    - The endpoint streams the response from APIpie as an SSE stream, which is expected by the client.
+    - The form carries `promptName`; the responder's stt_model, stt_languages and stt_prompt are
+      used when set. An explicit `model` form field overrides stt_model; otherwise
+      DEFAULT_STT_MODEL is used.
+    - A single expected language is sent as the upstream `language` hint. With several, the
+      upstream cannot take a list, so the languages are named in the prompt instead.
+    - Transcription goes through the responder's provider; providers without transcription
+      (e.g. Ollama) fall back to the default provider. API key selection happens in resolveProvider.
+    - The endpoint streams the provider response as an SSE stream, which is expected by the client.
     - Returns specific error messages and status codes for missing fields, unauthorized access, and API errors.
 */
 
 import { NextResponse } from "next/server";
-import { db } from "~/server/db";
-import { decryptApiKey } from "~/lib/utils/crypto";
 import { createResponseStream } from "../_utils/stream";
 import { auth } from "~/server/auth";
+import { resolveProvider } from "~/server/providers";
+import { findResponder } from "~/server/responders";
+import { VOICE_LANGUAGES } from "~/lib/utils/language";
+
+const DEFAULT_STT_MODEL = "openai/gpt-4o-transcribe";
 
 interface ChatJsonPayload {
   mode?: string;
   text?: string;
 }
 
+/**
+ * buildTranscriptionHints
+ *
+ * Turns a responder's comma-separated stt_languages and vocabulary prompt into the upstream
+ * `language` / `prompt` fields.
+ */
+function buildTranscriptionHints(
+  languages: string | null,
+  vocabulary: string | null,
+): { language?: string; prompt?: string } {
+  const codes = (languages ?? "")
+    .split(",")
+    .map((code) => code.trim())
+    .filter(Boolean);
+
+  if (codes.length === 1) {
+    return { language: codes[0], prompt: vocabulary ?? undefined };
+  }
+
+  const names = codes.map(
+    (code) => VOICE_LANGUAGES.find((l) => l.code === code)?.label ?? code,
+  );
+  const prompt = [
+    names.length ? `The speaker may use ${names.join(" and ")}.` : "",
+    vocabulary ?? "",
+  ]
+    .join(" ")
+    .trim();
+
+  return { prompt: prompt || undefined };
+}
+
 /**
  * POST
  *
  * Handles POST requests for the /api/transcribe endpoint.
  * - For JSON requests with mode "chat", echoes back the provided text.
- * - For multipart/form-data requests, authenticates the user, retrieves the API key,
- *   and streams audio transcription results from APIpie as a server-sent event (SSE) stream.
+ * - For multipart/form-data requests, authenticates the user, applies the responder's
+ *   speech-to-text settings, resolves the provider, and streams audio transcription
+ *   results as a server-sent event (SSE) stream.
  * - Returns appropriate error responses for missing fields, unauthorized access, or API errors.
  */
 export async function POST(request: Request) {
@@ -62,8 +105,9 @@ export async function POST(request: Request) {
     const formData = await request.formData();
     const file = formData.get("file");
     const model = formData.get("model");
+    const promptName = formData.get("promptName");
 
-    if (!(file instanceof File) || typeof model !== "string") {
+    if (!(file instanceof File)) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 },
@@ -75,38 +119,29 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    let apipieApiKey = process.env.APIPIE_API_KEY;
-    const user = await db.user.findUnique({ where: { id: session.user.id } });
-
-    if (user?.apipie_key) {
-      const decrypted = decryptApiKey(user.apipie_key);
-      if (typeof decrypted !== "string") {
-        return decrypted;
-      }
-      apipieApiKey = decrypted;
-    }
-
-    if (!apipieApiKey) {
-      return NextResponse.json(
-        { error: "APIpie API key not configured" },
-        { status: 500 },
-      );
-    }
-
-    const form = new FormData();
-    form.append("file", file, file.name);
-    form.append("model", model);
-    form.append("stream", "true");
-    form.append("user", session.user.id);
-
-    const baseUrl = process.env.APIPIE_BASE_URL ?? "https://apipie.ai";
+    const responder = await findResponder(
+      typeof promptName === "string" && promptName ? promptName : "General",
+      session.user.id,
+    );
 
-    const response = await fetch(`${baseUrl}/v1/audio/transcriptions`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apipieApiKey}`,
-      },
-      body: form,
+    const provider = await resolveProvider(
+      responder?.provider,
+      session.user.id,
+      "transcribe",
+    );
+    if (provider instanceof NextResponse) return provider;
+
+    const response = await provider.transcribe({
+      file,
+      model:
+        typeof model === "string" && model
+          ? model
+          : (responder?.stt_model ?? DEFAULT_STT_MODEL),
+      user: session.user.id,
+      ...buildTranscriptionHints(
+        responder?.stt_languages ?? null,
+        responder?.stt_prompt ?? null,
+      ),
     });
 
     if (!response.ok) {
@@ -125,7 +160,7 @@ export async function POST(request: Request) {
 
     if (!response.body) {
       return NextResponse.json(
-        { error: "No response body from APIpie" },
+        { error: "No response body from provider" },
         { status: 500 },
       );
     }
@@ -0,0 +1,114 @@
+// src/app/api/transcript/save/route.test.ts
+//
+// Tests for the optimistic concurrency check of transcript updates: a stale `version` and a
+// save that loses a race against another one both answer 409 without writing.
+
+import { Prisma, type Library } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+let row: Library;
+let writes = 0;
+// Set to simulate another save landing between this request's read and its write.
+let raceBeforeWrite = false;
+
+vi.mock("~/server/auth", () => ({
+  auth: async () => ({ user: { id: "alice" } }),
+}));
+
+vi.mock("~/server/db", () => ({
+  db: {
+    library: {
+      findFirst: async ({
+        where,
+      }: {
+        where: { id: string; user_id: string };
+      }) => (where.id === row.id && where.user_id === row.user_id ? row : null),
+      update: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; version: number };
+        data: Partial<Library>;
+      }) => {
+        if (raceBeforeWrite) row = { ...row, version: row.version + 1 };
+        if (where.id !== row.id || where.version !== row.version) {
+          throw new Prisma.PrismaClientKnownRequestError("No record found", {
+            code: "P2025",
+            clientVersion: Prisma.prismaVersion.client,
+          });
+        }
+        writes++;
+        row = { ...row, ...data };
+        return row;
+      },
+    },
+    libraryVersion: {
+      create: async () => ({}),
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+  },
+}));
+
+const { POST } = await import("./route");
+
+function save(body: Record<string, unknown>) {
+  return POST(
+    new Request("http://localhost/api/transcript/save", {
+      method: "POST",
+      body: JSON.stringify({
+        id: "t1",
+        title: "Renamed",
+        messages: [{ role: "user", content: "hi" }],
+        ...body,
+      }),
+    }),
+  );
+}
+
+describe("POST /api/transcript/save (update)", () => {
+  beforeEach(() => {
+    row = {
+      id: "t1",
+      user_id: "alice",
+      type: "transcript",
+      title: "Original",
+      messages_json: "[]",
+      version: 3,
+      deleted_at: null,
+    } as Library;
+    writes = 0;
+    raceBeforeWrite = false;
+  });
+
+  it("updates when the expected version is current", async () => {
+    const response = await save({ version: 3 });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      id: "t1",
+      version: 4,
+    });
+    expect(row.title).toBe("Renamed");
+  });
+
+  it("answers 409 with the current version for a stale expected version", async () => {
+    const response = await save({ version: 2 });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ version: 3 });
+    expect(writes).toBe(0);
+  });
+
+  it("answers 409 when another save wins between the read and the write", async () => {
+    raceBeforeWrite = true;
+    const response = await save({});
+
+    expect(response.status).toBe(409);
+    expect(writes).toBe(0);
+  });
+
+  it("rejects a non-integer version", async () => {
+    expect((await save({ version: "3" })).status).toBe(400);
+  });
+});
@@ -1,6 +1,41 @@
+/*
+src/app/api/transcript/save/route.ts
+
+Summary:
+API route that saves the chat on screen as a transcript. Without an id it creates a new
+transcript; with the id of one of the user's transcripts it updates that transcript, keeping
+the previous content as a version (see _utils/versions).
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function POST(req: Request)
+
+Exports used by:
+- src/components/transcripts/hooks/saveTranscript.ts ("Save" / "Update" / "Save as new")
+
+Nuances:
+- Body: { title, messages, responder?, id?, version? }. Titles are not unique: saving under an
+  existing name without an id creates a second transcript instead of overwriting the first.
+- An update whose title, responder and messages equal the current ones does not create a
+  version.
+- Answers { success, id, version }; 404 when `id` is not a transcript of the user.
+- Updates are optimistic: `version` is the version the chat last loaded or saved, and a
+  transcript that has moved on since (saved from another tab, a version restored) answers 409
+  with its current version instead of being overwritten. The update itself only matches the
+  version that was read, so two saves racing each other cannot both write; the loser gets 409
+  too. Without `version` only that second check applies.
+*/
+
+import { Prisma } from "@prisma/client";
 import { db as prisma } from "~/server/db";
 import { auth } from "~/server/auth";
+import type { TranscriptMessage } from "~/types/message";
 import { NextResponse } from "next/server";
+import { toSearchText } from "../../_utils/transcripts";
+import { messagesDeletedAt } from "../../_utils/trash";
+import { snapshotOf } from "../../_utils/versions";
 
 export async function POST(req: Request) {
   const session = await auth();
@@ -20,54 +55,123 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
     }
 
-    const { title, messages } = body as {
+    const { title, messages, responder, id, version } = body as {
       title: unknown;
       messages: unknown;
+      responder?: unknown;
+      id?: unknown;
+      version?: unknown;
     };
 
     if (
       typeof title !== "string" ||
       title.length > 150 ||
-      !Array.isArray(messages)
+      !Array.isArray(messages) ||
+      (responder !== undefined &&
+        (typeof responder !== "string" || responder.length > 100)) ||
+      (id !== undefined && (typeof id !== "string" || id.length > 36)) ||
+      (version !== undefined &&
+        (typeof version !== "number" || !Number.isInteger(version)))
     ) {
       return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
     }
 
     const userId = session.user.id;
     const content = JSON.stringify(messages);
-    const count = messages.length;
-
-    const existing = await prisma.library.findFirst({
-      where: {
-        user_id: userId,
-        type: "transcript",
-        title,
-      },
-    });
+    const searchText = toSearchText(messages);
+    const deletedAt = messagesDeletedAt(messages as TranscriptMessage[]);
+    // Alternative branches are stored too; only the active thread counts as the conversation.
+    const count = (messages as ({ active?: boolean } | null)[]).filter(
+      (m) => m?.active !== false,
+    ).length;
 
-    if (existing) {
-      await prisma.library.update({
-        where: { id: existing.id },
-        data: {
-          messages_json: content,
-          message_count: count,
-          updated_at: new Date(),
-        },
-      });
-    } else {
-      await prisma.library.create({
+    if (id === undefined) {
+      const created = await prisma.library.create({
         data: {
           id: crypto.randomUUID(),
           user_id: userId,
           type: "transcript",
           title,
           messages_json: content,
+          search_text: searchText,
           message_count: count,
+          messages_deleted_at: deletedAt,
+          responder: responder ?? null,
         },
       });
+      return NextResponse.json({
+        success: true,
+        id: created.id,
+        version: created.version,
+      });
+    }
+
+    const existing = await prisma.library.findFirst({
+      where: { id, user_id: userId, type: "transcript", deleted_at: null },
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Transcript not found" },
+        { status: 404 },
+      );
+    }
+
+    if (version !== undefined && version !== existing.version) {
+      return NextResponse.json(
+        {
+          error: "Transcript was changed elsewhere",
+          version: existing.version,
+        },
+        { status: 409 },
+      );
+    }
+
+    const unchanged =
+      existing.title === title &&
+      existing.messages_json === content &&
+      (responder === undefined || existing.responder === responder);
+    if (unchanged) {
+      return NextResponse.json({
+        success: true,
+        id,
+        version: existing.version,
+      });
+    }
+
+    const next = existing.version + 1;
+    try {
+      await prisma.$transaction([
+        prisma.libraryVersion.create({ data: snapshotOf(existing) }),
+        prisma.library.update({
+          where: { id, version: existing.version },
+          data: {
+            title,
+            messages_json: content,
+            search_text: searchText,
+            message_count: count,
+            messages_deleted_at: deletedAt,
+            ...(responder !== undefined && { responder }),
+            version: next,
+            updated_at: new Date(),
+          },
+        }),
+      ]);
+    } catch (error) {
+      // Another save updated the transcript between the read above and this write: its
+      // snapshot took this version number (P2002) or the row no longer has it (P2025).
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        (error.code === "P2002" || error.code === "P2025")
+      ) {
+        return NextResponse.json(
+          { error: "Transcript was changed elsewhere" },
+          { status: 409 },
+        );
+      }
+      throw error;
     }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, id, version: next });
   } catch (error) {
     console.error("Error saving transcript:", error);
     return NextResponse.json(
@@ -0,0 +1,102 @@
+/*
+src/app/api/transcripts/[id]/export/route.ts
+
+Summary:
+API route that downloads a saved transcript in a portable format: Markdown, structured JSON,
+standalone HTML, SRT / WebVTT subtitles or CSV (?format=md|json|html|srt|vtt|csv).
+
+Imports to:
+- Not directly imported; accessed via HTTP (download links on the transcripts page).
+
+Exports:
+- export async function GET(req: Request, context: RouteContext)
+
+Exports used by:
+- src/app/transcripts/page.tsx (handleExport builds the download link)
+
+Nuances:
+- Owner-scoped like /api/transcripts/[id]: another user's transcript answers 404.
+- Rendering lives in ../../../_utils/export.ts; only the active branch is exported and
+  per-message usage is included where it was saved.
+- The response is sent as an attachment named after the transcript title.
+*/
+
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import type { TranscriptMessage } from "~/types/message";
+import { EXPORT_FORMATS, isExportFormat } from "~/types/export";
+import { renderExport } from "../../../_utils/export";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET
+ *
+ * Renders the transcript with the given id in the requested format (default Markdown).
+ * Returns 401 if not authenticated, 400 for an unknown format, 404 if the transcript is not
+ * owned by the user and 422 if its stored messages cannot be parsed.
+ */
+export async function GET(req: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const format = new URL(req.url).searchParams.get("format") ?? "md";
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: `Unsupported format; use one of ${EXPORT_FORMATS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const transcript = await db.library.findFirst({
+    where: {
+      id,
+      type: "transcript",
+      user_id: session.user.id,
+      deleted_at: null,
+    },
+  });
+  if (!transcript) {
+    return NextResponse.json(
+      { error: "Transcript not found" },
+      { status: 404 },
+    );
+  }
+
+  let messages: TranscriptMessage[];
+  try {
+    const parsed: unknown = JSON.parse(transcript.messages_json);
+    if (!Array.isArray(parsed))
+      throw new Error("messages_json is not an array");
+    messages = parsed as TranscriptMessage[];
+  } catch (error) {
+    console.error("Unreadable transcript messages:", error);
+    return NextResponse.json(
+      { error: "Transcript messages are unreadable" },
+      { status: 422 },
+    );
+  }
+
+  const rendered = renderExport({ ...transcript, messages }, format);
+  const filename =
+    transcript.title
+      .replace(/[^\p{L}\p{N}_-]+/gu, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 80) || "transcript";
+
+  const file = `${filename}.${rendered.extension}`;
+  const asciiFile = file.replace(/[^\x20-\x7E]/g, "_");
+
+  return new Response(rendered.body, {
+    headers: {
+      "Content-Type": rendered.contentType,
+      "Content-Disposition": `attachment; filename="${asciiFile}"; filename*=UTF-8''${encodeURIComponent(file)}`,
+    },
+  });
+}
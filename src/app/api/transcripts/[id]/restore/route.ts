@@ -0,0 +1,170 @@
+/*
+src/app/api/transcripts/[id]/restore/route.ts
+
+Summary:
+API route that takes a transcript out of the trash, making it visible on the transcripts page
+again with its versions and notes intact, or with { message_id } in the body puts back a
+message that was deleted in the chat.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function POST(req: Request, context: RouteContext)
+
+Exports used by:
+- src/components/transcripts/hooks/useTranscripts.ts (restoreTranscript: "Undo" after a
+  delete and "Restore" in the trash; restoreMessage: "Restore" of a deleted message)
+
+Nuances:
+- Only trashed transcripts of the session user can be restored; anything else answers 404,
+  including transcripts already purged (_utils/trash).
+- updated_at is kept, so the transcript returns to its old place in the list.
+- Restoring a message changes the conversation, so it is saved like an update through
+  /api/transcript/save: the previous content becomes a version, and a concurrent save answers
+  409. The transcript must not be in the trash itself (404 otherwise).
+*/
+
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import type { TranscriptMessage } from "~/types/message";
+import { toSearchText } from "../../../_utils/transcripts";
+import { messagesDeletedAt, restoreMessage } from "../../../_utils/trash";
+import { snapshotOf } from "../../../_utils/versions";
+
+const bodySchema = z.object({ message_id: z.string().min(1).max(64) });
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST
+ *
+ * Restores a trashed transcript. Responds with { success }, 401 if not authenticated or
+ * 404 if the transcript is not in the user's trash. With { message_id } it restores that
+ * deleted message of the transcript instead and responds with { success, version }.
+ */
+export async function POST(req: Request, context: RouteContext) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+
+  const text = await req.text();
+  if (text) {
+    let body: z.infer<typeof bodySchema>;
+    try {
+      body = bodySchema.parse(JSON.parse(text));
+    } catch {
+      return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+    }
+    return restoreDeletedMessage(id, body.message_id, session.user.id);
+  }
+
+  try {
+    const transcript = await db.library.findFirst({
+      where: {
+        id,
+        type: "transcript",
+        user_id: session.user.id,
+        deleted_at: { not: null },
+      },
+      select: { updated_at: true },
+    });
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Transcript not found" },
+        { status: 404 },
+      );
+    }
+
+    await db.library.update({
+      where: { id },
+      data: { deleted_at: null, updated_at: transcript.updated_at },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error restoring transcript:", error);
+    return NextResponse.json(
+      { error: "Failed to restore transcript" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * restoreDeletedMessage
+ *
+ * Puts a deleted message of the user's transcript back, keeping the previous content as a
+ * version. Responds with { success, version }, 404 if there is no such deleted message or 409
+ * if the transcript was saved meanwhile.
+ */
+async function restoreDeletedMessage(
+  id: string,
+  messageId: string,
+  userId: string,
+) {
+  try {
+    const transcript = await db.library.findFirst({
+      where: { id, type: "transcript", user_id: userId, deleted_at: null },
+    });
+    let messages: unknown = null;
+    try {
+      messages = transcript ? JSON.parse(transcript.messages_json) : null;
+    } catch {
+      messages = null;
+    }
+    const restored =
+      transcript && Array.isArray(messages)
+        ? restoreMessage(messages as TranscriptMessage[], messageId)
+        : null;
+    if (!transcript || !restored) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    const next = transcript.version + 1;
+    try {
+      await db.$transaction([
+        db.libraryVersion.create({ data: snapshotOf(transcript) }),
+        db.library.update({
+          where: { id, version: transcript.version },
+          data: {
+            messages_json: JSON.stringify(restored),
+            search_text: toSearchText(restored),
+            message_count: restored.filter((m) => m.active !== false).length,
+            messages_deleted_at: messagesDeletedAt(restored),
+            version: next,
+            updated_at: new Date(),
+          },
+        }),
+      ]);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        (error.code === "P2002" || error.code === "P2025")
+      ) {
+        return NextResponse.json(
+          { error: "Transcript was changed elsewhere" },
+          { status: 409 },
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ success: true, version: next });
+  } catch (error) {
+    console.error("Error restoring message:", error);
+    return NextResponse.json(
+      { error: "Failed to restore message" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/*
+src/app/api/transcripts/[id]/route.ts
+
+Summary:
+API route for a single saved transcript. GET returns the transcript with the given id when it
+belongs to the authenticated user.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function GET(req: Request, context: RouteContext)
+
+Exports used by:
+- src/components/transcripts/hooks/useTranscripts.ts (fetchTranscript, before reloading a
+  transcript into the chat)
+
+Nuances:
+- The lookup is scoped to the session user (user_id) and type "transcript"; another user's
+  transcript answers 404 exactly like a missing one, so ids cannot be probed. Transcripts in
+  the trash (deleted_at set) answer 404 too until they are restored.
+- Unlike the summaries of GET /api/transcripts, the response includes the parsed messages
+  (toTranscriptResponse).
+*/
+
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import { toTranscriptResponse } from "../../_utils/transcripts";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET
+ *
+ * Returns the transcript with the given id for the authenticated user.
+ * Returns 401 if not authenticated or 404 if no such transcript is owned by the user.
+ */
+export async function GET(_req: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const transcript = await db.library.findFirst({
+    where: {
+      id,
+      type: "transcript",
+      user_id: session.user.id,
+      deleted_at: null,
+    },
+  });
+
+  if (!transcript) {
+    return NextResponse.json(
+      { error: "Transcript not found" },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json(toTranscriptResponse(transcript));
+}
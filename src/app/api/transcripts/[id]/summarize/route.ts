@@ -0,0 +1,159 @@
+/*
+src/app/api/transcripts/[id]/summarize/route.ts
+
+Summary:
+API route that turns a saved transcript into study notes. A responder is run over the
+transcript's active thread to write a summary, key vocabulary, grammar points and the
+learner's mistakes with corrections; the result is saved as a note linked to the transcript.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function POST(req: Request, context: RouteContext)
+
+Exports used by:
+- src/components/transcripts/hooks/useTranscripts.ts (summarizeTranscript, "Summarize" on the
+  transcripts page)
+
+Nuances:
+- Body: { responder? }. Without one the transcript's own responder is used, then "General".
+  The responder supplies the model, provider, persona prompt and context window.
+- Transcripts that do not fit the responder's context window are summarized in parts and the
+  partial notes merged (_utils/summary), so a long session costs several completions.
+- The note is an assistant note titled "Summary: <transcript title>" with source_id set to the
+  transcript, so "Open transcript" on the notes page leads back to it.
+- Owner-scoped like /api/transcripts/[id]: another user's transcript answers 404. Upstream
+  errors are returned with the upstream status; an aborted request answers 499 and saves nothing.
+*/
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import { resolveProvider } from "~/server/providers";
+import { findResponder } from "~/server/responders";
+import type { TranscriptMessage } from "~/types/message";
+import { summarizeTranscript } from "../../../_utils/summary";
+import { toNoteMessages, toNoteResponse } from "../../../_utils/notes";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const bodySchema = z.object({
+  responder: z.string().max(100).optional(),
+});
+
+const TITLE_LENGTH = 255;
+
+/**
+ * POST
+ *
+ * Summarizes the transcript with the given id and stores the notes.
+ * Returns 201 with the created note (same shape as /api/notes). Returns 401 if not
+ * authenticated, 404 if the transcript or responder is not found, 422 if the stored messages
+ * cannot be parsed and 400 if the transcript has nothing to summarize.
+ */
+export async function POST(req: Request, context: RouteContext) {
+  const { id } = await context.params;
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const rawBody: unknown = await req.json().catch(() => ({}));
+    const parsed = bodySchema.safeParse(rawBody);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+
+    const transcript = await db.library.findFirst({
+      where: { id, type: "transcript", user_id: userId, deleted_at: null },
+    });
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Transcript not found" },
+        { status: 404 },
+      );
+    }
+
+    let messages: TranscriptMessage[];
+    try {
+      const stored: unknown = JSON.parse(transcript.messages_json);
+      if (!Array.isArray(stored))
+        throw new Error("messages_json is not an array");
+      messages = stored as TranscriptMessage[];
+    } catch (error) {
+      console.error("Unreadable transcript messages:", error);
+      return NextResponse.json(
+        { error: "Transcript messages are unreadable" },
+        { status: 422 },
+      );
+    }
+
+    if (!messages.some((m) => m.active !== false && m.content.trim())) {
+      return NextResponse.json(
+        { error: "Transcript has no messages to summarize" },
+        { status: 400 },
+      );
+    }
+
+    const responderName =
+      parsed.data.responder ?? transcript.responder ?? "General";
+    const responder = await findResponder(responderName, userId);
+    if (!responder) {
+      return NextResponse.json(
+        { error: `Responder "${responderName}" not found` },
+        { status: 404 },
+      );
+    }
+
+    const provider = await resolveProvider(responder.provider, userId);
+    if (provider instanceof NextResponse) return provider;
+
+    const summary = await summarizeTranscript({
+      provider,
+      responder,
+      title: transcript.title,
+      messages,
+      userId,
+      signal: req.signal,
+    });
+    if (!summary.ok) {
+      return NextResponse.json(
+        { error: summary.error },
+        { status: summary.status },
+      );
+    }
+
+    const note = await db.library.create({
+      data: {
+        id: crypto.randomUUID(),
+        user_id: userId,
+        type: "note",
+        title: `Summary: ${transcript.title}`.slice(0, TITLE_LENGTH),
+        responder: responder.name,
+        messages_json: JSON.stringify(
+          toNoteMessages(summary.content, "assistant"),
+        ),
+        search_text: summary.content,
+        message_count: 1,
+        source_id: transcript.id,
+      },
+    });
+
+    return NextResponse.json(toNoteResponse(note), { status: 201 });
+  } catch (error) {
+    if (req.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
+    console.error("Error summarizing transcript:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/*
+src/app/api/transcripts/[id]/versions/[version]/route.ts
+
+Summary:
+API route for one earlier version of a saved transcript. GET returns it with its messages (for
+the diff view); POST restores it, making its content the transcript's new current version.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function GET(req: Request, context: RouteContext)
+- export async function POST(req: Request, context: RouteContext)
+
+Exports used by:
+- src/components/transcripts/hooks/useTranscripts.ts (fetchVersion, restoreVersion)
+
+Nuances:
+- Restoring never discards anything: the current content is kept as a version first and the
+  restored content is saved as the next version number, so a restore can itself be undone.
+- Owner-scoped like /api/transcripts/[id]: another user's transcript or an unknown version
+  answers 404.
+- Like /api/transcript/save, the update only matches the version that was read; a restore
+  racing a save (or another restore) answers 409 instead of writing over it.
+*/
+
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import type { TranscriptMessage } from "~/types/message";
+import { toSearchText } from "../../../../_utils/transcripts";
+import { messagesDeletedAt } from "../../../../_utils/trash";
+import { snapshotOf, toVersionResponse } from "../../../../_utils/versions";
+
+interface RouteContext {
+  params: Promise<{ id: string; version: string }>;
+}
+
+/**
+ * findVersion
+ *
+ * Loads the user's transcript and the requested version of it; null when either is missing.
+ */
+async function findVersion(id: string, version: string, userId: string) {
+  const number = Number(version);
+  if (!Number.isInteger(number) || number < 1) return null;
+
+  const transcript = await db.library.findFirst({
+    where: { id, type: "transcript", user_id: userId, deleted_at: null },
+  });
+  if (!transcript) return null;
+
+  const snapshot = await db.libraryVersion.findFirst({
+    where: { library_id: id, user_id: userId, version: number },
+  });
+  return snapshot ? { transcript, snapshot } : null;
+}
+
+/**
+ * GET
+ *
+ * Returns the version with its messages. Returns 401 if not authenticated or 404 if the
+ * transcript or version does not exist for the user.
+ */
+export async function GET(_req: Request, context: RouteContext) {
+  const { id, version } = await context.params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const found = await findVersion(id, version, session.user.id);
+  if (!found) {
+    return NextResponse.json({ error: "Version not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(toVersionResponse(found.snapshot));
+}
+
+/**
+ * POST
+ *
+ * Restores the version: keeps the current content as a version and writes the restored
+ * content as the next version. Returns { success, version } with the new version number.
+ */
+export async function POST(_req: Request, context: RouteContext) {
+  const { id, version } = await context.params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const found = await findVersion(id, version, session.user.id);
+    if (!found) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+    const { transcript, snapshot } = found;
+
+    let searchText: string | null = null;
+    let deletedAt: Date | null = null;
+    try {
+      const parsed: unknown = JSON.parse(snapshot.messages_json);
+      if (Array.isArray(parsed)) {
+        searchText = toSearchText(parsed);
+        deletedAt = messagesDeletedAt(parsed as TranscriptMessage[]);
+      }
+    } catch {
+      searchText = null;
+    }
+
+    const next = transcript.version + 1;
+    try {
+      await db.$transaction([
+        db.libraryVersion.create({ data: snapshotOf(transcript) }),
+        db.library.update({
+          where: { id, version: transcript.version },
+          data: {
+            title: snapshot.title,
+            responder: snapshot.responder,
+            messages_json: snapshot.messages_json,
+            search_text: searchText,
+            message_count: snapshot.message_count,
+            messages_deleted_at: deletedAt,
+            version: next,
+            updated_at: new Date(),
+          },
+        }),
+      ]);
+    } catch (error) {
+      // A save or another restore wrote the next version first.
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        (error.code === "P2002" || error.code === "P2025")
+      ) {
+        return NextResponse.json(
+          { error: "Transcript was changed elsewhere" },
+          { status: 409 },
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ success: true, version: next });
+  } catch (error) {
+    console.error("Error restoring transcript version:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
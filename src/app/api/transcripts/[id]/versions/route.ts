@@ -0,0 +1,87 @@
+/*
+src/app/api/transcripts/[id]/versions/route.ts
+
+Summary:
+API route listing the version history of a saved transcript: the current version plus every
+earlier version kept when the transcript was updated or restored.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function GET(req: Request, context: RouteContext)
+
+Exports used by:
+- src/components/transcripts/hooks/useTranscripts.ts (fetchVersions, history modal)
+
+Nuances:
+- Owner-scoped like /api/transcripts/[id]: another user's transcript answers 404.
+- Versions carry no messages here; a single version with its messages is read from
+  /api/transcripts/[id]/versions/[version].
+*/
+
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import { toVersionSummary } from "../../../_utils/versions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET
+ *
+ * Returns { current, versions } for the transcript with the given id: `current` describes the
+ * transcript as saved now and `versions` the earlier versions, newest first.
+ * Returns 401 if not authenticated or 404 if no such transcript is owned by the user.
+ */
+export async function GET(_req: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const transcript = await db.library.findFirst({
+    where: {
+      id,
+      type: "transcript",
+      user_id: session.user.id,
+      deleted_at: null,
+    },
+    select: {
+      version: true,
+      title: true,
+      message_count: true,
+      updated_at: true,
+    },
+  });
+  if (!transcript) {
+    return NextResponse.json(
+      { error: "Transcript not found" },
+      { status: 404 },
+    );
+  }
+
+  const versions = await db.libraryVersion.findMany({
+    where: { library_id: id, user_id: session.user.id },
+    orderBy: { version: "desc" },
+    select: {
+      version: true,
+      title: true,
+      message_count: true,
+      created_at: true,
+    },
+  });
+
+  return NextResponse.json({
+    current: {
+      version: transcript.version,
+      title: transcript.title,
+      message_count: transcript.message_count,
+      created_at: transcript.updated_at,
+    },
+    versions: versions.map(toVersionSummary),
+  });
+}
@@ -0,0 +1,237 @@
+/*
+src/app/api/transcripts/draft/route.ts
+
+Summary:
+API route for the autosaved chat draft. PUT stores the conversation on screen after each turn
+(one draft per chat session, identified by a client-generated id); GET returns the most
+recently updated draft so the chat page can offer to resume it.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function GET()
+- export async function PUT(req: Request)
+
+Exports used by:
+- src/components/transcripts/hooks/useDraft.ts (autosave after each turn, resume on /chat)
+
+Nuances:
+- Drafts are Library rows of type "draft" (see _utils/drafts); the transcript list, search
+  and export only see type "transcript", so drafts never show up there. Saving a
+  conversation under a title still goes through /api/transcript/save.
+- PUT body: { id, messages, responder?, title?, transcript_id? }. The client picks the id when
+  a chat starts, so overlapping autosaves of the same session update one row instead of racing
+  to create two. Naming a new draft waits on the model, so a second autosave can reach the
+  create first; the slower one then hits the unique id (P2002) and retries as an update that
+  keeps the winner's name.
+  An id that belongs to another user or to a non-draft row answers 404.
+- `transcript_id` is the saved transcript the chat updates (stored in source_id) and is
+  returned by GET, so a resumed chat still saves as an update of that transcript. It must be
+  one of the user's live transcripts, otherwise PUT answers 404 and stores nothing.
+- A new draft is named by `title` when given (a reloaded transcript keeps its name), otherwise
+  by the selected responder's model (generateTitle), falling back to the first user line when
+  that fails. Later autosaves keep the name unless a title is sent.
+- Only the newest MAX_DRAFTS drafts per user are kept; older ones are deleted when a new draft
+  is created, together with stored audio no other conversation uses (_utils/audio).
+*/
+
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import { resolveProvider } from "~/server/providers";
+import { findResponder } from "~/server/responders";
+import type { TranscriptMessage } from "~/types/message";
+import { fallbackTitle, generateTitle, MAX_DRAFTS } from "../../_utils/drafts";
+import { toSearchText, toTranscriptResponse } from "../../_utils/transcripts";
+import { deleteOrphanedAudio } from "../../_utils/audio";
+
+const bodySchema = z.object({
+  id: z.string().uuid(),
+  messages: z
+    .array(
+      z
+        .object({
+          role: z.enum(["user", "assistant"]),
+          content: z.string(),
+          active: z.boolean().optional(),
+        })
+        .passthrough(),
+    )
+    .min(1),
+  responder: z.string().max(100).optional(),
+  title: z.string().trim().min(1).max(255).optional(),
+  transcript_id: z.string().max(36).optional(),
+});
+
+/**
+ * GET
+ *
+ * Returns the authenticated user's most recently updated draft, messages included (same
+ * shape as /api/transcripts/[id] plus `transcript_id`). Returns 404 when the user has no draft.
+ */
+export async function GET() {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const draft = await db.library.findFirst({
+    where: { user_id: session.user.id, type: "draft" },
+    orderBy: { updated_at: "desc" },
+  });
+  if (!draft) {
+    return NextResponse.json({ error: "No draft" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    ...toTranscriptResponse(draft),
+    transcript_id: draft.source_id,
+  });
+}
+
+/**
+ * PUT
+ *
+ * Creates or updates the draft with the given id and returns { id, title }.
+ * Returns 401 if not authenticated, 400 for an invalid payload and 404 if the id belongs to
+ * a row the user may not write as a draft or transcript_id is not one of the user's live
+ * transcripts.
+ */
+export async function PUT(req: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const userId = session.user.id;
+
+  let body: z.infer<typeof bodySchema>;
+  try {
+    body = bodySchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  try {
+    const messages = body.messages as TranscriptMessage[];
+    const existing = await db.library.findUnique({
+      where: { id: body.id },
+      select: { user_id: true, type: true, title: true },
+    });
+    if (
+      existing &&
+      (existing.user_id !== userId || existing.type !== "draft")
+    ) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+
+    if (body.transcript_id !== undefined) {
+      const transcript = await db.library.findFirst({
+        where: {
+          id: body.transcript_id,
+          user_id: userId,
+          type: "transcript",
+          deleted_at: null,
+        },
+        select: { id: true },
+      });
+      if (!transcript) {
+        return NextResponse.json(
+          { error: "Transcript not found" },
+          { status: 404 },
+        );
+      }
+    }
+
+    let title: string | null | undefined = body.title ?? existing?.title;
+    if (!title) {
+      const responder = await findResponder(
+        body.responder ?? "General",
+        userId,
+      );
+      const provider = responder
+        ? await resolveProvider(responder.provider, userId)
+        : null;
+      title =
+        responder && provider && !(provider instanceof NextResponse)
+          ? await generateTitle({ provider, responder, messages, userId })
+          : null;
+      title ??= fallbackTitle(messages);
+    }
+
+    const data = {
+      title,
+      messages_json: JSON.stringify(messages),
+      search_text: toSearchText(messages),
+      message_count: messages.filter((m) => m.active !== false).length,
+      ...(body.responder !== undefined && { responder: body.responder }),
+      source_id: body.transcript_id ?? null,
+    };
+
+    let created = !existing;
+    if (existing) {
+      await db.library.update({ where: { id: body.id }, data });
+    } else {
+      try {
+        await db.library.create({
+          data: { id: body.id, user_id: userId, type: "draft", ...data },
+        });
+      } catch (error) {
+        if (
+          !(
+            error instanceof Prisma.PrismaClientKnownRequestError &&
+            error.code === "P2002"
+          )
+        ) {
+          throw error;
+        }
+        // An overlapping autosave created the draft while this one was naming it: update that
+        // row instead, keeping the name it was given.
+        const raced = await db.library.findUnique({
+          where: { id: body.id },
+          select: { user_id: true, type: true, title: true },
+        });
+        if (raced?.user_id !== userId || raced.type !== "draft") {
+          return NextResponse.json(
+            { error: "Draft not found" },
+            { status: 404 },
+          );
+        }
+        title = body.title ?? raced.title ?? title;
+        await db.library.update({
+          where: { id: body.id },
+          data: { ...data, title },
+        });
+        created = false;
+      }
+    }
+
+    if (created) {
+      const stale = await db.library.findMany({
+        where: { user_id: userId, type: "draft" },
+        orderBy: { updated_at: "desc" },
+        skip: MAX_DRAFTS,
+        select: { id: true, messages_json: true },
+      });
+      if (stale.length) {
+        await db.library.deleteMany({
+          where: { id: { in: stale.map((d) => d.id) } },
+        });
+        await deleteOrphanedAudio(
+          userId,
+          stale.map((d) => d.messages_json),
+        );
+      }
+    }
+
+    return NextResponse.json({ id: body.id, title });
+  } catch (error) {
+    console.error("Error autosaving draft:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/*
+src/app/api/transcripts/import/route.ts
+
+Summary:
+API route for importing conversations exported from other assistants. POST accepts the parsed
+contents of an OpenAI (ChatGPT) `conversations.json`, a Claude export or a generic
+`{ role, content }[]` array, maps every conversation to a saved transcript and stores them for
+the authenticated user.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function POST(req: Request)
+
+Exports used by:
+- src/components/transcripts/modals/ImportTranscriptsModal.tsx
+
+Nuances:
+- Body: { data, responder?, title?, remember? }. `title` names a generic import (the modal sends
+  the file name); `responder` is stored on every imported transcript.
+- Conversations whose title already exists for the user are skipped, so importing the same
+  file twice is harmless. Transcripts in the trash don't count, so a deleted conversation
+  can be imported again. (Titles are otherwise not unique; see /api/transcript/save.)
+- With `remember`, the active threads of the imported transcripts are returned as `messages`
+  (oldest conversation first) so the client can seed the responder's memory through the
+  existing reRemember path; nothing is written to memory here.
+- Answers 400 for invalid payloads and 422 when the data matches no supported format.
+*/
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import { parseImport } from "../../_utils/importers";
+import { toSearchText } from "../../_utils/transcripts";
+
+const INSERT_BATCH_SIZE = 100;
+
+const bodySchema = z.object({
+  data: z.unknown(),
+  responder: z.string().max(100).optional(),
+  title: z.string().max(255).optional(),
+  remember: z.boolean().optional(),
+});
+
+export async function POST(req: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: z.infer<typeof bodySchema>;
+  try {
+    body = bodySchema.parse(await req.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+
+  const parsed = parseImport(body.data, body.title ?? "");
+  if (!parsed) {
+    return NextResponse.json(
+      { error: "Unrecognized export format" },
+      { status: 422 },
+    );
+  }
+
+  try {
+    const userId = session.user.id;
+    const existing = await db.library.findMany({
+      where: {
+        user_id: userId,
+        type: "transcript",
+        deleted_at: null,
+        title: { in: parsed.transcripts.map((t) => t.title) },
+      },
+      select: { title: true },
+    });
+    const seen = new Set(existing.map((e) => e.title));
+
+    const toImport = parsed.transcripts.filter((t) => {
+      if (seen.has(t.title)) return false;
+      seen.add(t.title);
+      return true;
+    });
+
+    const rows = toImport.map((t) => ({
+      id: crypto.randomUUID(),
+      user_id: userId,
+      type: "transcript" as const,
+      title: t.title,
+      responder: body.responder ?? null,
+      messages_json: JSON.stringify(t.messages),
+      search_text: toSearchText(t.messages),
+      message_count: t.messages.filter((m) => m.active !== false).length,
+      ...(t.created_at && { created_at: t.created_at }),
+      updated_at: t.updated_at ?? t.created_at ?? new Date(),
+    }));
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await db.library.createMany({
+        data: rows.slice(i, i + INSERT_BATCH_SIZE),
+      });
+    }
+
+    const messages = body.remember
+      ? [...toImport]
+          .sort(
+            (a, b) =>
+              (a.created_at?.getTime() ?? 0) - (b.created_at?.getTime() ?? 0),
+          )
+          .flatMap((t) =>
+            t.messages
+              .filter((m) => m.active !== false)
+              .map((m) => ({
+                id: m.id,
+                text: m.content,
+                type: m.role,
+              })),
+          )
+      : undefined;
+
+    return NextResponse.json({
+      format: parsed.format,
+      imported: rows.length,
+      skipped: parsed.transcripts.length - rows.length,
+      transcripts: rows.map((r) => ({ id: r.id, title: r.title })),
+      ...(messages && { messages }),
+    });
+  } catch (error) {
+    console.error("Error importing transcripts:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,7 +2,7 @@
 src/app/api/transcripts/route.ts
 
 Summary:
-API route for managing transcript records. Provides endpoints to fetch a paginated list of transcripts and to delete a transcript by id. Used by the client to display, search, and remove saved transcripts.
+API route for managing transcript records. Provides endpoints to search and page through the signed-in user's transcripts and to move a transcript to the trash by id. Used by the client to display, search, and remove saved transcripts. A single transcript (with its messages) is fetched from /api/transcripts/[id]; trashed transcripts are listed, restored and purged via /api/transcripts/trash and /api/transcripts/[id]/restore.
 
 Imports to:
 - Not directly imported; accessed via HTTP by client-side hooks.
@@ -15,21 +15,52 @@ Exports used by:
 - src/components/transcripts/hooks/useTranscripts.ts (calls these endpoints via fetch)
 
 Nuances:
-- The GET handler parses the messages_json field for each transcript, returning parsed messages or null if parsing fails.
-- DELETE requires user authentication and only allows deleting transcripts owned by the authenticated user.
+- GET returns lightweight summaries (toTranscriptSummary) without messages_json or search_text, plus a nextCursor for the following page. Preview and snippet are cut out of search_text by MySQL for the page's rows only (loadSummaryTexts).
+- Search matches every whitespace-separated term (case-insensitive, as a word prefix) against the title or search_text, the plain message text stored on save, through the FULLTEXT index on both columns (migration update_012). Terms shorter than three characters are below InnoDB's minimum token size and are matched with LIKE instead. Rows saved before search_text existed were backfilled by migration update_005.
+- Cursor pagination orders by the sort field with id as tie-breaker, so pages stay stable when timestamps or titles repeat.
+- DELETE is a soft delete: it sets deleted_at (keeping updated_at) and answers with the date the transcript will be purged. Trashed transcripts are left out of GET. Each DELETE also purges the user's expired trash (_utils/trash).
+- Both handlers require authentication and only see transcripts owned by the authenticated user (user_id); other users' transcripts are indistinguishable from missing ones.
 */
 
 import { NextResponse } from "next/server";
 import { db } from "~/server/db";
-import type { Library } from "@prisma/client";
+import { z } from "zod";
 import { auth } from "~/server/auth";
+import {
+  loadSummaryTexts,
+  toTranscriptSummary,
+  transcriptSearchWhere,
+} from "../_utils/transcripts";
+import { purgeDate, purgeExpired } from "../_utils/trash";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_TERMS = 8;
+
+const SORT_FIELDS = {
+  updated: "updated_at",
+  created: "created_at",
+  title: "title",
+} as const;
+
+const querySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  responder: z.string().max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sort: z.enum(["updated", "created", "title"]).default("updated"),
+  order: z.enum(["asc", "desc"]).optional(),
+  cursor: z.string().max(36).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT),
+});
 
 /**
  * DELETE
  *
- * Deletes a transcript by id for the authenticated user.
+ * Moves a transcript to the trash by id for the authenticated user.
  * Expects an "id" query parameter. Returns 401 if not authenticated,
- * 400 if id is missing, 404 if transcript not found, or 200 on success.
+ * 400 if id is missing, 404 if transcript not found (or already trashed),
+ * or 200 with { success, purge_at } on success.
  */
 export async function DELETE(req: Request) {
   const session = await auth();
@@ -50,6 +81,7 @@ export async function DELETE(req: Request) {
         id,
         type: "transcript",
         user_id: session.user.id,
+        deleted_at: null,
       },
     });
 
@@ -60,14 +92,17 @@ export async function DELETE(req: Request) {
       );
     }
 
-    await db.library.delete({
-      where: {
-        id,
-        user_id: session.user.id,
-      },
+    const deletedAt = new Date();
+    await db.library.update({
+      where: { id },
+      data: { deleted_at: deletedAt, updated_at: transcript.updated_at },
     });
+    await purgeExpired(session.user.id);
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({
+      success: true,
+      purge_at: purgeDate(deletedAt),
+    });
   } catch (error) {
     console.error("Error deleting transcript:", error);
     return NextResponse.json(
@@ -80,40 +115,72 @@ export async function DELETE(req: Request) {
 /**
  * GET
  *
- * Returns a paginated list of transcript records.
- * Accepts "offset" and "limit" query parameters for pagination.
- * Each transcript includes parsed messages (if valid JSON) or null.
+ * Returns a page of the authenticated user's transcripts as summaries.
+ * Query parameters (all optional):
+ * - q: search text; every term must occur (as a word prefix) in the title or message content
+ * - responder: exact responder name
+ * - from / to: ISO dates bounding updated_at (inclusive)
+ * - sort: "updated" (default) | "created" | "title"; order: "asc" | "desc"
+ *   (defaults to newest first, A–Z for title)
+ * - cursor: nextCursor from the previous page; limit: page size (1–100, default 20)
+ * Responds with { items, nextCursor } (nextCursor is null on the last page),
+ * 400 for invalid parameters or 401 if not authenticated.
  */
 export async function GET(req: Request) {
-  const { searchParams } = new URL(req.url);
-  const offset = parseInt(searchParams.get("offset") ?? "0", 10);
-  const limit = parseInt(searchParams.get("limit") ?? "20", 10);
-
-  const transcripts = await db.library.findMany({
-    where: { type: "transcript" },
-    orderBy: { updated_at: "desc" },
-    skip: offset,
-    take: limit,
-  });
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
 
-  const result = transcripts.map((t: Library) => {
-    let parsedMessages: unknown = null;
-    try {
-      parsedMessages = JSON.parse(t.messages_json);
-    } catch {
-      parsedMessages = null;
-    }
+  const { searchParams } = new URL(req.url);
+  const parsed = querySchema.safeParse(
+    Object.fromEntries([...searchParams].filter(([, value]) => value !== "")),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid query", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
 
-    return {
-      id: t.id,
-      title: t.title,
-      responder: t.responder,
-      created_at: t.created_at,
-      updated_at: t.updated_at,
-      message_count: t.message_count,
-      messages: parsedMessages,
-    };
+  const { q, responder, from, to, sort, cursor, limit } = parsed.data;
+  const order = parsed.data.order ?? (sort === "title" ? "asc" : "desc");
+  const terms = (q ?? "").split(/\s+/).filter(Boolean).slice(0, MAX_TERMS);
+  const field = SORT_FIELDS[sort];
+
+  const rows = await db.library.findMany({
+    where: {
+      type: "transcript",
+      user_id: session.user.id,
+      deleted_at: null,
+      ...(responder && { responder }),
+      ...((from ?? to) && {
+        updated_at: { ...(from && { gte: from }), ...(to && { lte: to }) },
+      }),
+      ...transcriptSearchWhere(terms),
+    },
+    orderBy: [{ [field]: order }, { id: order }],
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    take: limit + 1,
+    select: {
+      id: true,
+      title: true,
+      responder: true,
+      created_at: true,
+      updated_at: true,
+      message_count: true,
+      version: true,
+    },
   });
 
-  return NextResponse.json(result);
+  const page = rows.slice(0, limit);
+  const texts = await loadSummaryTexts(
+    session.user.id,
+    page.map((row) => row.id),
+    terms,
+  );
+  return NextResponse.json({
+    items: page.map((row) => toTranscriptSummary(row, texts.get(row.id))),
+    nextCursor: rows.length > limit ? page[page.length - 1]!.id : null,
+  });
 }
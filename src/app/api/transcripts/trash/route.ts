@@ -0,0 +1,193 @@
+/*
+src/app/api/transcripts/trash/route.ts
+
+Summary:
+API route for the transcript trash: lists the signed-in user's deleted transcripts and the
+messages deleted from their saved transcripts, and purges them for good, either selected ones
+or the whole trash.
+
+Imports to:
+- Not directly imported; accessed via HTTP by client-side code.
+
+Exports:
+- export async function GET()
+- export async function DELETE(req: Request)
+
+Exports used by:
+- src/components/transcripts/hooks/useTranscripts.ts (fetchTrash, purgeTranscripts; the trash
+  view of the transcripts page)
+
+Nuances:
+- Transcripts land here through DELETE /api/transcripts (soft delete) and leave through
+  POST /api/transcripts/[id]/restore or a purge. Both handlers first purge transcripts that
+  outlived the retention window (TRASH_RETENTION_DAYS, see _utils/trash), so the list never
+  shows expired rows.
+- GET returns at most MAX_ITEMS summaries, most recently deleted first, each with deleted_at and
+  purge_at, plus retention_days for the UI. `messages` lists up to MAX_ITEMS deleted messages
+  the same way ({ id, transcript_id, transcript_title, role, preview, deleted_at, purge_at });
+  they leave through POST /api/transcripts/[id]/restore with a message_id or a purge.
+- Purging deletes the rows with their versions; notes taken from a purged transcript are kept.
+  A purged message is removed from its transcript and every version of it, its replies moving
+  up to its parent. The transcript's version is raised, so a chat still holding the message
+  gets 409 on its next save; a transcript saved during the purge keeps its messages.
+*/
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import {
+  loadSummaryTexts,
+  toTranscriptSummary,
+} from "../../_utils/transcripts";
+import {
+  listDeletedMessages,
+  purgeDate,
+  purgeExpired,
+  purgeMessages,
+  purgeTranscripts,
+  retentionDays,
+} from "../../_utils/trash";
+
+const MAX_ITEMS = 200;
+
+const idsSchema = z.array(z.string().min(1).max(36)).max(MAX_ITEMS);
+// "<transcript id>/<message id>"
+const messageRefsSchema = z
+  .array(
+    z
+      .string()
+      .regex(/^[^/]{1,36}\/[^/]{1,64}$/)
+      .transform((ref) => {
+        const [transcriptId, messageId] = ref.split("/") as [string, string];
+        return { transcriptId, messageId };
+      }),
+  )
+  .max(MAX_ITEMS);
+
+/**
+ * GET
+ *
+ * Lists the authenticated user's trashed transcripts and deleted messages.
+ * Responds with { items, messages, retention_days } or 401 if not authenticated.
+ */
+export async function GET() {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await purgeExpired(session.user.id);
+
+    const rows = await db.library.findMany({
+      where: {
+        type: "transcript",
+        user_id: session.user.id,
+        deleted_at: { not: null },
+      },
+      orderBy: [{ deleted_at: "desc" }, { id: "desc" }],
+      take: MAX_ITEMS,
+      select: {
+        id: true,
+        title: true,
+        responder: true,
+        created_at: true,
+        updated_at: true,
+        message_count: true,
+        version: true,
+        deleted_at: true,
+      },
+    });
+
+    const texts = await loadSummaryTexts(
+      session.user.id,
+      rows.map((row) => row.id),
+      [],
+    );
+
+    return NextResponse.json({
+      items: rows.map(({ deleted_at, ...row }) => ({
+        ...toTranscriptSummary(row, texts.get(row.id)),
+        deleted_at,
+        purge_at: purgeDate(deleted_at!),
+      })),
+      messages: await listDeletedMessages(session.user.id, MAX_ITEMS),
+      retention_days: retentionDays(),
+    });
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trash" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE
+ *
+ * Permanently deletes trashed transcripts and deleted messages. Repeat the "id" query
+ * parameter to purge selected transcripts and "message" ("<transcript id>/<message id>") for
+ * selected messages; without either the whole trash is emptied.
+ * Responds with { success, purged, purged_messages }, 400 for invalid ids or 401 if not
+ * authenticated.
+ */
+export async function DELETE(req: Request) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const parsed = idsSchema.safeParse(searchParams.getAll("id"));
+  const messages = messageRefsSchema.safeParse(searchParams.getAll("message"));
+  if (!parsed.success || !messages.success) {
+    return NextResponse.json({ error: "Invalid id" }, { status: 400 });
+  }
+
+  try {
+    const userId = session.user.id;
+    await purgeExpired(userId);
+
+    let ids = parsed.data;
+    const refs = messages.data;
+    const emptyTrash = !ids.length && !refs.length;
+    if (emptyTrash) {
+      const trashed = await db.library.findMany({
+        where: {
+          type: "transcript",
+          user_id: userId,
+          deleted_at: { not: null },
+        },
+        select: { id: true },
+      });
+      ids = trashed.map((t) => t.id);
+    }
+
+    const purgedMessages =
+      emptyTrash || refs.length
+        ? await purgeMessages(
+            userId,
+            emptyTrash ? {} : { id: { in: refs.map((r) => r.transcriptId) } },
+            (transcriptId, m) =>
+              emptyTrash ||
+              refs.some(
+                (r) => r.transcriptId === transcriptId && r.messageId === m.id,
+              ),
+          )
+        : 0;
+    const purged = await purgeTranscripts(userId, ids);
+    return NextResponse.json({
+      success: true,
+      purged,
+      purged_messages: purgedMessages,
+    });
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    return NextResponse.json(
+      { error: "Failed to purge trash" },
+      { status: 500 },
+    );
+  }
+}
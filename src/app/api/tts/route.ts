@@ -2,7 +2,7 @@
 src/app/api/tts/route.ts
 
 Summary:
-  Next.js API route for Text-to-Speech (TTS) audio generation. Handles POST requests with text input, authenticates the user, determines the appropriate voice model, and proxies the request to the APIpie TTS backend. Returns an audio/mpeg stream and optionally includes audio usage details in the response headers.
+  Next.js API route for Text-to-Speech (TTS) audio generation. Handles POST requests with text input, authenticates the user, determines the appropriate voice model, and proxies the request to the responder's speech-capable provider. Returns an audio/mpeg stream and optionally includes audio usage details in the response headers.
 
 Imports to:
   - Not directly imported; used by Next.js API routing.
@@ -14,95 +14,178 @@ Exports used by:
   - src/components/chat/hooks/useTTSPlayer.ts (calls this route via HTTP POST to /api/tts)
 
 Nuances:
-  - If a user has a custom APIpie key, it is decrypted and used for the request; otherwise, the system key is used.
-  - The responder (voice model) is looked up by promptName; if not found, a 500 error is returned.
-  - The route expects the APIpie backend to return an audio stream and may include an X-Audio-Details header with usage/cost/latency.
-  - The route always returns audio/mpeg on success, with no caching and chunked transfer encoding.
+  - The responder's provider synthesizes the speech; providers without speech support (e.g. Ollama) fall back to the default provider. API key selection happens in resolveProvider.
+  - The responder (voice model) is looked up by promptName, preferring the caller's own responder over a system one; if not found, a 500 error is returned.
+  - An optional `language` selects the voice from the responder's voice_map (used for
+    mixed-language replies split client-side); unmapped languages use the default voice.
+  - The route expects the provider to return an audio stream and may include an X-Audio-Details header with usage/cost/latency.
+  - The route always returns audio/mpeg on success, with no HTTP caching.
+  - Generated speech is cached server-side by the speaking provider, text, voice model and voice
+    (src/server/ttsCache), so the provider is resolved before the cache is checked.
+    A hit is answered from the cache without calling (or billing) the provider: X-TTS-Cache is
+    HIT and X-Audio-Details reports zero cost. A miss (X-TTS-Cache: MISS) streams the provider's
+    audio with chunked transfer encoding and caches it once complete.
+  - With audio storage enabled (AUDIO_STORAGE), passing the reply's `messageId` (plus the chunk
+    `seq` and language `span`) stores the speech for replay as well.
+  - To cache and store without delaying playback, the provider stream is teed: one branch goes
+    to the client, the other is collected in the background. Failures there are only logged.
 */
 
 import { NextResponse } from "next/server";
-import { db } from "~/server/db";
-import { decryptApiKey } from "~/lib/utils/crypto";
 import { auth } from "~/server/auth";
+import { resolveProvider } from "~/server/providers";
+import { findResponder } from "~/server/responders";
+import { isVoiceMap } from "~/types/responder";
+import { getAudioStorage } from "~/server/storage";
+import { cacheSpeech, getCachedSpeech, ttsCacheKey } from "~/server/ttsCache";
+import { isMessageId, MAX_CLIP_BYTES, storeClip } from "../_utils/audio";
 
 interface RequestBody {
   text: string;
   promptName?: string;
+  language?: string;
+  messageId?: string;
+  seq?: number;
+  span?: number;
+}
+
+type SpeechClip = {
+  userId: string;
+  messageId: string;
+  seq: number;
+  span: number;
+};
+
+/**
+ * Reads a stream to the end into one buffer. Gives up (null) once it exceeds MAX_CLIP_BYTES.
+ */
+async function collectStream(
+  stream: ReadableStream<Uint8Array>,
+): Promise<Uint8Array | null> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_CLIP_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+/**
+ * Stores speech as TTS audio of a message (see storeClip), logging failures.
+ */
+function archiveSpeech(clip: SpeechClip, data: Uint8Array) {
+  storeClip({ ...clip, kind: "tts", data, contentType: "audio/mpeg" }).catch(
+    (error) => console.error("Failed to store speech:", error),
+  );
 }
 
 /**
  * Handles POST requests for TTS audio generation.
  *
  * - Validates input and user authentication.
- * - Looks up the responder (voice model) by promptName.
- * - Selects the correct APIpie API key (user or system).
- * - Proxies the request to APIpie TTS backend and streams the audio response.
- * - Returns audio/mpeg with optional X-Audio-Details header.
+ * - Looks up the responder (voice model) by promptName for the authenticated user.
+ * - Picks the voice mapped to `language`, if any, otherwise the responder's voice.
+ * - Resolves the speech provider for the responder (with API key selection).
+ * - Answers from the TTS cache when that provider spoke the same text in that voice before.
+ * - Proxies the request to that provider and streams the audio response.
+ * - Returns audio/mpeg with X-TTS-Cache and optional X-Audio-Details headers.
+ * - Caches the speech, and stores a copy for `messageId` when audio storage is enabled.
  */
 export async function POST(request: Request) {
+  const startedAt = Date.now();
   try {
     const body = (await request.json()) as RequestBody;
-    const { text, promptName = "General" } = body;
+    const {
+      text,
+      promptName = "General",
+      language,
+      messageId,
+      seq = 0,
+      span = 0,
+    } = body;
 
     if (!text) {
       return NextResponse.json({ error: "No text provided" }, { status: 400 });
     }
 
-    const responder = await db.responders.findUnique({
-      where: {
-        responder: {
-          owner: "system",
-          name: promptName,
-        },
-      },
-    });
-
-    if (!responder) {
-      return NextResponse.json(
-        { error: `Responder "${promptName}" not found` },
-        { status: 500 },
-      );
-    }
-
     const session = await auth();
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    let apipieApiKey: string | undefined = process.env.APIPIE_API_KEY;
-    const user = await db.user.findUnique({ where: { id: session.user.id } });
-
-    if (user?.apipie_key) {
-      const decrypted = decryptApiKey(user.apipie_key);
-      if (typeof decrypted !== "string") {
-        return decrypted;
-      }
-      apipieApiKey = decrypted;
-    }
+    const responder = await findResponder(promptName, session.user.id);
 
-    if (!apipieApiKey) {
+    if (!responder) {
       return NextResponse.json(
-        { error: "APIpie API key not configured" },
+        { error: `Responder "${promptName}" not found` },
         { status: 500 },
       );
     }
 
-    const baseUrl = process.env.APIPIE_BASE_URL ?? "https://apipie.ai";
-
-    const ttsResponse = await fetch(`${baseUrl}/v1/audio/speech`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apipieApiKey}`,
-      },
-      body: JSON.stringify({
-        model: responder.voice_model?.split("/")[1] ?? "gpt-4o-mini-tts",
-        provider: responder.voice_model?.split("/")[0] ?? "openai",
-        input: text,
-        voice: responder.voice ?? "echo",
-        response_format: "mp3",
-        user: session.user.id,
-      }),
+    const voiceMap = isVoiceMap(responder.voice_map) ? responder.voice_map : {};
+    const voice =
+      (language ? voiceMap[language] : undefined) ?? responder.voice;
+
+    const archive: SpeechClip | null =
+      getAudioStorage() &&
+      isMessageId(messageId) &&
+      Number.isInteger(seq) &&
+      Number.isInteger(span)
+        ? { userId: session.user.id, messageId, seq, span }
+        : null;
+
+    const provider = await resolveProvider(
+      responder.provider,
+      session.user.id,
+      "synthesizeSpeech",
+    );
+    if (provider instanceof NextResponse) return provider;
+
+    const cacheKey = ttsCacheKey({
+      provider: provider.id,
+      text,
+      voice_model: responder.voice_model,
+      voice,
+    });
+    const cached = await getCachedSpeech(cacheKey);
+    if (cached) {
+      if (archive) archiveSpeech(archive, cached);
+      return new Response(cached, {
+        headers: {
+          "Content-Type": "audio/mpeg",
+          "Content-Length": String(cached.byteLength),
+          "Cache-Control": "no-cache",
+          "X-Content-Type-Options": "nosniff",
+          "X-TTS-Cache": "HIT",
+          "X-Audio-Details": JSON.stringify({
+            cost: 0,
+            promptChar: text.length,
+            latencyMs: Date.now() - startedAt,
+          }),
+        },
+      });
+    }
+
+    const ttsResponse = await provider.synthesizeSpeech({
+      voice_model: responder.voice_model,
+      voice,
+      input: text,
+      user: session.user.id,
     });
 
     if (!ttsResponse.ok || !ttsResponse.body) {
@@ -120,6 +203,7 @@ export async function POST(request: Request) {
       "Cache-Control": "no-cache",
       "Transfer-Encoding": "chunked",
       "X-Content-Type-Options": "nosniff",
+      "X-TTS-Cache": "MISS",
     });
 
     const audioDetails = ttsResponse.headers.get("X-Audio-Details");
@@ -127,7 +211,16 @@ export async function POST(request: Request) {
       headers.set("X-Audio-Details", audioDetails);
     }
 
-    return new Response(ttsResponse.body, {
+    const [audio, copy] = ttsResponse.body.tee();
+    collectStream(copy)
+      .then(async (data) => {
+        if (!data?.byteLength) return;
+        if (archive) archiveSpeech(archive, data);
+        await cacheSpeech(cacheKey, data);
+      })
+      .catch((error) => console.error("Failed to cache speech:", error));
+
+    return new Response(audio, {
       headers,
     });
   } catch (error) {
@@ -16,16 +16,15 @@
  *
  * Nuances:
  *  - Authenticates user via next-auth session; returns 401 if not authenticated.
- *  - Decrypts per-user API key if present, otherwise uses global key.
+ *  - Usage is queried from the default provider via resolveProvider (per-user key if present, otherwise global key).
  *  - Aggregates spend and token usage by route and by period (hour/day/month).
  *  - Returns a normalized response structure expected by the usage analytics hook.
  *  - Handles and reports API errors and malformed responses.
  */
 
 import { NextResponse } from "next/server";
-import { db } from "~/server/db";
-import { decryptApiKey } from "~/lib/utils/crypto";
 import { auth } from "~/server/auth";
+import { resolveProvider } from "~/server/providers";
 
 export interface QueryItem {
   timestamp: string;
@@ -51,7 +50,7 @@ interface ApiResponse {
 /**
  * GET
  * Route handler for usage analytics requests.
- * - Authenticates the user and determines the API key to use.
+ * - Authenticates the user and resolves the usage provider.
  * - Fetches usage data from the backend API.
  * - Aggregates spend and token usage by route and by period.
  * - Returns a normalized response for usage analytics consumers.
@@ -66,32 +65,15 @@ export async function GET(request: Request) {
   const show = url.searchParams.get("show") ?? "all";
   const days = url.searchParams.get("days") ?? "3";
 
-  let apiKey = process.env.APIPIE_API_KEY;
-  const user = await db.user.findUnique({ where: { id: session.user.id } });
-
-  if (user?.apipie_key) {
-    const decrypted = decryptApiKey(user.apipie_key);
-    if (typeof decrypted !== "string") return decrypted;
-    apiKey = decrypted;
-  }
-
-  if (!apiKey) {
-    return NextResponse.json(
-      { error: "API key not configured" },
-      { status: 401 },
-    );
-  }
+  const provider = await resolveProvider(
+    undefined,
+    session.user.id,
+    "queryUsage",
+  );
+  if (provider instanceof NextResponse) return provider;
 
   try {
-    const res = await fetch(
-      `${process.env.APIPIE_BASE_URL}/v1/queries?show=${show}&days=${days}`,
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          Accept: "application/json",
-        },
-      },
-    );
+    const res = await provider.queryUsage({ show, days });
 
     if (!res.ok) {
       throw new Error(`API request failed with status ${res.status}`);
@@ -52,7 +52,7 @@ export default function APIKeyPage() {
     <>
       <HeaderBar
         activeView="chat"
-        onNav={(view) => router.push(view === "chat" ? "/" : "/transcripts")}
+        onNav={(view) => router.push(view === "chat" ? "/" : `/${view}`)}
         className="border-b border-gray-200 dark:border-gray-700"
       />
       <div className="text-foreground bg-background min-h-screen p-6">
@@ -21,6 +21,20 @@
 // - Many UI behaviors (TTS playback, streaming updates, memory toggles) are proxied to hooks
 //   and child components; this file focuses on composition and a small amount of UI glue.
 // - Avoid adding heavy logic here; keep feature-specific logic in hooks or child components.
+// - While a reply streams a StopButton floats above the input; it aborts the reply and keeps
+//   the partial text (useChat.handleStopGeneration).
+// - Bubbles offer edit (user) and regenerate (assistant, optionally with another responder);
+//   both create branches, navigated per bubble via useChat.branchInfo/handleSelectBranch.
+// - Input is either voice (MicButton) or typed (TextComposer); the choice is persisted in
+//   localStorage ("chatInputMode"). Typed text goes through useChat.handleSendText.
+// - The conversation is autosaved as a draft after each reply (useChat/useDraft). An empty
+//   chat offers the latest draft (ResumeDraftBanner), and the save dialog suggests the
+//   draft's generated title. A save that fails, or an update of a transcript that was
+//   changed elsewhere since it was loaded, is reported in the toast.
+// - Deleting a message takes effect at once; the toast offers Undo for a few seconds
+//   (useChat.undoRemoveMessage), and later the trash restores it once the chat is saved. Responders are deleted for good and still ask first.
+// - When the server stores message audio (useChat.isAudioArchiveEnabled), bubbles offer
+//   "Replay" of the stored recording or speech; a toast says when a message has none.
 // - The component assumes the runtime is client-side ("use client") and therefore uses
 //   browser APIs (localStorage, DOM methods) in effects.
 //
@@ -45,12 +59,19 @@ import type { Responder } from "~/types/responder";
 import { HeaderBar } from "../../components/HeaderBar";
 import { BottomBar } from "../../components/bottomBar/BottomBar";
 import { SaveTranscriptModal } from "../../components/transcripts/modals/SaveTranscriptModal";
+import { useSaveNote } from "../../components/notes/hooks/saveNote";
 import { ChatBubble } from "../../components/chat/ChatBubble";
 import { MicButton } from "../../components/chat/MicButton";
+import { TextComposer } from "../../components/chat/TextComposer";
+import { StopButton } from "../../components/chat/StopButton";
+import { ResumeDraftBanner } from "../../components/chat/ResumeDraftBanner";
 import { MemoryStatusModal } from "../../components/bottomBar/modals/MemoryStatusModal";
 import { LoginRequiredView } from "~/components/chat/LoginRequiredView";
 import { useSession } from "next-auth/react";
 
+// How long the "Message deleted" toast (with its Undo button) stays up.
+const UNDO_TOAST_MS = 8000;
+
 /**
  * ChatPage
  *
@@ -96,27 +117,51 @@ export default function ChatPage() {
   const [toastMessage, setToastMessage] = useState<string | null>(null);
   const [showConfirmDelete, setShowConfirmDelete] = useState(false);
   const [messageToDelete, setMessageToDelete] = useState<string | null>(null);
+  // A message was just deleted; the toast offers to undo it while this is set.
+  const [canUndoDelete, setCanUndoDelete] = useState(false);
   const lastPressEndTimeRef = useRef<number>(0);
 
   /**
    * handleDeleteMessage
    *
-   * Prepare a delete confirmation for either a message or a responder.
-   * Sets an appropriate toast message and opens the confirmation UI.
+   * Deletes a chat message right away, offering to undo it in the toast. Responders
+   * (ids prefixed "responder:") are deleted for good, so they get a confirmation first.
    */
   const handleDeleteMessage = (id: string) => {
     if (id.startsWith("responder:")) {
       const name = id.replace("responder:", "");
       setMessageToDelete(name);
       setToastMessage(`Delete responder "${name}"?`);
+      setShowConfirmDelete(true);
     } else {
-      setMessageToDelete(id);
-      setToastMessage("Delete this message?");
+      removeMessage(id);
+      setDeleteVisibleId(null);
+      setCanUndoDelete(true);
+      setToastMessage("Message deleted");
     }
-    setShowConfirmDelete(true);
+  };
+
+  /**
+   * handleUndoDelete
+   *
+   * Puts the last deleted message back (the toast's Undo button).
+   */
+  const handleUndoDelete = () => {
+    setCanUndoDelete(false);
+    setToastMessage(undoRemoveMessage() ? "Message restored" : null);
   };
 
   const [hasApiKey, setHasApiKey] = useState<boolean | null>(null);
+  const [inputMode, setInputMode] = useState<"voice" | "text">("voice");
+
+  useEffect(() => {
+    if (localStorage.getItem("chatInputMode") === "text") setInputMode("text");
+  }, []);
+
+  const changeInputMode = (mode: "voice" | "text") => {
+    setInputMode(mode);
+    localStorage.setItem("chatInputMode", mode);
+  };
 
   useEffect(() => {
     if (session) {
@@ -132,40 +177,23 @@ export default function ChatPage() {
   /**
    * confirmDelete
    *
-   * Executes deletion after user confirmation. Supports deleting responder
-   * entries (via /api/responders) and individual chat messages
-   * (via /api/chat/messages). Updates local UI state accordingly.
+   * Deletes a responder (via /api/responders) after user confirmation and updates local UI
+   * state accordingly.
    */
   const confirmDelete = async (confirmed: boolean) => {
     setShowConfirmDelete(false);
 
     if (confirmed && messageToDelete) {
-      const isResponder = responders.find((r) => r.name === messageToDelete);
-      if (isResponder) {
-        try {
-          await fetch(`/api/responders/${messageToDelete}`, {
-            method: "DELETE",
-          });
-          const updated = responders.filter((r) => r.name !== messageToDelete);
-          setResponders(updated);
-          setSelectedResponder(updated[0]?.name ?? "General");
-          setToastMessage(`Responder "${messageToDelete}" deleted`);
-        } catch {
-          setToastMessage("Failed to delete responder");
-        }
-      } else {
-        try {
-          await fetch(`/api/chat/messages/${messageToDelete}`, {
-            method: "DELETE",
-          });
-
-          setMessages((prev) => prev.filter((m) => m.id !== messageToDelete));
-          setDeleteVisibleId(null);
-          setToastMessage("Message deleted");
-        } catch (error) {
-          console.error("Message delete failed:", error);
-          setToastMessage("Failed to delete message");
-        }
+      try {
+        await fetch(`/api/responders/${messageToDelete}`, {
+          method: "DELETE",
+        });
+        const updated = responders.filter((r) => r.name !== messageToDelete);
+        setResponders(updated);
+        setSelectedResponder(updated[0]?.name ?? "General");
+        setToastMessage(`Responder "${messageToDelete}" deleted`);
+      } catch {
+        setToastMessage("Failed to delete responder");
       }
     } else {
       setToastMessage(null);
@@ -176,13 +204,20 @@ export default function ChatPage() {
 
   useEffect(() => {
     if (toastMessage && !showConfirmDelete) {
-      const timer = setTimeout(() => setToastMessage(null), 3000);
+      const timer = setTimeout(
+        () => {
+          setToastMessage(null);
+          setCanUndoDelete(false);
+        },
+        canUndoDelete ? UNDO_TOAST_MS : 3000,
+      );
       return () => clearTimeout(timer);
     }
-  }, [toastMessage, showConfirmDelete]);
+  }, [toastMessage, showConfirmDelete, canUndoDelete]);
 
   const {
     messages,
+    branchInfo,
     setMessages,
     isRecording,
     isVADActive,
@@ -191,26 +226,50 @@ export default function ChatPage() {
     streamingMessageId,
     currentPlayingId,
     isHandsfreeActive,
+    isBargeInActive,
+    vadSettings,
+    isAutoSpeakActive,
     memoryStatus,
     memoryProgress,
     memoryTotal,
     toastVisible,
     currentTranscriptName,
+    currentTranscriptId,
+    draftTitle,
+    resumableDraft,
+    handleResumeDraft,
+    dismissDraft,
     handlePlayTTS,
     handleStopTTS,
+    isAudioArchiveEnabled,
+    replayingAudioId,
+    handleReplayAudio,
+    handleStopReplay,
     startManualRecording,
     stopManualRecording,
     handleMemoryClear,
     handleMemoryReRemember,
     handleSaveTranscript,
     setIsHandsfreeActive,
+    setIsBargeInActive,
+    setVadSettings,
+    setIsAutoSpeakActive,
+    handleSendText,
+    handleStopGeneration,
+    handleEditMessage,
+    handleRegenerate,
+    handleSelectBranch,
+    removeMessage,
+    undoRemoveMessage,
     setSelectedPrompt,
+    setVoiceLanguages,
     setResponderSettings,
     setWebSearchOptions: originalSetWebSearchOptions,
     setMemoryStatus,
     isMemoryActive,
     setIsMemoryActive,
   } = useChat();
+  const { handleSaveNote } = useSaveNote();
 
   /**
    * setWebSearchOptions
@@ -249,6 +308,15 @@ export default function ChatPage() {
     void fetchResponders();
   }, []);
 
+  /**
+   * Keeps the TTS voice languages in sync with the selected responder's voice map, so
+   * mixed-language replies switch voices only for languages that responder has mapped.
+   */
+  useEffect(() => {
+    const responder = responders.find((r) => r.name === selectedResponder);
+    setVoiceLanguages(Object.keys(responder?.voice_map ?? {}));
+  }, [responders, selectedResponder, setVoiceLanguages]);
+
   /**
    * Scrolls to the latest message when message list updates.
    * Kept minimal: simply performs a smooth scroll when messages change.
@@ -317,9 +385,7 @@ export default function ChatPage() {
       <>
         <HeaderBar
           activeView="chat"
-          onNav={(view) =>
-            router.push(view === "transcripts" ? "/transcripts" : "/")
-          }
+          onNav={(view) => router.push(view === "chat" ? "/" : `/${view}`)}
         />
         <main
           className="relative flex flex-col"
@@ -335,9 +401,7 @@ export default function ChatPage() {
     <>
       <HeaderBar
         activeView="chat"
-        onNav={(view) =>
-          router.push(view === "transcripts" ? "/transcripts" : "/")
-        }
+        onNav={(view) => router.push(view === "chat" ? "/" : `/${view}`)}
       />
       <main
         className="relative flex flex-col"
@@ -347,12 +411,21 @@ export default function ChatPage() {
           className="flex-1 overflow-y-auto px-4 pt-4 pb-36"
           onScroll={handleScroll}
         >
+          {resumableDraft && messages.length === 0 && (
+            <ResumeDraftBanner
+              title={resumableDraft.title}
+              updatedAt={resumableDraft.updated_at}
+              onResume={handleResumeDraft}
+              onDismiss={dismissDraft}
+            />
+          )}
           {messages.map((message) => (
             <ChatBubble
               key={message.id}
               messageId={message.id}
               text={message.text}
               type={message.type}
+              citations={message.citations}
               usage={message.usage}
               isStreaming={isStreaming && message.id === streamingMessageId}
               isPlayingTTS={currentPlayingId === message.id}
@@ -388,6 +461,43 @@ export default function ChatPage() {
               onShowDelete={() => setDeleteVisibleId(message.id)}
               onHideDelete={() => setDeleteVisibleId(null)}
               onDelete={() => handleDeleteMessage(message.id)}
+              branchIndex={branchInfo[message.id]?.index}
+              branchCount={branchInfo[message.id]?.count}
+              onSelectBranch={(offset) =>
+                handleSelectBranch(message.id, offset)
+              }
+              canModify={!isStreaming}
+              onEdit={(text) => handleEditMessage(message.id, text)}
+              responderName={message.responder}
+              responderNames={responders.map((r) => r.name)}
+              onRegenerate={(name) => handleRegenerate(message.id, name)}
+              onSaveNote={(content) =>
+                void handleSaveNote({
+                  content,
+                  message,
+                  transcriptId: currentTranscriptId,
+                }).then((saved) =>
+                  setToastMessage(
+                    saved ? "Saved to notes" : "Failed to save note",
+                  ),
+                )
+              }
+              isReplayingAudio={replayingAudioId === message.id}
+              onReplayAudio={
+                isAudioArchiveEnabled
+                  ? () => {
+                      if (replayingAudioId === message.id) {
+                        handleStopReplay();
+                        return;
+                      }
+                      void handleReplayAudio(message.id).then((played) => {
+                        if (!played) {
+                          setToastMessage("No recorded audio for this message");
+                        }
+                      });
+                    }
+                  : undefined
+              }
             />
           ))}
 
@@ -407,20 +517,59 @@ export default function ChatPage() {
           className="pointer-events-none fixed bottom-24 left-1/2 z-50 -translate-x-1/2"
           style={{ bottom: "calc(6rem + -30px)", background: "transparent" }}
         >
-          <div className="pointer-events-auto">
-            {hasApiKey !== null && (
-              <MicButton
-                isHandsfreeActive={isHandsfreeActive}
-                setIsHandsfreeActive={setIsHandsfreeActive}
-                isRecording={isRecording}
-                isVADActive={isVADActive}
-                isLoading={isLoading}
-                isPlayingAudio={!!currentPlayingId}
-                disabled={!hasApiKey}
-                startManualRecording={startManualRecording}
-                stopManualRecording={stopManualRecording}
-              />
-            )}
+          <div className="pointer-events-auto flex flex-col items-center gap-3">
+            {isStreaming && <StopButton onStop={handleStopGeneration} />}
+            {hasApiKey !== null &&
+              (inputMode === "text" ? (
+                <TextComposer
+                  onSend={handleSendText}
+                  onSwitchToVoice={() => changeInputMode("voice")}
+                  isAutoSpeakActive={isAutoSpeakActive}
+                  onAutoSpeakToggle={setIsAutoSpeakActive}
+                  isStreaming={isStreaming}
+                  disabled={!hasApiKey}
+                />
+              ) : (
+                <div className="relative">
+                  <MicButton
+                    isHandsfreeActive={isHandsfreeActive}
+                    setIsHandsfreeActive={setIsHandsfreeActive}
+                    isRecording={isRecording}
+                    isVADActive={isVADActive}
+                    isLoading={isLoading}
+                    isPlayingAudio={!!currentPlayingId}
+                    disabled={!hasApiKey}
+                    startManualRecording={startManualRecording}
+                    stopManualRecording={stopManualRecording}
+                  />
+                  <button
+                    onClick={() => changeInputMode("text")}
+                    className="absolute top-1/2 left-full ml-4 -translate-y-1/2 rounded-full p-2 opacity-70 hover:opacity-100"
+                    style={{
+                      backgroundColor: "rgb(var(--header-footer-bg))",
+                      color: "rgb(var(--foreground))",
+                      border: "1px solid rgba(var(--secondary), 0.15)",
+                    }}
+                    aria-label="Type a message"
+                    title="Type a message"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="20"
+                      height="20"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <rect x="2" y="6" width="20" height="12" rx="2" />
+                      <path d="M6 10h.01M10 10h.01M14 10h.01M18 10h.01M7 14h10" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
           </div>
         </div>
       </main>
@@ -432,6 +581,10 @@ export default function ChatPage() {
         setEditingResponder={setEditingResponder}
         onMemoryToggle={setIsMemoryActive}
         onToggleHandsfree={setIsHandsfreeActive}
+        isBargeInActive={isBargeInActive}
+        onToggleBargeIn={setIsBargeInActive}
+        vadSettings={vadSettings}
+        onVadSettingsChange={setVadSettings}
         onMemoryClear={handleMemoryClear}
         onMemoryReRemember={handleMemoryReRemember}
         onSaveClick={() => setShowSaveModal(true)}
@@ -496,8 +649,19 @@ export default function ChatPage() {
       <SaveTranscriptModal
         open={showSaveModal}
         onClose={() => setShowSaveModal(false)}
-        onSave={(title) => handleSaveTranscript(title, messages)}
-        initialTitle={currentTranscriptName}
+        onSave={(title, asNew) =>
+          void handleSaveTranscript(title, asNew).then((result) => {
+            if (result === "conflict") {
+              setToastMessage(
+                "This transcript was changed elsewhere. Save it as new to keep both.",
+              );
+            } else if (result === "failed") {
+              setToastMessage("Failed to save transcript");
+            }
+          })
+        }
+        initialTitle={currentTranscriptName || draftTitle}
+        canUpdate={!!currentTranscriptId}
       />
       {toastVisible && (
         <div className="fixed right-4 bottom-16 z-50 min-w-[20%] rounded-lg bg-green-500 px-4 py-2 text-white">
@@ -557,6 +721,14 @@ export default function ChatPage() {
           }`}
         >
           {toastMessage}
+          {canUndoDelete && (
+            <button
+              className="ml-4 font-bold text-blue-300 underline"
+              onClick={handleUndoDelete}
+            >
+              Undo
+            </button>
+          )}
           {showConfirmDelete && (
             <div className="mt-2 flex justify-center space-x-4">
               <button
@@ -286,7 +286,7 @@ export default function DocViewerClient({ content }: { content: string }) {
       <div style={{ position: "fixed", top: 0, left: 0, right: 0, zIndex: 60 }}>
         <HeaderBar
           activeView="chat"
-          onNav={(view) => router.push(view === "chat" ? "/" : "/transcripts")}
+          onNav={(view) => router.push(view === "chat" ? "/" : `/${view}`)}
         />
       </div>
 
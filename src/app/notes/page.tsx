@@ -0,0 +1,268 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { HeaderBar } from "../../components/HeaderBar";
+import { NoteList } from "../../components/notes/NoteList";
+import { useNotes, type Note } from "../../components/notes/hooks/useNotes";
+import { useDictation } from "../../components/notes/hooks/useDictation";
+import { toChatMessages } from "../../components/transcripts/helpers/restore";
+import { getPathTo, linkMessages } from "../../lib/utils/messageTree";
+import type { TranscriptMessage } from "../../types/message";
+
+export default function NotesPage() {
+  const {
+    notes,
+    query,
+    searchTerms,
+    onQueryChange,
+    hasMore,
+    loadMore,
+    createNote,
+    updateNote,
+    deleteNote,
+    isLoading,
+  } = useNotes();
+  const [draft, setDraft] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const router = useRouter();
+
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [noteToDelete, setNoteToDelete] = useState<string | null>(null);
+
+  const dictation = useDictation({
+    onText: (text) => {
+      void createNote(text).then((note) =>
+        setToastMessage(note ? "Dictated note saved" : "Failed to save note"),
+      );
+    },
+    onError: setToastMessage,
+  });
+
+  /**
+   * handleCreate
+   *
+   * Saves the typed draft as a new note and clears the draft on success.
+   */
+  const handleCreate = async () => {
+    if (!draft.trim()) return;
+    const note = await createNote(draft.trim());
+    if (note) setDraft("");
+    else setToastMessage("Failed to save note");
+  };
+
+  const handleSave = async (
+    id: string,
+    changes: { title: string; content: string },
+  ) => {
+    const note = await updateNote(id, changes);
+    if (!note) setToastMessage("Failed to save note");
+    return note !== null;
+  };
+
+  /**
+   * handleOpenSource
+   *
+   * Loads the transcript a note was taken from into the chat, with the branch containing
+   * the note's message selected. Mirrors "Reload" on the transcripts page.
+   */
+  const handleOpenSource = async (note: Note) => {
+    const response = await fetch(`/api/transcripts/${note.source_id}`).catch(
+      () => null,
+    );
+    if (!response?.ok) {
+      setToastMessage(
+        response?.status === 404
+          ? "The transcript no longer exists"
+          : "Failed to load transcript",
+      );
+      return;
+    }
+    const transcript = (await response.json()) as {
+      title: string;
+      messages: TranscriptMessage[] | null;
+    };
+    if (!transcript.messages) {
+      setToastMessage("Failed to load transcript");
+      return;
+    }
+
+    const restored = toChatMessages(transcript.messages);
+    const path = getPathTo(
+      linkMessages(restored.messages),
+      note.source_message_id,
+    );
+    localStorage.setItem(
+      "transcript_restore",
+      JSON.stringify({
+        messages: restored.messages,
+        activeIds: path.length ? path.map((m) => m.id) : restored.activeIds,
+        deleted: restored.deleted,
+        id: note.source_id,
+        title: transcript.title,
+      }),
+    );
+    router.push("/");
+  };
+
+  const confirmDelete = async (confirmed: boolean) => {
+    const id = noteToDelete;
+    setNoteToDelete(null);
+    if (!confirmed || !id) {
+      setToastMessage(null);
+      return;
+    }
+    setToastMessage(
+      (await deleteNote(id)) ? "Note deleted" : "Failed to delete note",
+    );
+  };
+
+  useEffect(() => {
+    if (toastMessage && !noteToDelete) {
+      const timer = setTimeout(() => setToastMessage(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [toastMessage, noteToDelete]);
+
+  /**
+   * Infinite scroll: loads the next page when the sentinel below the list scrolls into view.
+   */
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) loadMore();
+      },
+      { root: scrollRef.current, rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  /**
+   * Same mobile viewport fix as the transcripts page: --vh tracks 1% of window.innerHeight.
+   */
+  useEffect(() => {
+    const setVh = () => {
+      document.documentElement.style.setProperty(
+        "--vh",
+        `${window.innerHeight * 0.01}px`,
+      );
+    };
+    setVh();
+    window.addEventListener("resize", setVh);
+    return () => window.removeEventListener("resize", setVh);
+  }, []);
+
+  return (
+    <>
+      <HeaderBar
+        activeView="notes"
+        onNav={(view) => router.push(view === "chat" ? "/" : `/${view}`)}
+      />
+
+      <main className="flex h-[calc(var(--vh,1vh)*100-64px)] flex-col">
+        <div
+          className="flex flex-col gap-2 p-2"
+          style={{
+            position: "sticky",
+            top: "calc(64px + env(safe-area-inset-top, 0))",
+            zIndex: 40,
+          }}
+        >
+          <input
+            className="w-full rounded border px-2 py-1"
+            placeholder="Search notes"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+          />
+          <div className="flex items-end gap-2">
+            <textarea
+              className="min-h-[38px] flex-1 resize-y rounded border px-2 py-1"
+              placeholder="New note"
+              rows={Math.min(6, draft.split("\n").length)}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+            />
+            <button
+              onClick={() =>
+                dictation.isRecording
+                  ? dictation.stop()
+                  : void dictation.start()
+              }
+              disabled={dictation.isTranscribing}
+              className={`rounded border px-3 py-1 text-sm disabled:opacity-50 ${
+                dictation.isRecording ? "border-red-500 text-red-500" : ""
+              }`}
+              aria-pressed={dictation.isRecording}
+              title="Dictate a note (speech is only transcribed, not sent to the AI)"
+            >
+              {dictation.isTranscribing
+                ? "Transcribing…"
+                : dictation.isRecording
+                  ? "Stop"
+                  : "Dictate"}
+            </button>
+            <button
+              onClick={() => void handleCreate()}
+              disabled={!draft.trim()}
+              className="rounded px-3 py-1 text-sm text-white disabled:opacity-50"
+              style={{ backgroundColor: "rgb(var(--primary))" }}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+        <div ref={scrollRef} className="min-h-0 flex-1 overflow-y-auto p-4">
+          <NoteList
+            items={notes}
+            highlightTerms={searchTerms}
+            onSave={handleSave}
+            onDelete={(id) => {
+              setNoteToDelete(id);
+              setToastMessage("Delete this note?");
+            }}
+            onOpenSource={(note) => void handleOpenSource(note)}
+          />
+          {!isLoading && notes.length === 0 && (
+            <div className="p-4 text-center text-sm opacity-70">
+              {query.trim()
+                ? "No notes found"
+                : "No notes yet. Type or dictate one above, or use “Note” on a chat message."}
+            </div>
+          )}
+          {isLoading && (
+            <div className="flex justify-center p-4">
+              <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-500" />
+            </div>
+          )}
+          <div ref={sentinelRef} />
+        </div>
+
+        {toastMessage && (
+          <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 transform rounded-lg bg-gray-800 px-6 py-3 text-white shadow-lg">
+            {toastMessage}
+            {noteToDelete && (
+              <div className="mt-2 flex justify-center space-x-4">
+                <button
+                  className="rounded bg-red-500 px-3 py-1 text-white"
+                  onClick={() => void confirmDelete(true)}
+                >
+                  Delete
+                </button>
+                <button
+                  className="rounded bg-gray-500 px-3 py-1 text-white"
+                  onClick={() => void confirmDelete(false)}
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
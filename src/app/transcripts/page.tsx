@@ -1,51 +1,106 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useTranscripts } from "../../components/transcripts/hooks/useTranscripts";
+import type {
+  ImportOptions,
+  TranscriptSort,
+} from "../../components/transcripts/hooks/useTranscripts";
 import { HeaderBar } from "../../components/HeaderBar";
 import { TranscriptList } from "../../components/transcripts/TranscriptList";
+import { ImportTranscriptsModal } from "../../components/transcripts/modals/ImportTranscriptsModal";
+import { TranscriptHistoryModal } from "../../components/transcripts/modals/TranscriptHistoryModal";
+import { TrashModal } from "../../components/transcripts/modals/TrashModal";
+import { MemoryStatusModal } from "../../components/bottomBar/modals/MemoryStatusModal";
+import { useMemory } from "../../components/bottomBar/hooks/useMemory";
 import { useRouter } from "next/navigation";
-import type { Message } from "../../types/message";
+import { useSession } from "next-auth/react";
+import { toChatMessages } from "../../components/transcripts/helpers/restore";
+import type { Responder } from "../../types/responder";
+import type { ExportFormat } from "../../types/export";
+
+const SORT_OPTIONS: { value: TranscriptSort; label: string }[] = [
+  { value: "updated_desc", label: "Recently updated" },
+  { value: "updated_asc", label: "Least recently updated" },
+  { value: "created_desc", label: "Newest" },
+  { value: "created_asc", label: "Oldest" },
+  { value: "title_asc", label: "Title A–Z" },
+  { value: "title_desc", label: "Title Z–A" },
+];
+
+// How long the "moved to trash" toast (with its Undo button) stays up.
+const UNDO_TOAST_MS = 8000;
 
 export default function TranscriptPage() {
   const {
-    searchQuery,
-    filteredTranscripts,
-    onSearchChange,
+    transcripts,
+    filters,
+    searchTerms,
+    onFiltersChange,
+    hasMore,
+    loadMore,
+    fetchTranscript,
+    importTranscripts,
+    summarizeTranscript,
+    fetchVersions,
+    fetchVersion,
+    restoreVersion,
     deleteTranscript,
+    restoreTranscript,
+    restoreMessage,
+    fetchTrash,
+    purgeTranscripts,
     isLoading,
   } = useTranscripts();
+  const {
+    memoryStatus,
+    memoryProgress,
+    memoryTotal,
+    setMemoryStatus,
+    handleMemoryReRemember,
+  } = useMemory();
+  const { data: session } = useSession();
+  const [responders, setResponders] = useState<Responder[]>([]);
+  const responderNames = responders.map((r) => r.name);
+  const [showImport, setShowImport] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [summarizingId, setSummarizingId] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<{
+    id: string;
+    title: string;
+  } | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
 
   const [toastMessage, setToastMessage] = useState<string | null>(null);
-  const [showConfirmDelete, setShowConfirmDelete] = useState(false);
-  const [transcriptToDelete, setTranscriptToDelete] = useState<string | null>(
-    null,
-  );
+  // Transcript just moved to the trash; the toast offers to undo it while this is set.
+  const [undoId, setUndoId] = useState<string | null>(null);
 
   /**
    * handleReload
    *
    * Restore a transcript into the active chat session.
-   * - Converts transcript records into the runtime Message[] shape.
-   * - Saves them to localStorage under "transcript_restore" with the provided title.
+   * - Loads the full transcript (summaries carry no messages).
+   * - Converts transcript records into the runtime Message[] shape (toChatMessages).
+   * - Saves them to localStorage under "transcript_restore" with the transcript's id, title and
+   *   version, so saving in the chat updates this transcript (unless it changed meanwhile).
    * - Navigates back to the chat page where the app will read "transcript_restore".
    */
-  const handleReload = (
-    messages: { role: "user" | "assistant"; content: string }[],
-    title: string,
-  ) => {
-    const msgs: Message[] = messages.map((msg) => ({
-      id: crypto.randomUUID(),
-      text: msg.content,
-      type: msg.role,
-      createdAt: new Date(),
-      usage: {},
-    }));
-
+  const handleReload = async (id: string, title: string) => {
+    const transcript = await fetchTranscript(id);
+    if (!transcript?.messages) {
+      setToastMessage("Failed to load transcript");
+      return;
+    }
     localStorage.setItem(
       "transcript_restore",
-      JSON.stringify({ messages: msgs, title }),
+      JSON.stringify({
+        ...toChatMessages(transcript.messages),
+        id,
+        title,
+        version: transcript.version,
+      }),
     );
     router.push("/");
   };
@@ -54,25 +109,25 @@ export default function TranscriptPage() {
    * handleReloadAndRemember
    *
    * Restore a transcript into the active chat session and mark it to be remembered.
-   * - Converts transcript records into the runtime Message[] shape.
-   * - Saves them to localStorage under "transcript_restore" with remember: true.
+   * - Loads the full transcript (summaries carry no messages).
+   * - Converts transcript records into the runtime Message[] shape (toChatMessages).
+   * - Saves them to localStorage under "transcript_restore" with remember: true, plus the
+   *   transcript's id, title and version like handleReload.
    * - Navigates back to the chat page where the app will read "transcript_restore".
    */
-  const handleReloadAndRemember = (
-    messages: { role: "user" | "assistant"; content: string }[],
-  ) => {
-    const msgs: Message[] = messages.map((msg) => ({
-      id: crypto.randomUUID(),
-      text: msg.content,
-      type: msg.role,
-      createdAt: new Date(),
-      usage: {},
-    }));
-
+  const handleReloadAndRemember = async (id: string) => {
+    const transcript = await fetchTranscript(id);
+    if (!transcript?.messages) {
+      setToastMessage("Failed to load transcript");
+      return;
+    }
     localStorage.setItem(
       "transcript_restore",
       JSON.stringify({
-        messages: msgs,
+        ...toChatMessages(transcript.messages),
+        id,
+        title: transcript.title,
+        version: transcript.version,
         remember: true,
       }),
     );
@@ -80,47 +135,142 @@ export default function TranscriptPage() {
   };
 
   /**
-   * handleDeleteTranscript
+   * handleExport
    *
-   * Start the delete flow by storing the targeted transcript id and showing
-   * a confirmation toast. Actual deletion occurs in confirmDelete when the
-   * user confirms.
+   * Downloads the transcript in the chosen format; the export route answers with an
+   * attachment, so following the link does not leave the page.
    */
-  const handleDeleteTranscript = (id: string) => {
-    setTranscriptToDelete(id);
-    setToastMessage("Delete this transcript?");
-    setShowConfirmDelete(true);
+  const handleExport = (id: string, format: ExportFormat) => {
+    const link = document.createElement("a");
+    link.href = `/api/transcripts/${id}/export?format=${format}`;
+    link.download = "";
+    link.click();
   };
 
   /**
-   * confirmDelete
+   * handleSummarize
    *
-   * Execute the deletion when the user confirms. Delegates to the hook's
-   * deleteTranscript function and shows success/failure toasts.
+   * Has the chosen responder write study notes for a transcript; the server saves them as a
+   * note linked to the transcript. One summary runs at a time.
    */
-  const confirmDelete = async (confirmed: boolean) => {
-    setShowConfirmDelete(false);
-
-    if (confirmed && transcriptToDelete) {
-      try {
-        await deleteTranscript(transcriptToDelete);
-        setToastMessage("Transcript deleted");
-      } catch {
-        setToastMessage("Failed to delete transcript");
-      }
-    } else {
-      setToastMessage(null);
+  const handleSummarize = async (id: string, responder: string) => {
+    if (summarizingId) return;
+    setSummarizingId(id);
+    setToastMessage("Summarizing…");
+    const note = await summarizeTranscript(id, responder);
+    setSummarizingId(null);
+    setToastMessage(
+      note ? "Summary saved to notes" : "Failed to summarize transcript",
+    );
+  };
+
+  /**
+   * handleRestoreVersion
+   *
+   * Restores an earlier version from the history modal. The server keeps the replaced content
+   * as a version of its own, so a restore can itself be undone from the history.
+   */
+  const handleRestoreVersion = async (id: string, version: number) => {
+    const restored = await restoreVersion(id, version);
+    setToastMessage(
+      restored ? `Version ${version} restored` : "Failed to restore version",
+    );
+    return restored;
+  };
+
+  /**
+   * handleImport
+   *
+   * Imports an export file through the hook and, when asked to, seeds the chosen responder's
+   * memory with the imported conversations via the same reRemember path as "Reload and
+   * remember". The import modal closes first so the memory progress is visible.
+   */
+  const handleImport = async (options: ImportOptions) => {
+    const result = await importTranscripts(options);
+    const responder = responders.find((r) => r.name === options.responder);
+    if (options.remember && responder && result.messages?.length) {
+      setShowImport(false);
+      void handleMemoryReRemember(
+        result.messages,
+        responder.name,
+        {
+          prompt: responder.prompt,
+          short_mem: responder.short_mem ?? 3,
+          long_mem: responder.long_mem ?? 2,
+          mem_expire: responder.mem_expire ?? 1440,
+        },
+        session?.user?.id,
+      );
+      setToastMessage(
+        `Imported ${result.imported} conversation${result.imported === 1 ? "" : "s"}`,
+      );
     }
+    return result;
+  };
 
-    setTranscriptToDelete(null);
+  /**
+   * handleDeleteTranscript
+   *
+   * Moves a transcript to the trash right away and shows a toast offering to undo it.
+   * The trash keeps it restorable until the server purges it.
+   */
+  const handleDeleteTranscript = async (id: string) => {
+    const deleted = await deleteTranscript(id);
+    setUndoId(deleted ? id : null);
+    setToastMessage(
+      deleted ? "Transcript moved to trash" : "Failed to delete transcript",
+    );
+  };
+
+  /**
+   * handleUndoDelete
+   *
+   * Restores the transcript deleted last (the toast's Undo button).
+   */
+  const handleUndoDelete = async () => {
+    if (!undoId) return;
+    setUndoId(null);
+    const restored = await restoreTranscript(undoId);
+    setToastMessage(
+      restored ? "Transcript restored" : "Failed to restore transcript",
+    );
   };
 
   useEffect(() => {
-    if (toastMessage && !showConfirmDelete) {
-      const timer = setTimeout(() => setToastMessage(null), 3000);
+    if (toastMessage) {
+      const timer = setTimeout(
+        () => {
+          setToastMessage(null);
+          setUndoId(null);
+        },
+        undoId ? UNDO_TOAST_MS : 3000,
+      );
       return () => clearTimeout(timer);
     }
-  }, [toastMessage, showConfirmDelete]);
+  }, [toastMessage, undoId]);
+
+  useEffect(() => {
+    fetch("/api/responders", { credentials: "include" })
+      .then((res) => (res.ok ? (res.json() as Promise<Responder[]>) : []))
+      .then((list) => setResponders(list))
+      .catch(() => setResponders([]));
+  }, []);
+
+  /**
+   * Infinite scroll: loads the next page when the sentinel below the list scrolls into view.
+   */
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) loadMore();
+      },
+      { root: scrollRef.current, rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
 
   /**
    * Fix for mobile viewport / dynamic address bar:
@@ -145,7 +295,7 @@ export default function TranscriptPage() {
     <>
       <HeaderBar
         activeView="transcripts"
-        onNav={(view) => router.push(view === "chat" ? "/" : "/transcripts")}
+        onNav={(view) => router.push(view === "chat" ? "/" : `/${view}`)}
       />
 
       {/* Use the --vh trick so calc works reliably on mobile (address bar changes). 
@@ -161,45 +311,140 @@ export default function TranscriptPage() {
             zIndex: 40,
           }}
         >
-          <input
-            className="w-full rounded border px-2 py-1"
-            placeholder="Search transcripts"
-            value={searchQuery}
-            onChange={(e) => onSearchChange(e.target.value)}
-          />
+          <div className="flex gap-2">
+            <input
+              className="min-w-0 flex-1 rounded border px-2 py-1"
+              placeholder="Search transcripts"
+              value={filters.query}
+              onChange={(e) => onFiltersChange({ query: e.target.value })}
+            />
+            <button
+              className="rounded border px-3 py-1 text-sm"
+              onClick={() => setShowImport(true)}
+            >
+              Import
+            </button>
+            <button
+              className="rounded border px-3 py-1 text-sm"
+              onClick={() => setShowTrash(true)}
+            >
+              Trash
+            </button>
+          </div>
+          <div className="mt-2 flex flex-wrap gap-2 text-sm">
+            <select
+              className="rounded border px-2 py-1"
+              value={filters.responder}
+              onChange={(e) => onFiltersChange({ responder: e.target.value })}
+              aria-label="Responder"
+            >
+              <option value="">All responders</option>
+              {responderNames.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              className="rounded border px-2 py-1"
+              value={filters.from}
+              onChange={(e) => onFiltersChange({ from: e.target.value })}
+              aria-label="Updated from"
+            />
+            <input
+              type="date"
+              className="rounded border px-2 py-1"
+              value={filters.to}
+              onChange={(e) => onFiltersChange({ to: e.target.value })}
+              aria-label="Updated until"
+            />
+            <select
+              className="rounded border px-2 py-1"
+              value={filters.sort}
+              onChange={(e) =>
+                onFiltersChange({ sort: e.target.value as TranscriptSort })
+              }
+              aria-label="Sort"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
-        <div className="min-h-0 flex-1 overflow-y-auto p-4">
+        <div ref={scrollRef} className="min-h-0 flex-1 overflow-y-auto p-4">
+          <TranscriptList
+            items={transcripts}
+            highlightTerms={searchTerms}
+            onReload={(id, title) => void handleReload(id, title)}
+            onReloadAndRemember={(id) => void handleReloadAndRemember(id)}
+            onExport={handleExport}
+            responderNames={responderNames}
+            summarizingId={summarizingId}
+            onSummarize={(id, responder) => void handleSummarize(id, responder)}
+            onHistory={(id, title) => setHistoryFor({ id, title })}
+            onDelete={(id) => void handleDeleteTranscript(id)}
+          />
+          {!isLoading && transcripts.length === 0 && (
+            <div className="p-4 text-center text-sm opacity-70">
+              No transcripts found
+            </div>
+          )}
           {isLoading && (
             <div className="flex justify-center p-4">
               <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-500" />
             </div>
           )}
-          <TranscriptList
-            items={filteredTranscripts}
-            onReload={handleReload}
-            onReloadAndRemember={handleReloadAndRemember}
-            onDelete={handleDeleteTranscript}
-          />
+          <div ref={sentinelRef} />
         </div>
 
+        <ImportTranscriptsModal
+          open={showImport}
+          onClose={() => setShowImport(false)}
+          onImport={handleImport}
+          responderNames={responderNames}
+        />
+
+        <TranscriptHistoryModal
+          transcript={historyFor}
+          onClose={() => setHistoryFor(null)}
+          fetchVersions={fetchVersions}
+          fetchVersion={fetchVersion}
+          fetchTranscript={fetchTranscript}
+          onRestore={handleRestoreVersion}
+        />
+
+        <TrashModal
+          open={showTrash}
+          onClose={() => setShowTrash(false)}
+          fetchTrash={fetchTrash}
+          onRestore={restoreTranscript}
+          onRestoreMessage={restoreMessage}
+          onPurge={purgeTranscripts}
+        />
+
+        {memoryStatus && (
+          <MemoryStatusModal
+            status={memoryStatus}
+            progress={memoryProgress}
+            total={memoryTotal}
+            onClose={() => setMemoryStatus(null)}
+          />
+        )}
+
         {toastMessage && (
           <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 transform rounded-lg bg-gray-800 px-6 py-3 text-white shadow-lg">
             {toastMessage}
-            {showConfirmDelete && (
-              <div className="mt-2 flex justify-center space-x-4">
-                <button
-                  className="rounded bg-red-500 px-3 py-1 text-white"
-                  onClick={() => confirmDelete(true)}
-                >
-                  Delete
-                </button>
-                <button
-                  className="rounded bg-gray-500 px-3 py-1 text-white"
-                  onClick={() => confirmDelete(false)}
-                >
-                  Cancel
-                </button>
-              </div>
+            {undoId && (
+              <button
+                className="ml-4 font-bold text-blue-300 underline"
+                onClick={() => void handleUndoDelete()}
+              >
+                Undo
+              </button>
             )}
           </div>
         )}
@@ -77,9 +77,7 @@ export default function UsagePage() {
         <HeaderBar
           activeView="usage"
           onNav={(view) => {
-            if (view === "chat") window.location.href = "/chat";
-            else if (view === "transcripts")
-              window.location.href = "/transcripts";
+            window.location.href = `/${view}`;
           }}
         />
         <div
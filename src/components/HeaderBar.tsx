@@ -3,7 +3,7 @@
  *
  * Summary:
  *   HeaderBar renders the application's top navigation. It displays the
- *   theme-aware logo, navigation buttons for Chat and Transcripts, and
+ *   theme-aware logo, navigation buttons for Chat, Transcripts and Notes, and
  *   authentication controls. When a user is authenticated it shows a profile
  *   avatar which opens a compact menu providing a theme toggle, links to the
  *   API key and Usage pages, and a logout action.
@@ -17,6 +17,7 @@
  * Exports used by:
  *   - src/app/chat/page.tsx
  *   - src/app/transcripts/page.tsx
+ *   - src/app/notes/page.tsx
  *   - src/app/usage/page.tsx
  *
  * Nuances:
@@ -34,11 +35,14 @@ import { useState, useEffect, useRef } from "react";
 import { useTheme } from "~/lib/theme-provider";
 import ChatIcon from "~/components/icons/Chat";
 import TranscriptsIcon from "~/components/icons/Transcripts";
+import NotesIcon from "~/components/icons/Notes";
+
+export type HeaderView = "chat" | "transcripts" | "notes";
 
 interface HeaderBarProps {
   className?: string;
-  activeView: "chat" | "transcripts" | "usage";
-  onNav: (view: "chat" | "transcripts") => void;
+  activeView: HeaderView | "usage";
+  onNav: (view: HeaderView) => void;
 }
 
 /**
@@ -46,13 +50,13 @@ interface HeaderBarProps {
  *
  * Renders the application header with:
  *  - Theme-aware logo
- *  - Navigation buttons for Chat and Transcripts
+ *  - Navigation buttons for Chat, Transcripts and Notes
  *  - Authentication actions (Login) or profile avatar/menu when signed in
  *  - Profile menu actions: theme toggle, Add API Key, Usage, Logout
  *
  * Props:
- *  - activeView: the currently active top-level view ("chat" | "transcripts" | "usage")
- *  - onNav: callback invoked when navigation buttons are clicked (accepts "chat" | "transcripts")
+ *  - activeView: the currently active top-level view ("chat" | "transcripts" | "notes" | "usage")
+ *  - onNav: callback invoked when navigation buttons are clicked (accepts a HeaderView)
  *
  * Notes:
  *  - Keep this component focused on UI composition; move complex logic to hooks.
@@ -134,6 +138,19 @@ export function HeaderBar({ activeView, onNav }: HeaderBarProps) {
             }`}
           />
         </button>
+        <button onClick={() => onNav("notes")} aria-label="Notes">
+          <NotesIcon
+            className={`h-7 w-7 ${
+              activeView === "notes"
+                ? theme === "dark"
+                  ? "text-white"
+                  : "text-black"
+                : theme === "dark"
+                  ? "text-cyan-200"
+                  : "text-cyan-600"
+            }`}
+          />
+        </button>
         {!session ? (
           <button
             onClick={() => void signIn()}
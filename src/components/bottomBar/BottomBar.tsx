@@ -6,7 +6,7 @@
 //   - Responder selection and editing (ResponderSelector)
 //   - Internet / web-search toggle and context-size selection (InternetToggle)
 //   - Conversation memory controls: toggle, clear, re-remember (MemoryToggle)
-//   - Handsfree mode toggle (HandsfreeToggle)
+//   - Handsfree mode toggle, barge-in and voice-detection settings (HandsfreeToggle)
 //   - Saving transcripts (SaveButton)
 //
 // The component composes those child controls and forwards user interactions to
@@ -37,6 +37,7 @@ import { MemoryToggle } from "./MemoryToggle";
 import { HandsfreeToggle } from "./HandsfreeToggle";
 import { SaveButton } from "./SaveButton";
 import type { Responder } from "~/types/responder";
+import type { VADSettings } from "~/components/chat/helpers/vad";
 
 type Props = {
   onInteraction?: () => void;
@@ -56,6 +57,10 @@ type Props = {
   onMemoryPressEnd: () => void;
   isHandsfreeActive: boolean;
   onToggleHandsfree: (active: boolean) => void;
+  isBargeInActive: boolean;
+  onToggleBargeIn: (active: boolean) => void;
+  vadSettings: VADSettings;
+  onVadSettingsChange: (settings: VADSettings) => void;
   theme: "light" | "dark";
   selectedResponder: string;
   isInternetActive: boolean;
@@ -80,6 +85,10 @@ export function BottomBar({
   onMemoryPressEnd,
   isHandsfreeActive,
   onToggleHandsfree,
+  isBargeInActive,
+  onToggleBargeIn,
+  vadSettings,
+  onVadSettingsChange,
   theme,
   selectedResponder,
   isInternetActive,
@@ -143,6 +152,10 @@ export function BottomBar({
             <HandsfreeToggle
               isActive={isHandsfreeActive}
               onToggle={onToggleHandsfree}
+              isBargeInActive={isBargeInActive}
+              onBargeInToggle={onToggleBargeIn}
+              vadSettings={vadSettings}
+              onVadSettingsChange={onVadSettingsChange}
               theme={theme}
               onToast={onToast}
             />
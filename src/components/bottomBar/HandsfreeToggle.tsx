@@ -1,13 +1,29 @@
 // src/components/bottomBar/HandsfreeToggle.tsx
 //
 //Toggle swtich for hands free switch
+//Click toggles handsfree; long press opens a menu to turn barge-in (talk over the reply) on/off
+//and to cycle voice-detection sensitivity and the pause that ends a turn (noisy rooms)
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { HandsfreeIcon } from "~/components/icons";
+import type { VADSettings } from "~/components/chat/helpers/vad";
+
+// Start/stop margins above the noise floor; higher margins ignore more background noise.
+const SENSITIVITY_LEVELS = [
+  { label: "High", startMarginDb: 8, stopMarginDb: 4 },
+  { label: "Medium", startMarginDb: 12, stopMarginDb: 6 },
+  { label: "Low", startMarginDb: 18, stopMarginDb: 9 },
+];
+
+const PAUSE_DURATIONS = [1000, 1500, 2000, 3000];
 
 type HandsfreeToggleProps = {
   isActive: boolean;
   onToggle: (active: boolean) => void;
+  isBargeInActive: boolean;
+  onBargeInToggle: (active: boolean) => void;
+  vadSettings: VADSettings;
+  onVadSettingsChange: (settings: VADSettings) => void;
   theme: "light" | "dark";
   onToast: (msg: string) => void;
 };
@@ -15,18 +31,45 @@ type HandsfreeToggleProps = {
 export function HandsfreeToggle({
   isActive,
   onToggle,
+  isBargeInActive,
+  onBargeInToggle,
+  vadSettings,
+  onVadSettingsChange,
   theme,
   onToast,
 }: HandsfreeToggleProps) {
   const [, setShowTooltip] = useState(false);
+  const [showMenu, setShowMenu] = useState(false);
   const tooltipTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressedRef = useRef(false);
+  const menuRef = useRef<HTMLUListElement>(null);
 
   const handleClick = () => {
+    if (longPressedRef.current) {
+      longPressedRef.current = false;
+      return;
+    }
     const newActive = !isActive;
     onToggle(newActive);
     onToast(newActive ? "Handsfree enabled" : "Handsfree disabled");
   };
 
+  const handlePressStart = () => {
+    longPressedRef.current = false;
+    pressTimer.current = setTimeout(() => {
+      longPressedRef.current = true;
+      setShowMenu(true);
+    }, 500);
+  };
+
+  const handlePressEnd = () => {
+    if (pressTimer.current) {
+      clearTimeout(pressTimer.current);
+      pressTimer.current = null;
+    }
+  };
+
   const handleMouseEnter = () => {
     if (tooltipTimeout.current) {
       clearTimeout(tooltipTimeout.current);
@@ -35,17 +78,71 @@ export function HandsfreeToggle({
   };
 
   const handleMouseLeave = () => {
+    handlePressEnd();
     tooltipTimeout.current = setTimeout(() => {
       setShowTooltip(false);
     }, 300);
   };
 
+  const toggleBargeIn = () => {
+    const next = !isBargeInActive;
+    onBargeInToggle(next);
+    onToast(next ? "Barge-in enabled" : "Barge-in disabled");
+    setShowMenu(false);
+  };
+
+  const sensitivityIndex = Math.max(
+    0,
+    SENSITIVITY_LEVELS.findIndex(
+      (l) => l.startMarginDb === vadSettings.startMarginDb,
+    ),
+  );
+
+  const cycleSensitivity = () => {
+    const next =
+      SENSITIVITY_LEVELS[(sensitivityIndex + 1) % SENSITIVITY_LEVELS.length]!;
+    onVadSettingsChange({
+      ...vadSettings,
+      startMarginDb: next.startMarginDb,
+      stopMarginDb: next.stopMarginDb,
+    });
+    onToast(`Mic sensitivity: ${next.label}`);
+  };
+
+  const cyclePause = () => {
+    const index = PAUSE_DURATIONS.indexOf(vadSettings.silenceDuration);
+    const next = PAUSE_DURATIONS[(index + 1) % PAUSE_DURATIONS.length]!;
+    onVadSettingsChange({ ...vadSettings, silenceDuration: next });
+    onToast(`Pause before send: ${next / 1000}s`);
+  };
+
+  useEffect(() => {
+    if (!showMenu) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setShowMenu(false);
+      }
+    };
+    const closeTimer = setTimeout(() => setShowMenu(false), 5000);
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      clearTimeout(closeTimer);
+    };
+  }, [showMenu]);
+
   return (
     <div className="relative">
       <button
         onClick={handleClick}
         onMouseEnter={handleMouseEnter}
         onMouseLeave={handleMouseLeave}
+        onMouseDown={handlePressStart}
+        onMouseUp={handlePressEnd}
+        onTouchStart={handlePressStart}
+        onTouchEnd={handlePressEnd}
       >
         <HandsfreeIcon
           className={`relative top-[-1px] h-9 w-9 ${
@@ -57,6 +154,45 @@ export function HandsfreeToggle({
           }`}
         />
       </button>
+      {showMenu && (
+        <ul
+          ref={menuRef}
+          className="absolute right-0 bottom-full z-50 mb-1 w-max min-w-[120px] rounded shadow"
+          style={{
+            backgroundColor: "rgb(var(--header-footer-bg))",
+            border: "1px solid rgba(var(--secondary), 0.1)",
+            color: "rgb(var(--foreground))",
+          }}
+        >
+          <li
+            onClick={toggleBargeIn}
+            className="cursor-pointer px-2 py-1 text-base transition-colors duration-100 hover:bg-gray-200 active:bg-gray-300"
+            style={{
+              color: "rgb(var(--foreground))",
+            }}
+          >
+            Barge-in: {isBargeInActive ? "On" : "Off"}
+          </li>
+          <li
+            onClick={cycleSensitivity}
+            className="cursor-pointer px-2 py-1 text-base transition-colors duration-100 hover:bg-gray-200 active:bg-gray-300"
+            style={{
+              color: "rgb(var(--foreground))",
+            }}
+          >
+            Sensitivity: {SENSITIVITY_LEVELS[sensitivityIndex]!.label}
+          </li>
+          <li
+            onClick={cyclePause}
+            className="cursor-pointer px-2 py-1 text-base transition-colors duration-100 hover:bg-gray-200 active:bg-gray-300"
+            style={{
+              color: "rgb(var(--foreground))",
+            }}
+          >
+            Pause: {vadSettings.silenceDuration / 1000}s
+          </li>
+        </ul>
+      )}
     </div>
   );
 }
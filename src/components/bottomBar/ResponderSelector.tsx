@@ -207,6 +207,19 @@ export function ResponderSelector({
                 prompt: "",
                 max_tokens: 300,
                 owner: "user",
+                provider: "apipie",
+                context_tokens: 8192,
+                voice_map: null,
+                stt_model: null,
+                stt_languages: null,
+                stt_prompt: null,
+                temperature: null,
+                top_p: null,
+                frequency_penalty: null,
+                presence_penalty: null,
+                stop: null,
+                seed: null,
+                reasoning_effort: null,
               });
               setOpen(false);
             }}
@@ -18,17 +18,21 @@
 // Nuances:
 // - The function first sends a mem_clear "clear" command and waits briefly to allow
 //   the backend to settle before replaying history.
-// - Messages are batched by both count and total characters to avoid excessively large
-//   requests. A short confirmation user message is appended to each batch so the backend
-//   responds with a predictable acknowledgement.
+// - Messages are batched by both count and total characters (batchMessagesWithLimit in
+//   src/lib/utils/batching.ts) to avoid excessively large requests. A short confirmation
+//   user message is appended to each batch so the backend responds with a predictable
+//   acknowledgement.
 // - Responses are read as streamed bodies to ensure the server fully processes each batch.
 // - The function mutates memory progress via the provided callbacks: setMemoryStatus,
 //   setMemoryProgress, setMemoryTotal.
 //
 // "use client";
 
+import { batchMessagesWithLimit } from "~/lib/utils/batching";
+
 export async function reRemember(
   messages: { text: string; type: "user" | "assistant"; id: string }[],
+  promptName: string,
   responderSettings: {
     prompt: string;
     short_mem: number;
@@ -51,6 +55,7 @@ export async function reRemember(
    *
    * Parameters:
    * - messages: array of local messages (user/assistant) to replay
+   * - promptName: responder name the memory belongs to (resolved server-side for the caller)
    * - responderSettings: optional responder memory settings used when replaying
    * - userId: optional user identifier forwarded to the API
    * - setMemoryStatus/setMemoryProgress/setMemoryTotal: callbacks for UI progress updates
@@ -63,7 +68,7 @@ export async function reRemember(
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         text: "clear",
-        promptName: responderSettings?.prompt ?? "General",
+        promptName,
         memory: true,
         mem_clear: true,
         user: userId,
@@ -104,7 +109,7 @@ export async function reRemember(
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           messages: fullBatch,
-          promptName: responderSettings?.prompt ?? "General",
+          promptName,
           memory: true,
           user: userId,
           short_mem: responderSettings?.short_mem ?? 3,
@@ -128,41 +133,3 @@ export async function reRemember(
     setMemoryStatus(null);
   }
 }
-
-/**
- * batchMessagesWithLimit
- *
- * Produces an array of message batches constrained by:
- *  - maxPerBatch: maximum number of messages per batch
- *  - maxChars: approximate maximum total characters per batch
- *
- * The algorithm accumulates messages until adding the next message would exceed
- * either limit, then starts a new batch. It preserves original message order. This is for sending mesaegs to be re-remembered by AI
- */
-function batchMessagesWithLimit(
-  messages: { role: "user" | "assistant"; content: string }[],
-  maxPerBatch: number,
-  maxChars: number,
-): { role: "user" | "assistant"; content: string }[][] {
-  const batches: { role: "user" | "assistant"; content: string }[][] = [];
-  let batch: { role: "user" | "assistant"; content: string }[] = [];
-  let charCount = 0;
-
-  for (const msg of messages) {
-    const msgLength = msg.content.length;
-
-    if (batch.length >= maxPerBatch || charCount + msgLength > maxChars) {
-      batches.push([...batch]);
-      batch = [];
-      charCount = 0;
-    }
-
-    batch.push(msg);
-    charCount += msgLength;
-  }
-
-  if (batch.length > 0) {
-    batches.push([...batch]);
-  }
-  return batches;
-}
@@ -10,7 +10,8 @@
     which component is responsible for each step:
 
       1) Idle / VAD armed
-         - startVAD (helpers/vad.ts) listens to microphone levels and calls onStart when speech begins.
+         - startVAD (helpers/vad.ts) listens to microphone levels in an AudioWorklet and calls onStart
+           when speech begins (thresholds relative to a calibrated noise floor; see vadSettings).
          - useHandsfree sets isVADActive = true while the VAD loop is running.
 
       2) Speech detected -> start recording
@@ -24,12 +25,18 @@
       4) Transcription stream -> emit text
          - sendAudioToAPI POSTs the audio to /api/transcribe and reads a streaming SSE-like response.
          - Partial "transcript.text.delta" events are concatenated; "usage" events are parsed.
-         - When a final [DONE] is received, onNewTranscription(fullText, usage) is emitted.
+         - When a final [DONE] is received, onNewTranscription(fullText, usage, audioBlob) is
+           emitted; the recording is passed along so the chat can store it with the message.
 
       5) Assistant response and TTS playback
          - useTTSPlayer (hooks/useTTSPlayer.ts) handles fetching/playing audio.
          - When TTS completes it dispatches "tts-oncomplete", which re-arms the VAD in handsfree mode.
 
+      6) Barge-in (optional, isBargeInActive)
+         - The VAD stays armed during playback with echo-aware thresholds (see startVAD's isEchoRisk).
+         - Speech during playback stops TTS (dropping queued chunks), calls onBargeIn so the caller
+           can abort the in-flight /api/chat stream, and goes straight to phase 2.
+
     This separation clarifies responsibilities:
       - Mic & VAD detection: helpers/vad.ts and startVADInternal
       - Recording: MediaRecorder managed inside this hook
@@ -39,6 +46,7 @@
   Imports to:
     - ../../chat/hooks/useTTSPlayer
     - ../../chat/helpers/vad
+    - ../../chat/helpers/transcription (reads the /api/transcribe stream)
 
   Exports:
     - useHandsfree (default exported hook interface functions listed below)
@@ -57,12 +65,23 @@
       and only instantiate MediaRecorder when speech actually starts.
     - The hook avoids redundant re-arms while TTS is playing (isPlaying flag from useTTSPlayer).
     - isLoading signals background work (upload/transcribe) and isRecording signals capture.
+    - The barge-in preference is persisted in localStorage ("isBargeInActive"), the VAD settings
+      in "vadSettings". Changed VAD settings re-arm an idle VAD immediately.
+    - Handsfree keeps running when the tab is hidden or the screen turns off (the VAD worklet is
+      not throttled); it is only switched off on pagehide/beforeunload.
+    - With barge-in the mic stays open while TTS plays; echo cancellation plus the raised VAD
+      threshold keep the assistant's own voice from interrupting itself.
 */
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useTTSPlayer } from "../../chat/hooks/useTTSPlayer";
-import { startVAD } from "../../chat/helpers/vad";
+import { transcribeAudio } from "../../chat/helpers/transcription";
+import {
+  startVAD,
+  DEFAULT_VAD_SETTINGS,
+  type VADSettings,
+} from "../../chat/helpers/vad";
 
 /**
  * useHandsfree
@@ -77,18 +96,37 @@ import { startVAD } from "../../chat/helpers/vad";
  *
  * API:
  *  - isHandsfreeActive, setIsHandsfreeActive
+ *  - isBargeInActive, setIsBargeInActive
+ *  - vadSettings, setVadSettings
  *  - isRecording, isVADActive, isLoading
  *  - audioRef, isPlayingTTS, currentPlayingId
- *  - handlePlayTTS, handleStopTTS
+ *  - handlePlayTTS, beginTTSStream, handleStopTTS
  *  - startManualRecording, stopManualRecording
  *
+ * promptName:
+ *   Name of the active responder; forwarded to /api/tts so playback uses its voice, and to
+ *   /api/transcribe so recordings use its speech-to-text model, languages and vocabulary.
+ *
+ * voiceLanguages:
+ *   Languages the active responder maps to voices; mixed-language replies switch voice per span.
+ *
+ * onBargeIn:
+ *   Called when the user interrupts playback by speaking (barge-in); used to abort the reply stream.
+ *
  * onNewTranscription:
  *   Callback invoked when a full transcription is available (after server signals [DONE]).
- *   Signature: (text: string, usage?: { cost, promptChar, latencyMs, ttfcMs }) => void
+ *   Signature: (text: string, usage?: { cost, promptChar, latencyMs, ttfcMs }, audio?: Blob) => void
+ *   `audio` is the recording the text was transcribed from.
  */
 export function useHandsfree({
   onNewTranscription,
+  onBargeIn,
+  promptName,
+  voiceLanguages,
 }: {
+  onBargeIn?: () => void;
+  promptName?: string;
+  voiceLanguages?: string[];
   onNewTranscription: (
     text: string,
     usage?: {
@@ -97,12 +135,49 @@ export function useHandsfree({
       latencyMs: number;
       ttfcMs: number;
     },
+    audio?: Blob,
   ) => void;
 }) {
   const [isHandsfreeActive, setIsHandsfreeActive] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [isVADActive, setIsVADActive] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isBargeInActive, setIsBargeInActive] = useState(false);
+
+  useEffect(() => {
+    const stored = localStorage.getItem("isBargeInActive");
+    if (stored !== null) setIsBargeInActive(stored === "true");
+  }, []);
+
+  const [vadSettings, setVadSettings] =
+    useState<VADSettings>(DEFAULT_VAD_SETTINGS);
+
+  useEffect(() => {
+    const stored = localStorage.getItem("vadSettings");
+    if (!stored) return;
+    try {
+      setVadSettings({
+        ...DEFAULT_VAD_SETTINGS,
+        ...(JSON.parse(stored) as Partial<VADSettings>),
+      });
+    } catch {}
+  }, []);
+
+  const vadSettingsRef = useRef(vadSettings);
+
+  const bargeInRef = useRef(false);
+  useEffect(() => {
+    bargeInRef.current = isBargeInActive;
+    localStorage.setItem("isBargeInActive", isBargeInActive.toString());
+  }, [isBargeInActive]);
+
+  const promptNameRef = useRef(promptName);
+  promptNameRef.current = promptName;
+
+  const onBargeInRef = useRef(onBargeIn);
+  useEffect(() => {
+    onBargeInRef.current = onBargeIn;
+  }, [onBargeIn]);
 
   const audioRef = useRef<HTMLAudioElement>(null!);
   const ttsStartedRef = useRef(false);
@@ -122,14 +197,56 @@ export function useHandsfree({
   const blockPlaybackUntilRecordingRef = useRef(false);
   const vadArmedRef = useRef(false);
 
-  const { isPlaying, currentMessageId, playTTS, stopTTS, prime } =
-    useTTSPlayer(audioRef);
+  const {
+    isPlaying,
+    currentMessageId,
+    playTTS,
+    beginTTSStream,
+    stopTTS,
+    prime,
+  } = useTTSPlayer(audioRef, promptName, voiceLanguages);
 
   function isMobileUserAgent(): boolean {
     if (typeof navigator === "undefined") return false;
     return /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
   }
 
+  /**
+   * Readies handsfree mode for assistant playback: gates (or, without barge-in, stops) the
+   * VAD, releases any active recorder, and primes the TTS pipeline.
+   */
+  const prepareHandsfreePlayback = useCallback(async () => {
+    // Prevent VAD from triggering while we prepare playback and release mic resources.
+    // With barge-in the VAD loop keeps running so speech can interrupt playback.
+    suppressVADRef.current = true;
+    if (!bargeInRef.current) {
+      try {
+        vadStopRef.current?.();
+      } catch {}
+      vadStopRef.current = null;
+      setIsVADActive(false);
+    }
+
+    // If a MediaRecorder is still recording, stop it and release tracks so the audio
+    // hardware can be used for playback without conflict.
+    if (mediaRecorderRef.current?.state === "recording") {
+      try {
+        mediaRecorderRef.current.stop();
+        mediaRecorderRef.current.stream.getTracks().forEach((t) => t.stop());
+      } catch {}
+      setIsRecording(false);
+    }
+
+    // Ensure the TTS playback pipeline is primed/resumed under a user gesture.
+    try {
+      await prime();
+    } catch {}
+
+    // Small settle delay so mobile audio hardware has a moment to stabilise.
+    const delayMs = isMobileUserAgent() ? 60 : 10;
+    await new Promise((res) => setTimeout(res, delayMs));
+  }, [prime]);
+
   const handlePlayTTSWrapped = useCallback(
     async (
       messageId: string,
@@ -137,40 +254,25 @@ export function useHandsfree({
       isHandsfreeFlag = false,
       onComplete?: () => void,
     ) => {
-      if (isHandsfreeFlag) {
-        // Prevent VAD from triggering while we prepare playback and release mic resources.
-        suppressVADRef.current = true;
-        try {
-          vadStopRef.current?.();
-        } catch {}
-        vadStopRef.current = null;
-        setIsVADActive(false);
-
-        // If a MediaRecorder is still recording, stop it and release tracks so the audio
-        // hardware can be used for playback without conflict.
-        if (mediaRecorderRef.current?.state === "recording") {
-          try {
-            mediaRecorderRef.current.stop();
-            mediaRecorderRef.current.stream
-              .getTracks()
-              .forEach((t) => t.stop());
-          } catch {}
-          setIsRecording(false);
-        }
-
-        // Ensure the TTS playback pipeline is primed/resumed under a user gesture.
-        try {
-          await prime();
-        } catch {}
-
-        // Small settle delay so mobile audio hardware has a moment to stabilise.
-        const delayMs = isMobileUserAgent() ? 60 : 10;
-        await new Promise((res) => setTimeout(res, delayMs));
-      }
+      if (isHandsfreeFlag) await prepareHandsfreePlayback();
 
       return playTTS(messageId, text, isHandsfreeFlag, onComplete);
     },
-    [playTTS, prime],
+    [playTTS, prepareHandsfreePlayback],
+  );
+
+  /**
+   * Starts sentence-streamed playback for a reply that is still generating. In handsfree
+   * mode the same preparation as handlePlayTTS runs before the first sentence is fetched.
+   */
+  const beginTTSStreamWrapped = useCallback(
+    (messageId: string, isHandsfreeFlag = false, onComplete?: () => void) => {
+      const ready = isHandsfreeFlag
+        ? prepareHandsfreePlayback()
+        : Promise.resolve();
+      return beginTTSStream(messageId, isHandsfreeFlag, onComplete, ready);
+    },
+    [beginTTSStream, prepareHandsfreePlayback],
   );
 
   useEffect(() => {
@@ -239,103 +341,27 @@ export function useHandsfree({
    * sendAudioToAPI
    *
    * Uploads the recorded audio blob to the transcription endpoint and reads a streaming
-   * response. This function:
-   *  - POSTs multipart/form-data to /api/transcribe
-   *  - Reads the response body and concatenates incremental "transcript.text.delta" events
-   *  - Captures a "usage" event if provided by the server
-   *  - On receiving "data: [DONE]" it calls onNewTranscription(fullText, usage)
+   * response (transcribeAudio). This function:
+   *  - POSTs multipart/form-data to /api/transcribe with the active responder's name, so the
+   *    server applies that responder's speech-to-text model and hints
+   *  - Concatenates incremental "transcript.text.delta" events and captures a "usage" event
+   *  - Once "data: [DONE]" was received it calls onNewTranscription(fullText, usage, audioBlob)
    *
    * Notes:
    *  - This is the bridge between raw audio capture and the chat/system transcription flow.
    */
   const sendAudioToAPI = useCallback(
     async (audioBlob: Blob, filename: string) => {
-      const formData = new FormData();
-      formData.append("file", audioBlob, filename);
-      formData.append("model", "openai/gpt-4o-transcribe");
       emittedRef.current = false;
       try {
-        const res = await fetch("/api/transcribe", {
-          method: "POST",
-          body: formData,
-        });
-        if (!res.ok) throw new Error("Transcription failed");
-
-        const reader = res.body?.getReader();
-        if (!reader) throw new Error("No response body");
-
-        const decoder = new TextDecoder();
-        let fullText = "";
-        let usage:
-          | {
-              cost: number;
-              promptChar: number;
-              latencyMs: number;
-              ttfcMs: number;
-            }
-          | undefined;
-
-        // allow breaking the outer loop after [DONE]
-        let doneReading = false;
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value);
-          const lines = chunk.split("\n").filter((line) => line.trim());
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              const data = line.replace("data: ", "").trim();
-              if (data === "[DONE]") {
-                if (!emittedRef.current && fullText.trim()) {
-                  emittedRef.current = true;
-                  onNewTranscription(fullText, usage);
-                }
-                doneReading = true;
-                break;
-              }
-
-              try {
-                const parsed: unknown = JSON.parse(data);
-                if (
-                  typeof parsed === "object" &&
-                  parsed !== null &&
-                  "type" in parsed &&
-                  (parsed as { type: string }).type === "transcript.text.delta"
-                ) {
-                  fullText += (parsed as { delta?: string }).delta ?? "";
-                } else if (
-                  typeof parsed === "object" &&
-                  parsed !== null &&
-                  "usage" in parsed &&
-                  typeof (parsed as { usage: unknown }).usage === "object" &&
-                  (parsed as { usage: object }).usage !== null
-                ) {
-                  const u = parsed as {
-                    usage: {
-                      cost?: number;
-                      prompt_char?: number;
-                      latency_ms?: number;
-                      ttfc_ms?: number;
-                    };
-                  };
-
-                  usage = {
-                    cost: u.usage.cost ?? 0,
-                    promptChar: u.usage.prompt_char ?? 0,
-                    latencyMs: u.usage.latency_ms ?? 0,
-                    ttfcMs: u.usage.ttfc_ms ?? 0,
-                  };
-                }
-              } catch {
-                // skip invalid JSON
-              }
-            }
-          }
-
-          if (doneReading) break;
+        const { text, usage, done } = await transcribeAudio(
+          audioBlob,
+          filename,
+          promptNameRef.current ?? "General",
+        );
+        if (done && !emittedRef.current && text.trim()) {
+          emittedRef.current = true;
+          onNewTranscription(text, usage, audioBlob);
         }
       } catch (err) {
         console.error("Transcription failed:", err);
@@ -363,7 +389,7 @@ export function useHandsfree({
    *  - cleanup when disabling handsfree mode
    */
   const stopRecordingAndSend = useCallback(() => {
-    if (mediaRecorderRef.current) {
+    if (mediaRecorderRef.current?.state === "recording") {
       mediaRecorderRef.current.stop();
       mediaRecorderRef.current.stream.getTracks().forEach((t) => t.stop());
       setIsRecording(false);
@@ -467,6 +493,20 @@ export function useHandsfree({
 
     const stopFn = startVAD({
       onStart: () => {
+        if (
+          bargeInRef.current &&
+          isPlayingRef.current &&
+          isHandsfreeRef.current &&
+          mediaRecorderRef.current?.state !== "recording"
+        ) {
+          stopTTS();
+          ttsStartedRef.current = true;
+          onBargeInRef.current?.();
+          suppressVADRef.current = false;
+          isPlayingRef.current = false;
+          setIsLoading(false);
+        }
+
         if (
           suppressVADRef.current ||
           isPlayingRef.current ||
@@ -522,13 +562,13 @@ export function useHandsfree({
       onStop: () => {
         stopRecordingAndSend();
       },
-      silenceDuration: 2000,
-      volumeThreshold: 10,
+      settings: vadSettingsRef.current,
+      isEchoRisk: () => isPlayingRef.current,
     });
 
     vadStopRef.current = stopFn;
     setIsVADActive(true);
-  }, [sendAudioToAPI, stopRecordingAndSend]);
+  }, [sendAudioToAPI, stopRecordingAndSend, stopTTS]);
   const startVADInternalRef = useRef(startVADInternal);
   const stopRecordingAndSendRef = useRef(stopRecordingAndSend);
   useEffect(() => {
@@ -566,6 +606,9 @@ export function useHandsfree({
       setIsRecording(false);
       suppressVADRef.current = true;
 
+      // barge-in keeps the VAD listening; its onStart handles interruption
+      if (bargeInRef.current) return;
+
       // fully stop the VAD loop to prevent onStart/onStop during playback
       vadStopRef.current?.();
       vadStopRef.current = null;
@@ -577,6 +620,8 @@ export function useHandsfree({
       // small debounce gives the output audio a moment to fully stop leaking into the mic
       setTimeout(() => {
         if (!isHandsfreeActive) return;
+        // an interrupted playback completes while the barge-in recording is running
+        if (mediaRecorderRef.current?.state === "recording") return;
         setIsLoading(false);
         setIsRecording(false);
         suppressVADRef.current = false;
@@ -593,22 +638,31 @@ export function useHandsfree({
     };
   }, [isHandsfreeActive]);
 
-  // Auto-disable handsfree if the tab is hidden or the page is unloading
+  // Apply changed VAD settings; an idle armed VAD is restarted so they take effect now
   useEffect(() => {
-    const turnOff = () => setIsHandsfreeActiveWrapped(false);
+    if (vadSettingsRef.current === vadSettings) return;
+    vadSettingsRef.current = vadSettings;
+    localStorage.setItem("vadSettings", JSON.stringify(vadSettings));
+
+    if (
+      vadArmedRef.current &&
+      mediaRecorderRef.current?.state !== "recording"
+    ) {
+      vadStopRef.current?.();
+      vadStopRef.current = null;
+      vadArmedRef.current = false;
+      startVADInternalRef.current();
+    }
+  }, [vadSettings]);
 
-    const onVisibility = () => {
-      if (document.hidden) turnOff();
-    };
+  // Auto-disable handsfree if the page is unloading
+  useEffect(() => {
+    const turnOff = () => setIsHandsfreeActiveWrapped(false);
 
-    window.addEventListener("visibilitychange", onVisibility, {
-      passive: true,
-    });
     window.addEventListener("pagehide", turnOff, { passive: true });
     window.addEventListener("beforeunload", turnOff);
 
     return () => {
-      window.removeEventListener("visibilitychange", onVisibility);
       window.removeEventListener("pagehide", turnOff);
       window.removeEventListener("beforeunload", turnOff);
     };
@@ -642,6 +696,10 @@ export function useHandsfree({
   return {
     isHandsfreeActive,
     setIsHandsfreeActive: setIsHandsfreeActiveWrapped,
+    isBargeInActive,
+    setIsBargeInActive,
+    vadSettings,
+    setVadSettings,
     isRecording,
     isVADActive,
     isLoading,
@@ -649,6 +707,7 @@ export function useHandsfree({
     isPlayingTTS: isPlaying,
     currentPlayingId: currentMessageId,
     handlePlayTTS: handlePlayTTSWrapped,
+    beginTTSStream: beginTTSStreamWrapped,
     handleStopTTS: stopTTS,
     startManualRecording,
     stopManualRecording,
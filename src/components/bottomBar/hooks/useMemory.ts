@@ -41,7 +41,7 @@ import { reRemember } from "../helpers/memory";
  * - Persist and expose isMemoryActive (localStorage)
  * - Provide memory lifecycle state: memoryStatus, memoryProgress, memoryTotal
  * - Provide actions: handleMemoryClear(selectedPrompt, responderSettings, userId)
- *   and handleMemoryReRemember(messages, responderSettings, userId)
+ *   and handleMemoryReRemember(messages, selectedPrompt, responderSettings, userId)
  *
  * Returns an object with:
  * - isMemoryActive, setIsMemoryActive
@@ -118,13 +118,14 @@ export function useMemory() {
   );
 
   /**
-   * handleMemoryReRemember(messages, responderSettings, userId)
+   * handleMemoryReRemember(messages, selectedPrompt, responderSettings, userId)
    *
    * Rehydrates backend memory by replaying the provided message list. This delegates
    * batching, streaming, and progress updates to the reRemember helper.
    *
    * Inputs:
    * - messages: array of Message objects (user/assistant) — only text/type/id are forwarded.
+   * - selectedPrompt: name of the responder whose memory is rebuilt.
    * - responderSettings: memory tuning values (short_mem, long_mem, mem_expire) or null.
    * - userId: optional user identifier forwarded to the backend.
    *
@@ -136,6 +137,7 @@ export function useMemory() {
   const handleMemoryReRemember = useCallback(
     async (
       messages: Message[],
+      selectedPrompt: string,
       responderSettings: {
         prompt: string;
         short_mem: number;
@@ -151,6 +153,7 @@ export function useMemory() {
             type: msg.type,
             id: msg.id,
           })),
+          selectedPrompt,
           responderSettings,
           userId,
           setMemoryStatus,
@@ -12,14 +12,16 @@
 // - Imported by responder-related UI components (e.g. EditResponderModal and ModelCombo)
 //
 // Exports:
-// - export function useResponderModels(selectedVoiceModel: string)
+// - export function useResponderModels(selectedVoiceModel: string, provider?: ProviderId)
 //
 // Exports used by:
 // - src/components/bottomBar/modals/EditResponderModal.tsx
 // - src/components/bottomBar/modals/ModelCombo.tsx
 //
 // Nuances:
-// - The hook uses a small in-memory cache (voicesCache) keyed by "provider/model"
+// - All requests carry ?source=<provider> so the lists match the responder's upstream
+//   provider; the lists are refetched whenever the provider changes.
+// - The hook uses a small in-memory cache (voicesCache) keyed by source and "provider/model"
 //   to avoid recalculating voice lists for the same voice model selection.
 // - Voice model latency values are parsed from a slash-delimited string and the
 //   hook falls back to "N/A" when latency information is missing.
@@ -30,6 +32,7 @@
 //   UI behaviors and selection state are managed by the consuming components.
 
 import { useEffect, useState } from "react";
+import type { ProviderId } from "~/types/provider";
 
 type Model = {
   provider: string;
@@ -64,7 +67,7 @@ const voicesCache: Record<string, Voice[]> = {};
  * Summary:
  * Hook that fetches and exposes AI model lists and voice definitions used by the
  * responder editor UI. It fetches:
- *  - /api/models?provider=pool       -> pool of general AI models
+ *  - /api/models?provider=pool       -> pool of general AI models (for the given provider)
  *  - /api/models?type=voice         -> provider/model entries that support TTS
  *  - /api/models?voices             -> concrete voice entries (voice_id, name, provider, model)
  *
@@ -86,9 +89,12 @@ const voicesCache: Record<string, Voice[]> = {};
  *  - The hook performs defensive runtime checks on the API response shapes to avoid
  *    throwing when APIs return unexpected data. Consumers should check `isLoading`
  *    and `error` before rendering dependent UI.
- *  - Caching is in-memory for the session only and is keyed by `${provider}/${model}`.
+ *  - Caching is in-memory for the session only and is keyed by `${source}:${provider}/${model}`.
  */
-export function useResponderModels(selectedVoiceModel: string) {
+export function useResponderModels(
+  selectedVoiceModel: string,
+  source: ProviderId = "apipie",
+) {
   const [aiModels, setAiModels] = useState<Model[]>([]);
   const [voiceModels, setVoiceModels] = useState<Model[]>([]);
   const [voices, setVoices] = useState<Voice[]>([]);
@@ -98,12 +104,14 @@ export function useResponderModels(selectedVoiceModel: string) {
 
   useEffect(() => {
     const fetchModels = async () => {
+      setIsLoading(true);
+      setError(null);
       try {
         const [poolRes, voiceRes, voicesRes]: [Response, Response, Response] =
           await Promise.all([
-            fetch("/api/models?provider=pool"),
-            fetch("/api/models?type=voice"),
-            fetch("/api/models?voices"),
+            fetch(`/api/models?provider=pool&source=${source}`),
+            fetch(`/api/models?type=voice&source=${source}`),
+            fetch(`/api/models?voices&source=${source}`),
           ]);
 
         if (!poolRes.ok || !voiceRes.ok || !voicesRes.ok) {
@@ -176,7 +184,7 @@ export function useResponderModels(selectedVoiceModel: string) {
     };
 
     void fetchModels();
-  }, []);
+  }, [source]);
 
   useEffect(() => {
     if (!selectedVoiceModel || voicesData.length === 0) {
@@ -187,7 +195,7 @@ export function useResponderModels(selectedVoiceModel: string) {
     const [provider, modelName]: [string, string] = selectedVoiceModel.split(
       "/",
     ) as [string, string];
-    const cacheKey = `${provider}/${modelName}`;
+    const cacheKey = `${source}:${provider}/${modelName}`;
 
     if (voicesCache[cacheKey]) {
       setVoices(voicesCache[cacheKey]);
@@ -200,7 +208,7 @@ export function useResponderModels(selectedVoiceModel: string) {
 
     voicesCache[cacheKey] = filtered;
     setVoices(filtered);
-  }, [selectedVoiceModel, voicesData]);
+  }, [selectedVoiceModel, voicesData, source]);
 
   return { aiModels, voiceModels, voices, isLoading, error };
 }
@@ -3,8 +3,8 @@
 // Summary:
 // EditResponderModal is a modal UI component used to create or edit a "responder" — a configured
 // assistant persona with model, voice, prompt, and memory settings. The modal provides form
-// fields for name, AI model, voice model, voice selection, prompt text, response length, and
-// memory sliders. It validates form values using responderSchema, issues POST (create) or PATCH
+// fields for name, upstream provider, AI model, voice model, voice selection, prompt text, response length,
+// context window, and memory sliders. It validates form values using responderSchema, issues POST (create) or PATCH
 // (update) requests to /api/responders, and calls the provided onSave/onClose callbacks with the
 // result. The component relies on useResponderModels to populate model and voice lists.
 //
@@ -24,6 +24,17 @@
 // - When creating a new responder (responder.id === -1 or non-number), the component POSTs to
 //   /api/responders and expects the created responder object back. For updates it PATCHes the
 //   resource at /api/responders/:name and calls onSave with the merged result.
+// - Language Voices map extra languages to voices of the selected voice model; TTS switches
+//   to that voice for sentences detected in the language. Rows without a voice fail validation.
+// - Speech Recognition settings (STT model, expected languages, vocabulary) are sent to
+//   /api/transcribe for this responder; empty values fall back to the server defaults.
+// - Advanced holds the sampling settings (temperature, top_p, penalties, stop sequences, seed,
+//   reasoning effort). Empty fields use the model's default; settings the selected model does not
+//   accept are marked and are not sent by /api/chat (see src/lib/utils/sampling.ts).
+// - Context Window tells /api/chat how much prior conversation fits in the model's context;
+//   it should not exceed the selected model's real limit.
+// - Changing the provider refetches the model lists for that provider; the stored model and
+//   voice selections are kept so they can be re-picked or left as-is.
 // - The component attempts to select a previously chosen voice once the voice list loads by
 //   checking voices returned from useResponderModels.
 // - Keep heavy business logic out of this component; it is intended to be a presentational + form
@@ -40,8 +51,24 @@ import { VoiceSelector } from "./VoiceSelector";
 import { useResponderModels } from "../hooks/useResponderModels";
 import { responderSchema } from "../schemas/responderSchema";
 import { getMemoryLabel, getExpirationLabel } from "../utils/memoryLabelUtils";
+import {
+  PROVIDER_IDS,
+  PROVIDER_LABELS,
+  isProviderId,
+  type ProviderId,
+} from "~/types/provider";
+import {
+  REASONING_EFFORTS,
+  isReasoningEffort,
+  type ReasoningEffort,
+  type ResponderSampling,
+  type SamplingParam,
+  type VoiceMap,
+} from "~/types/responder";
+import { VOICE_LANGUAGES } from "~/lib/utils/language";
+import { getSamplingSupport } from "~/lib/utils/sampling";
 
-type Responder = {
+type Responder = ResponderSampling & {
   id: number;
   name: string;
   model: string;
@@ -53,6 +80,12 @@ type Responder = {
   short_mem?: number;
   long_mem?: number;
   mem_expire?: number;
+  provider: ProviderId;
+  context_tokens: number;
+  voice_map: VoiceMap | null;
+  stt_model: string | null;
+  stt_languages: string | null;
+  stt_prompt: string | null;
 };
 
 export type Model = {
@@ -69,6 +102,17 @@ export type Voice = {
   name: string;
 };
 
+const CONTEXT_WINDOW_OPTIONS = [4096, 8192, 16384, 32768, 65536, 131072];
+
+const STT_MODEL_OPTIONS = [
+  "openai/gpt-4o-transcribe",
+  "openai/gpt-4o-mini-transcribe",
+  "openai/whisper-1",
+];
+
+// Empty number inputs mean "use the model's default".
+const toNumber = (value: string) => (value.trim() ? Number(value) : null);
+
 type Props = {
   responder: Responder;
   onClose: () => void;
@@ -81,8 +125,9 @@ type Props = {
  * Presents a modal that allows creating or editing a responder configuration.
  *
  * Responsibilities:
- * - Render form controls for responder name, AI model, voice model, voice, prompt,
- *   response length, and memory controls.
+ * - Render form controls for responder name, provider, AI model, voice model, voice, language
+ *   voices, speech recognition, prompt, response length, context window, memory controls and
+ *   advanced sampling settings.
  * - Use useResponderModels to populate model/voice lists.
  * - Validate form data via responderSchema prior to sending to the API.
  * - On successful create/update, invoke onSave(...) with the created/updated Responder.
@@ -95,6 +140,9 @@ type Props = {
 export function EditResponderModal({ responder, onClose, onSave }: Props) {
   const { theme } = useTheme();
   const [responderName, setResponderName] = useState(responder.name ?? "");
+  const [selectedProvider, setSelectedProvider] = useState<ProviderId>(
+    isProviderId(responder.provider) ? responder.provider : "apipie",
+  );
   const [selectedModel, setSelectedModel] = useState(responder.model ?? "");
   const [selectedVoiceModel, setSelectedVoiceModel] = useState(
     responder.voice_model ?? "",
@@ -103,13 +151,110 @@ export function EditResponderModal({ responder, onClose, onSave }: Props) {
   const [responseLength, setResponseLength] = useState(
     responder.max_tokens ? Math.floor(responder.max_tokens / 100) : 3,
   );
+  const [contextTokens, setContextTokens] = useState(
+    responder.context_tokens ?? 8192,
+  );
+  const [languageVoices, setLanguageVoices] = useState(
+    Object.entries(responder.voice_map ?? {}).map(([language, voice]) => ({
+      language,
+      voice,
+    })),
+  );
+  const [sttModel, setSttModel] = useState(responder.stt_model ?? "");
+  const [sttLanguages, setSttLanguages] = useState(
+    (responder.stt_languages ?? "").split(",").filter(Boolean),
+  );
+  const [sttPrompt, setSttPrompt] = useState(responder.stt_prompt ?? "");
   const [promptText, setPromptText] = useState(responder.prompt ?? "");
   const [shortMem, setShortMem] = useState(responder.short_mem ?? 3);
   const [longMem, setLongMem] = useState(responder.long_mem ?? 2);
   const [memExpire, setMemExpire] = useState(responder.mem_expire ?? 1440);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [temperature, setTemperature] = useState(
+    responder.temperature?.toString() ?? "",
+  );
+  const [topP, setTopP] = useState(responder.top_p?.toString() ?? "");
+  const [frequencyPenalty, setFrequencyPenalty] = useState(
+    responder.frequency_penalty?.toString() ?? "",
+  );
+  const [presencePenalty, setPresencePenalty] = useState(
+    responder.presence_penalty?.toString() ?? "",
+  );
+  const [stopSequences, setStopSequences] = useState(
+    (responder.stop ?? []).join("\n"),
+  );
+  const [seed, setSeed] = useState(responder.seed?.toString() ?? "");
+  const [reasoningEffort, setReasoningEffort] = useState<ReasoningEffort | "">(
+    responder.reasoning_effort ?? "",
+  );
+
+  const samplingSupport = getSamplingSupport(selectedModel);
 
-  const { aiModels, voiceModels, voices } =
-    useResponderModels(selectedVoiceModel);
+  const numberFields: {
+    param: SamplingParam;
+    label: string;
+    value: string;
+    setValue: (value: string) => void;
+    min: number;
+    max: number;
+    step: number;
+  }[] = [
+    {
+      param: "temperature",
+      label: "Temperature",
+      value: temperature,
+      setValue: setTemperature,
+      min: 0,
+      max: 2,
+      step: 0.1,
+    },
+    {
+      param: "top_p",
+      label: "Top P",
+      value: topP,
+      setValue: setTopP,
+      min: 0,
+      max: 1,
+      step: 0.05,
+    },
+    {
+      param: "frequency_penalty",
+      label: "Frequency Penalty",
+      value: frequencyPenalty,
+      setValue: setFrequencyPenalty,
+      min: -2,
+      max: 2,
+      step: 0.1,
+    },
+    {
+      param: "presence_penalty",
+      label: "Presence Penalty",
+      value: presencePenalty,
+      setValue: setPresencePenalty,
+      min: -2,
+      max: 2,
+      step: 0.1,
+    },
+    {
+      param: "seed",
+      label: "Seed",
+      value: seed,
+      setValue: setSeed,
+      min: 0,
+      max: 2147483647,
+      step: 1,
+    },
+  ];
+
+  const unsupportedNote = (param: SamplingParam) =>
+    samplingSupport[param] ? null : (
+      <span className="ml-1 text-xs opacity-60">(not used by this model)</span>
+    );
+
+  const { aiModels, voiceModels, voices } = useResponderModels(
+    selectedVoiceModel,
+    selectedProvider,
+  );
 
   /**
    * Synchronize selectedVoice once the voices list becomes available.
@@ -141,16 +286,35 @@ export function EditResponderModal({ responder, onClose, onSave }: Props) {
       return;
     }
 
+    const stop = stopSequences.split("\n").filter(Boolean);
+
     try {
       const validated = responderSchema.parse({
+        provider: selectedProvider,
         model: selectedModel,
         voice_model: selectedVoiceModel,
         voice: selectedVoice,
         max_tokens: responseLength * 100,
+        context_tokens: contextTokens,
         prompt: promptText,
         short_mem: shortMem,
         long_mem: longMem,
         mem_expire: memExpire,
+        voice_map: languageVoices.length
+          ? Object.fromEntries(
+              languageVoices.map(({ language, voice }) => [language, voice]),
+            )
+          : null,
+        stt_model: sttModel || null,
+        stt_languages: sttLanguages.length ? sttLanguages.join(",") : null,
+        stt_prompt: sttPrompt.trim() || null,
+        temperature: toNumber(temperature),
+        top_p: toNumber(topP),
+        frequency_penalty: toNumber(frequencyPenalty),
+        presence_penalty: toNumber(presencePenalty),
+        stop: stop.length ? stop : null,
+        seed: toNumber(seed),
+        reasoning_effort: reasoningEffort || null,
       });
 
       const newResponderData = {
@@ -249,6 +413,29 @@ export function EditResponderModal({ responder, onClose, onSave }: Props) {
             />
           </div>
 
+          <div className="mb-3">
+            <label className="mb-0.5 block text-sm">Provider</label>
+            <select
+              value={selectedProvider}
+              onChange={(e) => {
+                if (isProviderId(e.target.value)) {
+                  setSelectedProvider(e.target.value);
+                }
+              }}
+              className="w-full rounded border p-2 text-sm"
+              style={{
+                backgroundColor: theme === "dark" ? "#1f2937" : "#ffffff",
+                color: theme === "dark" ? "#ffffff" : "#000000",
+              }}
+            >
+              {PROVIDER_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {PROVIDER_LABELS[id]}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <ModelCombo
             models={aiModels}
             selected={selectedModel}
@@ -270,6 +457,145 @@ export function EditResponderModal({ responder, onClose, onSave }: Props) {
             disabled={!selectedVoiceModel}
           />
 
+          <div className="mt-3">
+            <label className="mb-0.5 block text-sm">Language Voices</label>
+            {languageVoices.map((entry, idx) => (
+              <div key={idx} className="mb-1 flex items-center gap-2">
+                <select
+                  value={entry.language}
+                  onChange={(e) =>
+                    setLanguageVoices((prev) =>
+                      prev.map((v, i) =>
+                        i === idx ? { ...v, language: e.target.value } : v,
+                      ),
+                    )
+                  }
+                  className="rounded border px-2 py-1 text-sm"
+                  style={{
+                    backgroundColor: theme === "dark" ? "#1f2937" : "#ffffff",
+                    color: theme === "dark" ? "#ffffff" : "#000000",
+                  }}
+                >
+                  {VOICE_LANGUAGES.filter(
+                    (l) =>
+                      l.code === entry.language ||
+                      !languageVoices.some((v) => v.language === l.code),
+                  ).map((l) => (
+                    <option key={l.code} value={l.code}>
+                      {l.label}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex-1">
+                  <VoiceSelector
+                    voices={voices}
+                    selectedVoice={entry.voice}
+                    onChange={(voice) =>
+                      setLanguageVoices((prev) =>
+                        prev.map((v, i) => (i === idx ? { ...v, voice } : v)),
+                      )
+                    }
+                    disabled={!selectedVoiceModel}
+                    label=""
+                  />
+                </div>
+                <button
+                  onClick={() =>
+                    setLanguageVoices((prev) =>
+                      prev.filter((_, i) => i !== idx),
+                    )
+                  }
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                  aria-label="Remove language voice"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            {languageVoices.length < VOICE_LANGUAGES.length && (
+              <button
+                onClick={() => {
+                  const next = VOICE_LANGUAGES.find(
+                    (l) => !languageVoices.some((v) => v.language === l.code),
+                  );
+                  if (next) {
+                    setLanguageVoices((prev) => [
+                      ...prev,
+                      { language: next.code, voice: "" },
+                    ]);
+                  }
+                }}
+                className="text-sm"
+                style={{ color: "rgb(var(--primary))" }}
+              >
+                + Add language voice
+              </button>
+            )}
+          </div>
+
+          <div className="mt-4">
+            <label className="mb-0.5 block text-sm">Speech Recognition</label>
+            <select
+              value={sttModel}
+              onChange={(e) => setSttModel(e.target.value)}
+              className="w-full rounded border p-2 text-sm"
+              style={{
+                backgroundColor: theme === "dark" ? "#1f2937" : "#ffffff",
+                color: theme === "dark" ? "#ffffff" : "#000000",
+              }}
+            >
+              <option value="">Default model</option>
+              {[
+                ...STT_MODEL_OPTIONS,
+                ...(sttModel && !STT_MODEL_OPTIONS.includes(sttModel)
+                  ? [sttModel]
+                  : []),
+              ].map((model) => (
+                <option key={model} value={model}>
+                  {model}
+                </option>
+              ))}
+            </select>
+            <div className="mt-2 flex flex-wrap gap-1">
+              {VOICE_LANGUAGES.map((l) => {
+                const active = sttLanguages.includes(l.code);
+                return (
+                  <button
+                    key={l.code}
+                    onClick={() =>
+                      setSttLanguages((prev) =>
+                        active
+                          ? prev.filter((code) => code !== l.code)
+                          : [...prev, l.code],
+                      )
+                    }
+                    className="rounded border px-2 py-0.5 text-xs"
+                    style={{
+                      backgroundColor: active
+                        ? "rgb(var(--primary))"
+                        : "transparent",
+                      color: active ? "#ffffff" : "rgb(var(--foreground))",
+                      borderColor: "rgba(var(--secondary), 0.2)",
+                    }}
+                  >
+                    {l.label}
+                  </button>
+                );
+              })}
+            </div>
+            <textarea
+              value={sttPrompt}
+              onChange={(e) => setSttPrompt(e.target.value)}
+              rows={2}
+              placeholder="Vocabulary: names, jargon, target-language words"
+              className="mt-2 w-full rounded border p-2 text-sm"
+              style={{
+                backgroundColor: theme === "dark" ? "#1f2937" : "#ffffff",
+                color: theme === "dark" ? "#ffffff" : "#000000",
+              }}
+            />
+          </div>
+
           <div className="mt-4">
             <label className="mb-0.5 block text-sm">Prompt</label>
             <textarea
@@ -306,6 +632,25 @@ export function EditResponderModal({ responder, onClose, onSave }: Props) {
               <span>{responseLength * 100} tokens</span>
             </div>
 
+            <div>
+              <label className="mb-0.5 block text-sm">Context Window</label>
+              <select
+                value={contextTokens}
+                onChange={(e) => setContextTokens(Number(e.target.value))}
+                className="w-full rounded border p-2 text-sm"
+                style={{
+                  backgroundColor: theme === "dark" ? "#1f2937" : "#ffffff",
+                  color: theme === "dark" ? "#ffffff" : "#000000",
+                }}
+              >
+                {CONTEXT_WINDOW_OPTIONS.map((tokens) => (
+                  <option key={tokens} value={tokens}>
+                    {tokens / 1024}k tokens
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label className="mb-0.5 block text-sm">
                 Short-Term Memory: {getMemoryLabel(shortMem, "short")}
@@ -351,6 +696,91 @@ export function EditResponderModal({ responder, onClose, onSave }: Props) {
               />
             </div>
           </div>
+
+          <div className="mt-4 text-sm">
+            <button
+              onClick={() => setShowAdvanced((prev) => !prev)}
+              className="text-sm"
+              style={{ color: "rgb(var(--primary))" }}
+            >
+              {showAdvanced ? "▾" : "▸"} Advanced
+            </button>
+            {showAdvanced && (
+              <div className="mt-2 space-y-3">
+                <p className="text-xs opacity-70">
+                  Leave a field empty to use the model&apos;s default.
+                </p>
+                {numberFields.map((field) => (
+                  <div key={field.param}>
+                    <label className="mb-0.5 block text-sm">
+                      {field.label}
+                      {unsupportedNote(field.param)}
+                    </label>
+                    <input
+                      type="number"
+                      min={field.min}
+                      max={field.max}
+                      step={field.step}
+                      value={field.value}
+                      onChange={(e) => field.setValue(e.target.value)}
+                      placeholder="Default"
+                      className="w-full rounded border p-2 text-sm"
+                      style={{
+                        backgroundColor:
+                          theme === "dark" ? "#1f2937" : "#ffffff",
+                        color: theme === "dark" ? "#ffffff" : "#000000",
+                      }}
+                    />
+                  </div>
+                ))}
+
+                <div>
+                  <label className="mb-0.5 block text-sm">
+                    Stop Sequences
+                    {unsupportedNote("stop")}
+                  </label>
+                  <textarea
+                    value={stopSequences}
+                    onChange={(e) => setStopSequences(e.target.value)}
+                    rows={2}
+                    placeholder="One per line (up to 4)"
+                    className="w-full rounded border p-2 text-sm"
+                    style={{
+                      backgroundColor: theme === "dark" ? "#1f2937" : "#ffffff",
+                      color: theme === "dark" ? "#ffffff" : "#000000",
+                    }}
+                  />
+                </div>
+
+                <div>
+                  <label className="mb-0.5 block text-sm">
+                    Reasoning Effort
+                    {unsupportedNote("reasoning_effort")}
+                  </label>
+                  <select
+                    value={reasoningEffort}
+                    onChange={(e) =>
+                      setReasoningEffort(
+                        isReasoningEffort(e.target.value) ? e.target.value : "",
+                      )
+                    }
+                    className="w-full rounded border p-2 text-sm"
+                    style={{
+                      backgroundColor: theme === "dark" ? "#1f2937" : "#ffffff",
+                      color: theme === "dark" ? "#ffffff" : "#000000",
+                    }}
+                  >
+                    <option value="">Default</option>
+                    {REASONING_EFFORTS.map((effort) => (
+                      <option key={effort} value={effort}>
+                        {effort[0]!.toUpperCase() + effort.slice(1)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+          </div>
         </div>
 
         <div className="bg-opacity-80 mt-6 flex shrink-0 justify-end gap-2">
@@ -31,6 +31,7 @@ type Props = {
   selectedVoice: string;
   onChange: (val: string) => void;
   disabled?: boolean;
+  label?: string;
 };
 
 /**
@@ -44,6 +45,7 @@ type Props = {
  * - selectedVoice: currently selected voice_id (empty string if none).
  * - onChange: callback invoked with the new voice_id when the user selects an option.
  * - disabled: optional boolean to disable the control.
+ * - label: optional label text (defaults to "Voice"; an empty string hides the label).
  *
  * Behavior:
  * - Displays a "Select Voice" placeholder option when selectedVoice is empty.
@@ -57,10 +59,11 @@ export function VoiceSelector({
   selectedVoice,
   onChange,
   disabled = false,
+  label = "Voice",
 }: Props) {
   return (
     <div>
-      <label className="mb-0.5 block text-sm">Voice</label>
+      {label && <label className="mb-0.5 block text-sm">{label}</label>}
       <select
         className="w-full rounded border px-2 py-1 text-sm"
         value={selectedVoice}
@@ -1,14 +1,19 @@
 //src/components/bottomBar/schemas/responderSchema.ts
 //
 //Some input validation for the responder module
+//Used in: EditResponderModal (form), /api/responders and /api/responders/[name] (samplingSchema)
 
 import { z } from "zod";
+import { PROVIDER_IDS } from "~/types/provider";
+import { REASONING_EFFORTS } from "~/types/responder";
 
 export const responderSchema = z.object({
+  provider: z.enum(PROVIDER_IDS),
   model: z.string().min(1, "AI Model is required"),
   voice_model: z.string().nullable(),
   voice: z.string().nullable(),
   max_tokens: z.number().min(100).max(2000),
+  context_tokens: z.number().int().min(2048).max(1000000),
   prompt: z
     .string()
     .min(10, "Prompt must be at least 10 characters")
@@ -19,4 +24,58 @@ export const responderSchema = z.object({
   short_mem: z.number().min(0).max(10),
   long_mem: z.number().min(0).max(10),
   mem_expire: z.number().min(30).max(1440),
+  voice_map: z
+    .record(z.string(), z.string().min(1, "Pick a voice for each language"))
+    .nullable(),
+  stt_model: z.string().max(100).nullable(),
+  stt_languages: z.string().max(100).nullable(),
+  stt_prompt: z
+    .string()
+    .max(1000, "Vocabulary must be less than 1000 characters")
+    .nullable(),
+  temperature: z
+    .number()
+    .min(0, "Temperature must be between 0 and 2")
+    .max(2, "Temperature must be between 0 and 2")
+    .nullable(),
+  top_p: z
+    .number()
+    .gt(0, "Top P must be above 0 and at most 1")
+    .max(1, "Top P must be above 0 and at most 1")
+    .nullable(),
+  frequency_penalty: z
+    .number()
+    .min(-2, "Frequency penalty must be between -2 and 2")
+    .max(2, "Frequency penalty must be between -2 and 2")
+    .nullable(),
+  presence_penalty: z
+    .number()
+    .min(-2, "Presence penalty must be between -2 and 2")
+    .max(2, "Presence penalty must be between -2 and 2")
+    .nullable(),
+  stop: z
+    .array(
+      z.string().min(1).max(100, "Stop sequences are at most 100 characters"),
+    )
+    .max(4, "At most 4 stop sequences")
+    .nullable(),
+  seed: z
+    .number()
+    .int("Seed must be a whole number")
+    .min(0, "Seed must be a whole number from 0 to 2147483647")
+    .max(2147483647, "Seed must be a whole number from 0 to 2147483647")
+    .nullable(),
+  reasoning_effort: z.enum(REASONING_EFFORTS).nullable(),
 });
+
+// Sampling settings of a create or update request: each may be left out or null (the model's
+// default), otherwise it must be in the range above.
+export const samplingSchema = responderSchema
+  .pick({
+    temperature: true,
+    top_p: true,
+    frequency_penalty: true,
+    presence_penalty: true,
+    seed: true,
+  })
+  .partial();
@@ -2,7 +2,9 @@
 //
 // Summary:
 // ChatBubble renders a single chat message bubble for user or assistant messages.
-// Handles streaming updates, deletion UI, usage display and TTS playback controls.
+// Handles streaming updates, deletion UI, usage display, TTS playback controls and the
+// edit / regenerate / branch navigation / save-as-note / copy actions. Assistant replies are
+// rendered as markdown with their web sources (MarkdownMessage); user messages stay plain text.
 // This component is presentation-focused; business logic is handled by hooks (e.g. useChat).
 //
 // Imports to:
@@ -18,9 +20,20 @@
 // - Reads CSS custom properties at runtime to compute colors; provides safe SSR fallback.
 // - Keep heavy logic in hooks or parent components; this file should remain focused on UI.
 // - Major functions have brief descriptions; avoid trivial inline comments.
+// - Edits and regenerations are reported through callbacks; the parent (useChat) creates the
+//   branch. The "‹ n/m ›" switcher only shows when the message has alternatives.
+// - Actions are hidden while any reply streams (canModify=false) so branches cannot change
+//   under a running request.
+// - "Note" saves the text selected inside the bubble, or the whole message when nothing in it
+//   is selected. The selection is read on pointer down, before the click can clear it.
+// - "Copy" copies the reply's markdown source; code blocks have their own copy button.
+// - "Replay" (only passed when the server stores message audio) plays the stored recording or
+//   speech of the message; while it plays the button stops it.
 
 import React, { useEffect, useState, useRef } from "react";
 import { useTheme } from "~/lib/theme-provider";
+import type { Citation } from "~/types/message";
+import { MarkdownMessage } from "./MarkdownMessage";
 
 /**
  * getRGBVar
@@ -50,6 +63,7 @@ type UsageData = {
   completion_tokens?: number;
   total_tokens?: number;
   totalTokens?: number;
+  estimated?: boolean;
   audioUsage?: {
     cost?: number;
     char_count?: number;
@@ -61,6 +75,7 @@ type ChatBubbleProps = {
   messageId: string;
   text: string;
   type: "user" | "assistant";
+  citations?: Citation[];
   isStreaming?: boolean;
   usage?: UsageData;
   className?: string;
@@ -70,6 +85,17 @@ type ChatBubbleProps = {
   onShowDelete?: () => void;
   onHideDelete?: () => void;
   onDelete?: () => void;
+  branchIndex?: number;
+  branchCount?: number;
+  onSelectBranch?: (offset: -1 | 1) => void;
+  canModify?: boolean;
+  onEdit?: (text: string) => void;
+  responderName?: string;
+  responderNames?: string[];
+  onRegenerate?: (responderName?: string) => void;
+  onSaveNote?: (text: string) => void;
+  isReplayingAudio?: boolean;
+  onReplayAudio?: () => void;
 };
 
 /**
@@ -79,6 +105,9 @@ type ChatBubbleProps = {
  * - deletion gestures and UI
  * - streaming text updates
  * - TTS playback control and usage display
+ * - editing user messages, regenerating replies and switching between branches
+ * - saving the message (or the selected part of it) as a note
+ * - replaying the message's stored audio
  *
  * Public props are described by the ChatBubbleProps type above.
  *
@@ -88,6 +117,7 @@ export function ChatBubble({
   messageId,
   text,
   type,
+  citations,
   isStreaming = false,
   usage,
   isPlayingTTS = false,
@@ -96,11 +126,29 @@ export function ChatBubble({
   onShowDelete,
   onHideDelete,
   onDelete,
+  branchIndex = 0,
+  branchCount = 1,
+  onSelectBranch,
+  canModify = true,
+  onEdit,
+  responderName,
+  responderNames = [],
+  onRegenerate,
+  onSaveNote,
+  isReplayingAudio = false,
+  onReplayAudio,
 }: ChatBubbleProps) {
   useTheme();
 
   const [streamedText, setStreamedText] = useState(text);
   const [showUsage, setShowUsage] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(text);
+  const [showRegenerateMenu, setShowRegenerateMenu] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const regenerateMenuRef = useRef<HTMLDivElement>(null);
+  const bubbleRef = useRef<HTMLDivElement>(null);
+  const noteSelectionRef = useRef("");
 
   // TTS loading state: true after button press, until playback starts
   const [isTTSLoading, setIsTTSLoading] = useState(false);
@@ -114,7 +162,46 @@ export function ChatBubble({
     if (isPlayingTTS) setIsTTSLoading(false);
   }, [isPlayingTTS]);
 
+  useEffect(() => {
+    if (!showRegenerateMenu) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!regenerateMenuRef.current?.contains(event.target as Node)) {
+        setShowRegenerateMenu(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [showRegenerateMenu]);
+
   const isAssistant = type === "assistant";
+  const showActions = canModify && !isStreaming && !isEditing;
+
+  /**
+   * submitEdit
+   *
+   * Sends the edited text as a new branch; unchanged or empty drafts just close the editor.
+   */
+  const submitEdit = () => {
+    setIsEditing(false);
+    if (draft.trim() && draft.trim() !== text.trim()) onEdit?.(draft.trim());
+  };
+
+  /**
+   * captureSelection
+   *
+   * Remembers the text selected inside this bubble (empty when the selection is elsewhere).
+   */
+  const captureSelection = () => {
+    const selection = window.getSelection();
+    const bubble = bubbleRef.current;
+    noteSelectionRef.current =
+      selection &&
+      !selection.isCollapsed &&
+      bubble?.contains(selection.anchorNode) &&
+      bubble.contains(selection.focusNode)
+        ? selection.toString().trim()
+        : "";
+  };
 
   const touchStartX = useRef<number>(0);
 
@@ -139,19 +226,20 @@ export function ChatBubble({
 
       {/* Message bubble */}
       <div
+        ref={bubbleRef}
         className={`relative z-20 max-w-[80%] min-w-[200px] rounded-2xl px-4 py-3 text-base transition-transform duration-300 ${
           deleteVisible ? "translate-x-[80px]" : ""
         }`}
-        onDoubleClick={() => !isStreaming && onShowDelete?.()}
+        onDoubleClick={() => !isStreaming && !isEditing && onShowDelete?.()}
         onTouchStart={(e) => {
-          if (isStreaming) return;
+          if (isStreaming || isEditing) return;
           const touch = e.touches[0];
           if (touch) {
             touchStartX.current = touch.clientX;
           }
         }}
         onTouchMove={(e) => {
-          if (isStreaming) return;
+          if (isStreaming || isEditing) return;
           const touch = e.touches[0];
           if (touch && touch.clientX - touchStartX.current > 50) {
             onShowDelete?.();
@@ -169,7 +257,51 @@ export function ChatBubble({
           borderTopRightRadius: !isAssistant ? 0 : "1.5rem",
         }}
       >
-        {isStreaming ? streamedText : text}
+        {isEditing ? (
+          <div className="flex flex-col gap-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setIsEditing(false);
+                if (
+                  e.key === "Enter" &&
+                  !e.shiftKey &&
+                  !e.nativeEvent.isComposing
+                ) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+              }}
+              rows={Math.min(8, draft.split("\n").length + 1)}
+              className="w-full resize-none rounded bg-transparent p-1 outline-none"
+              style={{ border: "1px solid rgba(var(--foreground), 0.3)" }}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2 text-sm">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="rounded px-2 py-1 opacity-70 hover:opacity-100"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submitEdit}
+                className="rounded px-2 py-1"
+                style={{ backgroundColor: "rgba(var(--foreground), 0.15)" }}
+              >
+                Send
+              </button>
+            </div>
+          </div>
+        ) : type === "assistant" ? (
+          <MarkdownMessage
+            text={isStreaming ? streamedText : text}
+            citations={citations}
+          />
+        ) : (
+          text
+        )}
         {type === "assistant" && onPlayTTS && (
           <button
             onClick={() => {
@@ -251,6 +383,135 @@ export function ChatBubble({
             )}
           </button>
         )}
+        {(branchCount > 1 ||
+          (showActions &&
+            (isAssistant || (onSaveNote ?? onReplayAudio ?? onEdit)))) && (
+          <div className="mt-2 flex items-center justify-between gap-2 text-xs">
+            {branchCount > 1 ? (
+              <div className="flex items-center gap-1 opacity-80">
+                <button
+                  onClick={() => onSelectBranch?.(-1)}
+                  disabled={!canModify || branchIndex === 0}
+                  className="px-1 disabled:opacity-30"
+                  aria-label="Previous version"
+                >
+                  ‹
+                </button>
+                <span>
+                  {branchIndex + 1}/{branchCount}
+                </span>
+                <button
+                  onClick={() => onSelectBranch?.(1)}
+                  disabled={!canModify || branchIndex === branchCount - 1}
+                  className="px-1 disabled:opacity-30"
+                  aria-label="Next version"
+                >
+                  ›
+                </button>
+                {isAssistant && responderName && (
+                  <span className="ml-1 opacity-70">{responderName}</span>
+                )}
+              </div>
+            ) : (
+              <span />
+            )}
+            <div className="flex items-center gap-3">
+              {showActions && isAssistant && (
+                <button
+                  onClick={() => {
+                    void navigator.clipboard.writeText(text).then(() => {
+                      setCopied(true);
+                      setTimeout(() => setCopied(false), 1500);
+                    });
+                  }}
+                  className="opacity-60 hover:opacity-100"
+                  aria-label="Copy message"
+                >
+                  {copied ? "Copied" : "Copy"}
+                </button>
+              )}
+              {showActions && onReplayAudio && (
+                <button
+                  onClick={onReplayAudio}
+                  className="opacity-60 hover:opacity-100"
+                  aria-label={
+                    isReplayingAudio ? "Stop replay" : "Replay recorded audio"
+                  }
+                >
+                  {isReplayingAudio ? "Stop" : "Replay"}
+                </button>
+              )}
+              {showActions && onSaveNote && (
+                <button
+                  onPointerDown={captureSelection}
+                  onClick={() =>
+                    onSaveNote(
+                      noteSelectionRef.current.length > 0
+                        ? noteSelectionRef.current
+                        : text,
+                    )
+                  }
+                  className="opacity-60 hover:opacity-100"
+                  aria-label="Save as note"
+                  title="Save as note (or select part of the message first)"
+                >
+                  Note
+                </button>
+              )}
+              {showActions && !isAssistant && onEdit && (
+                <button
+                  onClick={() => {
+                    setDraft(text);
+                    setIsEditing(true);
+                  }}
+                  className="opacity-60 hover:opacity-100"
+                  aria-label="Edit message"
+                >
+                  Edit
+                </button>
+              )}
+              {showActions && isAssistant && onRegenerate && (
+                <div className="relative" ref={regenerateMenuRef}>
+                  <button
+                    onClick={() => setShowRegenerateMenu((open) => !open)}
+                    className="opacity-60 hover:opacity-100"
+                    aria-label="Regenerate reply"
+                  >
+                    Regenerate
+                  </button>
+                  {showRegenerateMenu && (
+                    <ul
+                      className="absolute right-0 bottom-full z-50 mb-1 w-max min-w-[140px] rounded text-sm shadow"
+                      style={{
+                        backgroundColor: "rgb(var(--header-footer-bg))",
+                        border: "1px solid rgba(var(--secondary), 0.1)",
+                        color: "rgb(var(--foreground))",
+                      }}
+                    >
+                      {[
+                        responderName,
+                        ...responderNames.filter((n) => n !== responderName),
+                      ].map((name) => (
+                        <li
+                          key={name ?? ""}
+                          onClick={() => {
+                            setShowRegenerateMenu(false);
+                            onRegenerate(name);
+                          }}
+                          className="cursor-pointer px-2 py-1 transition-colors duration-100 hover:bg-gray-200 active:bg-gray-300"
+                        >
+                          {name === responderName
+                            ? "Same responder"
+                            : `With ${name}`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
         {usage && (
           <div className="relative z-30 mt-2 w-full">
             <div
@@ -265,9 +526,17 @@ export function ChatBubble({
             {showUsage && (
               <div className="border-border bg-background text-foreground mt-1 w-full rounded border-t p-1 text-xs">
                 <div className="flex justify-between">
-                  <span>cost: ${Number(usage.cost).toFixed(6)}</span>
+                  <span>
+                    cost:{" "}
+                    {usage.cost === undefined && usage.estimated
+                      ? "unknown"
+                      : `$${Number(usage.cost).toFixed(6)}`}
+                  </span>
                   {typeof usage.totalTokens === "number" ? (
-                    <span>tokens: {usage.totalTokens}</span>
+                    <span>
+                      tokens: {usage.estimated ? "≈" : ""}
+                      {usage.totalTokens}
+                    </span>
                   ) : usage.promptChar ? (
                     <span>length: {usage.promptChar}s</span>
                   ) : null}
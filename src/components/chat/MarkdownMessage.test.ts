@@ -0,0 +1,39 @@
+// src/components/chat/MarkdownMessage.test.ts
+//
+// Tests for rendering replies: GitHub tables and highlighted code, and Sources that only link
+// to web pages.
+
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import { MarkdownMessage } from "./MarkdownMessage";
+
+const render = (text: string, citations?: { url: string; title?: string }[]) =>
+  renderToStaticMarkup(createElement(MarkdownMessage, { text, citations }));
+
+describe("MarkdownMessage", () => {
+  it("renders pipe tables with their alignment", () => {
+    const html = render("| a | b |\n|:-|--:|\n| 1 | **2** |");
+
+    expect(html).toContain("<table");
+    expect(html).toMatch(/<td[^>]*text-align:right[^>]*><strong>2<\/strong>/);
+  });
+
+  it("highlights fenced code that names its language", () => {
+    const html = render("```js\nconst a = 1; // one\n```");
+
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+    expect(html).toContain('<span class="hljs-comment">// one</span>');
+  });
+
+  it("links only http(s) sources", () => {
+    const html = render("See [1](https://example.com/a).", [
+      { url: "https://example.com/a", title: "Example" },
+      { url: "javascript:alert(1)", title: "Evil" },
+    ]);
+
+    expect(html).toContain('href="https://example.com/a"');
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain("Evil");
+  });
+});
@@ -0,0 +1,292 @@
+// src/components/chat/MarkdownMessage.tsx
+//
+// Summary:
+// MarkdownMessage renders the text of an assistant reply as markdown: headings, lists, links,
+// quotes, tables and code blocks with syntax highlighting and a copy button. Web sources the
+// reply cites (internet search) become numbered links in the text and a "Sources" list below.
+//
+// Imports to:
+// - src/components/chat/ChatBubble.tsx
+//
+// Exports:
+// - MarkdownMessage (named export)
+//
+// Exports used by:
+// - src/components/chat/ChatBubble.tsx (assistant bubbles)
+//
+// Nuances:
+// - Sanitized by construction: raw HTML in the reply is dropped (skipHtml) and react-markdown's
+//   default URL filter removes javascript: and similar links. Images are shown as links, so a
+//   reply cannot make the browser load arbitrary remote content. Citation URLs come from the
+//   provider rather than the text, so the Sources list links only http(s) ones.
+// - Tables, strikethrough, task lists and bare URLs come from remark-gfm; fenced code with a
+//   language is colored by rehype-highlight (classes styled in globals.css), other code stays
+//   plain.
+// - A link to a cited URL is shown as its source number ("[2]"); "([site](url))" wrappers
+//   around such links, as written by search models, are dropped first.
+// - Also used while the reply streams; unfinished markdown (e.g. an open code fence) simply
+//   renders as far as it goes.
+
+import React, { useMemo, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import type { Components } from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import remarkGfm from "remark-gfm";
+import type { Citation } from "~/types/message";
+import { isWebUrl, textOf } from "./helpers/markdown";
+
+const NO_CITATIONS: Citation[] = [];
+
+const REMARK_PLUGINS = [remarkGfm];
+const REHYPE_PLUGINS = [rehypeHighlight];
+
+type MarkdownMessageProps = {
+  text: string;
+  citations?: Citation[];
+};
+
+/**
+ * hostOf
+ * Domain of a URL without "www.", or the URL itself when it cannot be parsed.
+ */
+function hostOf(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * CopyButton
+ *
+ * Copies `text` to the clipboard and confirms briefly.
+ */
+function CopyButton({
+  text,
+  label = "Copy",
+}: {
+  text: string;
+  label?: string;
+}) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      onClick={() => {
+        void navigator.clipboard.writeText(text).then(() => {
+          setCopied(true);
+          setTimeout(() => setCopied(false), 1500);
+        });
+      }}
+      className="rounded px-2 py-0.5 text-xs opacity-70 hover:opacity-100"
+      aria-label={label}
+    >
+      {copied ? "Copied" : label}
+    </button>
+  );
+}
+
+/**
+ * CodeBlock
+ *
+ * Fenced code with its language and a copy button; `children` is the highlighted code.
+ */
+function CodeBlock({
+  code,
+  language,
+  children,
+}: {
+  code: string;
+  language?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="my-2 overflow-hidden rounded-lg bg-gray-900 text-gray-100">
+      <div className="flex items-center justify-between border-b border-white/10 px-3 py-1 text-xs">
+        <span className="opacity-70">{language ?? "code"}</span>
+        <CopyButton text={code} label="Copy code" />
+      </div>
+      <pre className="overflow-x-auto p-3 text-sm leading-6">
+        <code>{children}</code>
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * MarkdownMessage
+ *
+ * Renders `text` as markdown; `citations` are the reply's web sources in numbering order.
+ *
+ * Used in: src/components/chat/ChatBubble.tsx
+ */
+export function MarkdownMessage({
+  text,
+  citations = NO_CITATIONS,
+}: MarkdownMessageProps) {
+  const source = useMemo(() => {
+    let source = text;
+    for (const { url } of citations) {
+      const escaped = url.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      source = source.replace(
+        new RegExp(`\\(\\s*(\\[[^\\]]*\\]\\(${escaped}\\))\\s*\\)`, "g"),
+        "$1",
+      );
+    }
+    return source;
+  }, [text, citations]);
+
+  const components = useMemo<Components>(() => {
+    const Anchor = ({
+      href,
+      children,
+    }: React.ComponentPropsWithoutRef<"a">) => {
+      const index = citations.findIndex((c) => c.url === href);
+      if (index !== -1) {
+        return (
+          <sup>
+            <a
+              href={href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              title={citations[index]!.title ?? hostOf(href!)}
+              className="px-0.5 font-semibold underline"
+            >
+              [{index + 1}]
+            </a>
+          </sup>
+        );
+      }
+      // Footnote references and back-links (remark-gfm) stay on the page.
+      if (href?.startsWith("#")) {
+        return (
+          <a href={href} className="underline">
+            {children}
+          </a>
+        );
+      }
+      return (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="break-words underline"
+        >
+          {children}
+        </a>
+      );
+    };
+
+    const Code: Components["code"] = ({ node, className, children }) => {
+      const code = node ? textOf(node) : "";
+      const language = /language-([\w+#-]+)/.exec(className ?? "")?.[1];
+      // Code spans never contain line breaks; fenced blocks always end with one.
+      if (!language && !code.includes("\n")) {
+        return (
+          <code className="rounded bg-black/10 px-1 font-mono text-[0.9em]">
+            {children}
+          </code>
+        );
+      }
+      return (
+        <CodeBlock code={code.replace(/\n$/, "")} language={language}>
+          {children}
+        </CodeBlock>
+      );
+    };
+
+    return {
+      p: (props) => <p className="mb-2 last:mb-0">{props.children}</p>,
+      h1: (props) => (
+        <h3 className="mt-3 mb-2 text-lg font-bold">{props.children}</h3>
+      ),
+      h2: (props) => (
+        <h3 className="mt-3 mb-2 text-lg font-bold">{props.children}</h3>
+      ),
+      h3: (props) => <h4 className="mt-3 mb-1 font-bold">{props.children}</h4>,
+      h4: (props) => (
+        <h4 className="mt-2 mb-1 font-semibold">{props.children}</h4>
+      ),
+      ul: (props) => <ul className="mb-2 ml-5 list-disc">{props.children}</ul>,
+      ol: (props) => (
+        <ol className="mb-2 ml-5 list-decimal">{props.children}</ol>
+      ),
+      li: (props) => <li className="mb-1">{props.children}</li>,
+      blockquote: (props) => (
+        <blockquote className="my-2 border-l-4 border-current/30 pl-3 opacity-80">
+          {props.children}
+        </blockquote>
+      ),
+      hr: () => <hr className="my-3 border-current/20" />,
+      a: Anchor,
+      img: ({ src, alt }) =>
+        typeof src === "string" ? (
+          <Anchor href={src}>{alt ?? src}</Anchor>
+        ) : null,
+      pre: (props) => <>{props.children}</>,
+      code: Code,
+      table: (props) => (
+        <div className="my-2 overflow-x-auto">
+          <table className="min-w-full border-collapse text-sm">
+            {props.children}
+          </table>
+        </div>
+      ),
+      th: ({ style, children }) => (
+        <th
+          className="border border-current/20 px-2 py-1 font-semibold"
+          style={{ textAlign: "left", ...style }}
+        >
+          {children}
+        </th>
+      ),
+      td: ({ style, children }) => (
+        <td
+          className="border border-current/20 px-2 py-1"
+          style={{ textAlign: "left", ...style }}
+        >
+          {children}
+        </td>
+      ),
+    };
+  }, [citations]);
+
+  return (
+    <div className="break-words">
+      <ReactMarkdown
+        components={components}
+        remarkPlugins={REMARK_PLUGINS}
+        rehypePlugins={REHYPE_PLUGINS}
+        skipHtml
+      >
+        {source}
+      </ReactMarkdown>
+      {citations.length > 0 && (
+        <div className="mt-3 border-t border-current/20 pt-2 text-xs">
+          <div className="mb-1 font-semibold opacity-80">Sources</div>
+          <ol className="ml-5 list-decimal">
+            {citations.map((c) => (
+              <li key={c.url} className="mb-0.5">
+                {isWebUrl(c.url) ? (
+                  <a
+                    href={c.url}
+                    target="_blank"
+                    rel="noopener noreferrer nofollow"
+                    className="break-words underline"
+                  >
+                    {c.title ?? hostOf(c.url)}
+                  </a>
+                ) : (
+                  <span className="break-words">
+                    {c.title ?? hostOf(c.url)}
+                  </span>
+                )}{" "}
+                <span className="opacity-60">{hostOf(c.url)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
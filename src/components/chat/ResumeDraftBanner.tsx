@@ -0,0 +1,69 @@
+// src/components/chat/ResumeDraftBanner.tsx
+//
+// Summary:
+// Card shown on an empty chat when an autosaved draft exists. It names the last conversation
+// and when it was last updated, with buttons to resume it (useChat.handleResumeDraft) or to
+// dismiss the offer and start fresh (useChat.dismissDraft).
+//
+// Imports to:
+// - Used by: src/app/chat/page.tsx
+//
+// Exports:
+// - ResumeDraftBanner (named export)
+//
+// Exports used by:
+// - src/app/chat/page.tsx
+//
+// Nuances:
+// - Purely presentational; the parent decides when it shows (a draft exists and the chat is
+//   empty). Dismissing does not delete the draft.
+
+"use client";
+
+type Props = {
+  title: string;
+  updatedAt: string;
+  onResume: () => void;
+  onDismiss: () => void;
+};
+
+export function ResumeDraftBanner({
+  title,
+  updatedAt,
+  onResume,
+  onDismiss,
+}: Props) {
+  return (
+    <div
+      className="mx-auto mt-8 flex w-[min(28rem,100%)] flex-col gap-3 rounded-xl p-4 shadow-md"
+      style={{
+        backgroundColor: "rgb(var(--header-footer-bg))",
+        color: "rgb(var(--foreground))",
+        border: "1px solid rgba(var(--secondary), 0.15)",
+      }}
+    >
+      <div>
+        <div className="text-sm opacity-70">Continue where you left off?</div>
+        <div className="truncate font-bold">{title}</div>
+        <div className="text-xs opacity-60">
+          Updated: {new Date(updatedAt).toLocaleString()}
+        </div>
+      </div>
+      <div className="flex justify-end gap-2 text-sm">
+        <button
+          onClick={onDismiss}
+          className="rounded px-3 py-1 opacity-70 hover:opacity-100"
+        >
+          New chat
+        </button>
+        <button
+          onClick={onResume}
+          className="rounded px-3 py-1 text-white"
+          style={{ backgroundColor: "rgb(var(--primary))" }}
+        >
+          Resume
+        </button>
+      </div>
+    </div>
+  );
+}
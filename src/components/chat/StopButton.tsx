@@ -0,0 +1,50 @@
+// src/components/chat/StopButton.tsx
+//
+// Summary:
+// Small floating "Stop" pill shown on the chat page while a reply is streaming. Clicking it
+// calls onStop (useChat.handleStopGeneration), which aborts the reply, keeps the text that
+// already arrived and stops its speech.
+//
+// Imports to:
+// - Used by: src/app/chat/page.tsx
+//
+// Exports:
+// - StopButton (named export)
+//
+// Exports used by:
+// - src/app/chat/page.tsx
+//
+// Nuances:
+// - Purely presentational; visibility is decided by the parent (isStreaming).
+
+"use client";
+
+type Props = {
+  onStop: () => void;
+};
+
+export function StopButton({ onStop }: Props) {
+  return (
+    <button
+      onClick={onStop}
+      className="flex items-center gap-2 rounded-full px-4 py-1.5 text-sm shadow-md"
+      style={{
+        backgroundColor: "rgb(var(--header-footer-bg))",
+        color: "rgb(var(--foreground))",
+        border: "1px solid rgba(var(--secondary), 0.2)",
+      }}
+      aria-label="Stop generating"
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        width="12"
+        height="12"
+        viewBox="0 0 24 24"
+        fill="currentColor"
+      >
+        <rect x="4" y="4" width="16" height="16" rx="2" />
+      </svg>
+      Stop
+    </button>
+  );
+}
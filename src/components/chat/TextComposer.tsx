@@ -0,0 +1,181 @@
+// src/components/chat/TextComposer.tsx
+//
+// Summary:
+// TextComposer is the typed alternative to the microphone on the chat page. It renders a
+// multi-line, auto-growing textarea with a send button, a toggle for speaking replies aloud
+// and a button to switch back to voice input. Sent text goes through the same
+// handleNewTranscription path as speech (via useChat.handleSendText), so memory, internet
+// search and the selected responder apply unchanged.
+//
+// Imports to:
+// - Used by: src/app/chat/page.tsx
+//
+// Exports:
+// - TextComposer (named export)
+//
+// Exports used by:
+// - src/app/chat/page.tsx
+//
+// Nuances:
+// - Enter sends, Shift+Enter inserts a newline; Enter during IME composition is ignored so
+//   CJK input is not sent half-composed.
+// - Pasted text keeps its line breaks; the textarea grows with the draft up to MAX_HEIGHT and
+//   scrolls after that.
+// - Sending is disabled while a reply is streaming or when the user has no API key.
+// - The draft is kept in component state only; it is cleared after a successful send.
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+const MAX_HEIGHT = 160;
+
+type Props = {
+  onSend: (text: string) => void;
+  onSwitchToVoice: () => void;
+  isAutoSpeakActive: boolean;
+  onAutoSpeakToggle: (active: boolean) => void;
+  isStreaming: boolean;
+  disabled?: boolean;
+};
+
+/**
+ * TextComposer
+ *
+ * Multi-line message input with send-on-enter. Calls onSend with the trimmed text and
+ * clears the draft; empty drafts are ignored.
+ */
+export function TextComposer({
+  onSend,
+  onSwitchToVoice,
+  isAutoSpeakActive,
+  onAutoSpeakToggle,
+  isStreaming,
+  disabled = false,
+}: Props) {
+  const [draft, setDraft] = useState("");
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const el = textareaRef.current;
+    if (!el) return;
+    el.style.height = "auto";
+    el.style.height = `${Math.min(el.scrollHeight, MAX_HEIGHT)}px`;
+  }, [draft]);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const canSend = !disabled && !isStreaming && draft.trim().length > 0;
+
+  const send = () => {
+    if (!canSend) return;
+    onSend(draft.trim());
+    setDraft("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== "Enter" || e.shiftKey || e.nativeEvent.isComposing) return;
+    e.preventDefault();
+    send();
+  };
+
+  return (
+    <div
+      className="flex w-[min(42rem,calc(100vw-2rem))] items-end gap-2 rounded-2xl p-2 shadow-lg"
+      style={{
+        backgroundColor: "rgb(var(--header-footer-bg))",
+        border: "1px solid rgba(var(--secondary), 0.15)",
+        color: "rgb(var(--foreground))",
+      }}
+    >
+      <button
+        onClick={onSwitchToVoice}
+        className="shrink-0 rounded-full p-2 opacity-70 hover:opacity-100"
+        aria-label="Switch to voice input"
+        title="Switch to voice input"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <rect x="9" y="2" width="6" height="12" rx="3" />
+          <path d="M5 10a7 7 0 0 0 14 0" />
+          <line x1="12" y1="17" x2="12" y2="22" />
+        </svg>
+      </button>
+
+      <textarea
+        ref={textareaRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={1}
+        disabled={disabled}
+        placeholder={disabled ? "Add an API key to chat" : "Type a message"}
+        className="min-h-[36px] flex-1 resize-none bg-transparent px-1 py-2 text-base outline-none"
+        style={{ maxHeight: MAX_HEIGHT }}
+      />
+
+      <button
+        onClick={() => onAutoSpeakToggle(!isAutoSpeakActive)}
+        className={`shrink-0 rounded-full p-2 ${
+          isAutoSpeakActive ? "text-green-500" : "opacity-50 hover:opacity-100"
+        }`}
+        aria-label="Speak replies"
+        aria-pressed={isAutoSpeakActive}
+        title={isAutoSpeakActive ? "Replies are spoken" : "Replies are silent"}
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5" />
+          {isAutoSpeakActive ? (
+            <path d="M15.5 8.5a5 5 0 0 1 0 7M19 5a10 10 0 0 1 0 14" />
+          ) : (
+            <path d="M23 9l-6 6M17 9l6 6" />
+          )}
+        </svg>
+      </button>
+
+      <button
+        onClick={send}
+        disabled={!canSend}
+        className="shrink-0 rounded-full p-2 text-white disabled:opacity-40"
+        style={{ backgroundColor: "rgb(var(--primary))" }}
+        aria-label="Send message"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <line x1="12" y1="19" x2="12" y2="5" />
+          <polyline points="5 12 12 5 19 12" />
+        </svg>
+      </button>
+    </div>
+  );
+}
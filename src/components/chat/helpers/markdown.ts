@@ -0,0 +1,40 @@
+//src/components/chat/helpers/markdown.ts
+//
+// Helpers for rendering assistant replies as markdown in chat bubbles (MarkdownMessage).
+// Tables and other GitHub markdown come from remark-gfm and code colors from rehype-highlight;
+// these only read the code text back out of a highlighted block and vet link targets.
+// Used in: MarkdownMessage (chat/MarkdownMessage.tsx)
+
+import type { ExtraProps } from "react-markdown";
+
+type HastNode = NonNullable<ExtraProps["node"]>;
+
+/**
+ * textOf
+ * Plain text of a rendered element, e.g. the code of a block rehype-highlight split into
+ * colored spans.
+ */
+export function textOf(node: HastNode): string {
+  return node.children
+    .map((child) =>
+      child.type === "text"
+        ? child.value
+        : child.type === "element"
+          ? textOf(child)
+          : "",
+    )
+    .join("");
+}
+
+/**
+ * isWebUrl
+ * True for absolute http(s) URLs, the only ones shown as links to web sources.
+ */
+export function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,64 @@
+//src/components/chat/helpers/sentenceSegmenter.ts
+//
+// Incremental sentence splitter for streaming TTS. Fed with the LLM's content deltas, it
+// hands back each sentence as soon as its terminator (and the whitespace after it) has
+// arrived, so speech can start before the reply is finished. Short fragments are merged
+// into the next sentence; the first sentence may be shorter to get audio out quickly.
+// Used in: useStreamingChat (chat/hooks/useStreamingChat.ts)
+
+// Terminal punctuation followed by whitespace, CJK full stops, or line breaks.
+const BOUNDARY_REGEX = /[.!?…]+["'”’)\]]*(?=\s)|[。！？]+|\n+/g;
+
+// Endings that look like a sentence end but usually are not.
+const ABBREVIATION_REGEX =
+  /(?:\b(?:Mr|Mrs|Ms|Dr|Prof|Sr|Jr|St|vs|etc|approx|No|e\.g|i\.e)|\b[A-Z])\.$/;
+
+export type SentenceSegmenter = {
+  push: (delta: string) => string[];
+  flush: () => string[];
+};
+
+export function createSentenceSegmenter({
+  firstMinLength = 12,
+  minLength = 40,
+}: {
+  firstMinLength?: number;
+  minLength?: number;
+} = {}): SentenceSegmenter {
+  let buffer = "";
+  let emitted = 0;
+
+  const takeSentence = (): string | null => {
+    const min = emitted === 0 ? firstMinLength : minLength;
+    BOUNDARY_REGEX.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = BOUNDARY_REGEX.exec(buffer))) {
+      const end = match.index + match[0].length;
+      if (end >= buffer.length) break;
+
+      const sentence = buffer.slice(0, end).trim();
+      if (sentence.length < min || ABBREVIATION_REGEX.test(sentence)) continue;
+
+      buffer = buffer.slice(end);
+      emitted++;
+      return sentence;
+    }
+    return null;
+  };
+
+  return {
+    push(delta) {
+      buffer += delta;
+      const sentences: string[] = [];
+      let sentence: string | null;
+      while ((sentence = takeSentence()) !== null) sentences.push(sentence);
+      return sentences;
+    },
+    flush() {
+      const rest = buffer.trim();
+      buffer = "";
+      return rest ? [rest] : [];
+    },
+  };
+}
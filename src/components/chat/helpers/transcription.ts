@@ -0,0 +1,120 @@
+/*
+  src/components/chat/helpers/transcription.ts
+
+  Summary:
+    Client for /api/transcribe. Uploads a recorded audio blob and reads the server-sent event
+    stream into the full transcript text plus the usage the server reports.
+
+  Imports to:
+    - src/components/bottomBar/hooks/useHandsfree.ts (chat recordings)
+    - src/components/notes/hooks/useDictation.ts (dictated notes)
+
+  Exports:
+    - TranscriptionUsage (type)
+    - transcribeAudio(audio, filename, promptName)
+
+  Exports used by:
+    - src/components/bottomBar/hooks/useHandsfree.ts
+    - src/components/notes/hooks/useDictation.ts
+
+  Nuances:
+    - The stream carries event lines like:
+        data: {"type":"transcript.text.delta","delta":"..."}
+        data: {"usage":{...}}
+        data: [DONE]
+      `done` is true only when [DONE] arrived, so callers can ignore truncated streams.
+    - Throws when the request fails; invalid event lines are skipped.
+    - `promptName` selects the responder whose speech-to-text model, languages and vocabulary
+      the server applies.
+*/
+
+export type TranscriptionUsage = {
+  cost: number;
+  promptChar: number;
+  latencyMs: number;
+  ttfcMs: number;
+};
+
+/**
+ * transcribeAudio
+ *
+ * POSTs the audio as multipart/form-data and concatenates the transcript deltas until [DONE].
+ */
+export async function transcribeAudio(
+  audio: Blob,
+  filename: string,
+  promptName: string,
+): Promise<{ text: string; usage?: TranscriptionUsage; done: boolean }> {
+  const formData = new FormData();
+  formData.append("file", audio, filename);
+  formData.append("promptName", promptName);
+
+  const res = await fetch("/api/transcribe", {
+    method: "POST",
+    body: formData,
+  });
+  if (!res.ok) throw new Error("Transcription failed");
+
+  const reader = res.body?.getReader();
+  if (!reader) throw new Error("No response body");
+
+  const decoder = new TextDecoder();
+  let text = "";
+  let usage: TranscriptionUsage | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const lines = decoder
+      .decode(value)
+      .split("\n")
+      .filter((line) => line.trim());
+
+    for (const line of lines) {
+      if (!line.startsWith("data: ")) continue;
+      const data = line.replace("data: ", "").trim();
+      if (data === "[DONE]") {
+        return { text, usage, done: true };
+      }
+
+      try {
+        const parsed: unknown = JSON.parse(data);
+        if (
+          typeof parsed === "object" &&
+          parsed !== null &&
+          "type" in parsed &&
+          (parsed as { type: string }).type === "transcript.text.delta"
+        ) {
+          text += (parsed as { delta?: string }).delta ?? "";
+        } else if (
+          typeof parsed === "object" &&
+          parsed !== null &&
+          "usage" in parsed &&
+          typeof (parsed as { usage: unknown }).usage === "object" &&
+          (parsed as { usage: object }).usage !== null
+        ) {
+          const u = parsed as {
+            usage: {
+              cost?: number;
+              prompt_char?: number;
+              latency_ms?: number;
+              ttfc_ms?: number;
+            };
+          };
+
+          usage = {
+            cost: u.usage.cost ?? 0,
+            promptChar: u.usage.prompt_char ?? 0,
+            latencyMs: u.usage.latency_ms ?? 0,
+            ttfcMs: u.usage.ttfc_ms ?? 0,
+          };
+        }
+      } catch {
+        // skip invalid JSON
+      }
+    }
+  }
+
+  return { text, usage, done: false };
+}
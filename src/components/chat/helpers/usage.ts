@@ -34,6 +34,9 @@
       audio usage nested under different keys (audioUsage, audio_usage).
     - The function favors values present on top-level fields, then nested
       `usage` objects; this order mirrors the most common server payload shapes.
+    - Estimated usage (`estimated: true`, sent for replies stopped early or when the provider
+      reports none) has no cost; cost stays undefined instead of defaulting to 0, so an
+      estimate is never shown as a free turn.
     - The returned baseUsage contains keys that may be undefined (e.g. totalTokens)
       depending on the source payload; consumers should defensively handle absent values.
 */
@@ -57,6 +60,7 @@ export type RawUsage = {
   prompt_characters?: number;
   char_count?: number;
   latency?: number;
+  estimated?: boolean;
   usage?: RawUsage;
   audioUsage?: RawUsage;
   audio_usage?: RawUsage;
@@ -88,12 +92,16 @@ export function mapUsageData(
   usageData: RawUsage,
   allowAudio = false,
 ): Message["usage"] {
+  const estimated = usageData.estimated ?? usageData.usage?.estimated;
+
   const cost =
     usageData.cost !== undefined
       ? parseFloat(String(usageData.cost))
       : usageData.usage?.cost !== undefined
         ? parseFloat(String(usageData.usage.cost))
-        : 0;
+        : estimated
+          ? undefined
+          : 0;
 
   const latencyMs =
     usageData.latencyMs ??
@@ -143,6 +151,7 @@ export function mapUsageData(
     promptTokens,
     completionTokens,
     promptChar,
+    ...(estimated && { estimated: true }),
   };
 
   if (allowAudio) {
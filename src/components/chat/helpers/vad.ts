@@ -1,70 +1,105 @@
 // src/components/chat/helpers/vad.ts
 
 // Voice Activity Detection (VAD) utility for detecting speech activity.
-// This module starts microphone input, monitors audio levels, and invokes
-// `onStart` when speech is detected and `onStop` after a period of silence.
-// Used in `MicButton` to trigger handsfree recording mode and control speech capture flow.
+// This module starts microphone input, runs the level analysis in an AudioWorklet
+// (public/worklets/vad-processor.js) and invokes `onStart` when speech is detected and
+// `onStop` after a period of silence. Running on the audio thread keeps detection alive in
+// background tabs and with the screen off, where requestAnimationFrame is throttled.
+// Thresholds are relative to a noise floor calibrated over the first `calibrationMs` and then
+// tracked while nobody speaks; start/stop margins give hysteresis and `minSpeechMs` rejects
+// clicks. The last floor is reused when the VAD re-arms so later turns skip calibration.
+// While `isEchoRisk()` reports that our own TTS is playing (barge-in), the start margin is
+// raised by `echoMarginDb` and speech must last `echoMinSpeechMs` before `onStart` fires,
+// so speaker bleed that survives echo cancellation is ignored.
 //################
 
-// Starts VAD by initializing audio stream, setting up analysis loop, and returning a stop function.
-// Called from: components/chat/MicButton.tsx
+export type VADSettings = {
+  // Quiet time (ms) after speech before onStop fires.
+  silenceDuration: number;
+  // dB above the noise floor needed to start speech.
+  startMarginDb: number;
+  // dB above the noise floor that keeps speech going (lower than startMarginDb).
+  stopMarginDb: number;
+  // How long (ms) the level must stay above the start margin before onStart fires.
+  minSpeechMs: number;
+  // Initial noise-floor calibration time (ms).
+  calibrationMs: number;
+};
+
+export const DEFAULT_VAD_SETTINGS: VADSettings = {
+  silenceDuration: 2000,
+  startMarginDb: 12,
+  stopMarginDb: 6,
+  minSpeechMs: 120,
+  calibrationMs: 1000,
+};
+
+const VAD_WORKLET_URL = "/worklets/vad-processor.js";
+
+type VADMessage =
+  | { type: "onset" | "start" | "stop" }
+  | { type: "floor"; value: number };
+
+let lastNoiseFloorDb: number | null = null;
+
+// Starts VAD by initializing the audio stream and worklet, and returns a stop function.
+// Called from: components/bottomBar/hooks/useHandsfree.ts
 export function startVAD({
   onStart,
   onStop,
-  silenceDuration = 2000,
-  volumeThreshold = 10,
+  settings,
+  isEchoRisk,
+  echoMarginDb = 10,
+  echoMinSpeechMs = 250,
 }: {
   onStart: () => void;
   onStop: () => void;
-  silenceDuration?: number;
-  volumeThreshold?: number;
+  settings?: Partial<VADSettings>;
+  isEchoRisk?: () => boolean;
+  echoMarginDb?: number;
+  echoMinSpeechMs?: number;
 }): () => void {
-  let audioContext: AudioContext;
-  let analyser: AnalyserNode;
-  let dataArray: Uint8Array;
-  let source: MediaStreamAudioSourceNode;
-  let stream: MediaStream;
-  let isSpeaking = false;
-  let silenceTimer: number | null = null;
+  let audioContext: AudioContext | null = null;
+  let stream: MediaStream | null = null;
+  let node: AudioWorkletNode | null = null;
   let stopped = false;
-  let rafId: number | null = null;
 
   const stop = () => {
     stopped = true;
-    if (rafId != null) cancelAnimationFrame(rafId);
     try {
-      if (audioContext?.state !== "closed") void audioContext.close();
+      node?.port.postMessage({ type: "stop" });
+      node?.disconnect();
+    } catch {}
+    try {
+      if (audioContext && audioContext.state !== "closed") {
+        void audioContext.close();
+      }
     } catch {}
     try {
       stream?.getTracks().forEach((t) => t.stop());
     } catch {}
-    if (silenceTimer) clearTimeout(silenceTimer);
   };
 
-  const loop = () => {
+  const handleMessage = (event: MessageEvent<VADMessage>) => {
     if (stopped) return;
-    analyser.getByteTimeDomainData(dataArray);
-    const rms = Math.sqrt(
-      dataArray.reduce((sum, val) => sum + Math.pow(val - 128, 2), 0) /
-        dataArray.length,
-    );
-
-    const isLoud = rms > volumeThreshold;
-
-    if (isLoud) {
-      if (!isSpeaking) {
-        isSpeaking = true;
+    const message = event.data;
+    switch (message.type) {
+      case "onset":
+        node?.port.postMessage({
+          type: "echoRisk",
+          value: isEchoRisk?.() ?? false,
+        });
+        break;
+      case "start":
         onStart();
-      }
-      if (silenceTimer) clearTimeout(silenceTimer);
-      silenceTimer = window.setTimeout(() => {
-        if (isSpeaking && !stopped) {
-          isSpeaking = false;
-          onStop();
-        }
-      }, silenceDuration);
+        break;
+      case "stop":
+        onStop();
+        break;
+      case "floor":
+        lastNoiseFloorDb = message.value;
+        break;
     }
-    rafId = requestAnimationFrame(loop);
   };
 
   const init = async () => {
@@ -78,12 +113,26 @@ export function startVAD({
         },
       });
       audioContext = new AudioContext({ latencyHint: "interactive" });
-      analyser = audioContext.createAnalyser();
-      analyser.fftSize = 2048;
-      source = audioContext.createMediaStreamSource(stream);
-      source.connect(analyser);
-      dataArray = new Uint8Array(analyser.fftSize);
-      rafId = requestAnimationFrame(loop);
+      await audioContext.audioWorklet.addModule(VAD_WORKLET_URL);
+      if (stopped) return stop();
+
+      node = new AudioWorkletNode(audioContext, "vad-processor", {
+        processorOptions: {
+          settings: { ...DEFAULT_VAD_SETTINGS, ...settings },
+          echoMarginDb,
+          echoMinSpeechMs,
+          noiseFloorDb: lastNoiseFloorDb,
+        },
+      });
+      node.port.onmessage = handleMessage;
+
+      // The worklet only runs while its output is pulled; route it to a muted sink.
+      const sink = audioContext.createGain();
+      sink.gain.value = 0;
+      audioContext.createMediaStreamSource(stream).connect(node);
+      node.connect(sink).connect(audioContext.destination);
+
+      if (audioContext.state === "suspended") await audioContext.resume();
     } catch (error) {
       console.error("VAD initialization failed:", error);
     }
@@ -0,0 +1,147 @@
+// src/components/chat/hooks/useAudioArchive.ts
+//
+// Summary:
+// useAudioArchive connects the chat to the stored message audio (/api/audio): it uploads the
+// user's recording of a spoken message and replays what was stored for a message — the user's
+// own voice for their messages, the generated speech for replies.
+//
+// Imports to:
+// - src/components/chat/hooks/useChat.ts
+//
+// Exports:
+// - useAudioArchive (named export)
+//
+// Exports used by:
+// - src/components/chat/hooks/useChat.ts (upload after a transcription, "Replay" on bubbles)
+//
+// Nuances:
+// - Storing audio is optional server-side; isEnabled is read once from GET /api/audio and stays
+//   false while storage is off, so the chat shows no replay controls.
+// - Speech for replies is stored by /api/tts while it plays (see useTTSPlayer), not here.
+// - Replay plays the clips one after another through a single HTMLAudioElement, outside the
+//   TTS pipeline, so it neither counts as TTS playback nor re-arms handsfree listening.
+// - Upload failures are logged and otherwise ignored; the message just has no recording.
+
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from "react";
+
+type Clip = {
+  id: string;
+  kind: "user" | "tts";
+  seq: number;
+  span: number;
+  url: string;
+};
+
+/**
+ * useAudioArchive
+ *
+ * Returns:
+ * - isEnabled: whether the server stores message audio
+ * - uploadRecording(messageId, blob): store the recording of a user message
+ * - replayingId: id of the message being replayed, or null
+ * - replayAudio(messageId): play the message's stored audio; resolves to false if it has none
+ * - stopReplay(): stop a running replay
+ */
+export function useAudioArchive() {
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const replayRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    void fetch("/api/audio")
+      .then((res) =>
+        res.ok ? (res.json() as Promise<{ enabled: boolean }>) : null,
+      )
+      .then((data) => {
+        if (!cancelled) setIsEnabled(data?.enabled ?? false);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /**
+   * uploadRecording
+   *
+   * Stores the audio a user message was transcribed from under the message's id.
+   */
+  const uploadRecording = useCallback(
+    async (messageId: string, blob: Blob) => {
+      if (!isEnabled || !blob.size) return;
+      const formData = new FormData();
+      formData.append("file", blob, "recording");
+      formData.append("message_id", messageId);
+      try {
+        const res = await fetch("/api/audio", {
+          method: "POST",
+          body: formData,
+        });
+        if (!res.ok) {
+          console.error("Failed to store recording:", await res.text());
+        }
+      } catch (error) {
+        console.error("Failed to store recording:", error);
+      }
+    },
+    [isEnabled],
+  );
+
+  const stopReplay = useCallback(() => {
+    replayRef.current++;
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setReplayingId(null);
+  }, []);
+
+  /**
+   * replayAudio
+   *
+   * Plays every stored clip of a message in order. Starting a replay stops the previous one.
+   */
+  const replayAudio = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      stopReplay();
+      const run = replayRef.current;
+
+      let clips: Clip[] = [];
+      try {
+        const res = await fetch(
+          `/api/audio?message_id=${encodeURIComponent(messageId)}`,
+        );
+        if (res.ok) clips = ((await res.json()) as { clips: Clip[] }).clips;
+      } catch (error) {
+        console.error("Failed to load stored audio:", error);
+      }
+      if (!clips.length || run !== replayRef.current) return false;
+
+      setReplayingId(messageId);
+      for (const clip of clips) {
+        const audio = new Audio(clip.url);
+        audioRef.current = audio;
+        const played = await new Promise<boolean>((resolve) => {
+          audio.onended = () => resolve(true);
+          // Also fires right before "ended"; only an interruption leaves `ended` false.
+          audio.onpause = () => resolve(audio.ended);
+          audio.onerror = () => resolve(false);
+          audio.play().catch(() => resolve(false));
+        });
+        if (!played || run !== replayRef.current) break;
+      }
+      if (run === replayRef.current) {
+        audioRef.current = null;
+        setReplayingId(null);
+      }
+      return true;
+    },
+    [stopReplay],
+  );
+
+  useEffect(() => stopReplay, [stopReplay]);
+
+  return { isEnabled, uploadRecording, replayingId, replayAudio, stopReplay };
+}
@@ -8,6 +8,8 @@
 // - useStreamingChat (streaming chat responses)
 // - useMemory (memory persistence and re-remember)
 // - saveTranscript (transcript naming and saving)
+// - useDraft (autosaved draft of the conversation on screen)
+// - useAudioArchive (stored recordings and speech, replay)
 // The hook exposes state and handler functions consumed by UI components such as ChatPage.
 //
 // Imports to:
@@ -24,29 +26,74 @@
 //   (localStorage, Audio, DOM events). Keep heavy logic in the specialized hooks.
 // - Per project policy, do not add try/catch blocks here; let errors propagate.
 // - Comments are targeted at explaining responsibilities; avoid trivial inline notes.
+// - In handsfree mode replies are spoken sentence by sentence while they stream (speakRef ->
+//   beginTTSStream); those ids are remembered so the post-stream autoplay effect skips them.
+// - Typed messages (handleSendText) take the same path as transcriptions. Their replies are
+//   spoken while streaming when handsfree is on or when "speak replies" (isAutoSpeakActive,
+//   persisted in localStorage) is enabled for typed input.
+// - handleStopGeneration aborts the reply stream (the server cancels the upstream request)
+//   and silences its speech; in handsfree mode it then re-arms listening via "tts-oncomplete".
+// - The active thread is read through a ref when sending a turn so the transcription
+//   callback handed to useHandsfree stays stable across message updates.
+// - `messages` state holds the whole message tree (see src/lib/utils/messageTree.ts);
+//   the hook returns the active thread as `messages`. Editing a user message or regenerating
+//   a reply adds a sibling branch and clears the fork's selection so the new branch (the
+//   newest child) is shown; handleSelectBranch switches between siblings.
+// - Every finished reply (including a stopped one) autosaves the whole tree as the session's
+//   draft. On an empty chat the latest draft is offered as `resumableDraft`; handleResumeDraft
+//   loads it and keeps autosaving into it. Reloading a transcript starts a new draft named
+//   after the transcript.
+// - The chat remembers the id of the transcript it was saved as or reloaded from
+//   (currentTranscriptId) and the version it has seen; saving updates that transcript (a new
+//   version) unless the user picks "Save as new", and resolves "conflict" when the transcript
+//   was changed elsewhere since.
+// - removeMessage takes a message out of the tree into deletedMessages (position and replies
+//   kept, see DeletedMessage). They are saved and autosaved with the conversation, flagged
+//   deletedAt, so a deletion survives a reload and can be restored from the trash on the
+//   transcripts page; undoRemoveMessage puts the last one back right away (the toast's Undo).
+// - When the server stores message audio, a transcribed message's id is generated here so its
+//   recording can be uploaded under that id while the reply streams; handleReplayAudio plays
+//   what was stored for a message (isAudioArchiveEnabled gates the control).
 
 "use client";
 
 import { useSession } from "next-auth/react";
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { useHandsfree } from "../../bottomBar/hooks/useHandsfree";
 import { useStreamingChat } from "./useStreamingChat";
 import { useMemory } from "../../bottomBar/hooks/useMemory";
 import { saveTranscript } from "~/components/transcripts/hooks/saveTranscript";
-import type { Message } from "../../../types/message";
+import { useDraft } from "~/components/transcripts/hooks/useDraft";
+import { useAudioArchive } from "./useAudioArchive";
+import type { Draft } from "~/components/transcripts/hooks/useDraft";
+import { toChatMessages } from "~/components/transcripts/helpers/restore";
+import type { DeletedMessage, Message } from "../../../types/message";
+import type { TTSStream } from "./useTTSPlayer";
 import { mapUsageData } from "../helpers/usage";
 import type { RawUsage } from "../helpers/usage";
+import {
+  branchKey,
+  clearSelection,
+  getActivePath,
+  getPathTo,
+  getSiblings,
+  linkMessages,
+  removeNode,
+  restoreNode,
+  selectionFromPath,
+} from "~/lib/utils/messageTree";
+import type { BranchSelection } from "~/lib/utils/messageTree";
 
 /**
  * useChat
  *
  * Orchestrates chat state and behavior and returns the values/handlers
  * required by presentation components:
- * - messages and setters
+ * - messages (the active thread) and setters, plus branch navigation for edits/regenerations
  * - handsfree audio controls (record/play)
  * - streaming chat state and streaming message id
  * - memory state and helpers
- * - transcript naming and save handler
+ * - transcript naming and save handler, draft autosave and resume
  *
  * Keep this hook focused on composition and coordination; delegate specific
  * side-effect logic to the underlying hooks (useHandsfree, useStreamingChat, useMemory).
@@ -56,13 +103,42 @@ export function useChat() {
   const userId = session?.user?.id;
 
   const [messages, setMessages] = useState<Message[]>([]);
+  const [branchSelection, setBranchSelection] = useState<BranchSelection>({});
+  const [deletedMessages, setDeletedMessages] = useState<DeletedMessage[]>([]);
+  // Branch selection before the last deletion, restored by undoRemoveMessage.
+  const removedSelectionRef = useRef<BranchSelection | null>(null);
+  // Deleted messages as of the last autosave.
+  const autosavedDeletionsRef = useRef(deletedMessages);
+  const thread = useMemo(
+    () => getActivePath(messages, branchSelection),
+    [messages, branchSelection],
+  );
+  const threadRef = useRef<Message[]>(thread);
+  threadRef.current = thread;
+  const speakRef = useRef<
+    ((assistantId: string, typed?: boolean) => TTSStream | null) | null
+  >(null);
+  const streamedTTSIdsRef = useRef(new Set<string>());
   const [selectedPrompt, setSelectedPrompt] = useState("General");
+  const [voiceLanguages, setVoiceLanguages] = useState<string[]>([]);
   const [responderSettings, setResponderSettings] = useState<{
     prompt: string;
     short_mem: number;
     long_mem: number;
     mem_expire: number;
   } | null>(null);
+  const [isAutoSpeakActive, setIsAutoSpeakActive] = useState(false);
+
+  useEffect(() => {
+    const stored = localStorage.getItem("isAutoSpeakActive");
+    if (stored !== null) setIsAutoSpeakActive(stored === "true");
+  }, []);
+
+  const updateAutoSpeak = useCallback((active: boolean) => {
+    setIsAutoSpeakActive(active);
+    localStorage.setItem("isAutoSpeakActive", active.toString());
+  }, []);
+
   const [webSearchOptions, setWebSearchOptions] = useState<{
     search_context_size: "low" | "medium" | "high";
   } | null>(null);
@@ -70,6 +146,11 @@ export function useChat() {
   const streaming = useStreamingChat();
   const memory = useMemory();
   const transcript = saveTranscript();
+  const draft = useDraft();
+  const audioArchive = useAudioArchive();
+  const { uploadRecording } = audioArchive;
+  const [resumableDraft, setResumableDraft] = useState<Draft | null>(null);
+  const wasStreamingRef = useRef(false);
 
   const updateMessageUsage = useCallback((id: string, usage: RawUsage) => {
     setMessages((prev) =>
@@ -80,7 +161,9 @@ export function useChat() {
   }, []);
 
   const wrappedHandleNewTranscription = useCallback(
-    (text: string, usage?: Message["usage"]) => {
+    (text: string, usage?: Message["usage"], audio?: Blob) => {
+      const userMessageId = crypto.randomUUID();
+      if (audio) void uploadRecording(userMessageId, audio);
       void (async () => {
         await streaming.handleNewTranscription(
           text,
@@ -89,12 +172,49 @@ export function useChat() {
           webSearchOptions,
           memory.isMemoryActive,
           responderSettings,
+          threadRef.current,
           setMessages,
           updateMessageUsage,
           usage,
+          (assistantId) => speakRef.current?.(assistantId) ?? null,
+          userMessageId,
         );
       })();
     },
+    [
+      userId,
+      selectedPrompt,
+      webSearchOptions,
+      responderSettings,
+      updateMessageUsage,
+      uploadRecording,
+      streaming,
+      memory,
+    ],
+  );
+
+  /**
+   * handleSendText
+   *
+   * Sends a typed message through the same path as a transcription. The reply is spoken
+   * when handsfree or "speak replies" is on.
+   */
+  const handleSendText = useCallback(
+    (text: string) => {
+      void streaming.handleNewTranscription(
+        text,
+        userId,
+        selectedPrompt,
+        webSearchOptions,
+        memory.isMemoryActive,
+        responderSettings,
+        threadRef.current,
+        setMessages,
+        updateMessageUsage,
+        undefined,
+        (assistantId) => speakRef.current?.(assistantId, true) ?? null,
+      );
+    },
     [
       userId,
       selectedPrompt,
@@ -108,23 +228,62 @@ export function useChat() {
 
   const handsfree = useHandsfree({
     onNewTranscription: wrappedHandleNewTranscription,
+    onBargeIn: streaming.stopStreaming,
+    promptName: selectedPrompt,
+    voiceLanguages,
   });
 
   const ttsStartedRef = handsfree.ttsStartedRef;
 
+  speakRef.current = (assistantId, typed = false) => {
+    const isHandsfree = handsfree.isHandsfreeActive;
+    if (!isHandsfree && !(typed && isAutoSpeakActive)) return null;
+    streamedTTSIdsRef.current.add(assistantId);
+
+    const stream = handsfree.beginTTSStream(
+      assistantId,
+      isHandsfree,
+      isHandsfree
+        ? () => {
+            window.dispatchEvent(new Event("tts-oncomplete"));
+          }
+        : undefined,
+    );
+
+    return {
+      push: stream.push,
+      end: async () => {
+        const usage = await stream.end();
+        if (usage) {
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantId
+                ? {
+                    ...msg,
+                    usage: {
+                      ...(msg.usage ?? {}),
+                      audioUsage: usage.audioUsage,
+                    },
+                  }
+                : msg,
+            ),
+          );
+        }
+        return usage;
+      },
+    };
+  };
+
   useEffect(() => {
     if (!handsfree.isHandsfreeActive) return;
     if (streaming.isStreaming) return;
 
-    const lastAssistantMsg = [...messages]
+    const lastAssistantMsg = [...thread]
       .reverse()
-      .find(
-        (m) =>
-          m.type === "assistant" &&
-          m.text &&
-          m.id !== handsfree.currentPlayingId,
-      );
+      .find((m) => m.type === "assistant" && m.text);
     if (!lastAssistantMsg) return;
+    if (lastAssistantMsg.id === handsfree.currentPlayingId) return;
+    if (streamedTTSIdsRef.current.has(lastAssistantMsg.id)) return;
 
     if (ttsStartedRef.current) return;
 
@@ -165,7 +324,7 @@ export function useChat() {
     handsfree.isHandsfreeActive,
     handsfree.currentPlayingId,
     streaming.isStreaming,
-    messages,
+    thread,
     ttsStartedRef,
   ]);
 
@@ -179,6 +338,71 @@ export function useChat() {
     handsfree.ttsStartedRef,
   ]);
 
+  /**
+   * Autosaves the conversation once a reply has finished streaming (or was stopped).
+   */
+  useEffect(() => {
+    if (streaming.isStreaming) {
+      wasStreamingRef.current = true;
+      return;
+    }
+    if (!wasStreamingRef.current) return;
+    wasStreamingRef.current = false;
+    autosavedDeletionsRef.current = deletedMessages;
+    void draft.autosaveDraft(messages, thread, {
+      responder: selectedPrompt,
+      title: transcript.currentTranscriptName,
+      transcriptId: transcript.currentTranscriptId,
+      deleted: deletedMessages,
+    });
+  }, [
+    streaming.isStreaming,
+    messages,
+    thread,
+    deletedMessages,
+    selectedPrompt,
+    transcript.currentTranscriptName,
+    transcript.currentTranscriptId,
+    draft,
+  ]);
+
+  /**
+   * Autosaves after a message was deleted or put back, so the draft keeps the deletion.
+   */
+  useEffect(() => {
+    if (
+      streaming.isStreaming ||
+      autosavedDeletionsRef.current === deletedMessages
+    ) {
+      return;
+    }
+    autosavedDeletionsRef.current = deletedMessages;
+    void draft.autosaveDraft(messages, thread, {
+      responder: selectedPrompt,
+      title: transcript.currentTranscriptName,
+      transcriptId: transcript.currentTranscriptId,
+      deleted: deletedMessages,
+    });
+  }, [
+    streaming.isStreaming,
+    messages,
+    thread,
+    deletedMessages,
+    selectedPrompt,
+    transcript.currentTranscriptName,
+    transcript.currentTranscriptId,
+    draft,
+  ]);
+
+  /**
+   * Looks up the latest draft once signed in, unless a transcript is about to be restored.
+   */
+  const { fetchLatestDraft } = draft;
+  useEffect(() => {
+    if (!userId || localStorage.getItem("transcript_restore")) return;
+    void fetchLatestDraft().then(setResumableDraft);
+  }, [userId, fetchLatestDraft]);
+
   useEffect(() => {
     if (typeof window === "undefined") return;
 
@@ -188,18 +412,37 @@ export function useChat() {
     try {
       const parsed = JSON.parse(saved) as {
         messages?: Message[];
+        activeIds?: string[];
+        deleted?: DeletedMessage[];
+        id?: string;
         title?: string;
+        version?: number;
         remember?: boolean;
       };
+      let restoredThread: Message[] = [];
       if (parsed.messages && Array.isArray(parsed.messages)) {
-        setMessages(parsed.messages);
+        const restored = linkMessages(parsed.messages);
+        const activeIds = parsed.activeIds;
+        const selection = activeIds
+          ? selectionFromPath(restored.filter((m) => activeIds.includes(m.id)))
+          : {};
+        setMessages(restored);
+        setBranchSelection(selection);
+        restoredThread = getActivePath(restored, selection);
+        setDeletedMessages(parsed.deleted ?? []);
+        autosavedDeletionsRef.current = parsed.deleted ?? [];
       }
       if (parsed.title && transcript.setCurrentTranscriptName) {
         transcript.setCurrentTranscriptName(parsed.title);
       }
+      transcript.setCurrentTranscriptId(parsed.id ?? "");
+      transcript.setCurrentTranscriptVersion(parsed.version);
+      draft.startNewDraft();
+      setResumableDraft(null);
       if (parsed.remember && memory.handleMemoryReRemember && parsed.messages) {
         void memory.handleMemoryReRemember(
-          parsed.messages,
+          restoredThread,
+          selectedPrompt,
           responderSettings,
           userId,
         );
@@ -211,23 +454,256 @@ export function useChat() {
     localStorage.removeItem("transcript_restore");
   }, [
     memory.handleMemoryReRemember,
+    selectedPrompt,
     responderSettings,
     transcript.setCurrentTranscriptName,
     userId,
     memory,
     transcript,
+    draft,
   ]);
 
+  /**
+   * handleResumeDraft
+   *
+   * Loads the offered draft into the chat with the branch that was on screen, and keeps
+   * autosaving into that draft.
+   */
+  const handleResumeDraft = useCallback(() => {
+    if (!resumableDraft?.messages) return;
+    const restored = toChatMessages(resumableDraft.messages);
+    const linked = linkMessages(restored.messages);
+    const selection = selectionFromPath(
+      linked.filter((m) => restored.activeIds.includes(m.id)),
+    );
+    setMessages(linked);
+    setBranchSelection(selection);
+    setDeletedMessages(restored.deleted);
+    autosavedDeletionsRef.current = restored.deleted;
+    draft.resumeDraft(resumableDraft);
+    if (resumableDraft.transcript_id) {
+      transcript.setCurrentTranscriptId(resumableDraft.transcript_id);
+      transcript.setCurrentTranscriptName(resumableDraft.title);
+      transcript.setCurrentTranscriptVersion(undefined);
+    }
+    setResumableDraft(null);
+  }, [resumableDraft, draft, transcript]);
+
+  const dismissDraft = useCallback(() => setResumableDraft(null), []);
+
+  /**
+   * handleEditMessage
+   *
+   * Re-sends an edited user message (typed or transcribed) as a new branch next to the
+   * original and streams a fresh reply; the original and its replies stay reachable.
+   */
+  const handleEditMessage = useCallback(
+    (messageId: string, text: string) => {
+      const original = messages.find((m) => m.id === messageId);
+      if (!original || original.type !== "user" || !text.trim()) return;
+
+      setBranchSelection((prev) =>
+        clearSelection(prev, branchKey(original.parentId)),
+      );
+      void streaming.handleNewTranscription(
+        text.trim(),
+        userId,
+        selectedPrompt,
+        webSearchOptions,
+        memory.isMemoryActive,
+        responderSettings,
+        getPathTo(messages, original.parentId),
+        setMessages,
+        updateMessageUsage,
+        undefined,
+        (assistantId) => speakRef.current?.(assistantId, true) ?? null,
+      );
+    },
+    [
+      messages,
+      userId,
+      selectedPrompt,
+      webSearchOptions,
+      responderSettings,
+      updateMessageUsage,
+      streaming,
+      memory,
+    ],
+  );
+
+  /**
+   * handleRegenerate
+   *
+   * Generates another reply to the user message an assistant message answers, as a sibling
+   * branch. `responderName` picks a different responder for this reply only; memory
+   * settings stay those of the selected responder.
+   */
+  const handleRegenerate = useCallback(
+    (assistantId: string, responderName?: string) => {
+      const reply = messages.find((m) => m.id === assistantId);
+      const userMessage = messages.find((m) => m.id === reply?.parentId);
+      if (!reply || userMessage?.type !== "user") return;
+
+      setBranchSelection((prev) => clearSelection(prev, userMessage.id));
+      void streaming.handleRegenerate(
+        userMessage,
+        userId,
+        responderName ?? selectedPrompt,
+        webSearchOptions,
+        memory.isMemoryActive,
+        responderSettings,
+        getPathTo(messages, userMessage.parentId),
+        setMessages,
+        updateMessageUsage,
+        (id) => speakRef.current?.(id, true) ?? null,
+      );
+    },
+    [
+      messages,
+      userId,
+      selectedPrompt,
+      webSearchOptions,
+      responderSettings,
+      updateMessageUsage,
+      streaming,
+      memory,
+    ],
+  );
+
+  /**
+   * handleSelectBranch
+   *
+   * Shows the previous (-1) or next (+1) alternative of a message; the thread below it
+   * follows that alternative's own selected branch.
+   */
+  const handleSelectBranch = useCallback(
+    (messageId: string, offset: -1 | 1) => {
+      const message = messages.find((m) => m.id === messageId);
+      if (!message) return;
+      const siblings = getSiblings(messages, message);
+      const next = siblings[siblings.indexOf(message) + offset];
+      if (!next) return;
+      setBranchSelection((prev) => ({
+        ...prev,
+        [branchKey(message.parentId)]: next.id,
+      }));
+    },
+    [messages],
+  );
+
+  const branchInfo = useMemo(() => {
+    const info: Record<string, { index: number; count: number }> = {};
+    for (const message of thread) {
+      const siblings = getSiblings(messages, message);
+      info[message.id] = {
+        index: siblings.indexOf(message),
+        count: siblings.length,
+      };
+    }
+    return info;
+  }, [messages, thread]);
+
+  /**
+   * removeMessage
+   *
+   * Drops a message from the tree. Its replies move up to its parent; if it was the selected
+   * branch, its first reply takes its place in the thread. The message is kept in
+   * deletedMessages, so it is saved as deleted and the last deletion can be undone
+   * (undoRemoveMessage).
+   */
+  const removeMessage = useCallback(
+    (messageId: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      const message = messages[index];
+      if (!message) return;
+      const key = branchKey(message.parentId);
+      const children = messages.filter((m) => m.parentId === messageId);
+      const firstChild = children[0];
+      removedSelectionRef.current = branchSelection;
+      setDeletedMessages((prev) => [
+        ...prev,
+        {
+          message,
+          index,
+          childIds: children.map((m) => m.id),
+          deletedAt: new Date().toISOString(),
+        },
+      ]);
+      setBranchSelection((prev) => {
+        const next = clearSelection(prev, messageId);
+        if (next[key] !== messageId) return next;
+        return firstChild
+          ? { ...next, [key]: firstChild.id }
+          : clearSelection(next, key);
+      });
+      setMessages((prev) => removeNode(prev, messageId));
+    },
+    [messages, branchSelection],
+  );
+
+  /**
+   * undoRemoveMessage
+   *
+   * Puts the last removed message back where it was, with the branches that were selected at
+   * the time. Only the latest deletion can be undone here; older ones are restored from the
+   * trash once saved. Returns false when there is nothing to undo.
+   */
+  const undoRemoveMessage = useCallback(() => {
+    const selection = removedSelectionRef.current;
+    const removed = deletedMessages.at(-1);
+    if (!selection || !removed) return false;
+    removedSelectionRef.current = null;
+    setDeletedMessages((prev) => prev.slice(0, -1));
+    setMessages((prev) =>
+      restoreNode(prev, removed.message, removed.index, removed.childIds),
+    );
+    setBranchSelection(selection);
+    return true;
+  }, [deletedMessages]);
+
+  /**
+   * handleStopGeneration
+   *
+   * Stop control for a reply in progress: keeps the partial text, stops its speech and hands
+   * the turn back to the user.
+   */
+  const handleStopGeneration = useCallback(() => {
+    streaming.stopStreaming();
+    handsfree.handleStopTTS();
+    if (handsfree.isHandsfreeActive) {
+      window.dispatchEvent(new Event("tts-oncomplete"));
+    }
+  }, [streaming, handsfree]);
+
   const wrappedHandleMemoryClear = useCallback(async () => {
     await memory.handleMemoryClear(selectedPrompt, responderSettings, userId);
   }, [selectedPrompt, responderSettings, userId, memory]);
 
   const wrappedHandleMemoryReRemember = useCallback(async () => {
-    await memory.handleMemoryReRemember(messages, responderSettings, userId);
-  }, [messages, responderSettings, userId, memory]);
+    await memory.handleMemoryReRemember(
+      thread,
+      selectedPrompt,
+      responderSettings,
+      userId,
+    );
+  }, [thread, selectedPrompt, responderSettings, userId, memory]);
+
+  const wrappedHandleSaveTranscript = useCallback(
+    (title: string, asNew = false) =>
+      transcript.handleSaveTranscript(
+        title,
+        messages,
+        thread,
+        selectedPrompt,
+        asNew,
+        deletedMessages,
+      ),
+    [messages, thread, deletedMessages, selectedPrompt, transcript],
+  );
 
   return {
-    messages,
+    messages: thread,
+    branchInfo,
     audioRef: handsfree.audioRef,
     isRecording: handsfree.isRecording,
     isVADActive: handsfree.isVADActive,
@@ -240,28 +716,51 @@ export function useChat() {
     webSearchOptions,
     isMemoryActive: memory.isMemoryActive,
     isHandsfreeActive: handsfree.isHandsfreeActive,
+    isBargeInActive: handsfree.isBargeInActive,
+    vadSettings: handsfree.vadSettings,
+    isAutoSpeakActive,
     memoryStatus: memory.memoryStatus,
     memoryProgress: memory.memoryProgress,
     memoryTotal: memory.memoryTotal,
     toastVisible: transcript.toastVisible,
     currentTranscriptName: transcript.currentTranscriptName,
+    currentTranscriptId: transcript.currentTranscriptId,
+    draftTitle: draft.draftTitle,
+    resumableDraft,
+    isAudioArchiveEnabled: audioArchive.isEnabled,
+    replayingAudioId: audioArchive.replayingId,
 
     setMessages,
     setSelectedPrompt,
+    setVoiceLanguages,
     setResponderSettings,
     setWebSearchOptions,
     setIsHandsfreeActive: handsfree.setIsHandsfreeActive,
+    setIsBargeInActive: handsfree.setIsBargeInActive,
+    setVadSettings: handsfree.setVadSettings,
+    setIsAutoSpeakActive: updateAutoSpeak,
     setIsMemoryActive: memory.setIsMemoryActive,
     setMemoryStatus: memory.setMemoryStatus,
     setCurrentTranscriptName: transcript.setCurrentTranscriptName,
 
     handleNewTranscription: wrappedHandleNewTranscription,
+    handleSendText,
+    handleStopGeneration,
+    handleEditMessage,
+    handleRegenerate,
+    handleSelectBranch,
+    removeMessage,
+    undoRemoveMessage,
     handlePlayTTS: handsfree.handlePlayTTS,
     handleStopTTS: handsfree.handleStopTTS,
+    handleReplayAudio: audioArchive.replayAudio,
+    handleStopReplay: audioArchive.stopReplay,
     startManualRecording: handsfree.startManualRecording,
     stopManualRecording: handsfree.stopManualRecording,
     handleMemoryClear: wrappedHandleMemoryClear,
     handleMemoryReRemember: wrappedHandleMemoryReRemember,
-    handleSaveTranscript: transcript.handleSaveTranscript,
+    handleSaveTranscript: wrappedHandleSaveTranscript,
+    handleResumeDraft,
+    dismissDraft,
   };
 }
@@ -3,11 +3,15 @@ src/components/chat/hooks/useStreamingChat.ts
 
 Summary:
   React hook that encapsulates chat streaming behavior:
-    - Creates user and assistant message placeholders in local state.
-    - Sends transcription text to the backend (/api/chat) using a POST expecting
-      a Server-Sent Events (SSE) text/event-stream response.
+    - Creates user and assistant message placeholders in local state, linked into the message
+      tree (parentId); handleRegenerate adds another reply to an existing user message.
+    - Sends transcription text plus the prior conversation turns to the backend (/api/chat)
+      using a POST expecting a Server-Sent Events (SSE) text/event-stream response.
     - Streams assistant content into the assistant message in real-time.
+    - Optionally splits the streamed content into sentences (createSentenceSegmenter) and hands
+      each completed sentence to a TTS stream so playback starts before the reply is finished.
     - Collects usage payloads from the stream and forwards them through mapUsageData.
+    - Collects url_citation annotations (sent with internet search) into the reply's citations.
     - Exposes streaming state and the current streaming assistant message id.
 
 Imports to:
@@ -16,7 +20,7 @@ Imports to:
   - ../../chat/hooks/useChat (consumer)
 
 Exports:
-  - useStreamingChat
+  - useStreamingChat (handleNewTranscription, handleRegenerate, stopStreaming, state)
 
 Exports used by:
   - src/components/chat/hooks/useChat.ts
@@ -26,15 +30,28 @@ Nuances:
   - The hook looks for "[DONE]" sentinel and for usage objects emitted separately in the stream.
   - It uses TextDecoder + ReadableStream.getReader() to process chunks; behavior depends on response.body availability.
   - Errors during stream parsing log to console but do not throw; an overall request failure will set the assistant message to an error string.
+  - stopStreaming aborts the request (stop button and handsfree barge-in); an aborted reply keeps
+    its partial text. The server cancels the upstream request in turn, so no final usage event
+    arrives; the message gets an estimated usage instead: the prompt tokens the server estimated
+    for the window it sent (usage_estimate, the first stream event) plus completion tokens
+    ≈ characters / 4. It is flagged `estimated` and has no cost, since pricing is only known
+    upstream.
   - The hook relies on crypto.randomUUID() for message ids; ensure environment supports it.
+  - The prior turns of the message's branch are sent (the caller passes them as history);
+    the server trims them to the responder's context budget and skips them entirely when
+    memory is active.
+  - Citations are de-duplicated by URL and kept in order of first appearance, which is the
+    numbering the chat bubble shows.
 
 */
 "use client";
 
-import { useState, useCallback } from "react";
-import type { Message } from "../../../types/message";
+import { useState, useCallback, useRef } from "react";
+import type { Citation, Message } from "../../../types/message";
 import { mapUsageData } from "../../chat/helpers/usage";
 import type { RawUsage } from "../../chat/helpers/usage";
+import { createSentenceSegmenter } from "../helpers/sentenceSegmenter";
+import type { TTSStream } from "./useTTSPlayer";
 
 type WebSearchOptions = {
   search_context_size: "low" | "medium" | "high";
@@ -47,9 +64,20 @@ type ResponderSettings = {
   mem_expire: number;
 };
 
+const CHARS_PER_TOKEN = 4;
+
 type ChatStreamData = {
-  choices?: { delta?: { content?: string } }[];
+  choices?: {
+    delta?: {
+      content?: string;
+      annotations?: {
+        type?: string;
+        url_citation?: { url?: string; title?: string };
+      }[];
+    };
+  }[];
   usage?: RawUsage;
+  usage_estimate?: { prompt_tokens?: number };
 };
 
 export function useStreamingChat() {
@@ -57,52 +85,46 @@ export function useStreamingChat() {
   const [streamingMessageId, setStreamingMessageId] = useState<string | null>(
     null,
   );
+  const abortRef = useRef<AbortController | null>(null);
 
   /**
-   * Handle a new transcription by:
-   *  - Appending a user message to local messages.
-   *  - Creating an assistant placeholder message and streaming assistant tokens into it.
-   *  - Posting to /api/chat with optional web_search_options and memory settings.
-   *  - Parsing the SSE-style response (`data: ...`) and updating the assistant message text
+   * Stream a new assistant reply to an existing user message:
+   *  - Creates an assistant placeholder attached to userMessage (a new branch when the user
+   *    message already has replies) and streams assistant tokens into it.
+   *  - Posts userMessage.text to /api/chat with optional web_search_options and memory settings.
+   *  - Parses the SSE-style response (`data: ...`) and updates the assistant message text
    *    as content deltas arrive.
-   *  - Collecting a usage object emitted in the stream and forwarding it to updateMessageUsage
+   *  - Collects a usage object emitted in the stream and forwards it to updateMessageUsage
    *    (mapped with mapUsageData).
    *
    * Parameters:
-   *  - text: the transcribed user text to send to the backend.
+   *  - userMessage: the user turn being answered (already in the message list).
    *  - userId: optional id of the current user (used by backend features that require auth).
-   *  - selectedPrompt: responder/prompt name to select server-side behavior.
+   *  - selectedPrompt: responder/prompt name to select server-side behavior; recorded on the
+   *    assistant message.
    *  - webSearchOptions: optional web search configuration to include with the request.
    *  - isMemoryActive: whether memory should be enabled for this request.
    *  - responderSettings: responder memory params used when memory is active.
+   *  - history: messages before userMessage on its branch, sent as prior turns.
    *  - setMessages: state setter for the messages array (appends/updates messages).
    *  - updateMessageUsage: callback to update usage for a message id once usage data is available.
-   *  - usage: optional precomputed usage for the user message (e.g., audio usage).
+   *  - speak: optional factory returning a TTS stream for the assistant message; when it
+   *    returns a stream, completed sentences are pushed to it while the reply streams in and
+   *    end() is called once the reply finishes (or is aborted).
    */
-  const handleNewTranscription = useCallback(
+  const handleRegenerate = useCallback(
     async (
-      text: string,
+      userMessage: Message,
       userId: string | undefined,
       selectedPrompt: string,
       webSearchOptions: WebSearchOptions | null,
       isMemoryActive: boolean,
       responderSettings: ResponderSettings | null,
+      history: Message[],
       setMessages: React.Dispatch<React.SetStateAction<Message[]>>,
       updateMessageUsage: (messageId: string, usage: RawUsage) => void,
-      usage?: Message["usage"],
+      speak?: (assistantId: string) => TTSStream | null,
     ) => {
-      const userMessageId = crypto.randomUUID();
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: userMessageId,
-          type: "user",
-          text,
-          createdAt: new Date(),
-          ...(usage ? { usage } : {}),
-        },
-      ]);
-
       setIsStreaming(true);
       const assistantId = crypto.randomUUID();
       setStreamingMessageId(assistantId);
@@ -112,19 +134,35 @@ export function useStreamingChat() {
           id: assistantId,
           type: "assistant",
           text: "",
+          parentId: userMessage.id,
+          responder: selectedPrompt,
           createdAt: new Date(),
         },
       ]);
 
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      const tts = speak?.(assistantId) ?? null;
+      const segmenter = tts ? createSentenceSegmenter() : null;
+      const startedAt = performance.now();
+      let firstChunkAt: number | null = null;
+      let generated = "";
+      let promptTokens: number | undefined;
+
       try {
         const response = await fetch("/api/chat", {
           method: "POST",
+          signal: controller.signal,
           headers: {
             "Content-Type": "application/json",
             Accept: "text/event-stream",
           },
           body: JSON.stringify({
-            text,
+            text: userMessage.text,
+            history: history
+              .filter((m) => m.text.trim())
+              .map((m) => ({ role: m.type, content: m.text })),
             promptName: selectedPrompt,
             ...(webSearchOptions && { web_search_options: webSearchOptions }),
             ...(isMemoryActive && {
@@ -152,15 +190,7 @@ export function useStreamingChat() {
 
             for (const line of lines) {
               if (!line.startsWith("data: ")) continue;
-              if (line.includes("[DONE]")) {
-                if (usageData) {
-                  updateMessageUsage(
-                    assistantId,
-                    mapUsageData(usageData, false) as RawUsage,
-                  );
-                }
-                continue;
-              }
+              if (line.includes("[DONE]")) continue;
 
               const jsonStr = line.replace(/^data:\s*/i, "").trim();
               if (!jsonStr) continue;
@@ -168,8 +198,42 @@ export function useStreamingChat() {
               try {
                 const data = JSON.parse(jsonStr) as ChatStreamData;
 
-                const content = data.choices?.[0]?.delta?.content;
+                const delta = data.choices?.[0]?.delta;
+                const citations = (delta?.annotations ?? []).flatMap(
+                  (a): Citation[] =>
+                    a.type === "url_citation" && a.url_citation?.url
+                      ? [
+                          {
+                            url: a.url_citation.url,
+                            ...(a.url_citation.title && {
+                              title: a.url_citation.title,
+                            }),
+                          },
+                        ]
+                      : [],
+                );
+                if (citations.length) {
+                  setMessages((prev) =>
+                    prev.map((msg) => {
+                      if (msg.id !== assistantId) return msg;
+                      const known = msg.citations ?? [];
+                      const added = citations.filter(
+                        (c, i) =>
+                          !known.some((k) => k.url === c.url) &&
+                          citations.findIndex((o) => o.url === c.url) === i,
+                      );
+                      return added.length
+                        ? { ...msg, citations: [...known, ...added] }
+                        : msg;
+                    }),
+                  );
+                }
+
+                const content = delta?.content;
                 if (content) {
+                  firstChunkAt ??= performance.now();
+                  generated += content;
+                  segmenter?.push(content).forEach((s) => tts?.push(s));
                   setMessages((prev) =>
                     prev.map((msg) =>
                       msg.id === assistantId
@@ -179,6 +243,8 @@ export function useStreamingChat() {
                   );
                 } else if (data.usage) {
                   usageData = data.usage;
+                } else if (data.usage_estimate?.prompt_tokens !== undefined) {
+                  promptTokens = data.usage_estimate.prompt_tokens;
                 }
               } catch (e) {
                 console.error("Malformed JSON in stream:", jsonStr, e);
@@ -186,15 +252,46 @@ export function useStreamingChat() {
             }
           }
         }
+        // The server sends the final usage after [DONE] (upstream or its own estimate).
+        if (usageData) {
+          updateMessageUsage(
+            assistantId,
+            mapUsageData(usageData, false) as RawUsage,
+          );
+        }
       } catch {
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === assistantId
-              ? { ...msg, text: "Error getting response" }
-              : msg,
-          ),
-        );
+        if (controller.signal.aborted) {
+          const completionTokens = Math.ceil(
+            generated.length / CHARS_PER_TOKEN,
+          );
+          updateMessageUsage(assistantId, {
+            estimated: true,
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: (promptTokens ?? 0) + completionTokens,
+            latency_ms: Math.round(performance.now() - startedAt),
+            ttfc_ms:
+              firstChunkAt !== null
+                ? Math.round(firstChunkAt - startedAt)
+                : undefined,
+          });
+        } else {
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantId
+                ? { ...msg, text: "Error getting response" }
+                : msg,
+            ),
+          );
+        }
       } finally {
+        if (tts && segmenter) {
+          if (!controller.signal.aborted) {
+            segmenter.flush().forEach((s) => tts.push(s));
+          }
+          void tts.end();
+        }
+        if (abortRef.current === controller) abortRef.current = null;
         setIsStreaming(false);
         setStreamingMessageId(null);
       }
@@ -202,9 +299,70 @@ export function useStreamingChat() {
     [],
   );
 
+  /**
+   * Handle a new transcription (or typed message) by appending it as a user message after
+   * the last message of `history` and streaming the reply via handleRegenerate. Passing a
+   * shortened history (an edited message's predecessors) starts a new branch at that point.
+   *
+   * Parameters are those of handleRegenerate, with the user text in place of userMessage and:
+   *  - usage: optional precomputed usage for the user message (e.g., audio usage).
+   *  - userMessageId: id for the user message, when the caller needs it up front (e.g. to
+   *    store the recording it was transcribed from); generated otherwise.
+   */
+  const handleNewTranscription = useCallback(
+    async (
+      text: string,
+      userId: string | undefined,
+      selectedPrompt: string,
+      webSearchOptions: WebSearchOptions | null,
+      isMemoryActive: boolean,
+      responderSettings: ResponderSettings | null,
+      history: Message[],
+      setMessages: React.Dispatch<React.SetStateAction<Message[]>>,
+      updateMessageUsage: (messageId: string, usage: RawUsage) => void,
+      usage?: Message["usage"],
+      speak?: (assistantId: string) => TTSStream | null,
+      userMessageId: string = crypto.randomUUID(),
+    ) => {
+      const userMessage: Message = {
+        id: userMessageId,
+        type: "user",
+        text,
+        parentId: history[history.length - 1]?.id ?? null,
+        createdAt: new Date(),
+        ...(usage ? { usage } : {}),
+      };
+      setMessages((prev) => [...prev, userMessage]);
+
+      await handleRegenerate(
+        userMessage,
+        userId,
+        selectedPrompt,
+        webSearchOptions,
+        isMemoryActive,
+        responderSettings,
+        history,
+        setMessages,
+        updateMessageUsage,
+        speak,
+      );
+    },
+    [handleRegenerate],
+  );
+
+  /**
+   * Aborts the in-flight /api/chat request, if any. The assistant message keeps whatever
+   * text had streamed in before the abort.
+   */
+  const stopStreaming = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
   return {
     isStreaming,
     streamingMessageId,
     handleNewTranscription,
+    handleRegenerate,
+    stopStreaming,
   };
 }
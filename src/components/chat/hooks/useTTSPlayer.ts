@@ -3,17 +3,21 @@ src/components/chat/hooks/useTTSPlayer.ts
 
 Summary:
   React hook that manages Text-to-Speech (TTS) playback. Responsibilities:
-    - Request TTS audio blobs from the backend (/api/tts).
+    - Request TTS audio blobs from the backend (/api/tts) using the active responder's voice.
     - Cache generated audio (in-memory via URL.createObjectURL) to avoid refetching.
     - Chunk long text into an intro + remainder and queue remainder for sequential playback.
+    - Stream sentences into the play queue while a reply is still being generated (beginTTSStream).
     - Control the HTMLAudioElement lifecycle and emit window events used by UI (e.g. "tts-playback-started", "tts-oncomplete").
     - Aggregate simple audio usage metrics when provided via the 'x-audio-details' response header.
 
 Imports to:
   - ../helpers/chunkTextForTTS
+  - ~/lib/utils/language
+  - ~/lib/utils/speakable
 
 Exports:
   - useTTSPlayer
+  - TTSStream (type)
 
 Exports used by:
   - src/components/bottomBar/hooks/useHandsfree.ts
@@ -26,12 +30,36 @@ Nuances:
     consider revoking URLs when appropriate.
   - The hook dispatches DOM events to integrate with other UI (MicButton visualiser subscribes to "tts-playback-started").
   - The hook does not persist audio cache between page reloads.
+  - beginTTSStream fetches sentences in parallel but enqueues them strictly in order. Completion
+    (onComplete / "tts-oncomplete") is attached to whichever chunk ends up last once end() is
+    called, so a queue that drains between slow sentences does not re-arm handsfree early.
+  - stopTTS bumps a playback epoch; chunks still being fetched for an interrupted playTTS call
+    are dropped instead of being queued after the stop (barge-in relies on this).
+  - promptName is read through a ref so switching responders does not rebuild the playback
+    callbacks; audio already cached for a message keeps the voice it was generated with.
+  - voiceLanguages (the languages the responder maps to voices) are read the same way. When
+    set, each chunk is split into language spans, every span is synthesized with its
+    language's voice in parallel and the decoded buffers are joined into one AudioBuffer, so
+    queueing, caching and completion work exactly as for a single-voice chunk.
+  - Text is made speakable before it is chunked (toSpeakableText / createSpeakableNormalizer):
+    markdown, URLs, code blocks and emoji are not read literally. Streamed sentences share one
+    normalizer so a code block spanning several sentences is skipped as a whole; sentences
+    that normalize to nothing are not sent.
+  - Every request names the message and the chunk's position (seq: intro 0 / remainder 1 for
+    playTTS, the sentence index for beginTTSStream; span: the language span) so /api/tts can
+    store the speech for replay when audio storage is enabled. A position keeps its first
+    recording, so replaying a reply that was streamed does not store it twice.
 */
 
 "use client";
 
 import { useState, useRef, useCallback, useEffect } from "react";
 import { chunkTextForTTS } from "../helpers/chunkTextForTTS";
+import { splitByLanguage } from "~/lib/utils/language";
+import {
+  createSpeakableNormalizer,
+  toSpeakableText,
+} from "~/lib/utils/speakable";
 
 type AudioUsage = {
   audioUsage: {
@@ -41,11 +69,61 @@ type AudioUsage = {
   };
 } | null;
 
+export type TTSStream = {
+  push: (sentence: string) => void;
+  end: () => Promise<AudioUsage>;
+};
+
 type DecodedAudio = {
   buffer: AudioBuffer;
   usage: AudioUsage;
 };
 
+// Where generated speech belongs in a message, for storing it server-side.
+type SpeechPosition = {
+  messageId: string;
+  seq: number;
+};
+
+/**
+ * Sums cost and character counts and averages latency over several usage reports.
+ */
+function mergeUsage(usages: AudioUsage[]): AudioUsage {
+  const reported = usages.flatMap((u) => (u ? [u.audioUsage] : []));
+  if (!reported.length) return null;
+  return {
+    audioUsage: {
+      cost: reported.reduce((sum, u) => sum + u.cost, 0),
+      char_count: reported.reduce((sum, u) => sum + u.char_count, 0),
+      latency: Math.round(
+        reported.reduce((sum, u) => sum + u.latency, 0) / reported.length,
+      ),
+    },
+  };
+}
+
+/**
+ * Joins decoded buffers back to back into a single AudioBuffer at the context's sample rate.
+ */
+function concatAudioBuffers(
+  ctx: AudioContext,
+  buffers: AudioBuffer[],
+): AudioBuffer {
+  const channels = Math.max(...buffers.map((b) => b.numberOfChannels));
+  const length = buffers.reduce((sum, b) => sum + b.length, 0);
+  const out = ctx.createBuffer(channels, length, buffers[0]!.sampleRate);
+
+  let offset = 0;
+  for (const buf of buffers) {
+    for (let ch = 0; ch < channels; ch++) {
+      const source = buf.getChannelData(Math.min(ch, buf.numberOfChannels - 1));
+      out.copyToChannel(source, ch, offset);
+    }
+    offset += buf.length;
+  }
+  return out;
+}
+
 /**
  * Returns the appropriate AudioContext constructor for the current browser.
  * Handles cross-browser compatibility for AudioContext.
@@ -118,7 +196,16 @@ function isAndroidUserAgent(): boolean {
  * React hook that manages Text-to-Speech (TTS) playback, audio pipeline, and queueing.
  * Handles fetching, decoding, caching, and playing TTS audio, and exposes playback controls.
  */
-export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
+export function useTTSPlayer(
+  audioRef: React.RefObject<HTMLAudioElement>,
+  promptName = "General",
+  voiceLanguages: string[] = [],
+) {
+  const promptNameRef = useRef(promptName);
+  promptNameRef.current = promptName;
+  const voiceLanguagesRef = useRef(voiceLanguages);
+  voiceLanguagesRef.current = voiceLanguages;
+
   const [currentMessageId, setCurrentMessageId] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
 
@@ -142,6 +229,12 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
 
   const primedRef = useRef(false);
   const startedPullRef = useRef(false);
+  const playbackEpochRef = useRef(0);
+  const streamEndRef = useRef<{
+    messageId: string;
+    isHandsfree: boolean;
+    onComplete?: () => void;
+  } | null>(null);
 
   /**
    * Initializes and primes the audio pipeline for playback.
@@ -304,6 +397,8 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
    * Stops any current playback and clears the queue.
    */
   const teardownPipeline = useCallback(() => {
+    playbackEpochRef.current++;
+    streamEndRef.current = null;
     try {
       currentNodeRef.current?.stop(0);
     } catch {}
@@ -315,23 +410,26 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
   }, []);
 
   /**
-   * Fetches TTS audio from the backend and decodes it into an AudioBuffer.
-   * Caches decoded audio for future playback.
+   * Fetches TTS audio for one span of text from the backend and decodes it into an
+   * AudioBuffer. `language` selects the responder's voice for that language; `archive`
+   * names the message position the server stores the speech under.
    */
-  const fetchAndDecode = useCallback(
-    async (messageId: string, text: string): Promise<DecodedAudio | null> => {
-      if (audioBufferCacheRef.current[messageId] && ctxRef.current) {
-        return { buffer: audioBufferCacheRef.current[messageId], usage: null };
-      }
-
-      await primePipeline();
-      const ctx = ctxRef.current;
-      if (!ctx) return null;
-
+  const fetchSpan = useCallback(
+    async (
+      ctx: AudioContext,
+      text: string,
+      language: string | null,
+      archive?: SpeechPosition & { span: number },
+    ): Promise<DecodedAudio | null> => {
       const response = await fetch("/api/tts", {
         method: "POST",
         headers: { "Content-Type": "application/json", Accept: "audio/mpeg" },
-        body: JSON.stringify({ text }),
+        body: JSON.stringify({
+          text,
+          promptName: promptNameRef.current,
+          ...(language && { language }),
+          ...archive,
+        }),
       });
       if (!response.ok) {
         console.error("TTS API Error:", await response.text());
@@ -368,8 +466,6 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
         }
       }
 
-      audioBufferCacheRef.current[messageId] = buffer;
-
       const header = response.headers.get("x-audio-details");
       let usage: AudioUsage = null;
       if (header) {
@@ -393,7 +489,62 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
 
       return { buffer, usage };
     },
-    [primePipeline],
+    [],
+  );
+
+  /**
+   * Fetches TTS audio for a chunk and decodes it into an AudioBuffer, switching voices per
+   * detected language when the responder maps language voices.
+   * Caches decoded audio for future playback.
+   */
+  const fetchAndDecode = useCallback(
+    async (
+      messageId: string,
+      text: string,
+      archive?: SpeechPosition,
+    ): Promise<DecodedAudio | null> => {
+      if (audioBufferCacheRef.current[messageId] && ctxRef.current) {
+        return { buffer: audioBufferCacheRef.current[messageId], usage: null };
+      }
+
+      await primePipeline();
+      const ctx = ctxRef.current;
+      if (!ctx) return null;
+
+      const spans = splitByLanguage(text, voiceLanguagesRef.current);
+      let decoded: DecodedAudio | null;
+
+      if (spans.length <= 1) {
+        decoded = await fetchSpan(
+          ctx,
+          text,
+          spans[0]?.language ?? null,
+          archive && { ...archive, span: 0 },
+        );
+      } else {
+        const parts = await Promise.all(
+          spans.map((span, i) =>
+            fetchSpan(
+              ctx,
+              span.text,
+              span.language,
+              archive && { ...archive, span: i },
+            ),
+          ),
+        );
+        const buffers = parts.flatMap((p) => (p ? [p.buffer] : []));
+        decoded = buffers.length
+          ? {
+              buffer: concatAudioBuffers(ctx, buffers),
+              usage: mergeUsage(parts.map((p) => p?.usage ?? null)),
+            }
+          : null;
+      }
+
+      if (decoded) audioBufferCacheRef.current[messageId] = decoded.buffer;
+      return decoded;
+    },
+    [primePipeline, fetchSpan],
   );
 
   /**
@@ -503,14 +654,22 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
       } catch {}
       if (currentNodeRef.current === node) currentNodeRef.current = null;
 
-      if (lastChunk && onComplete) {
-        setTimeout(() => onComplete?.(), 50);
+      const streamEnd =
+        playQueueRef.current.length === 0 &&
+        streamEndRef.current?.messageId === baseMessageId
+          ? streamEndRef.current
+          : null;
+      if (streamEnd) streamEndRef.current = null;
+
+      const completeCb = lastChunk ? onComplete : streamEnd?.onComplete;
+      if (completeCb) {
+        setTimeout(() => completeCb(), 50);
       }
 
       if (playQueueRef.current.length === 0) {
         setIsPlaying(false);
         setCurrentMessageId(null);
-        if (isHandsfree) {
+        if (isHandsfree || streamEnd?.isHandsfree) {
           setTimeout(
             () => window.dispatchEvent(new Event("tts-oncomplete")),
             50,
@@ -597,14 +756,21 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
       const ok = await ensurePlaybackReady();
       if (!ok) return null;
 
-      const [introChunk, remainder] = chunkTextForTTS(text);
+      const epoch = playbackEpochRef.current;
+      const speakable = toSpeakableText(text);
+      if (!speakable.trim()) {
+        if (onComplete) setTimeout(() => onComplete(), 50);
+        if (isHandsfree) window.dispatchEvent(new Event("tts-oncomplete"));
+        return null;
+      }
+      const [introChunk, remainder] = chunkTextForTTS(speakable);
 
       const introId = `${messageId}-0`;
       const remainderId = `${messageId}-1`;
 
-      const introP = fetchAndDecode(introId, introChunk);
+      const introP = fetchAndDecode(introId, introChunk, { messageId, seq: 0 });
       const remainderP = remainder
-        ? fetchAndDecode(remainderId, remainder)
+        ? fetchAndDecode(remainderId, remainder, { messageId, seq: 1 })
         : Promise.resolve(null);
 
       const intro = await introP;
@@ -612,6 +778,7 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
         console.error("Missing audio for intro chunk:", introId);
         return intro?.usage ?? null;
       }
+      if (epoch !== playbackEpochRef.current) return intro.usage;
 
       await enqueueBuffer(intro.buffer, {
         isHandsfree: !remainder && isHandsfree,
@@ -627,6 +794,7 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
           if (isHandsfree) window.dispatchEvent(new Event("tts-oncomplete"));
           return intro.usage ?? null;
         }
+        if (epoch !== playbackEpochRef.current) return intro.usage;
 
         await enqueueBuffer(rem.buffer, {
           isHandsfree,
@@ -663,6 +831,86 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
     ],
   );
 
+  /**
+   * Starts a streaming TTS session for a reply that is still being generated.
+   * Each pushed sentence is fetched immediately and queued in order behind the previous
+   * ones; end() waits for the queued sentences, attaches completion to the last chunk and
+   * resolves with the aggregated audio usage. A stopTTS call cancels the session.
+   */
+  const beginTTSStream = useCallback(
+    (
+      messageId: string,
+      isHandsfree = false,
+      onComplete?: () => void,
+      ready: Promise<unknown> = Promise.resolve(),
+    ): TTSStream => {
+      const epoch = playbackEpochRef.current;
+      const usages: AudioUsage[] = [];
+      const readyP = ready.then(() => ensurePlaybackReady());
+      let chain: Promise<unknown> = readyP;
+      let index = 0;
+      let enqueued = 0;
+      const normalize = createSpeakableNormalizer();
+
+      const push = (text: string) => {
+        if (epoch !== playbackEpochRef.current) return;
+        const sentence = normalize(text);
+        if (!sentence.trim()) return;
+        const seq = index++;
+        const chunkId = `${messageId}-s${seq}`;
+        const decodedP = readyP
+          .then(() => fetchAndDecode(chunkId, sentence, { messageId, seq }))
+          .catch(() => null);
+
+        chain = Promise.all([chain.catch(() => undefined), decodedP]).then(
+          async ([, decoded]) => {
+            if (!decoded?.buffer || epoch !== playbackEpochRef.current) return;
+            usages.push(decoded.usage);
+            enqueued++;
+            await enqueueBuffer(decoded.buffer, {
+              isHandsfree: false,
+              baseMessageId: messageId,
+              lastChunk: false,
+            });
+          },
+        );
+      };
+
+      const end = async (): Promise<AudioUsage> => {
+        await chain.catch(() => undefined);
+
+        const usage = mergeUsage(usages);
+
+        if (epoch !== playbackEpochRef.current) return usage;
+
+        const lastQueued = [...playQueueRef.current]
+          .reverse()
+          .find((item) => item.baseMessageId === messageId);
+
+        if (lastQueued) {
+          lastQueued.lastChunk = true;
+          lastQueued.isHandsfree = isHandsfree;
+          lastQueued.onComplete = onComplete;
+        } else if (enqueued > 0 && currentNodeRef.current) {
+          streamEndRef.current = { messageId, isHandsfree, onComplete };
+        } else {
+          if (onComplete) setTimeout(() => onComplete(), 50);
+          if (isHandsfree) {
+            setTimeout(
+              () => window.dispatchEvent(new Event("tts-oncomplete")),
+              50,
+            );
+          }
+        }
+
+        return usage;
+      };
+
+      return { push, end };
+    },
+    [ensurePlaybackReady, fetchAndDecode, enqueueBuffer],
+  );
+
   /**
    * Stops TTS playback and tears down the audio pipeline.
    * Pauses the audio element if present.
@@ -682,6 +930,7 @@ export function useTTSPlayer(audioRef: React.RefObject<HTMLAudioElement>) {
     isPlaying,
     currentMessageId,
     playTTS,
+    beginTTSStream,
     stopTTS,
     prime,
   };
@@ -0,0 +1,24 @@
+import * as React from "react";
+
+interface ExportIconProps extends React.SVGProps<SVGSVGElement> {
+  className?: string;
+}
+
+const ExportIcon = ({ className, ...props }: ExportIconProps) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth={2}
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+    {...props}
+  >
+    <path d="M12 3v12" />
+    <path d="M7 10l5 5 5-5" />
+    <path d="M4 17v3a1 1 0 0 0 1 1h14a1 1 0 0 0 1-1v-3" />
+  </svg>
+);
+export default ExportIcon;
@@ -0,0 +1,24 @@
+import * as React from "react";
+
+interface HistoryIconProps extends React.SVGProps<SVGSVGElement> {
+  className?: string;
+}
+
+const HistoryIcon = ({ className, ...props }: HistoryIconProps) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth={2}
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+    {...props}
+  >
+    <path d="M3 12a9 9 0 1 0 3-6.7" />
+    <path d="M3 4v5h5" />
+    <path d="M12 7v5l3 2" />
+  </svg>
+);
+export default HistoryIcon;
@@ -0,0 +1,194 @@
+/*
+  src/components/notes/NoteList.tsx
+
+  Summary:
+  NoteList renders the user's notes as cards: title, full text (search terms highlighted),
+  where the note came from and when it was last changed. Each card can be edited in place,
+  deleted, or — for notes taken from a chat — open the transcript it came from.
+
+  Imports to:
+  - src/app/notes/page.tsx
+
+  Exports:
+  - NoteList (React component)
+
+  Exports used by:
+  - src/app/notes/page.tsx
+
+  Nuances:
+  - Presentational: saving, deleting and opening transcripts are delegated to callbacks.
+    onSave resolves to whether the save succeeded; the editor stays open on failure.
+  - Only one note is edited at a time; opening another editor discards the unsaved draft.
+  - Long notes are clamped until expanded ("More" / "Less").
+*/
+import React, { useState } from "react";
+import { Highlight } from "../transcripts/Highlight";
+import type { Note } from "./hooks/useNotes";
+
+const CLAMP_LENGTH = 400;
+
+/**
+ * NoteList
+ *
+ * Props:
+ * - items: notes to display
+ * - highlightTerms: search terms to mark in titles and text
+ * - onSave(id, changes): persist an edited title/content
+ * - onDelete(id): start the delete flow (confirmation is handled upstream)
+ * - onOpenSource(note): load the transcript a note was taken from
+ */
+export function NoteList({
+  items,
+  highlightTerms = [],
+  onSave,
+  onDelete,
+  onOpenSource,
+}: {
+  items: Note[];
+  highlightTerms?: string[];
+  onSave: (
+    id: string,
+    changes: { title: string; content: string },
+  ) => Promise<boolean>;
+  onDelete: (id: string) => void;
+  onOpenSource: (note: Note) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [draftContent, setDraftContent] = useState("");
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  const startEditing = (note: Note) => {
+    setEditingId(note.id);
+    setDraftTitle(note.title);
+    setDraftContent(note.content);
+  };
+
+  const saveEdit = async (id: string) => {
+    if (!draftTitle.trim() || !draftContent.trim()) return;
+    const saved = await onSave(id, {
+      title: draftTitle.trim(),
+      content: draftContent.trim(),
+    });
+    if (saved) setEditingId(null);
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-2">
+      {items.map((note, index) => {
+        const isLong = note.content.length > CLAMP_LENGTH;
+        const isExpanded = expandedIds.has(note.id);
+        return (
+          <div
+            key={note.id}
+            className="flex flex-col gap-1 rounded-xl p-3"
+            style={{
+              backgroundColor:
+                index % 2 === 0
+                  ? "rgb(var(--user-bg))"
+                  : "rgb(var(--assistant-bg))",
+            }}
+          >
+            {editingId === note.id ? (
+              <>
+                <input
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  maxLength={255}
+                  className="rounded border px-2 py-1 font-bold"
+                  aria-label="Note title"
+                />
+                <textarea
+                  value={draftContent}
+                  onChange={(e) => setDraftContent(e.target.value)}
+                  rows={Math.min(12, draftContent.split("\n").length + 2)}
+                  className="resize-y rounded border px-2 py-1 text-sm"
+                  aria-label="Note text"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2 text-sm">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="rounded px-2 py-1 opacity-70 hover:opacity-100"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => void saveEdit(note.id)}
+                    disabled={!draftTitle.trim() || !draftContent.trim()}
+                    className="rounded px-2 py-1 text-white disabled:opacity-50"
+                    style={{ backgroundColor: "rgb(var(--primary))" }}
+                  >
+                    Save
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="truncate text-base font-bold">
+                  <Highlight text={note.title} terms={highlightTerms} />
+                </div>
+                <div className="text-sm whitespace-pre-wrap opacity-90">
+                  <Highlight
+                    text={
+                      isLong && !isExpanded
+                        ? `${note.content.slice(0, CLAMP_LENGTH)}…`
+                        : note.content
+                    }
+                    terms={highlightTerms}
+                  />
+                </div>
+                {isLong && (
+                  <button
+                    onClick={() => toggleExpanded(note.id)}
+                    className="self-start text-xs opacity-70 hover:opacity-100"
+                  >
+                    {isExpanded ? "Less" : "More"}
+                  </button>
+                )}
+                <div className="text-muted-foreground text-xs">
+                  {note.role === "assistant"
+                    ? `From ${note.responder ?? "assistant"}`
+                    : "From you"}
+                  {" · "}
+                  Updated: {new Date(note.updated_at).toLocaleString()}
+                </div>
+                <div className="flex justify-end gap-3 text-sm">
+                  {note.source_id && (
+                    <button
+                      onClick={() => onOpenSource(note)}
+                      className="opacity-70 hover:opacity-100"
+                    >
+                      Open transcript
+                    </button>
+                  )}
+                  <button
+                    onClick={() => startEditing(note)}
+                    className="opacity-70 hover:opacity-100"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => onDelete(note.id)}
+                    className="text-red-500 opacity-80 hover:opacity-100"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
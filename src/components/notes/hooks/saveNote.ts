@@ -0,0 +1,62 @@
+// src/components/notes/hooks/saveNote.ts
+/*
+Summary:
+  Hook used by the chat page to save a chat bubble (or the text selected in it) as a note.
+
+Imports to:
+  - src/app/chat/page.tsx
+
+Exports:
+  - useSaveNote: hook returning handleSaveNote
+
+Exports used by:
+  - src/app/chat/page.tsx (ChatBubble "Note" action)
+
+Nuances:
+  - The note is linked to the chat's transcript by its id (the transcript the chat was saved
+    as or reloaded from) and to the bubble by its message id. Unsaved chats have no transcript
+    yet, so their notes are created unlinked.
+  - Returns true on success and false otherwise; the caller shows the toast.
+*/
+"use client";
+
+import { useCallback } from "react";
+import type { Message } from "../../../types/message";
+
+export function useSaveNote() {
+  const handleSaveNote = useCallback(
+    async ({
+      content,
+      message,
+      transcriptId,
+    }: {
+      content: string;
+      message: Message;
+      transcriptId?: string;
+    }) => {
+      try {
+        const response = await fetch("/api/notes", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            content,
+            role: message.type,
+            ...(message.responder ? { responder: message.responder } : {}),
+            ...(transcriptId
+              ? {
+                  source_id: transcriptId,
+                  source_message_id: message.id,
+                }
+              : {}),
+          }),
+        });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    },
+    [],
+  );
+
+  return { handleSaveNote };
+}
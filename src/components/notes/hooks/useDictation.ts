@@ -0,0 +1,113 @@
+// src/components/notes/hooks/useDictation.ts
+//
+// Summary:
+// Records a voice note and turns it into text through /api/transcribe only — the LLM is
+// never called. Used by the notes page to dictate notes.
+//
+// Imports to:
+// - src/app/notes/page.tsx
+//
+// Exports:
+// - useDictation (React hook)
+//
+// Exports used by:
+// - src/app/notes/page.tsx
+//
+// Nuances:
+// - Recording is manual (start / stop); handsfree and VAD stay on the chat page.
+// - The transcript is handed to `onText`; empty transcripts are dropped and failures are
+//   reported through `onError`.
+// - Transcription uses the speech-to-text settings of the "General" responder unless a
+//   promptName is passed.
+
+"use client";
+
+import { useState, useRef, useCallback, useEffect } from "react";
+import { transcribeAudio } from "../../chat/helpers/transcription";
+
+/**
+ * useDictation
+ *
+ * Returns isRecording, isTranscribing and start / stop handlers. Stopping sends the
+ * recording for transcription.
+ */
+export function useDictation({
+  onText,
+  onError,
+  promptName = "General",
+}: {
+  onText: (text: string) => void;
+  onError?: (message: string) => void;
+  promptName?: string;
+}) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  const onTextRef = useRef(onText);
+  onTextRef.current = onText;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = MediaRecorder.isTypeSupported("audio/webm")
+        ? "audio/webm"
+        : MediaRecorder.isTypeSupported("audio/mp4")
+          ? "audio/mp4"
+          : "";
+      const recorder = new MediaRecorder(
+        stream,
+        mimeType ? { mimeType } : undefined,
+      );
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = async () => {
+        stream.getTracks().forEach((t) => t.stop());
+        recorderRef.current = null;
+        setIsRecording(false);
+        setIsTranscribing(true);
+        try {
+          const { text } = await transcribeAudio(
+            new Blob(chunks, { type: mimeType || "audio/webm" }),
+            mimeType.includes("mp4") ? "recording.mp4" : "recording.webm",
+            promptName,
+          );
+          if (text.trim()) onTextRef.current(text.trim());
+        } catch (error) {
+          console.error("Dictation failed:", error);
+          onErrorRef.current?.("Failed to transcribe audio");
+        } finally {
+          setIsTranscribing(false);
+        }
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+    } catch (error) {
+      console.error("Error accessing microphone:", error);
+      onErrorRef.current?.("Microphone not available");
+    }
+  }, [promptName]);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+  }, []);
+
+  useEffect(
+    () => () => {
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      recorder.onstop = null;
+      if (recorder.state === "recording") recorder.stop();
+      recorder.stream.getTracks().forEach((t) => t.stop());
+    },
+    [],
+  );
+
+  return { isRecording, isTranscribing, start, stop };
+}
@@ -0,0 +1,186 @@
+// src/components/notes/hooks/useNotes.ts
+//
+// Summary:
+// useNotes is the client-side hook behind the notes page. It searches and pages through the
+// user's notes (/api/notes) and creates, edits and deletes them.
+//
+// Imports to:
+// - src/app/notes/page.tsx
+//
+// Exports:
+// - export function useNotes(): loaded notes, the search query, loading/paging state and
+//   handlers: onQueryChange, loadMore, createNote, updateNote, deleteNote.
+// - Note (type)
+//
+// Exports used by:
+// - src/app/notes/page.tsx
+// - src/components/notes/NoteList.tsx (Note type)
+//
+// Nuances:
+// - Query changes are debounced (SEARCH_DEBOUNCE_MS) and restart from the first page;
+//   responses of superseded requests are dropped (requestIdRef).
+// - createNote / updateNote / deleteNote update the loaded list in place instead of
+//   re-fetching; they return the saved note (or success) and null/false on failure so the
+//   page can show a toast.
+
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+
+const SEARCH_DEBOUNCE_MS = 300;
+const PAGE_SIZE = 20;
+
+export type Note = {
+  id: string;
+  title: string;
+  content: string;
+  role: "user" | "assistant";
+  responder: string | null;
+  // Transcript (and message in it) the note was taken from.
+  source_id: string | null;
+  source_message_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type NotePage = {
+  items: Note[];
+  nextCursor: string | null;
+};
+
+/**
+ * useNotes
+ *
+ * Returns:
+ * - notes: loaded notes (all pages so far), most recently updated first
+ * - query / onQueryChange: search text and its setter
+ * - searchTerms: terms of the current search, for highlighting
+ * - isLoading, hasMore / loadMore
+ * - createNote(content, title?): create a note (null on failure)
+ * - updateNote(id, changes): change title and/or content (null on failure)
+ * - deleteNote(id): delete a note (returns boolean success)
+ */
+export function useNotes() {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [query, setQuery] = useState("");
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const requestIdRef = useRef(0);
+
+  /**
+   * fetchPage
+   *
+   * Loads the page after `cursor` (the first page for null) and replaces or extends the
+   * list. Ignores the response if a newer request was started meanwhile.
+   */
+  const fetchPage = useCallback(async (q: string, cursor: string | null) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (q.trim()) params.set("q", q.trim());
+      if (cursor) params.set("cursor", cursor);
+      const response = await fetch(`/api/notes?${params.toString()}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = (await response.json()) as NotePage;
+      if (requestId !== requestIdRef.current) return;
+      setNotes((prev) => (cursor ? [...prev, ...data.items] : data.items));
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error("Failed to fetch notes:", error);
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => void fetchPage(query, null),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [query, fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || isLoading) return;
+    void fetchPage(query, nextCursor);
+  }, [nextCursor, isLoading, query, fetchPage]);
+
+  /**
+   * createNote
+   *
+   * Creates a note and puts it at the top of the list. Returns the note or null.
+   */
+  const createNote = useCallback(async (content: string, title?: string) => {
+    try {
+      const response = await fetch("/api/notes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content, ...(title ? { title } : {}) }),
+      });
+      if (!response.ok) return null;
+      const note = (await response.json()) as Note;
+      setNotes((prev) => [note, ...prev]);
+      return note;
+    } catch (error) {
+      console.error("Failed to create note:", error);
+      return null;
+    }
+  }, []);
+
+  /**
+   * updateNote
+   *
+   * Saves a new title and/or content and moves the note to the top. Returns the note or null.
+   */
+  const updateNote = useCallback(
+    async (id: string, changes: { title?: string; content?: string }) => {
+      try {
+        const response = await fetch(`/api/notes/${id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(changes),
+        });
+        if (!response.ok) return null;
+        const note = (await response.json()) as Note;
+        setNotes((prev) => [note, ...prev.filter((n) => n.id !== id)]);
+        return note;
+      } catch (error) {
+        console.error("Failed to update note:", error);
+        return null;
+      }
+    },
+    [],
+  );
+
+  /**
+   * deleteNote
+   *
+   * Deletes a note and removes it from the list. Returns true when the server responds ok.
+   */
+  const deleteNote = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/notes/${id}`, { method: "DELETE" });
+      if (response.ok) {
+        setNotes((prev) => prev.filter((n) => n.id !== id));
+      }
+      return response.ok;
+    } catch (error) {
+      console.error("Failed to delete note:", error);
+      return false;
+    }
+  }, []);
+
+  return {
+    notes,
+    query,
+    searchTerms: query.split(/\s+/).filter(Boolean),
+    isLoading,
+    hasMore: nextCursor !== null,
+    onQueryChange: setQuery,
+    loadMore,
+    createNote,
+    updateNote,
+    deleteNote,
+  };
+}
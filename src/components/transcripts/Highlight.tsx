@@ -0,0 +1,42 @@
+// src/components/transcripts/Highlight.tsx
+//
+// Summary:
+// Renders text with every case-insensitive occurrence of the given search terms wrapped in
+// <mark>, for showing search hits in the transcript list.
+//
+// Imports to:
+// - Used by: src/components/transcripts/TranscriptList.tsx
+//
+// Exports:
+// - Highlight (named export)
+//
+// Exports used by:
+// - src/components/transcripts/TranscriptList.tsx
+//
+// Nuances:
+// - Terms are regex-escaped; with no terms the text is returned unchanged.
+
+import React from "react";
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  if (!terms.length) return <>{text}</>;
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="rounded bg-yellow-300/70 px-0.5 text-black">
+            {part}
+          </mark>
+        ) : (
+          part
+        ),
+      )}
+    </>
+  );
+}
@@ -3,10 +3,12 @@
 
   Summary:
   TranscriptList is a presentational component that renders a scrollable list of saved
-  transcript records. Each record shows metadata (title, responder, created/updated timestamps,
-  and message count) and provides actions to reload the transcript into the active chat,
-  reload-and-remember, or start a delete flow. The component implements touch and mouse
-  interactions to reveal a temporary delete affordance.
+  transcript summaries. Each record shows metadata (title, responder, created/updated timestamps,
+  and message count) with a preview or, while searching, a snippet around the hit (search terms
+  highlighted), and provides actions to reload the transcript into the active chat,
+  reload-and-remember, export it (format menu), summarize it into study notes (responder
+  menu), open its version history, or move it to the trash. The component implements touch
+  and mouse interactions to reveal a temporary delete affordance.
 
   Imports to:
   - src/app/transcripts/page.tsx
@@ -25,25 +27,41 @@
   - Touch handling uses a simple delta check (clientX difference > 50) to detect a swipe
     that reveals the delete control.
   - The component delegates all data mutations to callbacks provided via props (onReload,
-    onReloadAndRemember, onDelete) so side effects remain outside this module.
+    onReloadAndRemember, onExport, onSummarize, onHistory, onDelete) so side effects remain
+    outside this module. summarizingId only dims the Summarize button of the transcript
+    being summarized.
+  - Records are summaries without messages; onReload/onReloadAndRemember receive the id and
+    the parent loads the full transcript.
   - Date fields (`created_at`, `updated_at`) are expected to be ISO strings from the server
     and are formatted using toLocaleString() for display.
 */
 import React, { useState, useRef, useEffect } from "react";
 import ReloadIcon from "../icons/Reload";
 import ReloadRememberIcon from "../icons/ReloadRemember";
+import ExportIcon from "../icons/Export";
+import NotesIcon from "../icons/Notes";
+import HistoryIcon from "../icons/History";
+import { Highlight } from "./Highlight";
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_LABELS,
+  type ExportFormat,
+} from "~/types/export";
 
 /**
  * TranscriptRecord
  *
- * Type describing a saved transcript entry returned from the server.
+ * Type describing a saved transcript summary returned from GET /api/transcripts.
  *
  * Fields:
  * - id: unique identifier for the transcript
  * - title: human-readable name given to the transcript
- * - responder: name of the responder used when the transcript was created
+ * - responder: name of the responder selected when the transcript was saved (null if unknown)
  * - created_at / updated_at: ISO timestamp strings from the backend
- * - messages: array of simple message objects with role + content
+ * - message_count: messages in the saved (active) thread
+ * - version: current version number (1 until the transcript is updated or restored)
+ * - preview: start of the conversation text
+ * - snippet: text around the first search hit (null when not searching or hit in title)
  *
  * Nuances:
  * - created_at and updated_at are displayed via new Date(...).toLocaleString()
@@ -52,10 +70,13 @@ import ReloadRememberIcon from "../icons/ReloadRemember";
 export type TranscriptRecord = {
   id: string;
   title: string;
-  responder: string;
+  responder: string | null;
   created_at: string;
   updated_at: string;
-  messages: { role: "user" | "assistant"; content: string }[];
+  message_count: number;
+  version: number;
+  preview: string;
+  snippet: string | null;
 };
 
 /**
@@ -66,6 +87,8 @@ export type TranscriptRecord = {
  * - Provide UI affordances to:
  *    * Reload a transcript into the active chat (onReload)
  *    * Reload a transcript and mark for remembering (onReloadAndRemember)
+ *    * Export a transcript (onExport) or summarize it into a note (onSummarize)
+ *    * Open the version history of a transcript (onHistory)
  *    * Initiate deletion of a transcript (onDelete)
  * - Handle UI interactions for revealing a temporary delete button via:
  *    * Double click / double tap
@@ -74,9 +97,16 @@ export type TranscriptRecord = {
  *
  * Props:
  * - items: array of TranscriptRecord to display
- * - onReload(messages, title): called when the user chooses to reload a transcript
- * - onReloadAndRemember(messages): called to reload and remember a transcript
- * - onDelete(id): called when the user confirms deletion (delete flow is managed upstream)
+ * - highlightTerms: search terms to mark in titles and snippets
+ * - onReload(id, title): called when the user chooses to reload a transcript
+ * - onReloadAndRemember(id): called to reload and remember a transcript
+ * - onExport(id, format): called when the user picks an export format
+ * - responderNames: responders offered in the Summarize menu
+ * - summarizingId: transcript currently being summarized, if any
+ * - onSummarize(id, responder): called when the user picks a responder to summarize with
+ * - onHistory(id, title): called to show the versions of a transcript
+ * - onDelete(id): called when the user taps Delete (the parent moves the transcript to the
+ *   trash and offers Undo)
  *
  * Nuances:
  * - Visual zebra striping is applied using the index parity and CSS variables for user/assistant
@@ -86,16 +116,30 @@ export type TranscriptRecord = {
  */
 export function TranscriptList({
   items,
+  highlightTerms = [],
   onReload,
   onReloadAndRemember,
+  onExport,
+  responderNames,
+  summarizingId = null,
+  onSummarize,
+  onHistory,
   onDelete,
 }: {
   items: TranscriptRecord[];
-  onReload: (messages: TranscriptRecord["messages"], title: string) => void;
-  onReloadAndRemember: (messages: TranscriptRecord["messages"]) => void;
+  highlightTerms?: string[];
+  onReload: (id: string, title: string) => void;
+  onReloadAndRemember: (id: string) => void;
+  onExport: (id: string, format: ExportFormat) => void;
+  responderNames: string[];
+  summarizingId?: string | null;
+  onSummarize: (id: string, responder: string) => void;
+  onHistory: (id: string, title: string) => void;
   onDelete: (id: string) => void;
 }) {
   const [deleteVisibleId, setDeleteVisibleId] = useState<string | null>(null);
+  const [exportMenuId, setExportMenuId] = useState<string | null>(null);
+  const [summarizeMenuId, setSummarizeMenuId] = useState<string | null>(null);
   const touchStartX = useRef<number>(0);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -169,11 +213,19 @@ export function TranscriptList({
             onClick={() => deleteVisibleId && setDeleteVisibleId(null)}
           >
             <div className="truncate text-base font-bold break-words">
-              {item.title}
+              <Highlight text={item.title} terms={highlightTerms} />
             </div>
             <div className="text-muted-foreground text-sm">
-              Responder: {item.responder}
+              Responder: {item.responder ?? "—"}
             </div>
+            {(item.snippet ?? item.preview) && (
+              <div className="line-clamp-2 text-sm opacity-80">
+                <Highlight
+                  text={item.snippet ?? item.preview}
+                  terms={highlightTerms}
+                />
+              </div>
+            )}
             <div className="text-muted-foreground text-xs">
               Created: {new Date(item.created_at).toLocaleString()}
             </div>
@@ -181,24 +233,115 @@ export function TranscriptList({
               Updated: {new Date(item.updated_at).toLocaleString()}
             </div>
             <div className="text-muted-foreground text-xs">
-              #Messages: {item.messages.length}
+              #Messages: {item.message_count}
             </div>
+            {item.version > 1 && (
+              <div className="text-muted-foreground text-xs">
+                Version: {item.version}
+              </div>
+            )}
           </div>
           <div className="flex flex-col items-center justify-around gap-2">
             <button
-              onClick={() => onReload(item.messages, item.title)}
+              onClick={() => onReload(item.id, item.title)}
               title="Reload"
               className="text-foreground hover:opacity-80"
             >
               <ReloadIcon className="h-8 w-8" />
             </button>
             <button
-              onClick={() => onReloadAndRemember(item.messages)}
+              onClick={() => onReloadAndRemember(item.id)}
               title="Reload & Remember"
               className="text-foreground hover:opacity-80"
             >
               <ReloadRememberIcon className="h-8 w-8" />
             </button>
+            <div className="relative">
+              <button
+                onClick={() =>
+                  setExportMenuId(exportMenuId === item.id ? null : item.id)
+                }
+                title="Export"
+                className="text-foreground hover:opacity-80"
+              >
+                <ExportIcon className="h-7 w-7" />
+              </button>
+              {exportMenuId === item.id && (
+                <ul
+                  className="absolute right-0 bottom-full z-50 mb-1 w-max min-w-[140px] rounded text-sm shadow"
+                  style={{
+                    backgroundColor: "rgb(var(--header-footer-bg))",
+                    border: "1px solid rgba(var(--secondary), 0.1)",
+                    color: "rgb(var(--foreground))",
+                  }}
+                  onMouseLeave={() => setExportMenuId(null)}
+                >
+                  {EXPORT_FORMATS.map((format) => (
+                    <li
+                      key={format}
+                      onClick={() => {
+                        setExportMenuId(null);
+                        onExport(item.id, format);
+                      }}
+                      className="cursor-pointer px-2 py-1 transition-colors duration-100 hover:bg-gray-200 active:bg-gray-300"
+                    >
+                      {EXPORT_FORMAT_LABELS[format]}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div className="relative">
+              <button
+                onClick={() =>
+                  setSummarizeMenuId(
+                    summarizeMenuId === item.id ? null : item.id,
+                  )
+                }
+                disabled={summarizingId !== null}
+                title="Summarize into notes"
+                className={`text-foreground hover:opacity-80 disabled:opacity-40 ${
+                  summarizingId === item.id ? "animate-pulse" : ""
+                }`}
+              >
+                <NotesIcon className="h-7 w-7" />
+              </button>
+              {summarizeMenuId === item.id && (
+                <ul
+                  className="absolute right-0 bottom-full z-50 mb-1 max-h-60 w-max min-w-[140px] overflow-y-auto rounded text-sm shadow"
+                  style={{
+                    backgroundColor: "rgb(var(--header-footer-bg))",
+                    border: "1px solid rgba(var(--secondary), 0.1)",
+                    color: "rgb(var(--foreground))",
+                  }}
+                  onMouseLeave={() => setSummarizeMenuId(null)}
+                >
+                  <li className="px-2 py-1 text-xs opacity-60">
+                    Summarize with
+                  </li>
+                  {responderNames.map((name) => (
+                    <li
+                      key={name}
+                      onClick={() => {
+                        setSummarizeMenuId(null);
+                        onSummarize(item.id, name);
+                      }}
+                      className="cursor-pointer px-2 py-1 transition-colors duration-100 hover:bg-gray-200 active:bg-gray-300"
+                    >
+                      {name}
+                      {name === item.responder && " (saved with)"}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <button
+              onClick={() => onHistory(item.id, item.title)}
+              title="History"
+              className="text-foreground hover:opacity-80"
+            >
+              <HistoryIcon className="h-7 w-7" />
+            </button>
           </div>
         </div>
       ))}
@@ -0,0 +1,78 @@
+// src/components/transcripts/helpers/diff.ts
+//
+// Summary:
+// Message-level diff between two saved versions of a transcript, for the history view on the
+// transcripts page. Only the active thread of each version is compared (the conversation as it
+// was on screen); a message counts as unchanged when its role and text are identical.
+//
+// Imports to:
+// - src/components/transcripts/modals/TranscriptHistoryModal.tsx
+//
+// Exports:
+// - diffThreads(before, after)
+// - DiffLine (type)
+//
+// Exports used by:
+// - src/components/transcripts/modals/TranscriptHistoryModal.tsx
+//
+// Nuances:
+// - Uses a longest-common-subsequence table, O(n·m) in the thread lengths, which is fine for
+//   conversations of a few hundred messages.
+// - An edited message shows as removed (old text) followed by added (new text).
+
+import type { TranscriptMessage } from "~/types/message";
+
+export type DiffLine = {
+  kind: "same" | "added" | "removed";
+  role: TranscriptMessage["role"];
+  content: string;
+};
+
+/**
+ * diffThreads
+ *
+ * Returns the lines turning the active thread of `before` into that of `after`, in
+ * conversation order.
+ */
+export function diffThreads(
+  before: TranscriptMessage[],
+  after: TranscriptMessage[],
+): DiffLine[] {
+  const a = before.filter((m) => m.active !== false);
+  const b = after.filter((m) => m.active !== false);
+  const equal = (x: TranscriptMessage, y: TranscriptMessage) =>
+    x.role === y.role && x.content === y.content;
+
+  // lcs[i][j]: length of the longest common subsequence of a[i..] and b[j..].
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = equal(a[i]!, b[j]!)
+        ? lcs[i + 1]![j + 1]! + 1
+        : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && equal(a[i]!, b[j]!)) {
+      lines.push({ kind: "same", role: a[i]!.role, content: a[i]!.content });
+      i++;
+      j++;
+    } else if (
+      i < a.length &&
+      (j >= b.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)
+    ) {
+      lines.push({ kind: "removed", role: a[i]!.role, content: a[i]!.content });
+      i++;
+    } else {
+      lines.push({ kind: "added", role: b[j]!.role, content: b[j]!.content });
+      j++;
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,83 @@
+// src/components/transcripts/helpers/restore.test.ts
+//
+// Tests for saving and reloading messages deleted in the chat: they are stored in place with
+// deletedAt and come back out of the tree, with their replies moved up, on reload.
+
+import { describe, expect, it } from "vitest";
+import { removeNode } from "~/lib/utils/messageTree";
+import type { DeletedMessage, Message } from "~/types/message";
+import { toChatMessages, toTranscriptMessages } from "./restore";
+
+const at = new Date("2024-05-01T10:00:00Z");
+
+function message(id: string, parentId: string | null): Message {
+  return {
+    id,
+    parentId,
+    type: "user",
+    text: id,
+    createdAt: at,
+    usage: {},
+  };
+}
+
+// Deletes `id` the way useChat.removeMessage does.
+function remove(tree: Message[], id: string, deletedAt: string) {
+  const index = tree.findIndex((m) => m.id === id);
+  const deleted: DeletedMessage = {
+    message: tree[index]!,
+    index,
+    childIds: tree.filter((m) => m.parentId === id).map((m) => m.id),
+    deletedAt,
+  };
+  return { tree: removeNode(tree, id), deleted };
+}
+
+describe("deleted messages", () => {
+  const full = [message("a", null), message("b", "a"), message("c", "b")];
+
+  it("are saved in place with deletedAt and never active", () => {
+    const { tree, deleted } = remove(full, "b", "2024-05-02T00:00:00.000Z");
+
+    const saved = toTranscriptMessages(tree, tree, [deleted]);
+
+    expect(saved.map((m) => [m.id, m.parentId, m.active, m.deletedAt])).toEqual(
+      [
+        ["a", null, true, undefined],
+        ["b", "a", false, "2024-05-02T00:00:00.000Z"],
+        ["c", "b", true, undefined],
+      ],
+    );
+  });
+
+  it("come back out of the tree on reload, in the order they were deleted", () => {
+    const first = remove(full, "b", "2024-05-02T00:00:00.000Z");
+    const second = remove(first.tree, "c", "2024-05-03T00:00:00.000Z");
+    const deleted = [first.deleted, second.deleted];
+
+    const reloaded = toChatMessages(
+      toTranscriptMessages(second.tree, second.tree, deleted),
+    );
+
+    expect(reloaded.messages.map((m) => m.id)).toEqual(["a"]);
+    expect(reloaded.activeIds).toEqual(["a"]);
+    expect(
+      reloaded.deleted.map((d) => [d.message.id, d.index, d.childIds]),
+    ).toEqual(deleted.map((d) => [d.message.id, d.index, d.childIds]));
+  });
+
+  it("survive saving again unchanged", () => {
+    const { tree, deleted } = remove(full, "b", "2024-05-02T00:00:00.000Z");
+    const saved = toTranscriptMessages(tree, tree, [deleted]);
+
+    const reloaded = toChatMessages(saved);
+
+    expect(
+      toTranscriptMessages(
+        reloaded.messages,
+        reloaded.messages,
+        reloaded.deleted,
+      ),
+    ).toEqual(saved);
+  });
+});
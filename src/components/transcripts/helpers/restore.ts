@@ -0,0 +1,119 @@
+// src/components/transcripts/helpers/restore.ts
+//
+// Summary:
+// Converts between the chat's Message[] tree and saved transcript messages: toChatMessages
+// turns a saved transcript back into chat messages so it can be reloaded into the chat (the
+// chat page reads it from localStorage "transcript_restore" or resumes a draft), and
+// toTranscriptMessages builds the payload stored when saving or autosaving.
+//
+// Imports to:
+// - src/app/transcripts/page.tsx (Reload / Reload & Remember)
+// - src/app/notes/page.tsx (open the transcript a note was taken from)
+// - src/components/transcripts/hooks/saveTranscript.ts
+// - src/components/transcripts/hooks/useDraft.ts
+//
+// Exports:
+// - toChatMessages(messages)
+// - toTranscriptMessages(messages, activePath)
+//
+// Exports used by:
+// - src/app/transcripts/page.tsx
+// - src/app/notes/page.tsx
+// - src/components/transcripts/hooks/saveTranscript.ts (toTranscriptMessages)
+// - src/components/transcripts/hooks/useDraft.ts (both: autosave and resume)
+//
+// Nuances:
+// - Saved ids and parents are kept so branches survive a reload; transcripts saved before
+//   branching get fresh ids and are linked in order by useChat.
+// - Deleted messages are saved in place with `deletedAt`, so restoring one from the trash only
+//   clears the flag. In the chat they live outside the tree (DeletedMessage): toChatMessages
+//   takes them out in the order they were deleted and toTranscriptMessages puts them back in
+//   reverse, which reproduces the saved tree exactly.
+
+import { removeNode, restoreNode } from "~/lib/utils/messageTree";
+import type {
+  DeletedMessage,
+  Message,
+  TranscriptMessage,
+} from "~/types/message";
+
+/**
+ * toChatMessages
+ *
+ * Converts saved transcript messages into the chat's Message[] tree plus the ids of the
+ * branch that was active when saving and the messages that were deleted (oldest first).
+ */
+export function toChatMessages(messages: TranscriptMessage[]) {
+  const msgs: Message[] = messages.map((msg) => ({
+    id: msg.id ?? crypto.randomUUID(),
+    text: msg.content,
+    type: msg.role,
+    ...(msg.parentId !== undefined ? { parentId: msg.parentId } : {}),
+    ...(msg.responder ? { responder: msg.responder } : {}),
+    createdAt: msg.createdAt ? new Date(msg.createdAt) : new Date(),
+    usage: msg.usage ?? {},
+    ...(msg.citations?.length ? { citations: msg.citations } : {}),
+  }));
+  const activeIds = msgs
+    .filter((_, i) => messages[i]?.active !== false)
+    .map((m) => m.id);
+
+  const deletedAt = new Map(
+    msgs.flatMap((m, i) => {
+      const at = messages[i]?.deletedAt;
+      return at ? [[m.id, at] as const] : [];
+    }),
+  );
+  const deleted: DeletedMessage[] = [];
+  let tree = msgs;
+  for (const [id, at] of [...deletedAt].sort((a, b) =>
+    a[1].localeCompare(b[1]),
+  )) {
+    const index = tree.findIndex((m) => m.id === id);
+    deleted.push({
+      message: tree[index]!,
+      index,
+      childIds: tree.filter((m) => m.parentId === id).map((m) => m.id),
+      deletedAt: at,
+    });
+    tree = removeNode(tree, id);
+  }
+
+  return {
+    messages: tree,
+    activeIds: activeIds.filter((id) => !deletedAt.has(id)),
+    deleted,
+  };
+}
+
+/**
+ * toTranscriptMessages
+ *
+ * Converts the chat's message tree into saved transcript messages. All branches are kept;
+ * `active` marks the messages of activePath (the thread on screen), and the chat's deleted
+ * messages go back in place with `deletedAt`.
+ */
+export function toTranscriptMessages(
+  messages: Message[],
+  activePath: Message[] = messages,
+  deleted: DeletedMessage[] = [],
+): TranscriptMessage[] {
+  const activeIds = new Set(activePath.map((m) => m.id));
+  const deletedAt = new Map(deleted.map((d) => [d.message.id, d.deletedAt]));
+  const tree = deleted.reduceRight(
+    (nodes, d) => restoreNode(nodes, d.message, d.index, d.childIds),
+    messages,
+  );
+  return tree.map((m) => ({
+    id: m.id,
+    parentId: m.parentId ?? null,
+    role: m.type,
+    content: m.text,
+    createdAt: m.createdAt ? new Date(m.createdAt).toISOString() : undefined,
+    ...(m.responder ? { responder: m.responder } : {}),
+    ...(m.usage && Object.keys(m.usage).length ? { usage: m.usage } : {}),
+    ...(m.citations?.length ? { citations: m.citations } : {}),
+    active: activeIds.has(m.id),
+    ...(deletedAt.has(m.id) ? { deletedAt: deletedAt.get(m.id) } : {}),
+  }));
+}
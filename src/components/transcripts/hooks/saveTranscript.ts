@@ -3,7 +3,7 @@
 Summary:
   Hook that provides a simple API to save a transcript (title + messages) to the backend,
   and exposes local UI state used by pages/components (a transient save toast and the
-  current transcript name).
+  id and name of the transcript the chat was saved as or reloaded from).
 
 Imports to:
   - This file is imported by pages and components that save transcripts:
@@ -21,58 +21,108 @@ Exports used by:
   - SaveTranscriptModal (via parent components that wire the hook into the modal)
 
 Nuances:
-  - The hook calls POST /api/transcript/save and expects a 2xx response. On non-ok responses
-    it reads the response body and surfaces an error by returning false.
-  - Messages are mapped from the local runtime Message shape to the backend payload:
-    { role, content, createdAt }.
-  - The hook manages only local UI state (toastVisible, currentTranscriptName) and does not
-    perform any rendering itself. Callers are responsible for displaying toasts or other UI.
-  - The hook returns setCurrentTranscriptName to allow callers to preset the title when needed.
+  - The hook calls POST /api/transcript/save and expects a 2xx response. On other non-ok
+    responses it reads the response body and surfaces an error by returning "failed".
+  - Messages are mapped from the local runtime Message shape to the backend payload
+    (TranscriptMessage, via toTranscriptMessages): { id, parentId, role, content, createdAt,
+    responder, usage, active }.
+    All branches of the message tree are saved; `active` marks the messages of activePath
+    (the thread on screen), which defaults to the whole list for linear conversations.
+    Messages deleted in the chat (`deleted`) are saved too, flagged with deletedAt, so they
+    can be restored from the trash on the transcripts page.
+  - `responder` (the selected responder) is stored with the transcript so the transcripts
+    page can filter by it.
+  - Saving updates the transcript in currentTranscriptId (the server keeps the previous
+    content as a version) unless `asNew` is passed or no transcript is current, in which case
+    a new transcript is created and becomes current. If the current transcript no longer
+    exists the chat is saved as a new one.
+  - Updates send currentTranscriptVersion, the version the chat last loaded or saved. When
+    the transcript was saved elsewhere since (another tab, a restored version), the server
+    answers 409 and the save resolves "conflict" without writing; the caller can offer
+    "Save as new". With no known version (e.g. a resumed draft) the server still rejects a
+    save that races another one.
+  - The hook manages only local UI state (toastVisible, currentTranscriptId,
+    currentTranscriptName, currentTranscriptVersion) and does not perform any rendering
+    itself. Callers are responsible for displaying toasts or other UI.
+  - The hook returns setCurrentTranscriptId / setCurrentTranscriptName /
+    setCurrentTranscriptVersion to allow callers to preset them when a transcript is reloaded.
 
 */
 "use client";
 
 import { useState, useCallback } from "react";
-import type { Message } from "../../../types/message";
+import type { DeletedMessage, Message } from "../../../types/message";
+import { toTranscriptMessages } from "../helpers/restore";
+
+// Outcome of a save: written, rejected because the transcript changed elsewhere, or failed.
+export type SaveResult = "saved" | "conflict" | "failed";
 
 export function useSaveTranscript() {
   const [toastVisible, setToastVisible] = useState(false);
   const [currentTranscriptName, setCurrentTranscriptName] = useState("");
+  const [currentTranscriptId, setCurrentTranscriptId] = useState("");
+  const [currentTranscriptVersion, setCurrentTranscriptVersion] = useState<
+    number | undefined
+  >();
 
   const handleSaveTranscript = useCallback(
-    async (title: string, messages: Message[] = []) => {
-      try {
-        const response = await fetch("/api/transcript/save", {
+    async (
+      title: string,
+      messages: Message[] = [],
+      activePath: Message[] = messages,
+      responder?: string,
+      asNew = false,
+      deleted: DeletedMessage[] = [],
+    ): Promise<SaveResult> => {
+      const save = (id?: string) =>
+        fetch("/api/transcript/save", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             title: title,
-            messages: messages.map((m) => ({
-              role: m.type,
-              content: m.text,
-              createdAt: m.createdAt,
-            })),
+            ...(responder ? { responder } : {}),
+            ...(id ? { id } : {}),
+            ...(id && currentTranscriptVersion !== undefined
+              ? { version: currentTranscriptVersion }
+              : {}),
+            messages: toTranscriptMessages(messages, activePath, deleted),
           }),
         });
 
+      try {
+        const id = asNew ? undefined : currentTranscriptId || undefined;
+        let response = await save(id);
+        if (id && response.status === 404) response = await save();
+        if (response.status === 409) return "conflict";
+
         if (!response.ok) {
           const errorText = await response.text();
           throw new Error(`Failed to save transcript: ${errorText}`);
         }
 
+        const saved = (await response.json()) as {
+          id: string;
+          version: number;
+        };
+        setCurrentTranscriptId(saved.id);
+        setCurrentTranscriptVersion(saved.version);
         setCurrentTranscriptName(title);
         setToastVisible(true);
         setTimeout(() => setToastVisible(false), 3000);
-        return true;
+        return "saved";
       } catch {
-        return false;
+        return "failed";
       }
     },
-    [],
+    [currentTranscriptId, currentTranscriptVersion],
   );
 
   return {
     toastVisible,
+    currentTranscriptId,
+    setCurrentTranscriptId,
+    currentTranscriptVersion,
+    setCurrentTranscriptVersion,
     currentTranscriptName,
     setCurrentTranscriptName,
     handleSaveTranscript,
@@ -0,0 +1,143 @@
+// src/components/transcripts/hooks/useDraft.ts
+//
+// Summary:
+// useDraft keeps the chat's autosaved draft: after each turn the conversation on screen is
+// stored server-side (PUT /api/transcripts/draft) so it survives a reload, and the latest
+// draft can be loaded (GET /api/transcripts/draft) to resume it on /chat.
+//
+// Imports to:
+// - src/components/chat/hooks/useChat.ts
+//
+// Exports:
+// - useDraft (named export)
+// - Draft (type)
+//
+// Exports used by:
+// - src/components/chat/hooks/useChat.ts (autosave when a reply finishes, resume banner)
+//
+// Nuances:
+// - The draft id is generated on the first autosave of a chat session and reused for every
+//   later autosave, so a session maps to one draft row. resumeDraft adopts the id of the
+//   resumed draft; startNewDraft forgets the id (e.g. after a transcript was reloaded).
+// - draftTitle is the name the server gave the draft (LLM-generated, or the title that was
+//   sent along); the chat page offers it as the default in the save dialog.
+// - Autosave failures are logged and otherwise ignored: the chat keeps working and the next
+//   turn tries again.
+
+"use client";
+
+import { useState, useCallback, useRef } from "react";
+import type {
+  DeletedMessage,
+  Message,
+  TranscriptMessage,
+} from "../../../types/message";
+import { toTranscriptMessages } from "../helpers/restore";
+
+export type Draft = {
+  id: string;
+  title: string;
+  responder: string | null;
+  updated_at: string;
+  messages: TranscriptMessage[] | null;
+  // Saved transcript the drafted chat updates, if it was saved or reloaded.
+  transcript_id: string | null;
+};
+
+/**
+ * useDraft
+ *
+ * Returns:
+ * - draftTitle: server-given name of the current draft ("" until the first autosave)
+ * - autosaveDraft(messages, activePath, { responder?, title?, transcriptId?, deleted? }):
+ *   store the conversation, with the messages deleted in the chat
+ * - fetchLatestDraft(): the most recent draft with its messages, or null
+ * - resumeDraft(draft): continue autosaving into a loaded draft
+ * - startNewDraft(): autosave the next turn into a new draft
+ */
+export function useDraft() {
+  const draftIdRef = useRef<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  /**
+   * autosaveDraft
+   *
+   * Stores the whole message tree (all branches, `active` marking activePath) in the
+   * session's draft. `title` overrides the generated name, e.g. for a reloaded transcript;
+   * `transcriptId` remembers which saved transcript the chat updates.
+   */
+  const autosaveDraft = useCallback(
+    async (
+      messages: Message[],
+      activePath: Message[] = messages,
+      {
+        responder,
+        title,
+        transcriptId,
+        deleted,
+      }: {
+        responder?: string;
+        title?: string;
+        transcriptId?: string;
+        deleted?: DeletedMessage[];
+      } = {},
+    ) => {
+      if (!messages.length) return;
+      draftIdRef.current ??= crypto.randomUUID();
+      try {
+        const response = await fetch("/api/transcripts/draft", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            id: draftIdRef.current,
+            messages: toTranscriptMessages(messages, activePath, deleted),
+            ...(responder ? { responder } : {}),
+            ...(title ? { title } : {}),
+            ...(transcriptId ? { transcript_id: transcriptId } : {}),
+          }),
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const saved = (await response.json()) as { title: string };
+        setDraftTitle(saved.title);
+      } catch (error) {
+        console.error("Failed to autosave draft:", error);
+      }
+    },
+    [],
+  );
+
+  /**
+   * fetchLatestDraft
+   *
+   * Loads the user's most recently updated draft. Returns null when there is none or the
+   * request fails.
+   */
+  const fetchLatestDraft = useCallback(async () => {
+    try {
+      const response = await fetch("/api/transcripts/draft");
+      if (!response.ok) return null;
+      return (await response.json()) as Draft;
+    } catch (error) {
+      console.error("Failed to fetch draft:", error);
+      return null;
+    }
+  }, []);
+
+  const resumeDraft = useCallback((draft: Pick<Draft, "id" | "title">) => {
+    draftIdRef.current = draft.id;
+    setDraftTitle(draft.title);
+  }, []);
+
+  const startNewDraft = useCallback(() => {
+    draftIdRef.current = null;
+    setDraftTitle("");
+  }, []);
+
+  return {
+    draftTitle,
+    autosaveDraft,
+    fetchLatestDraft,
+    resumeDraft,
+    startNewDraft,
+  };
+}
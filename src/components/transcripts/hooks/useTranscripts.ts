@@ -1,10 +1,10 @@
 // src/components/transcripts/hooks/useTranscripts.ts
 //
 // Summary:
-// useTranscripts is a React client-side hook that encapsulates fetching, searching,
-// filtering, and deleting saved transcript records. It provides the UI layer with
-// an up-to-date list of transcripts, a filtered view based on a search query,
-// and convenience handlers to refresh and remove transcripts via the server API.
+// useTranscripts is a React client-side hook that encapsulates searching, filtering,
+// paging and deleting saved transcript records. Search, filters and sorting run on the
+// server (/api/transcripts); the hook holds the loaded pages of lightweight summaries and
+// loads the next page on demand (infinite scroll).
 //
 // Imports to:
 // - This hook is used by UI pages and components that list or operate on transcripts,
@@ -12,124 +12,386 @@
 //   src/components/transcripts/ that need transcript data.
 //
 // Exports:
-// - export function useTranscripts(): A hook returning transcripts, filtered results,
-//   loading state, and handlers: onSearchChange, fetchTranscripts, deleteTranscript.
+// - export function useTranscripts(): A hook returning the loaded summaries, the current
+//   filters, loading/paging state and handlers: onFiltersChange, loadMore,
+//   fetchTranscripts, fetchTranscript, importTranscripts, summarizeTranscript,
+//   fetchVersions, fetchVersion, restoreVersion, deleteTranscript, restoreTranscript,
+//   restoreMessage, fetchTrash, purgeTranscripts.
+// - TranscriptFilters, TranscriptSort, ImportOptions, ImportResult, TranscriptDetail,
+//   TranscriptVersion, TranscriptVersions, TrashedTranscript, TrashedMessage, Trash (types)
 //
 // Exports used by:
 // - src/app/transcripts/page.tsx (TranscriptPage) — wires the hook to the transcript UI.
 // - src/components/transcripts/TranscriptList.tsx (indirectly via the page).
 //
 // Nuances:
-// - The hook performs client-side filtering; it fetches the full transcript list from
-//   /api/transcripts and then filters in-memory. For large transcript datasets, consider
-//   server-side search/pagination in the future.
-// - fetchTranscripts is memoized with useCallback to avoid unnecessary re-fetches when
-//   passed to useEffect or children.
+// - Filter changes are debounced (SEARCH_DEBOUNCE_MS) and restart from the first page;
+//   responses of superseded requests are dropped (requestIdRef) so fast typing never shows
+//   stale results.
+// - Summaries carry no messages; fetchTranscript loads one full transcript (messages
+//   included) from /api/transcripts/[id] when it is reloaded into the chat.
+// - importTranscripts posts an uploaded export to /api/transcripts/import and reloads the first
+//   page; it throws with the server's error message so the import modal can show it.
+// - summarizeTranscript asks /api/transcripts/[id]/summarize for study notes; the note is
+//   created server-side and returned (null on failure). It can take a while for long
+//   transcripts since they are summarized in parts.
+// - fetchVersions / fetchVersion read a transcript's version history for the history modal;
+//   restoreVersion makes an earlier version current (the server keeps the replaced content as
+//   another version) and reloads the first page.
+// - searchTerms are the terms the server matched, for highlighting hits in the list.
 // - deleteTranscript sets isLoading while performing the delete operation and returns a
 //   boolean indicating the server response success. Consumers should rely on the returned
-//   promise to provide UI feedback.
+//   promise to provide UI feedback. Deleting only moves the transcript to the trash:
+//   restoreTranscript brings it back (the "Undo" toast and the trash view), fetchTrash lists
+//   the trash and purgeTranscripts deletes trashed transcripts for good. The trash also holds
+//   the messages deleted in the chat from saved transcripts: restoreMessage puts one back
+//   (a new version of its transcript) and purgeTranscripts takes them along.
 // - This module intentionally keeps side effects minimal and exposes explicit handlers so
 //   pages/components can orchestrate confirmation flows and toasts as needed.
 
 // "use client" is required so this hook can use browser APIs and React client-side hooks.
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { TranscriptRecord } from "../TranscriptList";
+import type { TranscriptMessage } from "~/types/message";
+import type { Note } from "~/components/notes/hooks/useNotes";
 
-type Message = {
-  role: "user" | "assistant";
-  content: string;
+const SEARCH_DEBOUNCE_MS = 300;
+const PAGE_SIZE = 20;
+
+export type TranscriptSort =
+  | "updated_desc"
+  | "updated_asc"
+  | "created_desc"
+  | "created_asc"
+  | "title_asc"
+  | "title_desc";
+
+export type TranscriptFilters = {
+  query: string;
+  responder: string;
+  // yyyy-mm-dd (local dates from <input type="date">); empty for no bound.
+  from: string;
+  to: string;
+  sort: TranscriptSort;
 };
 
-type TranscriptRecord = {
+type TranscriptPage = {
+  items: TranscriptRecord[];
+  nextCursor: string | null;
+};
+
+export type ImportOptions = {
+  // Parsed JSON of the uploaded export file.
+  data: unknown;
+  // Names a generic { role, content }[] import (the file name).
+  title: string;
+  responder?: string;
+  // Ask for the imported active threads back, to seed the responder's memory.
+  remember?: boolean;
+};
+
+export type ImportResult = {
+  format: "openai" | "claude" | "generic";
+  imported: number;
+  skipped: number;
+  transcripts: { id: string; title: string }[];
+  messages?: { id: string; text: string; type: "user" | "assistant" }[];
+};
+
+export type TranscriptDetail = {
   id: string;
   title: string;
-  responder: string;
+  version: number;
+  messages: TranscriptMessage[] | null;
+};
+
+export type TranscriptVersion = {
+  version: number;
+  title: string;
+  message_count: number;
+  // When this version was saved (for the current version: its last update).
   created_at: string;
-  updated_at: string;
-  messages: Message[];
+};
+
+export type TranscriptVersions = {
+  current: TranscriptVersion;
+  versions: TranscriptVersion[];
+};
+
+export type TrashedTranscript = TranscriptRecord & {
+  deleted_at: string;
+  // When the server purges it (deleted_at + the retention window).
+  purge_at: string;
+};
+
+// Message deleted in the chat from a saved transcript.
+export type TrashedMessage = {
+  id: string;
+  transcript_id: string;
+  transcript_title: string;
+  role: "user" | "assistant";
+  // Start of the message text.
+  preview: string;
+  deleted_at: string;
+  purge_at: string;
+};
+
+export type Trash = {
+  items: TrashedTranscript[];
+  messages: TrashedMessage[];
+  retention_days: number;
+};
+
+const DEFAULT_FILTERS: TranscriptFilters = {
+  query: "",
+  responder: "",
+  from: "",
+  to: "",
+  sort: "updated_desc",
 };
 
+/**
+ * buildQuery
+ *
+ * Translates filters into /api/transcripts query parameters. Date bounds cover whole local
+ * days (from 00:00 to 23:59:59.999).
+ */
+function buildQuery(filters: TranscriptFilters, cursor: string | null) {
+  const [sort, order] = filters.sort.split("_") as [string, string];
+  const params = new URLSearchParams({
+    sort,
+    order,
+    limit: String(PAGE_SIZE),
+  });
+  if (filters.query.trim()) params.set("q", filters.query.trim());
+  if (filters.responder) params.set("responder", filters.responder);
+  if (filters.from) {
+    params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  }
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
 /**
  * useTranscripts
  *
  * Primary hook exported by this module.
  *
  * Responsibilities:
- * - Hold the complete list of transcripts and a derived filtered list.
- * - Provide a search handler that updates the filtered list based on a query.
+ * - Hold the loaded transcript summaries and the active filters.
+ * - Re-query the server when filters change and append pages on loadMore.
  * - Provide fetch and delete handlers that interact with server APIs.
  *
  * Returns:
- * - transcripts: full list of fetched transcripts
- * - searchQuery: current search text
- * - filteredTranscripts: in-memory filtered list matching searchQuery
+ * - transcripts: loaded summaries (all pages so far)
+ * - filters / onFiltersChange: current filters and a partial updater
+ * - searchTerms: terms of the current search, for highlighting
  * - isLoading: boolean indicating fetch/delete activity
- * - onSearchChange: handler to update searchQuery and filteredTranscripts
- * - fetchTranscripts: explicit handler to re-fetch the transcript list from the server
+ * - hasMore / loadMore: whether another page exists and a handler to load it
+ * - fetchTranscripts: re-fetch the first page with the current filters
+ * - fetchTranscript: load one transcript with its messages (null on failure)
+ * - importTranscripts: import an exported conversation file (throws on failure)
+ * - summarizeTranscript: generate study notes for a transcript (the created note, or null)
+ * - fetchVersions / fetchVersion: version history and one earlier version (null on failure)
+ * - restoreVersion: make an earlier version current (returns boolean success)
  * - deleteTranscript: handler to delete a transcript by id (returns boolean success)
  */
 export function useTranscripts() {
   const [transcripts, setTranscripts] = useState<TranscriptRecord[]>([]);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [filteredTranscripts, setFilteredTranscripts] = useState<
-    TranscriptRecord[]
-  >([]);
+  const [filters, setFilters] = useState<TranscriptFilters>(DEFAULT_FILTERS);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const requestIdRef = useRef(0);
 
   /**
-   * fetchTranscripts
+   * fetchPage
    *
-   * Fetch the full list of transcripts from the server and populate both the
-   * transcripts and filteredTranscripts state. Memoized so it can safely be used
-   * as a stable dependency in effects or passed to child components.
+   * Loads the page after `cursor` (the first page for null) and replaces or extends the
+   * list. Ignores the response if a newer request was started meanwhile.
    */
-  const fetchTranscripts = useCallback(async () => {
-    setIsLoading(true);
+  const fetchPage = useCallback(
+    async (current: TranscriptFilters, cursor: string | null) => {
+      const requestId = ++requestIdRef.current;
+      setIsLoading(true);
+      try {
+        const response = await fetch(
+          `/api/transcripts?${buildQuery(current, cursor)}`,
+        );
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data = (await response.json()) as TranscriptPage;
+        if (requestId !== requestIdRef.current) return;
+        setTranscripts((prev) =>
+          cursor ? [...prev, ...data.items] : data.items,
+        );
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        console.error("Failed to fetch transcripts:", error);
+      } finally {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      }
+    },
+    [],
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => void fetchPage(filters, null),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [filters, fetchPage]);
+
+  const onFiltersChange = useCallback((changes: Partial<TranscriptFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || isLoading) return;
+    void fetchPage(filters, nextCursor);
+  }, [nextCursor, isLoading, filters, fetchPage]);
+
+  const fetchTranscripts = useCallback(
+    () => fetchPage(filters, null),
+    [filters, fetchPage],
+  );
+
+  /**
+   * fetchTranscript
+   *
+   * Loads a single transcript including its messages. Returns null when the request fails.
+   */
+  const fetchTranscript = useCallback(async (id: string) => {
     try {
-      const response = await fetch("/api/transcripts");
-      const data = (await response.json()) as TranscriptRecord[];
-      setTranscripts(() => [...data]);
-      setFilteredTranscripts(() => [...data]);
+      const response = await fetch(`/api/transcripts/${id}`);
+      if (!response.ok) return null;
+      return (await response.json()) as TranscriptDetail;
     } catch (error) {
-      console.error("Failed to fetch transcripts:", error);
-    } finally {
-      setIsLoading(false);
+      console.error("Failed to fetch transcript:", error);
+      return null;
     }
   }, []);
 
-  useEffect(() => {
-    void fetchTranscripts();
-  }, [fetchTranscripts]);
+  /**
+   * importTranscripts
+   *
+   * Imports the conversations of an export file and refreshes the list. Throws an Error with
+   * the server's message when the import is rejected.
+   */
+  const importTranscripts = useCallback(
+    async (options: ImportOptions) => {
+      const response = await fetch("/api/transcripts/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(options),
+      });
+      const result = (await response.json().catch(() => ({}))) as
+        | ImportResult
+        | { error?: string };
+      if (!response.ok || !("imported" in result)) {
+        throw new Error(
+          "error" in result && result.error ? result.error : "Import failed",
+        );
+      }
+      void fetchPage(filters, null);
+      return result;
+    },
+    [filters, fetchPage],
+  );
 
   /**
-   * onSearchChange
+   * summarizeTranscript
    *
-   * Update the searchQuery and refresh filteredTranscripts using a case-insensitive
-   * match against transcript title and message contents. Runs synchronously and
-   * derives the filtered array from the current transcripts state.
+   * Has the given responder (the transcript's own when omitted) summarize a transcript into
+   * a note. Returns the created note, or null when summarizing failed.
    */
-  const onSearchChange = useCallback(
-    (query: string) => {
-      setSearchQuery(query);
-      setFilteredTranscripts(
-        transcripts.filter(
-          (t) =>
-            t.title.toLowerCase().includes(query.toLowerCase()) ||
-            t.messages.some((m) =>
-              m.content.toLowerCase().includes(query.toLowerCase()),
-            ),
-        ),
+  const summarizeTranscript = useCallback(
+    async (id: string, responder?: string) => {
+      try {
+        const response = await fetch(`/api/transcripts/${id}/summarize`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(responder ? { responder } : {}),
+        });
+        if (!response.ok) return null;
+        return (await response.json()) as Note;
+      } catch (error) {
+        console.error("Failed to summarize transcript:", error);
+        return null;
+      }
+    },
+    [],
+  );
+
+  /**
+   * fetchVersions
+   *
+   * Loads the current version and the earlier versions (newest first) of a transcript.
+   * Returns null when the request fails.
+   */
+  const fetchVersions = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/transcripts/${id}/versions`);
+      if (!response.ok) return null;
+      return (await response.json()) as TranscriptVersions;
+    } catch (error) {
+      console.error("Failed to fetch versions:", error);
+      return null;
+    }
+  }, []);
+
+  /**
+   * fetchVersion
+   *
+   * Loads one earlier version of a transcript with its messages. Returns null on failure.
+   */
+  const fetchVersion = useCallback(async (id: string, version: number) => {
+    try {
+      const response = await fetch(
+        `/api/transcripts/${id}/versions/${version}`,
       );
+      if (!response.ok) return null;
+      return (await response.json()) as TranscriptVersion & {
+        messages: TranscriptMessage[] | null;
+      };
+    } catch (error) {
+      console.error("Failed to fetch version:", error);
+      return null;
+    }
+  }, []);
+
+  /**
+   * restoreVersion
+   *
+   * Makes an earlier version the transcript's current content and refreshes the list.
+   * Returns true when the server responds with ok, otherwise false.
+   */
+  const restoreVersion = useCallback(
+    async (id: string, version: number) => {
+      try {
+        const response = await fetch(
+          `/api/transcripts/${id}/versions/${version}`,
+          { method: "POST" },
+        );
+        if (response.ok) void fetchPage(filters, null);
+        return response.ok;
+      } catch (error) {
+        console.error("Failed to restore version:", error);
+        return false;
+      }
     },
-    [transcripts],
+    [filters, fetchPage],
   );
 
   /**
    * deleteTranscript
    *
    * Delete a transcript by id via the API. While deleting, sets isLoading and,
-   * on success, removes the transcript from both transcripts and filteredTranscripts.
+   * on success, removes the transcript from the loaded list.
    * Returns true when the server responds with ok, otherwise false.
    */
   const deleteTranscript = useCallback(async (id: string) => {
@@ -140,7 +402,6 @@ export function useTranscripts() {
       });
       if (response.ok) {
         setTranscripts((prev) => prev.filter((t) => t.id !== id));
-        setFilteredTranscripts((prev) => prev.filter((t) => t.id !== id));
       }
       return response.ok;
     } catch (error) {
@@ -151,13 +412,126 @@ export function useTranscripts() {
     }
   }, []);
 
+  /**
+   * restoreTranscript
+   *
+   * Takes a transcript out of the trash and refreshes the list.
+   * Returns true when the server responds with ok, otherwise false.
+   */
+  const restoreTranscript = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`/api/transcripts/${id}/restore`, {
+          method: "POST",
+        });
+        if (response.ok) void fetchPage(filters, null);
+        return response.ok;
+      } catch (error) {
+        console.error("Failed to restore transcript:", error);
+        return false;
+      }
+    },
+    [filters, fetchPage],
+  );
+
+  /**
+   * restoreMessage
+   *
+   * Puts a deleted message back into its transcript and refreshes the list.
+   * Returns true when the server responds with ok, otherwise false.
+   */
+  const restoreMessage = useCallback(
+    async (transcriptId: string, messageId: string) => {
+      try {
+        const response = await fetch(
+          `/api/transcripts/${transcriptId}/restore`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ message_id: messageId }),
+          },
+        );
+        if (response.ok) void fetchPage(filters, null);
+        return response.ok;
+      } catch (error) {
+        console.error("Failed to restore message:", error);
+        return false;
+      }
+    },
+    [filters, fetchPage],
+  );
+
+  /**
+   * fetchTrash
+   *
+   * Loads the trashed transcripts and deleted messages, most recently deleted first. Returns
+   * null on failure.
+   */
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch("/api/transcripts/trash");
+      if (!response.ok) return null;
+      return (await response.json()) as Trash;
+    } catch (error) {
+      console.error("Failed to fetch trash:", error);
+      return null;
+    }
+  }, []);
+
+  /**
+   * purgeTranscripts
+   *
+   * Permanently deletes the given trashed transcripts and deleted messages, or the whole trash
+   * when neither is given. Returns the number of items purged, or null on failure.
+   */
+  const purgeTranscripts = useCallback(
+    async (
+      ids: string[] = [],
+      messages: Pick<TrashedMessage, "transcript_id" | "id">[] = [],
+    ) => {
+      const params = new URLSearchParams([
+        ...ids.map((id) => ["id", id]),
+        ...messages.map((m) => ["message", `${m.transcript_id}/${m.id}`]),
+      ]);
+      try {
+        const response = await fetch(`/api/transcripts/trash?${params}`, {
+          method: "DELETE",
+        });
+        if (!response.ok) return null;
+        const purged = (await response.json()) as {
+          purged: number;
+          purged_messages: number;
+        };
+        return purged.purged + purged.purged_messages;
+      } catch (error) {
+        console.error("Failed to purge trash:", error);
+        return null;
+      }
+    },
+    [],
+  );
+
+  const searchTerms = filters.query.split(/\s+/).filter(Boolean);
+
   return {
     transcripts,
-    searchQuery,
-    filteredTranscripts,
+    filters,
+    searchTerms,
     isLoading,
-    onSearchChange,
+    hasMore: nextCursor !== null,
+    onFiltersChange,
+    loadMore,
     fetchTranscripts,
+    fetchTranscript,
+    importTranscripts,
+    summarizeTranscript,
+    fetchVersions,
+    fetchVersion,
+    restoreVersion,
     deleteTranscript,
+    restoreTranscript,
+    restoreMessage,
+    fetchTrash,
+    purgeTranscripts,
   };
 }
@@ -0,0 +1,216 @@
+// src/components/transcripts/modals/ImportTranscriptsModal.tsx
+/*
+Summary:
+ImportTranscriptsModal lets the user pick a conversation export (ChatGPT or Claude
+`conversations.json`, or a plain `{ role, content }[]` JSON file), choose the responder the
+imported transcripts belong to and, optionally, seed that responder's memory with them. The
+file is parsed in the browser and handed to the `onImport` callback; the modal shows the
+outcome (imported / skipped counts) or the error.
+
+Imports to:
+- src/app/transcripts/page.tsx
+
+Exports:
+- Named export: ImportTranscriptsModal (React component)
+
+Exports used by:
+- src/app/transcripts/page.tsx (Import button on the transcripts page)
+
+Nuances:
+- Format detection and validation happen on the server; the modal only checks that the file
+  is valid JSON. The file name (without extension) names a generic import.
+- Seeding memory requires a responder and replaces that responder's current memory (the
+  reRemember path clears it first); the checkbox says so.
+- State is reset every time the modal opens.
+*/
+
+import { useState, useEffect } from "react";
+import type { ImportOptions, ImportResult } from "../hooks/useTranscripts";
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  onImport: (options: ImportOptions) => Promise<ImportResult>;
+  responderNames: string[];
+};
+
+const FORMAT_LABELS: Record<ImportResult["format"], string> = {
+  openai: "ChatGPT export",
+  claude: "Claude export",
+  generic: "JSON messages",
+};
+
+/**
+ * ImportTranscriptsModal
+ *
+ * Renders the import form and the result of the last import.
+ *
+ * Props:
+ * - open: controls visibility. When false the component returns null.
+ * - onClose: callback to dismiss the modal.
+ * - onImport: performs the import; rejects with an Error whose message is shown.
+ * - responderNames: responders offered for the imported transcripts.
+ */
+export function ImportTranscriptsModal({
+  open,
+  onClose,
+  onImport,
+  responderNames,
+}: Props) {
+  const [file, setFile] = useState<File | null>(null);
+  const [responder, setResponder] = useState("");
+  const [remember, setRemember] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setResponder("");
+      setRemember(false);
+      setError(null);
+      setResult(null);
+    }
+  }, [open]);
+
+  /**
+   * handleImport
+   *
+   * Reads and parses the chosen file, then forwards it to `onImport`.
+   */
+  const handleImport = async () => {
+    if (!file) return;
+    setError(null);
+    setResult(null);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setError("The file is not valid JSON");
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      setResult(
+        await onImport({
+          data,
+          title: file.name.replace(/\.json$/i, ""),
+          ...(responder && { responder }),
+          remember: remember && !!responder,
+        }),
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="bg-opacity-50 fixed inset-0 z-50 flex items-center justify-center bg-black">
+      <div
+        className="w-full max-w-md rounded-lg p-6"
+        style={{
+          backgroundColor: "rgb(var(--background))",
+          color: "rgb(var(--foreground))",
+        }}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold">Import Conversations</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            ✕
+          </button>
+        </div>
+
+        <p className="mb-3 text-sm opacity-70">
+          ChatGPT or Claude <code>conversations.json</code>, or a JSON array of{" "}
+          <code>{"{ role, content }"}</code> messages.
+        </p>
+
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="mb-4 w-full text-sm"
+        />
+
+        <select
+          value={responder}
+          onChange={(e) => setResponder(e.target.value)}
+          className="mb-3 w-full rounded border p-2"
+          style={{
+            backgroundColor: "rgb(var(--input-bg))",
+            color: "rgb(var(--foreground))",
+            borderColor: "rgba(var(--secondary), 0.2)",
+          }}
+          aria-label="Responder"
+        >
+          <option value="">No responder</option>
+          {responderNames.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+
+        <label
+          className={`mb-4 flex items-start gap-2 text-sm ${
+            responder ? "" : "opacity-50"
+          }`}
+        >
+          <input
+            type="checkbox"
+            checked={remember && !!responder}
+            disabled={!responder}
+            onChange={(e) => setRemember(e.target.checked)}
+            className="mt-1"
+          />
+          <span>
+            Seed memory with the imported conversations (replaces{" "}
+            {responder || "the responder"}&apos;s current memory)
+          </span>
+        </label>
+
+        {error && <div className="mb-4 text-sm text-red-500">{error}</div>}
+        {result && (
+          <div className="mb-4 text-sm">
+            {FORMAT_LABELS[result.format]}: imported {result.imported}
+            {result.skipped > 0 && `, skipped ${result.skipped} already saved`}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="rounded px-4 py-2"
+            style={{
+              backgroundColor: "rgba(var(--secondary), 0.1)",
+              color: "rgb(var(--foreground))",
+            }}
+          >
+            {result ? "Close" : "Cancel"}
+          </button>
+          <button
+            onClick={() => void handleImport()}
+            disabled={!file || isImporting}
+            className="rounded px-4 py-2 disabled:opacity-50"
+            style={{
+              backgroundColor: "rgb(var(--primary))",
+              color: "white",
+            }}
+          >
+            {isImporting ? "Importing…" : "Import"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
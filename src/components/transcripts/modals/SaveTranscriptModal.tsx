@@ -25,6 +25,8 @@ Nuances:
 - The `initialTitle` prop is applied when the modal opens; local state is reset every
   time `open` becomes true.
 - When `open` is false the component returns null to avoid rendering any markup.
+- With `canUpdate` (the chat belongs to a saved transcript) the dialog offers "Update", which
+  saves a new version of that transcript, and "Save as new"; otherwise a single "Save".
 */
 
 import { useState, useEffect } from "react";
@@ -32,8 +34,9 @@ import { useState, useEffect } from "react";
 type Props = {
   open: boolean;
   onClose: () => void;
-  onSave: (title: string) => void;
+  onSave: (title: string, asNew: boolean) => void;
   initialTitle?: string;
+  canUpdate?: boolean;
 };
 
 /**
@@ -50,14 +53,16 @@ type Props = {
  * Props:
  * - open: controls visibility. When false the component returns null.
  * - onClose: callback to dismiss the modal.
- * - onSave: callback invoked with the title when the user saves.
+ * - onSave: callback invoked with the title and whether to save as a new transcript.
  * - initialTitle: optional initial title applied when the modal opens.
+ * - canUpdate: whether the chat can be saved as an update of its transcript.
  */
 export function SaveTranscriptModal({
   open,
   onClose,
   onSave,
   initialTitle = "",
+  canUpdate = false,
 }: Props) {
   const [title, setTitle] = useState(initialTitle);
 
@@ -68,9 +73,9 @@ export function SaveTranscriptModal({
    * The modal enforces a non-empty trimmed title; persistence and further
    * validation are left to the `onSave` implementation.
    */
-  const handleSave = () => {
+  const handleSave = (asNew: boolean) => {
     if (title.trim()) {
-      onSave(title);
+      onSave(title, asNew);
       onClose();
     }
   };
@@ -127,8 +132,21 @@ export function SaveTranscriptModal({
           >
             Cancel
           </button>
+          {canUpdate && (
+            <button
+              onClick={() => handleSave(true)}
+              disabled={!title.trim()}
+              className="rounded px-4 py-2 disabled:opacity-50"
+              style={{
+                backgroundColor: "rgba(var(--secondary), 0.1)",
+                color: "rgb(var(--foreground))",
+              }}
+            >
+              Save as new
+            </button>
+          )}
           <button
-            onClick={handleSave}
+            onClick={() => handleSave(!canUpdate)}
             disabled={!title.trim()}
             className="rounded px-4 py-2 disabled:opacity-50"
             style={{
@@ -136,7 +154,7 @@ export function SaveTranscriptModal({
               color: "white",
             }}
           >
-            Save
+            {canUpdate ? "Update" : "Save"}
           </button>
         </div>
       </div>
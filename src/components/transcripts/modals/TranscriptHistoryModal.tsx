@@ -0,0 +1,249 @@
+// src/components/transcripts/modals/TranscriptHistoryModal.tsx
+/*
+Summary:
+TranscriptHistoryModal shows the version history of a saved transcript. The user picks an
+earlier version and sees a message-by-message diff from that version to the current one
+(removed messages in red, added in green), and can restore it.
+
+Imports to:
+- src/app/transcripts/page.tsx
+
+Exports:
+- Named export: TranscriptHistoryModal (React component)
+
+Exports used by:
+- src/app/transcripts/page.tsx (History action on a transcript card)
+
+Nuances:
+- Data access is passed in (the useTranscripts handlers), keeping the modal free of fetch calls.
+- The diff compares active threads only (see helpers/diff.ts). Unchanged messages are shown
+  dimmed and clamped so the changes stand out.
+- Restoring creates a new current version; the modal reloads the history afterwards, so the
+  replaced content appears as the newest earlier version.
+*/
+
+import { useState, useEffect, useCallback } from "react";
+import type {
+  TranscriptDetail,
+  TranscriptVersion,
+  TranscriptVersions,
+} from "../hooks/useTranscripts";
+import type { TranscriptMessage } from "~/types/message";
+import { diffThreads, type DiffLine } from "../helpers/diff";
+
+type Props = {
+  transcript: { id: string; title: string } | null;
+  onClose: () => void;
+  fetchVersions: (id: string) => Promise<TranscriptVersions | null>;
+  fetchVersion: (
+    id: string,
+    version: number,
+  ) => Promise<
+    (TranscriptVersion & { messages: TranscriptMessage[] | null }) | null
+  >;
+  fetchTranscript: (id: string) => Promise<TranscriptDetail | null>;
+  onRestore: (id: string, version: number) => Promise<boolean>;
+};
+
+const LINE_STYLES: Record<DiffLine["kind"], string> = {
+  same: "opacity-60 line-clamp-2",
+  added: "bg-green-500/15",
+  removed: "bg-red-500/15 line-through decoration-red-500/60",
+};
+
+const LINE_MARKS: Record<DiffLine["kind"], string> = {
+  same: " ",
+  added: "+",
+  removed: "−",
+};
+
+/**
+ * TranscriptHistoryModal
+ *
+ * Props:
+ * - transcript: the transcript whose history is shown; null hides the modal.
+ * - onClose: callback to dismiss the modal.
+ * - fetchVersions / fetchVersion / fetchTranscript: loaders from useTranscripts.
+ * - onRestore(id, version): restores a version; resolves to whether it succeeded.
+ */
+export function TranscriptHistoryModal({
+  transcript,
+  onClose,
+  fetchVersions,
+  fetchVersion,
+  fetchTranscript,
+  onRestore,
+}: Props) {
+  const [history, setHistory] = useState<TranscriptVersions | null>(null);
+  const [current, setCurrent] = useState<TranscriptMessage[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [lines, setLines] = useState<DiffLine[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  /**
+   * loadHistory
+   *
+   * Loads the version list and the current messages, and selects the newest earlier version.
+   */
+  const loadHistory = useCallback(
+    async (id: string) => {
+      const [versions, detail] = await Promise.all([
+        fetchVersions(id),
+        fetchTranscript(id),
+      ]);
+      if (!versions || !detail?.messages) {
+        setStatus("Failed to load history");
+        return;
+      }
+      setHistory(versions);
+      setCurrent(detail.messages);
+      setSelected(versions.versions[0]?.version ?? null);
+    },
+    [fetchVersions, fetchTranscript],
+  );
+
+  useEffect(() => {
+    setHistory(null);
+    setSelected(null);
+    setLines([]);
+    setStatus(null);
+    if (transcript) void loadHistory(transcript.id);
+  }, [transcript, loadHistory]);
+
+  useEffect(() => {
+    if (!transcript || selected === null) {
+      setLines([]);
+      return;
+    }
+    let cancelled = false;
+    void fetchVersion(transcript.id, selected).then((version) => {
+      if (cancelled) return;
+      if (!version?.messages) {
+        setStatus("Failed to load version");
+        return;
+      }
+      setLines(diffThreads(version.messages, current));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [transcript, selected, current, fetchVersion]);
+
+  const handleRestore = async () => {
+    if (!transcript || selected === null) return;
+    setIsBusy(true);
+    const restored = await onRestore(transcript.id, selected);
+    setIsBusy(false);
+    setStatus(
+      restored ? `Restored version ${selected}` : "Failed to restore version",
+    );
+    if (restored) await loadHistory(transcript.id);
+  };
+
+  if (!transcript) return null;
+
+  const changes = lines.filter((l) => l.kind !== "same").length;
+
+  return (
+    <div className="bg-opacity-50 fixed inset-0 z-50 flex items-center justify-center bg-black">
+      <div
+        className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-lg p-6"
+        style={{
+          backgroundColor: "rgb(var(--background))",
+          color: "rgb(var(--foreground))",
+        }}
+      >
+        <div className="mb-4 flex items-center justify-between gap-2">
+          <h2 className="truncate text-xl font-bold">
+            History: {transcript.title}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            ✕
+          </button>
+        </div>
+
+        {history && history.versions.length === 0 && (
+          <div className="mb-4 text-sm opacity-70">
+            This transcript has not been changed since it was saved.
+          </div>
+        )}
+
+        {history && history.versions.length > 0 && (
+          <>
+            <select
+              value={selected ?? ""}
+              onChange={(e) => setSelected(Number(e.target.value))}
+              className="mb-2 w-full rounded border p-2"
+              style={{
+                backgroundColor: "rgb(var(--input-bg))",
+                color: "rgb(var(--foreground))",
+                borderColor: "rgba(var(--secondary), 0.2)",
+              }}
+              aria-label="Version"
+            >
+              {history.versions.map((v) => (
+                <option key={v.version} value={v.version}>
+                  Version {v.version} · {v.title} ·{" "}
+                  {new Date(v.created_at).toLocaleString()} · {v.message_count}{" "}
+                  messages
+                </option>
+              ))}
+            </select>
+            <div className="mb-2 text-xs opacity-70">
+              Changes from version {selected} to the current version{" "}
+              {history.current.version}: {changes}
+            </div>
+            <div className="mb-4 min-h-0 flex-1 overflow-y-auto rounded border border-gray-500/20 text-sm">
+              {lines.map((line, index) => (
+                <div
+                  key={index}
+                  className={`flex gap-2 px-2 py-1 whitespace-pre-wrap ${LINE_STYLES[line.kind]}`}
+                >
+                  <span className="w-3 shrink-0 font-mono">
+                    {LINE_MARKS[line.kind]}
+                  </span>
+                  <span className="w-16 shrink-0 font-bold">
+                    {line.role === "user" ? "You" : "AI"}
+                  </span>
+                  <span className="min-w-0 break-words">{line.content}</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {status && <div className="mb-4 text-sm">{status}</div>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="rounded px-4 py-2"
+            style={{
+              backgroundColor: "rgba(var(--secondary), 0.1)",
+              color: "rgb(var(--foreground))",
+            }}
+          >
+            Close
+          </button>
+          {selected !== null && (
+            <button
+              onClick={() => void handleRestore()}
+              disabled={isBusy}
+              className="rounded px-4 py-2 disabled:opacity-50"
+              style={{
+                backgroundColor: "rgb(var(--primary))",
+                color: "white",
+              }}
+            >
+              {isBusy ? "Restoring…" : `Restore version ${selected}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
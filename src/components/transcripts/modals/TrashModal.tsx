@@ -0,0 +1,301 @@
+// src/components/transcripts/modals/TrashModal.tsx
+/*
+Summary:
+TrashModal lists the user's deleted transcripts and the messages deleted in the chat from
+saved transcripts. Each one can be restored, or selected and deleted forever; "Empty trash"
+purges everything at once. Every entry shows when it was deleted and when it will be purged
+automatically.
+
+Imports to:
+- src/app/transcripts/page.tsx
+
+Exports:
+- Named export: TrashModal (React component)
+
+Exports used by:
+- src/app/transcripts/page.tsx (Trash button on the transcripts page)
+
+Nuances:
+- Data access is passed in (the useTranscripts handlers); the list is reloaded every time the
+  modal opens and after each restore or purge.
+- Purging cannot be undone, so both purge actions ask for confirmation inside the modal.
+- Selection keys are transcript ids and "<transcript id>/<message id>" for messages, so both
+  lists share one "Delete selected".
+*/
+
+import { useState, useEffect, useCallback } from "react";
+import type { Trash, TrashedMessage } from "../hooks/useTranscripts";
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  fetchTrash: () => Promise<Trash | null>;
+  onRestore: (id: string) => Promise<boolean>;
+  onRestoreMessage: (
+    transcriptId: string,
+    messageId: string,
+  ) => Promise<boolean>;
+  onPurge: (
+    ids: string[],
+    messages: Pick<TrashedMessage, "transcript_id" | "id">[],
+  ) => Promise<number | null>;
+};
+
+const messageKey = (m: Pick<TrashedMessage, "transcript_id" | "id">) =>
+  `${m.transcript_id}/${m.id}`;
+
+/**
+ * TrashModal
+ *
+ * Props:
+ * - open: whether the modal is visible.
+ * - onClose: callback to dismiss the modal.
+ * - fetchTrash: loads the trashed transcripts and deleted messages.
+ * - onRestore(id): restores one transcript; resolves to whether it succeeded.
+ * - onRestoreMessage(transcriptId, messageId): restores one message; resolves likewise.
+ * - onPurge(ids, messages): purges the given transcripts and messages (all when both are
+ *   empty); resolves to the count or null.
+ */
+export function TrashModal({
+  open,
+  onClose,
+  fetchTrash,
+  onRestore,
+  onRestoreMessage,
+  onPurge,
+}: Props) {
+  const [trash, setTrash] = useState<Trash | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Purge waiting for confirmation: the ids to purge, or "all" for the whole trash.
+  const [pendingPurge, setPendingPurge] = useState<string[] | "all" | null>(
+    null,
+  );
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    const result = await fetchTrash();
+    if (!result) setStatus("Failed to load trash");
+    setTrash(result);
+    setSelected(new Set());
+  }, [fetchTrash]);
+
+  useEffect(() => {
+    if (!open) return;
+    setTrash(null);
+    setPendingPurge(null);
+    setStatus(null);
+    void loadTrash();
+  }, [open, loadTrash]);
+
+  if (!open) return null;
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const handleRestore = async (id: string) => {
+    setIsBusy(true);
+    const restored = await onRestore(id);
+    setIsBusy(false);
+    setStatus(
+      restored ? "Transcript restored" : "Failed to restore transcript",
+    );
+    if (restored) await loadTrash();
+  };
+
+  const handleRestoreMessage = async (message: TrashedMessage) => {
+    setIsBusy(true);
+    const restored = await onRestoreMessage(message.transcript_id, message.id);
+    setIsBusy(false);
+    setStatus(restored ? "Message restored" : "Failed to restore message");
+    if (restored) await loadTrash();
+  };
+
+  const items = trash?.items ?? [];
+  const messages = trash?.messages ?? [];
+
+  const handlePurge = async () => {
+    if (!pendingPurge) return;
+    setIsBusy(true);
+    const purged =
+      pendingPurge === "all"
+        ? await onPurge([], [])
+        : await onPurge(
+            items.filter((t) => pendingPurge.includes(t.id)).map((t) => t.id),
+            messages.filter((m) => pendingPurge.includes(messageKey(m))),
+          );
+    setIsBusy(false);
+    setPendingPurge(null);
+    setStatus(
+      purged === null
+        ? "Failed to delete items"
+        : `Deleted ${purged} item${purged === 1 ? "" : "s"} forever`,
+    );
+    if (purged !== null) await loadTrash();
+  };
+
+  return (
+    <div className="bg-opacity-50 fixed inset-0 z-50 flex items-center justify-center bg-black">
+      <div
+        className="flex max-h-[85vh] w-full max-w-lg flex-col rounded-lg p-6"
+        style={{
+          backgroundColor: "rgb(var(--background))",
+          color: "rgb(var(--foreground))",
+        }}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold">Trash</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            ✕
+          </button>
+        </div>
+
+        {trash && (
+          <div className="mb-2 text-xs opacity-70">
+            Deleted transcripts and messages are removed for good after{" "}
+            {trash.retention_days} days.
+          </div>
+        )}
+
+        {trash && items.length === 0 && messages.length === 0 && (
+          <div className="mb-4 text-sm opacity-70">The trash is empty.</div>
+        )}
+
+        {items.length > 0 && (
+          <ul className="mb-4 min-h-0 flex-1 overflow-y-auto rounded border border-gray-500/20 text-sm">
+            {items.map((item) => (
+              <li
+                key={item.id}
+                className="flex items-center gap-2 border-b border-gray-500/10 px-2 py-2 last:border-b-0"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(item.id)}
+                  onChange={() => toggle(item.id)}
+                  aria-label={`Select ${item.title}`}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-bold">{item.title}</div>
+                  <div className="text-xs opacity-70">
+                    Deleted {new Date(item.deleted_at).toLocaleString()} ·
+                    purged {new Date(item.purge_at).toLocaleDateString()}
+                  </div>
+                </div>
+                <button
+                  onClick={() => void handleRestore(item.id)}
+                  disabled={isBusy}
+                  className="rounded px-2 py-1 text-xs disabled:opacity-50"
+                  style={{
+                    backgroundColor: "rgba(var(--secondary), 0.1)",
+                    color: "rgb(var(--foreground))",
+                  }}
+                >
+                  Restore
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {messages.length > 0 && (
+          <>
+            <h3 className="mb-2 text-sm font-bold">Deleted messages</h3>
+            <ul className="mb-4 min-h-0 flex-1 overflow-y-auto rounded border border-gray-500/20 text-sm">
+              {messages.map((message) => (
+                <li
+                  key={messageKey(message)}
+                  className="flex items-center gap-2 border-b border-gray-500/10 px-2 py-2 last:border-b-0"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(messageKey(message))}
+                    onChange={() => toggle(messageKey(message))}
+                    aria-label={`Select message from ${message.transcript_title}`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate">
+                      <span className="font-bold">
+                        {message.role === "user" ? "You" : "Assistant"}:
+                      </span>{" "}
+                      {message.preview}
+                    </div>
+                    <div className="truncate text-xs opacity-70">
+                      {message.transcript_title} · deleted{" "}
+                      {new Date(message.deleted_at).toLocaleString()} · purged{" "}
+                      {new Date(message.purge_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => void handleRestoreMessage(message)}
+                    disabled={isBusy}
+                    className="rounded px-2 py-1 text-xs disabled:opacity-50"
+                    style={{
+                      backgroundColor: "rgba(var(--secondary), 0.1)",
+                      color: "rgb(var(--foreground))",
+                    }}
+                  >
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        {status && <div className="mb-4 text-sm">{status}</div>}
+
+        {pendingPurge ? (
+          <div className="flex items-center justify-end gap-2">
+            <span className="mr-auto text-sm">
+              {pendingPurge === "all"
+                ? "Delete everything in the trash forever?"
+                : `Delete ${pendingPurge.length} item${pendingPurge.length === 1 ? "" : "s"} forever?`}
+            </span>
+            <button
+              onClick={() => setPendingPurge(null)}
+              className="rounded bg-gray-500 px-3 py-1 text-white"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => void handlePurge()}
+              disabled={isBusy}
+              className="rounded bg-red-500 px-3 py-1 text-white disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </div>
+        ) : (
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setPendingPurge([...selected])}
+              disabled={isBusy || selected.size === 0}
+              className="rounded px-4 py-2 disabled:opacity-50"
+              style={{
+                backgroundColor: "rgba(var(--secondary), 0.1)",
+                color: "rgb(var(--foreground))",
+              }}
+            >
+              Delete selected
+            </button>
+            <button
+              onClick={() => setPendingPurge("all")}
+              disabled={isBusy || (items.length === 0 && messages.length === 0)}
+              className="rounded bg-red-500 px-4 py-2 text-white disabled:opacity-50"
+            >
+              Empty trash
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+/*
+src/lib/utils/batching.ts
+
+Summary:
+  Splits a conversation into consecutive batches that stay under a message count and an
+  approximate character budget. Used to replay history into memory in several /api/chat
+  calls and to summarize transcripts that do not fit one context window.
+
+Imports to:
+  - src/components/bottomBar/helpers/memory.ts
+  - src/app/api/_utils/summary.ts
+
+Exports:
+  - batchMessagesWithLimit(messages, maxPerBatch, maxChars)
+
+Exports used by:
+  - src/components/bottomBar/helpers/memory.ts (reRemember)
+  - src/app/api/_utils/summary.ts (summarizeTranscript)
+
+Nuances:
+  - Order is preserved and messages are never split, so a single message longer than
+    maxChars ends up alone in its own (oversized) batch.
+*/
+
+/**
+ * batchMessagesWithLimit
+ *
+ * Produces an array of message batches constrained by:
+ *  - maxPerBatch: maximum number of messages per batch
+ *  - maxChars: approximate maximum total characters per batch
+ *
+ * The algorithm accumulates messages until adding the next message would exceed
+ * either limit, then starts a new batch.
+ */
+export function batchMessagesWithLimit<T extends { content: string }>(
+  messages: T[],
+  maxPerBatch: number,
+  maxChars: number,
+): T[][] {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let charCount = 0;
+
+  for (const msg of messages) {
+    const msgLength = msg.content.length;
+
+    if (
+      batch.length > 0 &&
+      (batch.length >= maxPerBatch || charCount + msgLength > maxChars)
+    ) {
+      batches.push(batch);
+      batch = [];
+      charCount = 0;
+    }
+
+    batch.push(msg);
+    charCount += msgLength;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
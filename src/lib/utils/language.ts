@@ -0,0 +1,298 @@
+/*
+src/lib/utils/language.ts
+
+Summary:
+  Lightweight, dependency-free language identification for TTS voice switching. Detects the
+  language of a sentence among the supported languages and splits mixed-language text into
+  consecutive spans tagged with the responder's mapped language (or null for its default voice).
+
+Imports to:
+  - src/components/chat/hooks/useTTSPlayer.ts
+  - src/components/bottomBar/modals/EditResponderModal.tsx
+  - src/app/api/transcribe/route.ts
+  - src/lib/utils/speakable.ts
+
+Exports:
+  - VOICE_LANGUAGES: supported language codes with display labels
+  - detectLanguage(text, candidates): best candidate code or null
+  - splitByLanguage(text, languages): LanguageSpan[]
+  - LanguageSpan (type)
+
+Exports used by:
+  - src/components/chat/hooks/useTTSPlayer.ts (splits text before calling /api/tts)
+  - src/components/bottomBar/modals/EditResponderModal.tsx (language pickers)
+  - src/app/api/transcribe/route.ts (language names for the transcription prompt)
+  - src/lib/utils/speakable.ts (language of a sentence for spelling out numbers)
+
+Nuances:
+  - Detection is heuristic: non-Latin scripts are identified by Unicode ranges, Latin-script
+    languages by frequent function words and characteristic letters/punctuation (ñ, ¿, ß, ç…).
+    It is good enough for the typical tutor case of one or two languages mixed into replies,
+    not for telling closely related languages apart in very short sentences.
+  - Sentences without any signal (numbers, names, "OK.") inherit the previous span's language
+    (or the next one's at the start) so they are not read by a different voice.
+*/
+
+export const VOICE_LANGUAGES = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Spanish" },
+  { code: "fr", label: "French" },
+  { code: "de", label: "German" },
+  { code: "it", label: "Italian" },
+  { code: "pt", label: "Portuguese" },
+  { code: "ru", label: "Russian" },
+  { code: "ar", label: "Arabic" },
+  { code: "hi", label: "Hindi" },
+  { code: "zh", label: "Chinese" },
+  { code: "ja", label: "Japanese" },
+  { code: "ko", label: "Korean" },
+] as const;
+
+export type LanguageSpan = {
+  language: string | null;
+  text: string;
+};
+
+const SCRIPT_PATTERNS: Record<string, RegExp> = {
+  ru: /[\u0400-\u04FF]/g,
+  ar: /[\u0600-\u06FF]/g,
+  hi: /[\u0900-\u097F]/g,
+  ja: /[\u3040-\u30FF]/g,
+  ko: /[\uAC00-\uD7AF]/g,
+  zh: /[\u4E00-\u9FFF]/g,
+};
+
+const STOPWORDS: Record<string, string[]> = {
+  en: [
+    "the",
+    "and",
+    "is",
+    "are",
+    "you",
+    "to",
+    "of",
+    "it",
+    "this",
+    "that",
+    "with",
+    "what",
+    "how",
+    "i",
+    "in",
+    "for",
+    "was",
+    "be",
+    "do",
+    "can",
+    "me",
+    "my",
+    "we",
+    "your",
+  ],
+  es: [
+    "el",
+    "la",
+    "los",
+    "las",
+    "y",
+    "es",
+    "que",
+    "de",
+    "un",
+    "una",
+    "por",
+    "para",
+    "con",
+    "no",
+    "se",
+    "como",
+    "pero",
+    "muy",
+    "yo",
+    "tu",
+    "está",
+    "qué",
+  ],
+  fr: [
+    "le",
+    "la",
+    "les",
+    "et",
+    "est",
+    "que",
+    "de",
+    "un",
+    "une",
+    "pour",
+    "avec",
+    "pas",
+    "je",
+    "vous",
+    "nous",
+    "c'est",
+    "dans",
+    "très",
+    "qui",
+    "ce",
+  ],
+  de: [
+    "der",
+    "die",
+    "das",
+    "und",
+    "ist",
+    "nicht",
+    "ich",
+    "du",
+    "sie",
+    "mit",
+    "ein",
+    "eine",
+    "zu",
+    "auf",
+    "für",
+    "wie",
+    "was",
+    "sehr",
+    "auch",
+    "es",
+  ],
+  it: [
+    "il",
+    "lo",
+    "la",
+    "gli",
+    "e",
+    "è",
+    "che",
+    "di",
+    "un",
+    "una",
+    "per",
+    "con",
+    "non",
+    "sono",
+    "come",
+    "ma",
+    "molto",
+    "io",
+    "tu",
+    "questo",
+  ],
+  pt: [
+    "o",
+    "a",
+    "os",
+    "as",
+    "e",
+    "é",
+    "que",
+    "de",
+    "um",
+    "uma",
+    "para",
+    "com",
+    "não",
+    "eu",
+    "você",
+    "como",
+    "mas",
+    "muito",
+    "isso",
+    "está",
+  ],
+};
+
+const LETTER_HINTS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  fr: /[çœêëîïû]|[a-z]'[aeiouh]/g,
+  de: /[ßäöü]/g,
+  it: /[ìò]|\b\w+zion[ei]\b/g,
+  pt: /[ãõç]|\b\w+ção\b/g,
+};
+
+/**
+ * detectLanguage
+ * Scores `text` against each candidate and returns the best one, or null when no candidate
+ * shows any evidence.
+ */
+export function detectLanguage(
+  text: string,
+  candidates: readonly string[],
+): string | null {
+  const lower = text.toLowerCase();
+  const words = lower.match(/[\p{L}']+/gu) ?? [];
+  let best: string | null = null;
+  let bestScore = 0;
+
+  for (const lang of candidates) {
+    let score = 0;
+
+    const script = SCRIPT_PATTERNS[lang];
+    if (script) score += (lower.match(script)?.length ?? 0) * 2;
+
+    const stopwords = STOPWORDS[lang];
+    if (stopwords) {
+      score += words.filter((w) => stopwords.includes(w)).length;
+    }
+
+    const hints = LETTER_HINTS[lang];
+    if (hints) score += (lower.match(hints)?.length ?? 0) * 2;
+
+    if (score > bestScore) {
+      best = lang;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * splitByLanguage
+ * Splits `text` into sentences, detects each sentence's language and merges neighbours that
+ * share a voice. Sentences in one of `languages` are tagged with it; everything else is tagged
+ * null (the responder's default voice). With no languages the text is returned as one span.
+ */
+export function splitByLanguage(
+  text: string,
+  languages: readonly string[],
+): LanguageSpan[] {
+  if (!languages.length) return [{ language: null, text }];
+
+  const candidates = VOICE_LANGUAGES.map((l) => l.code);
+  const sentences = text
+    .split(/(?<=[.!?…。！？])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const spans: LanguageSpan[] = [];
+  let pending = "";
+  for (const sentence of sentences) {
+    const previous = spans[spans.length - 1];
+    const detected = detectLanguage(sentence, candidates);
+
+    if (detected === null && !previous) {
+      pending = `${pending} ${sentence}`.trim();
+      continue;
+    }
+
+    const language =
+      detected === null
+        ? previous!.language
+        : languages.includes(detected)
+          ? detected
+          : null;
+    const spanText = `${pending} ${sentence}`.trim();
+    pending = "";
+
+    if (previous && previous.language === language) {
+      previous.text = `${previous.text} ${spanText}`;
+    } else {
+      spans.push({ language, text: spanText });
+    }
+  }
+
+  if (pending) spans.push({ language: null, text: pending });
+  return spans;
+}
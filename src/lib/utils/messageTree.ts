@@ -0,0 +1,182 @@
+/*
+src/lib/utils/messageTree.ts
+
+Summary:
+  Helpers for conversations stored as a tree of messages. Every message points at its parent
+  (parentId); siblings are alternative branches created by editing a user message or
+  regenerating a reply. The conversation shown on screen is the path from the root that
+  follows the selected child at every fork.
+
+Imports to:
+  - src/components/chat/hooks/useChat.ts
+  - src/app/notes/page.tsx
+  - src/components/transcripts/helpers/restore.ts
+  - src/app/api/_utils/trash.ts
+
+Exports:
+  - TreeNode, BranchSelection (types)
+  - branchKey(parentId): selection key for the children of a parent
+  - linkMessages(nodes): fills in parents for linear (pre-branching) message lists
+  - getActivePath(nodes, selection): the selected root-to-leaf path
+  - getPathTo(nodes, id): root-to-node path ending at id
+  - getSiblings(nodes, node): node and its alternatives, in creation order
+  - removeNode(nodes, id): drops a node and reattaches its children to its parent
+  - restoreNode(nodes, node, index, childIds): undoes removeNode
+  - selectionFromPath(path): selection that reproduces a given path
+  - clearSelection(selection, key): selection without the entry for one fork
+
+Exports used by:
+  - src/components/chat/hooks/useChat.ts (branch state of the active chat)
+  - src/app/notes/page.tsx (opening a note's transcript on the branch of its message)
+  - src/components/transcripts/helpers/restore.ts (removeNode/restoreNode: deleted messages
+    between the chat and saved transcripts)
+  - src/app/api/_utils/trash.ts (removeNode: purging deleted messages)
+
+Nuances:
+  - Nodes are kept in creation order. Where the selection has no (valid) entry for a fork the
+    newest child wins, so a freshly created branch shows up without touching the selection.
+  - Removing a node keeps the rest of its branch: its children move up to its parent, which
+    matches deleting a message from a linear chat.
+*/
+
+export type TreeNode = {
+  id: string;
+  parentId?: string | null;
+};
+
+// Fork key (parent id, "" for the root) → selected child id.
+export type BranchSelection = Record<string, string>;
+
+/**
+ * branchKey
+ * Key of the fork below `parentId` in a BranchSelection; root messages share one key.
+ */
+export function branchKey(parentId: string | null | undefined): string {
+  return parentId ?? "";
+}
+
+/**
+ * linkMessages
+ * Gives every node without a parentId the previous node as parent, turning a linear message
+ * list into a single-branch tree. Nodes that already have a parent are left alone.
+ */
+export function linkMessages<T extends TreeNode>(nodes: T[]): T[] {
+  return nodes.map((node, i) =>
+    node.parentId === undefined
+      ? { ...node, parentId: nodes[i - 1]?.id ?? null }
+      : node,
+  );
+}
+
+/**
+ * getActivePath
+ * Walks from the root, taking the selected child at each fork (the newest child when the
+ * fork has no selection), and returns the visited nodes.
+ */
+export function getActivePath<T extends TreeNode>(
+  nodes: T[],
+  selection: BranchSelection,
+): T[] {
+  const children = new Map<string, T[]>();
+  for (const node of nodes) {
+    const key = branchKey(node.parentId);
+    children.set(key, [...(children.get(key) ?? []), node]);
+  }
+
+  const path: T[] = [];
+  let key = "";
+  for (;;) {
+    const options = children.get(key);
+    if (!options?.length) break;
+    const next =
+      options.find((n) => n.id === selection[key]) ??
+      options[options.length - 1]!;
+    path.push(next);
+    key = next.id;
+  }
+  return path;
+}
+
+/**
+ * getPathTo
+ * Returns the root-to-node path ending at `id` (empty for null or an unknown id).
+ */
+export function getPathTo<T extends TreeNode>(
+  nodes: T[],
+  id: string | null | undefined,
+): T[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const path: T[] = [];
+  let node = id ? byId.get(id) : undefined;
+  while (node && path.length < nodes.length) {
+    path.unshift(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * getSiblings
+ * Returns the nodes that share `node`'s parent (itself included), in list order.
+ */
+export function getSiblings<T extends TreeNode>(nodes: T[], node: T): T[] {
+  const key = branchKey(node.parentId);
+  return nodes.filter((n) => branchKey(n.parentId) === key);
+}
+
+/**
+ * removeNode
+ * Removes the node with `id`; its children are reattached to its parent.
+ */
+export function removeNode<T extends TreeNode>(nodes: T[], id: string): T[] {
+  const node = nodes.find((n) => n.id === id);
+  if (!node) return nodes;
+  return nodes
+    .filter((n) => n.id !== id)
+    .map((n) => (n.parentId === id ? { ...n, parentId: node.parentId } : n));
+}
+
+/**
+ * restoreNode
+ * Puts a node dropped by removeNode back at its old position (index in creation order) and
+ * reattaches the children that had moved up to its parent.
+ */
+export function restoreNode<T extends TreeNode>(
+  nodes: T[],
+  node: T,
+  index: number,
+  childIds: string[],
+): T[] {
+  if (nodes.some((n) => n.id === node.id)) return nodes;
+  const children = new Set(childIds);
+  const restored = nodes.map((n) =>
+    children.has(n.id) && n.parentId === node.parentId
+      ? { ...n, parentId: node.id }
+      : n,
+  );
+  restored.splice(Math.min(index, restored.length), 0, node);
+  return restored;
+}
+
+/**
+ * clearSelection
+ * Drops the choice made at fork `key`, so getActivePath falls back to its newest child.
+ */
+export function clearSelection(
+  selection: BranchSelection,
+  key: string,
+): BranchSelection {
+  return Object.fromEntries(
+    Object.entries(selection).filter(([k]) => k !== key),
+  );
+}
+
+/**
+ * selectionFromPath
+ * Builds the selection that makes getActivePath follow `path`.
+ */
+export function selectionFromPath(path: TreeNode[]): BranchSelection {
+  return Object.fromEntries(
+    path.map((node) => [branchKey(node.parentId), node.id]),
+  );
+}
@@ -0,0 +1,146 @@
+/*
+src/lib/utils/sampling.ts
+
+Summary:
+  Knows which sampling parameters (temperature, top_p, penalties, stop sequences, seed,
+  reasoning effort) a chat model accepts, and turns a responder's stored settings into the
+  options that can safely be sent for that model.
+
+Imports to:
+  - src/app/api/chat/route.ts
+  - src/app/api/_utils/drafts.ts
+  - src/app/api/_utils/summary.ts
+  - src/components/bottomBar/modals/EditResponderModal.tsx
+
+Exports:
+  - getSamplingSupport(model): which parameters the model accepts
+  - toSamplingOptions(model, settings): the settings the model accepts, unset ones omitted
+  - responderSampling(row): stored settings of a Responders row, malformed values as null
+
+Exports used by:
+  - src/app/api/chat/route.ts (forwards the responder's settings)
+  - src/app/api/_utils/drafts.ts, src/app/api/_utils/summary.ts (fixed low temperature)
+  - src/components/bottomBar/modals/EditResponderModal.tsx (marks unsupported settings)
+
+Nuances:
+  - Support is decided from the model id alone (the part after the last "/", so APIpie and
+    provider-prefixed ids match too). Reasoning models reject temperature, top_p and the
+    penalties with a 400 instead of ignoring them, which is why unsupported settings are
+    dropped rather than sent and hoped for.
+  - Unknown models are assumed to accept the classic OpenAI parameters but not
+    reasoning_effort, which only reasoning models understand.
+*/
+
+import {
+  isReasoningEffort,
+  isStopSequences,
+  type ResponderSampling,
+  type SamplingOptions,
+  type SamplingParam,
+} from "~/types/responder";
+
+export type SamplingSupport = Record<SamplingParam, boolean>;
+
+const CLASSIC: SamplingSupport = {
+  temperature: true,
+  top_p: true,
+  frequency_penalty: true,
+  presence_penalty: true,
+  stop: true,
+  seed: true,
+  reasoning_effort: false,
+};
+
+const NONE: SamplingSupport = {
+  temperature: false,
+  top_p: false,
+  frequency_penalty: false,
+  presence_penalty: false,
+  stop: false,
+  seed: false,
+  reasoning_effort: false,
+};
+
+// First matching rule wins; models matching none get CLASSIC.
+const MODEL_RULES: { pattern: RegExp; support: SamplingSupport }[] = [
+  // OpenAI reasoning models (o1, o3, o4-mini, gpt-5 except the non-reasoning chat variant).
+  {
+    pattern: /^(?:o\d(?:-|$)|gpt-5(?!.*chat))/,
+    support: { ...NONE, seed: true, reasoning_effort: true },
+  },
+  // Search models take no sampling parameters at all.
+  { pattern: /search/, support: NONE },
+  { pattern: /deepseek-(?:reasoner|r1)/, support: NONE },
+  {
+    pattern: /claude/,
+    support: { ...NONE, temperature: true, top_p: true, stop: true },
+  },
+  {
+    pattern: /gemini-2\.5/,
+    support: {
+      ...CLASSIC,
+      frequency_penalty: false,
+      presence_penalty: false,
+      reasoning_effort: true,
+    },
+  },
+  {
+    pattern: /gemini/,
+    support: { ...CLASSIC, frequency_penalty: false, presence_penalty: false },
+  },
+  { pattern: /grok-3-mini/, support: { ...CLASSIC, reasoning_effort: true } },
+];
+
+/**
+ * getSamplingSupport
+ * Returns which sampling parameters `model` accepts.
+ */
+export function getSamplingSupport(model: string): SamplingSupport {
+  const id = model.toLowerCase().split("/").pop() ?? "";
+  return MODEL_RULES.find((rule) => rule.pattern.test(id))?.support ?? CLASSIC;
+}
+
+/**
+ * toSamplingOptions
+ * Keeps the settings that are set and that `model` accepts.
+ */
+export function toSamplingOptions(
+  model: string,
+  settings: Partial<ResponderSampling>,
+): SamplingOptions {
+  const support = getSamplingSupport(model);
+  const options: Record<string, unknown> = {};
+  for (const [param, value] of Object.entries(settings)) {
+    if (value === null || value === undefined) continue;
+    if (Array.isArray(value) && !value.length) continue;
+    if (support[param as SamplingParam]) options[param] = value;
+  }
+  return options as SamplingOptions;
+}
+
+/**
+ * responderSampling
+ * Reads the stored sampling settings of a responder row; `stop` and `reasoning_effort` are
+ * untyped columns, so values of the wrong shape count as unset.
+ */
+export function responderSampling(row: {
+  temperature: number | null;
+  top_p: number | null;
+  frequency_penalty: number | null;
+  presence_penalty: number | null;
+  stop: unknown;
+  seed: number | null;
+  reasoning_effort: string | null;
+}): ResponderSampling {
+  return {
+    temperature: row.temperature,
+    top_p: row.top_p,
+    frequency_penalty: row.frequency_penalty,
+    presence_penalty: row.presence_penalty,
+    stop: isStopSequences(row.stop) ? row.stop : null,
+    seed: row.seed,
+    reasoning_effort: isReasoningEffort(row.reasoning_effort)
+      ? row.reasoning_effort
+      : null,
+  };
+}
@@ -0,0 +1,37 @@
+// src/lib/utils/speakable.test.ts
+//
+// Tests for saying numbers, amounts and dates in replies in the words of the reply's language.
+
+import { describe, expect, it } from "vitest";
+import { toSpeakableText } from "./speakable";
+
+describe("toSpeakableText numbers", () => {
+  it("spells amounts and grouped numbers with the language's separators", () => {
+    expect(
+      toSpeakableText("El café cuesta 3,50 € y vinieron 1.250 personas.", "es"),
+    ).toBe(
+      "El café cuesta tres euros con cincuenta céntimos y vinieron mil doscientos cincuenta personas.",
+    );
+    expect(toSpeakableText("It costs $3.50 today.", "en")).toBe(
+      "It costs three US dollars and fifty cents today.",
+    );
+  });
+
+  it("spells dates and decimals", () => {
+    expect(toSpeakableText("Le 2024-05-01, 12,5 % des votes.", "fr")).toBe(
+      "Le premier mai deux mille vingt-quatre, douze virgule cinq % des votes.",
+    );
+  });
+
+  it("leaves plain integers and dotted runs as written", () => {
+    expect(toSpeakableText("Version 1.2.3 has 42 fixes.", "en")).toBe(
+      "Version 1.2.3 has 42 fixes.",
+    );
+  });
+
+  it("speaks the code placeholder in the reply's language", () => {
+    expect(
+      toSpeakableText("Используйте этот код:\n```js\nrun()\n```", "ru"),
+    ).toBe("Используйте этот код:\nЗдесь пример кода; посмотрите его в чате.");
+  });
+});
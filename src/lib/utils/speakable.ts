@@ -0,0 +1,248 @@
+/*
+src/lib/utils/speakable.ts
+
+Summary:
+  Turns assistant replies (markdown with lists, links, code, emoji and citations) into text
+  that reads naturally when spoken by TTS. Markdown syntax is stripped, list items and
+  headings become sentences so the voice pauses between them, links and URLs are reduced to
+  their text or domain, code blocks are replaced by a short spoken note, and dates, currency
+  amounts and numbers with separators are said in words in the sentence's language.
+
+Imports to:
+  - src/components/chat/hooks/useTTSPlayer.ts
+
+Exports:
+  - toSpeakableText(text, fallbackLanguage?): speakable version of a whole reply
+  - createSpeakableNormalizer(fallbackLanguage?): stateful variant for text arriving in pieces
+  - SpeakableNormalizer (type)
+
+Exports used by:
+  - src/components/chat/hooks/useTTSPlayer.ts (playTTS and beginTTSStream)
+
+Nuances:
+  - Streamed replies are spoken sentence by sentence, so a fenced code block can span several
+    pieces; the normalizer created by createSpeakableNormalizer remembers an open fence between
+    calls and speaks the placeholder once per block.
+  - The language of each piece comes from detectLanguage over all supported languages; pieces
+    without a signal use the previous piece's language, then `fallbackLanguage` (default "en").
+    Numbers are spelled with that language's words and separators by spokenNumbers, so in
+    Spanish "1.250" is "mil doscientos cincuenta" and "3,50 €" "tres euros con cincuenta
+    céntimos".
+  - Only unambiguous formats are expanded: ISO dates (2024-05-01), amounts with a currency
+    symbol or code ($12.50, 12,50 €, 30 EUR) and numbers with a thousands or decimal
+    separator. Plain integers and the "%" after a number are left to the TTS engine, which
+    reads them well, and anything spokenNumbers cannot say (1.2.3, a trillion) stays as written.
+  - Numeric citations ([1], [^2], 【3†source】) and links whose text is just a number or a
+    domain are dropped; other links keep their text.
+*/
+
+import { detectLanguage, VOICE_LANGUAGES } from "./language";
+import {
+  parseNumber,
+  spellAmount,
+  spellDate,
+  spellParsed,
+} from "./spokenNumbers";
+
+export type SpeakableNormalizer = (text: string) => string;
+
+const LANGUAGE_CODES = VOICE_LANGUAGES.map((l) => l.code);
+
+// Spoken in place of a fenced code block, in each of VOICE_LANGUAGES.
+const CODE_PLACEHOLDERS: Record<string, string> = {
+  en: "There is a code example here; see the chat.",
+  es: "Aquí hay un ejemplo de código; míralo en el chat.",
+  fr: "Il y a un exemple de code ici ; voyez le chat.",
+  de: "Hier steht ein Codebeispiel; siehe Chat.",
+  it: "Qui c'è un esempio di codice; guardalo nella chat.",
+  pt: "Aqui há um exemplo de código; veja no chat.",
+  ru: "Здесь пример кода; посмотрите его в чате.",
+  ar: "يوجد هنا مثال برمجي؛ انظره في المحادثة.",
+  hi: "यहाँ एक कोड उदाहरण है; इसे चैट में देखें।",
+  zh: "这里有一段代码示例，请在聊天中查看。",
+  ja: "ここにコード例があります。チャットでご覧ください。",
+  ko: "여기에 코드 예시가 있습니다. 채팅에서 확인하세요.",
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: "USD",
+  US$: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+  "₽": "RUB",
+  "₩": "KRW",
+  R$: "BRL",
+};
+
+const CURRENCY_CODES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "CNY",
+  "INR",
+  "RUB",
+  "KRW",
+  "BRL",
+  "MXN",
+  "CAD",
+  "AUD",
+  "CHF",
+];
+
+const SYMBOL_PATTERN = Object.keys(CURRENCY_SYMBOLS)
+  .sort((a, b) => b.length - a.length)
+  .map((s) => s.replace(/[$]/g, "\\$"))
+  .join("|");
+const AMOUNT = String.raw`\d+(?:[.,]\d+)*`;
+const SYMBOL_BEFORE = new RegExp(`(${SYMBOL_PATTERN})\\s?(${AMOUNT})`, "g");
+const SYMBOL_AFTER = new RegExp(`(${AMOUNT})\\s?(${SYMBOL_PATTERN})`, "g");
+const CODE_AMOUNT = new RegExp(
+  `\\b(?:(${CURRENCY_CODES.join("|")})\\s?(${AMOUNT})|(${AMOUNT})\\s?(${CURRENCY_CODES.join("|")}))\\b`,
+  "g",
+);
+
+// Numbers with a thousands or decimal separator ("1.250", "3,5"), not part of a word, a
+// version ("v1.2") or a longer dotted run ("192.168.0.1").
+const GROUPED_NUMBER = /(?<![\w.,])\d+(?:[.,]\d+)+(?![\w]|[.,]\d)/g;
+
+const EMOJI =
+  /[\p{Extended_Pictographic}\u{1F1E6}-\u{1F1FF}\u{1F3FB}-\u{1F3FF}\u{FE0F}\u{200D}\u{20E3}]/gu;
+
+/**
+ * expandNumbers
+ * Writes out ISO dates, currency amounts and numbers with separators in words.
+ */
+function expandNumbers(text: string, language: string): string {
+  const amount = (raw: string, currency: string, match: string) => {
+    const number = parseNumber(raw, language);
+    return (number && spellAmount(number, currency, language)) ?? match;
+  };
+
+  return text
+    .replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, y, m, d) => {
+      const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+      if (date.getUTCDate() !== Number(d)) return match;
+      return spellDate(date, language) ?? match;
+    })
+    .replace(SYMBOL_BEFORE, (match, symbol: string, raw: string) =>
+      amount(raw, CURRENCY_SYMBOLS[symbol]!, match),
+    )
+    .replace(SYMBOL_AFTER, (match, raw: string, symbol: string) =>
+      amount(raw, CURRENCY_SYMBOLS[symbol]!, match),
+    )
+    .replace(
+      CODE_AMOUNT,
+      (match, codeA?: string, rawA?: string, rawB?: string, codeB?: string) =>
+        amount(rawA ?? rawB!, codeA ?? codeB!, match),
+    )
+    .replace(GROUPED_NUMBER, (match) => {
+      const number = parseNumber(match, language);
+      return (number && spellParsed(number, language)) ?? match;
+    });
+}
+
+/**
+ * shortenUrl
+ * Reduces a URL to its domain ("https://www.example.com/a?b" → "example.com").
+ */
+function shortenUrl(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * stripInline
+ * Removes inline markdown, citations, HTML tags and emoji from one line.
+ */
+function stripInline(line: string): string {
+  return (
+    line
+      // Citations: [1], [1, 2], [^1], 【1†source】
+      .replace(/\[\^?\d+(?:\s*,\s*\d+)*\]|【[^】]*】/g, "")
+      // Images keep their alt text; links whose text is a number or a domain are citations.
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]*)\]\(([^)]*)\)/g, (_, label: string) =>
+        /^\s*(?:\d+|[\w-]+(?:\.[\w-]+)+)\s*$/.test(label) ? "" : label,
+      )
+      .replace(/https?:\/\/[^\s)>\]]+/g, (url) => shortenUrl(url))
+      .replace(/<[^>\n]+>/g, "")
+      .replace(/`([^`]*)`/g, "$1")
+      .replace(/(\*\*|__|~~)(.+?)\1/g, "$2")
+      .replace(/(^|[^\w*])[*_](?=\S)([^*_\n]*?\S)[*_](?![\w*])/g, "$1$2")
+      .replace(EMOJI, "")
+      // Brackets left empty by removed citations.
+      .replace(/\(\s*[,;]?\s*\)/g, "")
+      .replace(/\s+([.,;:!?])/g, "$1")
+      .replace(/[ \t]{2,}/g, " ")
+      .trim()
+  );
+}
+
+/**
+ * createSpeakableNormalizer
+ * Returns a function that normalizes consecutive pieces of one reply (see module nuances).
+ */
+export function createSpeakableNormalizer(
+  fallbackLanguage = "en",
+): SpeakableNormalizer {
+  let inFence = false;
+  let language = fallbackLanguage;
+
+  return (text) => {
+    const lines: string[] = [];
+    for (const rawLine of text.split("\n")) {
+      if (/^\s*(```|~~~)/.test(rawLine)) {
+        if (!inFence) {
+          lines.push(CODE_PLACEHOLDERS[language] ?? CODE_PLACEHOLDERS.en!);
+        }
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) continue;
+
+      // Horizontal rules and table separator rows.
+      if (/^\s*(?:[-*_]\s*){3,}$|^\s*\|?\s*:?-{3,}/.test(rawLine)) continue;
+
+      const isBlock = /^\s*(?:#{1,6}\s|[-*+]\s|\d+[.)]\s|>|\|)/.test(rawLine);
+      let line = rawLine
+        .replace(/^\s*#{1,6}\s+/, "")
+        .replace(/^\s*>+\s?/, "")
+        .replace(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/, "");
+      if (line.includes("|")) {
+        line = line
+          .split("|")
+          .map((cell) => cell.trim())
+          .filter(Boolean)
+          .join(", ");
+      }
+
+      line = stripInline(line);
+      if (!line) continue;
+
+      language = detectLanguage(line, LANGUAGE_CODES) ?? language;
+      line = expandNumbers(line, language);
+
+      // Headings, list items and table rows become sentences so the voice pauses after them.
+      if (isBlock && !/[.!?…:;。！？]$/.test(line)) line += ".";
+      lines.push(line);
+    }
+    return lines.join("\n");
+  };
+}
+
+/**
+ * toSpeakableText
+ * Normalizes a complete reply for TTS.
+ */
+export function toSpeakableText(
+  text: string,
+  fallbackLanguage?: string,
+): string {
+  return createSpeakableNormalizer(fallbackLanguage)(text);
+}
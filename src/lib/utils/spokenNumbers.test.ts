@@ -0,0 +1,150 @@
+// src/lib/utils/spokenNumbers.test.ts
+//
+// Tests for saying numbers, money and dates in words in every voice language.
+
+import { describe, expect, it } from "vitest";
+import {
+  parseNumber,
+  spellAmount,
+  spellDate,
+  spellNumber,
+  spellParsed,
+} from "./spokenNumbers";
+
+const amount = (raw: string, currency: string, language: string) =>
+  spellAmount(parseNumber(raw, language)!, currency, language);
+
+describe("parseNumber", () => {
+  it("reads separators with the language's conventions", () => {
+    expect(parseNumber("1.250", "es")).toEqual({ integer: 1250, fraction: "" });
+    expect(parseNumber("1,250", "en")).toEqual({ integer: 1250, fraction: "" });
+    expect(parseNumber("3,50", "es")).toEqual({ integer: 3, fraction: "50" });
+    expect(parseNumber("3,50", "en")).toEqual({ integer: 3, fraction: "50" });
+    expect(parseNumber("1.234,5", "de")).toEqual({
+      integer: 1234,
+      fraction: "5",
+    });
+    expect(parseNumber("1,234,567.8", "en")).toEqual({
+      integer: 1234567,
+      fraction: "8",
+    });
+  });
+
+  it("rejects versions, addresses and oversized numbers", () => {
+    expect(parseNumber("1.2.3", "en")).toBeNull();
+    expect(parseNumber("192.168.0.1", "en")).toBeNull();
+    expect(parseNumber("1,25,0", "en")).toBeNull();
+    expect(parseNumber("1.000.000.000.000", "es")).toBeNull();
+  });
+});
+
+describe("spellNumber", () => {
+  it.each([
+    ["en", 1250, "one thousand two hundred fifty"],
+    ["en", 1_000_021, "one million twenty-one"],
+    ["es", 1250, "mil doscientos cincuenta"],
+    ["es", 21_000, "veintiún mil"],
+    ["es", 2_500_000, "dos millones quinientos mil"],
+    ["fr", 80, "quatre-vingts"],
+    ["fr", 71, "soixante et onze"],
+    ["fr", 91, "quatre-vingt-onze"],
+    ["fr", 280_000, "deux cent quatre-vingt mille"],
+    ["fr", 200, "deux cents"],
+    ["de", 1234, "eintausendzweihundertvierunddreißig"],
+    ["de", 21, "einundzwanzig"],
+    ["de", 2_000_001, "zwei Millionen eins"],
+    ["it", 1283, "milleduecentottantatré"],
+    ["it", 21, "ventuno"],
+    ["pt", 1200, "mil e duzentos"],
+    ["pt", 1250, "mil duzentos e cinquenta"],
+    ["pt", 100, "cem"],
+    ["ru", 2021, "две тысячи двадцать один"],
+    ["ru", 5_000_000, "пять миллионов"],
+    ["ar", 2025, "ألفان وخمسة وعشرون"],
+    ["ar", 3000, "ثلاثة آلاف"],
+    ["hi", 250_000, "दो लाख पचास हज़ार"],
+    ["zh", 10_005, "一万零五"],
+    ["zh", 15, "十五"],
+    ["ja", 11_000, "一万千"],
+    ["ko", 12_345, "만 이천삼백사십오"],
+  ])("%s %d → %s", (language, value, words) => {
+    expect(spellNumber(value, language)).toBe(words);
+  });
+
+  it("returns null for unknown languages and unsayable numbers", () => {
+    expect(spellNumber(5, "xx")).toBeNull();
+    expect(spellNumber(1.5, "en")).toBeNull();
+    expect(spellNumber(1e12, "en")).toBeNull();
+  });
+});
+
+describe("spellParsed", () => {
+  it("reads decimals digit by digit or as a number, per language", () => {
+    expect(spellParsed({ integer: 3, fraction: "14" }, "en")).toBe(
+      "three point one four",
+    );
+    expect(spellParsed({ integer: 3, fraction: "05" }, "es")).toBe(
+      "tres coma cero cinco",
+    );
+    expect(spellParsed({ integer: 3, fraction: "5" }, "zh")).toBe("三点五");
+  });
+});
+
+describe("spellAmount", () => {
+  it("says the whole and the cent-like part with their names", () => {
+    expect(amount("3.50", "USD", "en")).toBe(
+      "three US dollars and fifty cents",
+    );
+    expect(amount("3,50", "EUR", "es")).toBe(
+      "tres euros con cincuenta céntimos",
+    );
+    expect(amount("1", "EUR", "de")).toBe("ein Euro");
+    expect(amount("21", "EUR", "es")).toBe("veintiún euros");
+    expect(amount("0.99", "GBP", "en")).toBe("ninety-nine pence");
+  });
+
+  it("names the cent-like unit per language and currency", () => {
+    expect(amount("5,25", "RUB", "ru")).toMatch(/ двадцать пять копеек$/);
+    expect(amount("2,01", "MXN", "es")).toMatch(/ con un centavo$/);
+    expect(amount("1,05", "EUR", "fr")).toBe("un euro et cinq centimes");
+  });
+
+  it("reads CJK amounts and currencies without cents as decimals", () => {
+    expect(amount("3.5", "USD", "zh")).toBe("三点五美元");
+    expect(amount("1,500", "JPY", "en")).toBe(
+      "one thousand five hundred Japanese yen",
+    );
+  });
+});
+
+describe("spellDate", () => {
+  const date = new Date(Date.UTC(2024, 4, 1));
+
+  it.each([
+    ["en", "May first, twenty twenty-four"],
+    ["es", "primero de mayo de dos mil veinticuatro"],
+    ["fr", "premier mai deux mille vingt-quatre"],
+    ["de", "erster Mai zweitausendvierundzwanzig"],
+    ["it", "primo maggio duemilaventiquattro"],
+    ["pt", "primeiro de maio de dois mil e vinte e quatro"],
+    ["zh", "二零二四年五月一日"],
+    ["ja", "二千二十四年五月一日"],
+    ["ko", "이천이십사년 오월 일일"],
+  ])("%s", (language, words) => {
+    expect(spellDate(date, language)).toBe(words);
+  });
+
+  it("reads English and German years in pairs", () => {
+    const date = new Date(Date.UTC(1999, 11, 31));
+    expect(spellDate(date, "en")).toBe(
+      "December thirty-first, nineteen ninety-nine",
+    );
+    expect(spellDate(date, "de")).toBe(
+      "einunddreißigster Dezember neunzehnhundertneunundneunzig",
+    );
+  });
+
+  it("keeps the digits of Russian dates", () => {
+    expect(spellDate(date, "ru")).toMatch(/^1 мая 2024\sг\.$/);
+  });
+});
@@ -0,0 +1,931 @@
+/*
+src/lib/utils/spokenNumbers.ts
+
+Summary:
+  Writes grouped numbers, amounts of money and dates out in words for every TTS voice language
+  (VOICE_LANGUAGES: en, es, fr, de, it, pt, ru, ar, hi, zh, ja, ko), so a voice says
+  "tres euros con cincuenta céntimos" instead of guessing how to read "3,50 €".
+
+Imports to:
+  - src/lib/utils/speakable.ts
+
+Exports:
+  - parseNumber(raw, language): integer part and decimal digits of "1.250", "3,50", "1,234.5"
+  - spellNumber(value, language): integer in words
+  - spellParsed(number, language): integer or decimal in words
+  - spellAmount(number, currency, language): amount of money in words
+  - spellDate(date, language): calendar date in words
+  - ParsedNumber (type)
+
+Exports used by:
+  - src/lib/utils/speakable.ts (expandNumbers)
+
+Nuances:
+  - Every speller returns null for a language it does not know or a number it cannot say
+    (negative, not an integer, a trillion or more); callers leave the text as written then.
+  - "1.250" and "1,250" are read with the language's conventions: a separator that is the
+    language's decimal mark, or that is not followed by exactly three digits, starts the
+    decimals; otherwise it groups thousands. "1.2.3" or "1,25,0" are not numbers.
+  - Everything a language needs besides its number words (decimal mark, how "one" is said
+    before a noun, the cent-like unit, how days and years are said) is one entry of LANGUAGES.
+    English, French, Russian and Arabic name each group of thousands the same way (byScale);
+    Japanese and Korean share the reading of 10^4 sections (spellMyriads).
+  - Currency names and their plural forms come from Intl (currencyDisplay "name"); Chinese,
+    Japanese and Korean read the amount as a decimal number before the currency name.
+  - Grammar is kept to what a listener notices most: "one" before a noun ("un euro", "ein
+    Euro"), plural forms of Russian and Arabic scale words, English and German years in pairs
+    ("nineteen ninety-nine"). Numbers do not agree with feminine currencies, and Russian
+    dates keep their digits ("1 мая 2024 г."), since their day and year are inflected
+    ordinals the voice reads better than a table would.
+*/
+
+export type ParsedNumber = {
+  integer: number;
+  // Digits after the decimal mark as written ("50" in "3,50"); "" for whole numbers.
+  fraction: string;
+};
+
+type Speller = (n: number) => string;
+
+type LanguageRules = {
+  spell: Speller;
+  // Word for the decimal mark; decimals are read digit by digit ("point one four") when
+  // `digitDecimals` is set, otherwise as a number ("coma catorce").
+  decimal: string;
+  digitDecimals?: boolean;
+  // "3,5" is three and a half.
+  decimalComma?: boolean;
+  // Written without spaces between a number and what follows.
+  noSpaces?: boolean;
+  // A count said before a noun ("uno" → "un").
+  beforeNoun?: (words: string) => string;
+  // Joiner and name of the cent-like part of an amount; languages without it read amounts
+  // as a decimal number.
+  minor?: { and: string; name: (count: number, currency: string) => string };
+  day?: Speller;
+  year?: Speller;
+  keepDateDigits?: boolean;
+};
+
+const MAX_SPOKEN = 1e12;
+
+const words = (list: string) => list.split(" ");
+
+const join = (parts: (string | false)[], separator = " ") =>
+  parts.filter(Boolean).join(separator);
+
+const plural = (one: string, many: string) => (n: number) =>
+  n === 1 ? one : many;
+
+// Scale groups of a number below a trillion: billions, millions, thousands, rest.
+function groupsOf(n: number): [number, number, number, number] {
+  return [
+    Math.floor(n / 1e9),
+    Math.floor(n / 1e6) % 1000,
+    Math.floor(n / 1e3) % 1000,
+    n % 1000,
+  ];
+}
+
+// Says each non-zero group with `say(count, scale)`, scale 3 for billions down to 0.
+function byScale(
+  n: number,
+  say: (count: number, scale: number) => string,
+  separator = " ",
+): string {
+  return join(
+    groupsOf(n).map((count, i) => count > 0 && say(count, 3 - i)),
+    separator,
+  );
+}
+
+// ─── English ───────────────────────────────────────────────────────────────────────────────
+
+const EN_ONES = words(
+  "zero one two three four five six seven eight nine ten eleven twelve thirteen fourteen " +
+    "fifteen sixteen seventeen eighteen nineteen",
+);
+const EN_TENS = words("twenty thirty forty fifty sixty seventy eighty ninety");
+const EN_SCALES = ["", "thousand", "million", "billion"];
+
+function enBelow1000(n: number): string {
+  const rest = n % 100;
+  const unit = n % 10;
+  return join([
+    n >= 100 && `${EN_ONES[Math.floor(n / 100)]} hundred`,
+    rest > 0 &&
+      (rest < 20
+        ? EN_ONES[rest]!
+        : EN_TENS[Math.floor(rest / 10) - 2]! +
+          (unit ? `-${EN_ONES[unit]}` : "")),
+  ]);
+}
+
+const spellEn: Speller = (n) =>
+  byScale(n, (count, scale) => join([enBelow1000(count), EN_SCALES[scale]!])) ||
+  EN_ONES[0]!;
+
+// ─── Spanish ───────────────────────────────────────────────────────────────────────────────
+
+const ES_BELOW_30 = words(
+  "cero uno dos tres cuatro cinco seis siete ocho nueve diez once doce trece catorce quince " +
+    "dieciséis diecisiete dieciocho diecinueve veinte veintiuno veintidós veintitrés " +
+    "veinticuatro veinticinco veintiséis veintisiete veintiocho veintinueve",
+);
+const ES_TENS = words(
+  "treinta cuarenta cincuenta sesenta setenta ochenta noventa",
+);
+const ES_HUNDREDS = words(
+  "ciento doscientos trescientos cuatrocientos quinientos seiscientos setecientos " +
+    "ochocientos novecientos",
+);
+
+function esBelow1000(n: number): string {
+  if (n === 100) return "cien";
+  const rest = n % 100;
+  return join([
+    n >= 100 && ES_HUNDREDS[Math.floor(n / 100) - 1]!,
+    rest > 0 &&
+      (rest < 30
+        ? ES_BELOW_30[rest]!
+        : ES_TENS[Math.floor(rest / 10) - 3]! +
+          (rest % 10 ? ` y ${ES_BELOW_30[rest % 10]}` : "")),
+  ]);
+}
+
+// "veintiún mil", "treinta y un euros".
+const esBeforeNoun = (counted: string) =>
+  counted.replace(/veintiuno$/, "veintiún").replace(/uno$/, "un");
+
+const spellEs: Speller = (n) => {
+  const millions = Math.floor(n / 1e6);
+  const thousands = Math.floor(n / 1e3) % 1000;
+  return (
+    join([
+      millions > 0 &&
+        (millions === 1
+          ? "un millón"
+          : `${esBeforeNoun(spellEs(millions))} millones`),
+      thousands > 0 &&
+        (thousands === 1
+          ? "mil"
+          : `${esBeforeNoun(esBelow1000(thousands))} mil`),
+      n % 1000 > 0 && esBelow1000(n % 1000),
+    ]) || ES_BELOW_30[0]!
+  );
+};
+
+// ─── French ────────────────────────────────────────────────────────────────────────────────
+
+const FR_BELOW_20 = words(
+  "zéro un deux trois quatre cinq six sept huit neuf dix onze douze treize quatorze quinze " +
+    "seize dix-sept dix-huit dix-neuf",
+);
+const FR_TENS = words(
+  "vingt trente quarante cinquante soixante soixante quatre-vingt quatre-vingt",
+);
+
+function frBelow100(n: number): string {
+  if (n < 20) return FR_BELOW_20[n]!;
+  const tens = Math.floor(n / 10);
+  const word = FR_TENS[tens - 2]!;
+  // 70-79 and 90-99 count on from sixty and eighty.
+  const rest = tens === 7 || tens === 9 ? 10 + (n % 10) : n % 10;
+  if (rest === 0) return tens === 8 ? "quatre-vingts" : word;
+  if ((rest === 1 || rest === 11) && tens < 8) {
+    return `${word} et ${FR_BELOW_20[rest]}`;
+  }
+  return `${word}-${FR_BELOW_20[rest]}`;
+}
+
+// `last`: nothing but "million"/"milliard" follows, so "cents" and "vingts" keep their s.
+function frBelow1000(n: number, last: boolean): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const tail = rest ? frBelow100(rest) : "";
+  return join([
+    hundreds > 0 &&
+      (hundreds === 1
+        ? "cent"
+        : `${FR_BELOW_20[hundreds]} cent${rest === 0 && last ? "s" : ""}`),
+    last ? tail : tail.replace(/vingts$/, "vingt"),
+  ]);
+}
+
+const spellFr: Speller = (n) =>
+  byScale(n, (count, scale) => {
+    if (scale === 0) return frBelow1000(count, true);
+    if (scale === 1) {
+      return count === 1 ? "mille" : `${frBelow1000(count, false)} mille`;
+    }
+    const name = scale === 2 ? "million" : "milliard";
+    return count === 1 ? `un ${name}` : `${frBelow1000(count, true)} ${name}s`;
+  }) || FR_BELOW_20[0]!;
+
+// ─── German ────────────────────────────────────────────────────────────────────────────────
+
+const DE_BELOW_20 = words(
+  "null eins zwei drei vier fünf sechs sieben acht neun zehn elf zwölf dreizehn vierzehn " +
+    "fünfzehn sechzehn siebzehn achtzehn neunzehn",
+);
+const DE_TENS = words(
+  "zwanzig dreißig vierzig fünfzig sechzig siebzig achtzig neunzig",
+);
+
+function deBelow100(n: number): string {
+  if (n < 20) return DE_BELOW_20[n]!;
+  const unit = n % 10;
+  const tens = DE_TENS[Math.floor(n / 10) - 2]!;
+  return unit ? `${unit === 1 ? "ein" : DE_BELOW_20[unit]}und${tens}` : tens;
+}
+
+// "eins" before a noun or a scale word: "ein Euro", "einhundert", "einundzwanzigtausend".
+const deBeforeNoun = (counted: string) => counted.replace(/eins$/, "ein");
+
+function deBelow1000(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  return (
+    (hundreds ? `${deBeforeNoun(DE_BELOW_20[hundreds]!)}hundert` : "") +
+    (n % 100 ? deBelow100(n % 100) : "")
+  );
+}
+
+const spellDe: Speller = (n) => {
+  const [billions, millions, thousands, rest] = groupsOf(n);
+  const scale = (count: number, one: string, many: string) =>
+    count === 1 ? `eine ${one}` : `${deBelow1000(count)} ${many}`;
+  return (
+    join([
+      billions > 0 && scale(billions, "Milliarde", "Milliarden"),
+      millions > 0 && scale(millions, "Million", "Millionen"),
+      (thousands ? `${deBeforeNoun(deBelow1000(thousands))}tausend` : "") +
+        (rest ? deBelow1000(rest) : ""),
+    ]) || DE_BELOW_20[0]!
+  );
+};
+
+// ─── Italian ───────────────────────────────────────────────────────────────────────────────
+
+const IT_BELOW_20 = words(
+  "zero uno due tre quattro cinque sei sette otto nove dieci undici dodici tredici " +
+    "quattordici quindici sedici diciassette diciotto diciannove",
+);
+const IT_TENS = words(
+  "venti trenta quaranta cinquanta sessanta settanta ottanta novanta",
+);
+
+function itBelow100(n: number): string {
+  if (n < 20) return IT_BELOW_20[n]!;
+  const unit = n % 10;
+  const tens = IT_TENS[Math.floor(n / 10) - 2]!;
+  // "ventuno", "trentotto": the tens drop their vowel before uno and otto.
+  return (
+    (unit === 1 || unit === 8 ? tens.slice(0, -1) : tens) +
+    (unit ? IT_BELOW_20[unit] : "")
+  );
+}
+
+function itBelow1000(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return (
+    (hundreds === 1 ? "cento" : hundreds ? `${IT_BELOW_20[hundreds]}cento` : "")
+      // "centottanta", "duecentotto": cento drops its vowel before otto and ottanta.
+      .replace(/o$/, rest === 8 || Math.floor(rest / 10) === 8 ? "" : "o") +
+    (rest ? itBelow100(rest) : "")
+  );
+}
+
+const spellIt: Speller = (n) => {
+  const [billions, millions, thousands, rest] = groupsOf(n);
+  const tail =
+    (thousands === 1
+      ? "mille"
+      : thousands
+        ? `${itBelow1000(thousands)}mila`
+        : "") + (rest ? itBelow1000(rest) : "");
+  return (
+    join([
+      billions > 0 &&
+        (billions === 1 ? "un miliardo" : `${itBelow1000(billions)} miliardi`),
+      millions > 0 &&
+        (millions === 1 ? "un milione" : `${itBelow1000(millions)} milioni`),
+      // A final "tre" is stressed: "ventitré".
+      tail.replace(/(.)tre$/, "$1tré"),
+    ]) || IT_BELOW_20[0]!
+  );
+};
+
+// ─── Portuguese (Brazilian) ────────────────────────────────────────────────────────────────
+
+const PT_BELOW_20 = words(
+  "zero um dois três quatro cinco seis sete oito nove dez onze doze treze catorze quinze " +
+    "dezesseis dezessete dezoito dezenove",
+);
+const PT_TENS = words(
+  "vinte trinta quarenta cinquenta sessenta setenta oitenta noventa",
+);
+const PT_HUNDREDS = words(
+  "cento duzentos trezentos quatrocentos quinhentos seiscentos setecentos oitocentos " +
+    "novecentos",
+);
+
+function ptBelow1000(n: number): string {
+  if (n === 100) return "cem";
+  const rest = n % 100;
+  const tens =
+    rest >= 20 &&
+    join(
+      [
+        PT_TENS[Math.floor(rest / 10) - 2]!,
+        rest % 10 > 0 && PT_BELOW_20[rest % 10]!,
+      ],
+      " e ",
+    );
+  return join(
+    [
+      n >= 100 && PT_HUNDREDS[Math.floor(n / 100) - 1]!,
+      tens || (rest > 0 && PT_BELOW_20[rest]!),
+    ],
+    " e ",
+  );
+}
+
+const spellPt: Speller = (n) => {
+  const [billions, millions, thousands, rest] = groupsOf(n);
+  const head = join([
+    billions > 0 &&
+      (billions === 1 ? "um bilhão" : `${ptBelow1000(billions)} bilhões`),
+    millions > 0 &&
+      (millions === 1 ? "um milhão" : `${ptBelow1000(millions)} milhões`),
+    thousands > 0 &&
+      (thousands === 1 ? "mil" : `${ptBelow1000(thousands)} mil`),
+  ]);
+  // "mil e duzentos", "dois mil e cinco", but "mil duzentos e cinquenta".
+  const joiner = rest < 100 || rest % 100 === 0 ? " e " : " ";
+  return join([head, rest > 0 && ptBelow1000(rest)], joiner) || PT_BELOW_20[0]!;
+};
+
+// ─── Russian ───────────────────────────────────────────────────────────────────────────────
+
+const RU_BELOW_20 = words(
+  "ноль один два три четыре пять шесть семь восемь девять десять одиннадцать двенадцать " +
+    "тринадцать четырнадцать пятнадцать шестнадцать семнадцать восемнадцать девятнадцать",
+);
+const RU_TENS = words(
+  "двадцать тридцать сорок пятьдесят шестьдесят семьдесят восемьдесят девяносто",
+);
+const RU_HUNDREDS = words(
+  "сто двести триста четыреста пятьсот шестьсот семьсот восемьсот девятьсот",
+);
+// Forms for 1, 2-4 and 5 or more of each scale, thousands up.
+const RU_SCALES = [
+  "тысяча тысячи тысяч",
+  "миллион миллиона миллионов",
+  "миллиард миллиарда миллиардов",
+].map(words);
+
+/**
+ * ruPlural
+ * Russian noun form for a count: [1, 21…] "one", [2-4, 22-24…] "few", otherwise "many".
+ */
+function ruPlural(n: number, forms: string[]): string {
+  const lastTwo = n % 100;
+  const last = n % 10;
+  if (lastTwo >= 11 && lastTwo <= 14) return forms[2]!;
+  if (last === 1) return forms[0]!;
+  if (last >= 2 && last <= 4) return forms[1]!;
+  return forms[2]!;
+}
+
+function ruBelow1000(n: number): string {
+  const rest = n % 100;
+  const unit = rest < 20 ? rest : rest % 10;
+  return join([
+    n >= 100 && RU_HUNDREDS[Math.floor(n / 100) - 1]!,
+    rest >= 20 && RU_TENS[Math.floor(rest / 10) - 2]!,
+    unit > 0 && RU_BELOW_20[unit]!,
+  ]);
+}
+
+const spellRu: Speller = (n) =>
+  byScale(n, (count, scale) => {
+    if (scale === 0) return ruBelow1000(count);
+    const counted = ruBelow1000(count);
+    // Thousands are feminine: "одна тысяча", "две тысячи".
+    return `${
+      scale === 1
+        ? counted.replace(/один$/, "одна").replace(/два$/, "две")
+        : counted
+    } ${ruPlural(count, RU_SCALES[scale - 1]!)}`;
+  }) || RU_BELOW_20[0]!;
+
+// ─── Arabic ────────────────────────────────────────────────────────────────────────────────
+
+const AR_BELOW_11 = words(
+  "صفر واحد اثنان ثلاثة أربعة خمسة ستة سبعة ثمانية تسعة عشرة",
+);
+const AR_TENS = words("عشرون ثلاثون أربعون خمسون ستون سبعون ثمانون تسعون");
+const AR_HUNDREDS = words(
+  "مئة مئتان ثلاثمئة أربعمئة خمسمئة ستمئة سبعمئة ثمانمئة تسعمئة",
+);
+// Forms for 1, 2, 3-10 and 11 or more of each scale, thousands up: "ألف", "ألفان",
+// "ثلاثة آلاف", "أحد عشر ألف".
+const AR_SCALES = [
+  "ألف ألفان آلاف ألف",
+  "مليون مليونان ملايين مليون",
+  "مليار ملياران مليارات مليار",
+].map(words);
+
+function arBelow100(n: number): string {
+  if (n <= 10) return AR_BELOW_11[n]!;
+  if (n === 11) return "أحد عشر";
+  if (n === 12) return "اثنا عشر";
+  if (n < 20) return `${AR_BELOW_11[n % 10]} عشر`;
+  const tens = AR_TENS[Math.floor(n / 10) - 2]!;
+  return n % 10 ? `${AR_BELOW_11[n % 10]} و${tens}` : tens;
+}
+
+function arBelow1000(n: number): string {
+  return join(
+    [
+      n >= 100 && AR_HUNDREDS[Math.floor(n / 100) - 1]!,
+      n % 100 > 0 && arBelow100(n % 100),
+    ],
+    " و",
+  );
+}
+
+const spellAr: Speller = (n) =>
+  byScale(
+    n,
+    (count, scale) => {
+      if (scale === 0) return arBelow1000(count);
+      const forms = AR_SCALES[scale - 1]!;
+      if (count <= 2) return forms[count - 1]!;
+      return `${arBelow1000(count)} ${forms[count <= 10 ? 2 : 3]}`;
+    },
+    " و",
+  ) || AR_BELOW_11[0]!;
+
+// ─── Hindi ─────────────────────────────────────────────────────────────────────────────────
+
+// 0-99 have their own words in Hindi.
+const HI_BELOW_100 = words(
+  "शून्य एक दो तीन चार पाँच छह सात आठ नौ दस ग्यारह बारह तेरह चौदह पंद्रह सोलह सत्रह अठारह " +
+    "उन्नीस बीस इक्कीस बाईस तेईस चौबीस पच्चीस छब्बीस सत्ताईस अट्ठाईस उनतीस तीस इकतीस बत्तीस " +
+    "तैंतीस चौंतीस पैंतीस छत्तीस सैंतीस अड़तीस उनतालीस चालीस इकतालीस बयालीस तैंतालीस चवालीस " +
+    "पैंतालीस छियालीस सैंतालीस अड़तालीस उनचास पचास इक्यावन बावन तिरेपन चौवन पचपन छप्पन सत्तावन " +
+    "अट्ठावन उनसठ साठ इकसठ बासठ तिरसठ चौंसठ पैंसठ छियासठ सड़सठ अड़सठ उनहत्तर सत्तर इकहत्तर " +
+    "बहत्तर तिहत्तर चौहत्तर पचहत्तर छिहत्तर सतहत्तर अठहत्तर उन्यासी अस्सी इक्यासी बयासी तिरासी " +
+    "चौरासी पचासी छियासी सत्तासी अट्ठासी नवासी नब्बे इक्यानबे बानबे तिरानबे चौरानबे पंचानबे " +
+    "छियानबे सत्तानबे अट्ठानबे निन्यानबे",
+);
+
+// Indian grouping: crore (10^7), lakh (10^5), thousand, hundred.
+const spellHi: Speller = (n) => {
+  const crores = Math.floor(n / 1e7);
+  const lakhs = Math.floor(n / 1e5) % 100;
+  const thousands = Math.floor(n / 1e3) % 100;
+  const hundreds = Math.floor(n / 100) % 10;
+  return (
+    join([
+      crores > 0 && `${spellHi(crores)} करोड़`,
+      lakhs > 0 && `${HI_BELOW_100[lakhs]} लाख`,
+      thousands > 0 && `${HI_BELOW_100[thousands]} हज़ार`,
+      hundreds > 0 && `${HI_BELOW_100[hundreds]} सौ`,
+      n % 100 > 0 && HI_BELOW_100[n % 100]!,
+    ]) || HI_BELOW_100[0]!
+  );
+};
+
+// ─── Chinese, Japanese, Korean ─────────────────────────────────────────────────────────────
+
+const CJK_DIGITS = [..."零一二三四五六七八九"];
+const KO_DIGITS = words("영 일 이 삼 사 오 육 칠 팔 구");
+
+// Chinese 0-9999: inner zeros are read once ("一千零五").
+function zhSection(n: number): string {
+  let spoken = "";
+  let zero = false;
+  [1000, 100, 10, 1].forEach((value, i) => {
+    const digit = Math.floor(n / value) % 10;
+    if (!digit) {
+      zero = zero || spoken !== "";
+      return;
+    }
+    spoken +=
+      (zero ? "零" : "") + CJK_DIGITS[digit]! + (["千", "百", "十"][i] ?? "");
+    zero = false;
+  });
+  return spoken;
+}
+
+// A leading 一十 is just 十.
+const spellZh: Speller = (n) => {
+  let spoken = "";
+  let zero = false;
+  [1e8, 1e4, 1].forEach((value, i) => {
+    const section = Math.floor(n / value) % 10000;
+    if (!section) {
+      zero = zero || spoken !== "";
+      return;
+    }
+    if (spoken && (zero || section < 1000)) spoken += "零";
+    spoken += zhSection(section) + (["亿", "万"][i] ?? "");
+    zero = false;
+  });
+  return spoken.replace(/^一十/, "十") || CJK_DIGITS[0]!;
+};
+
+// Japanese and Korean read each 10^4 section without zeros, and 十, 百, 千 (십, 백, 천) take
+// no "one". `units`: thousand, hundred, ten, then hundred million and ten thousand.
+function spellMyriads(
+  n: number,
+  digits: string[],
+  units: string[],
+  separator: string,
+): string {
+  const section = (s: number) =>
+    [1000, 100, 10, 1]
+      .map((value, i) => {
+        const digit = Math.floor(s / value) % 10;
+        if (!digit) return "";
+        if (value === 1) return digits[digit]!;
+        return (digit === 1 ? "" : digits[digit]!) + units[i]!;
+      })
+      .join("");
+  return (
+    join(
+      [1e8, 1e4, 1].map((value, i) => {
+        const count = Math.floor(n / value) % 10000;
+        return count > 0 && section(count) + (units[3 + i] ?? "");
+      }),
+      separator,
+    ) || digits[0]!
+  );
+}
+
+const spellJa: Speller = (n) =>
+  spellMyriads(n, CJK_DIGITS, [..."千百十億万"], "");
+
+// 만 alone means ten thousand; 억 still takes 일.
+const spellKo: Speller = (n) =>
+  spellMyriads(n, KO_DIGITS, [..."천백십억만"], " ").replace(
+    /(^| )일만/,
+    "$1만",
+  );
+
+// ─── Dates ─────────────────────────────────────────────────────────────────────────────────
+
+const EN_ORDINALS: Record<string, string> = {
+  one: "first",
+  two: "second",
+  three: "third",
+  five: "fifth",
+  eight: "eighth",
+  nine: "ninth",
+  twelve: "twelfth",
+};
+
+const enDay: Speller = (day) =>
+  spellEn(day).replace(
+    /\w+$/,
+    (word) =>
+      EN_ORDINALS[word] ??
+      (word.endsWith("y") ? `${word.slice(0, -1)}ieth` : `${word}th`),
+  );
+
+// "nineteen ninety-nine", "nineteen oh five", "nineteen hundred", but "two thousand five".
+const enYear: Speller = (year) => {
+  if (year < 1100 || year >= 10000 || (year >= 2000 && year < 2010)) {
+    return spellEn(year);
+  }
+  const low = year % 100;
+  return `${spellEn(Math.floor(year / 100))} ${
+    low === 0 ? "hundred" : low < 10 ? `oh ${spellEn(low)}` : spellEn(low)
+  }`;
+};
+
+const DE_DAYS: Record<number, string> = {
+  1: "erster",
+  3: "dritter",
+  7: "siebter",
+  8: "achter",
+};
+
+const deDay: Speller = (day) =>
+  DE_DAYS[day] ?? `${spellDe(day)}${day < 20 ? "ter" : "ster"}`;
+
+// "neunzehnhundertneunundneunzig".
+const deYear: Speller = (year) =>
+  year >= 1100 && year < 2000
+    ? `${deBelow100(Math.floor(year / 100))}hundert${year % 100 ? deBelow100(year % 100) : ""}`
+    : spellDe(year);
+
+// Romance languages say "first" for the 1st and count the other days.
+const firstDay =
+  (first: string, spell: Speller): Speller =>
+  (day) =>
+    day === 1 ? first : spell(day);
+
+// ─── Per-language rules ────────────────────────────────────────────────────────────────────
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  en: {
+    spell: spellEn,
+    decimal: "point",
+    digitDecimals: true,
+    minor: {
+      and: " and ",
+      name: (n, currency) =>
+        currency === "GBP"
+          ? plural("penny", "pence")(n)
+          : plural("cent", "cents")(n),
+    },
+    day: enDay,
+    year: enYear,
+  },
+  es: {
+    spell: spellEs,
+    decimal: "coma",
+    decimalComma: true,
+    beforeNoun: esBeforeNoun,
+    minor: {
+      and: " con ",
+      name: (n, currency) =>
+        ["MXN", "BRL"].includes(currency)
+          ? plural("centavo", "centavos")(n)
+          : plural("céntimo", "céntimos")(n),
+    },
+    day: firstDay("primero", spellEs),
+  },
+  fr: {
+    spell: spellFr,
+    decimal: "virgule",
+    decimalComma: true,
+    minor: { and: " et ", name: plural("centime", "centimes") },
+    day: firstDay("premier", spellFr),
+  },
+  de: {
+    spell: spellDe,
+    decimal: "Komma",
+    digitDecimals: true,
+    decimalComma: true,
+    beforeNoun: deBeforeNoun,
+    minor: {
+      and: " und ",
+      name: (_, currency) => (currency === "GBP" ? "Pence" : "Cent"),
+    },
+    day: deDay,
+    year: deYear,
+  },
+  it: {
+    spell: spellIt,
+    decimal: "virgola",
+    decimalComma: true,
+    beforeNoun: (counted) => counted.replace(/uno$/, "un"),
+    minor: { and: " e ", name: plural("centesimo", "centesimi") },
+    day: firstDay("primo", spellIt),
+  },
+  pt: {
+    spell: spellPt,
+    decimal: "vírgula",
+    decimalComma: true,
+    minor: { and: " e ", name: plural("centavo", "centavos") },
+    day: firstDay("primeiro", spellPt),
+  },
+  ru: {
+    spell: spellRu,
+    decimal: "запятая",
+    decimalComma: true,
+    minor: {
+      and: " ",
+      name: (n, currency) =>
+        ruPlural(
+          n,
+          words(
+            currency === "RUB" ? "копейка копейки копеек" : "цент цента центов",
+          ),
+        ),
+    },
+    keepDateDigits: true,
+  },
+  ar: {
+    spell: spellAr,
+    decimal: "فاصلة",
+    minor: { and: " و", name: () => "سنت" },
+  },
+  hi: {
+    spell: spellHi,
+    decimal: "दशमलव",
+    digitDecimals: true,
+    minor: {
+      and: " और ",
+      name: (_, currency) => (currency === "INR" ? "पैसे" : "सेंट"),
+    },
+  },
+  zh: {
+    spell: spellZh,
+    decimal: "点",
+    digitDecimals: true,
+    noSpaces: true,
+    year: (year) =>
+      [...String(year)].map((d) => CJK_DIGITS[Number(d)]).join(""),
+  },
+  ja: { spell: spellJa, decimal: "点", digitDecimals: true, noSpaces: true },
+  ko: { spell: spellKo, decimal: "점", digitDecimals: true },
+};
+
+// ─── Public helpers ────────────────────────────────────────────────────────────────────────
+
+/**
+ * parseNumber
+ * Reads "1.250", "1,250", "3,50", "1.234,5" or "1234" with the conventions of `language`
+ * (see module nuances); null when the digits do not form one number.
+ */
+export function parseNumber(
+  raw: string,
+  language: string,
+): ParsedNumber | null {
+  const separators = raw.match(/[.,]/g) ?? [];
+  let decimalAt = -1;
+  if (separators.length) {
+    const last = Math.max(raw.lastIndexOf("."), raw.lastIndexOf(","));
+    const lastMark = raw[last]!;
+    const decimalMark = LANGUAGES[language]?.decimalComma ? "," : ".";
+    if (new Set(separators).size === 2) {
+      if (separators.filter((s) => s === lastMark).length > 1) return null;
+      decimalAt = last;
+    } else if (separators.length === 1) {
+      const decimals = raw.length - last - 1;
+      if (lastMark === decimalMark || decimals !== 3) decimalAt = last;
+    }
+  }
+
+  const whole = decimalAt === -1 ? raw : raw.slice(0, decimalAt);
+  const fraction = decimalAt === -1 ? "" : raw.slice(decimalAt + 1);
+  const groups = whole.split(/[.,]/);
+  if (
+    !/^\d+$/.test(fraction || "0") ||
+    groups.some((g, i) => !/^\d+$/.test(g) || (i > 0 && g.length !== 3)) ||
+    (groups.length > 1 && groups[0]!.length > 3)
+  ) {
+    return null;
+  }
+  const integer = Number(groups.join(""));
+  return integer < MAX_SPOKEN ? { integer, fraction } : null;
+}
+
+/**
+ * spellNumber
+ * Says a whole number below a trillion in words; null for other numbers or languages.
+ */
+export function spellNumber(value: number, language: string): string | null {
+  const rules = LANGUAGES[language];
+  if (!rules || !Number.isInteger(value) || value < 0 || value >= MAX_SPOKEN) {
+    return null;
+  }
+  return rules.spell(value);
+}
+
+/**
+ * spellParsed
+ * Says a parsed number, decimals included ("three point one four", "tres coma cinco").
+ */
+export function spellParsed(
+  number: ParsedNumber,
+  language: string,
+): string | null {
+  const whole = spellNumber(number.integer, language);
+  const rules = LANGUAGES[language];
+  if (whole === null || !rules || !number.fraction) return whole;
+
+  const space = rules.noSpaces ? "" : " ";
+  let decimals: string[];
+  if (rules.digitDecimals) {
+    decimals = [...number.fraction].map((d) => rules.spell(Number(d)));
+  } else {
+    // Leading zeros are said before the rest as a number: "coma cero cinco".
+    const zeros = /^0*/.exec(number.fraction)![0];
+    const rest = number.fraction.slice(zeros.length);
+    decimals = [...zeros].map(() => rules.spell(0));
+    if (rest) decimals.push(rules.spell(Number(rest)));
+  }
+  return [whole, rules.decimal, ...decimals].join(space);
+}
+
+/**
+ * currencyName
+ * Localized name of `currency` in the form used for `count` ("dollar" / "dollars").
+ */
+function currencyName(
+  currency: string,
+  count: number,
+  language: string,
+): string | null {
+  try {
+    const name = new Intl.NumberFormat(language, {
+      style: "currency",
+      currency,
+      currencyDisplay: "name",
+      maximumFractionDigits: 0,
+    })
+      .formatToParts(count)
+      .filter((part) => part.type === "currency")
+      .map((part) => part.value)
+      .join("");
+    return name || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * spellAmount
+ * Says an amount of money: "three US dollars and fifty cents", "tres euros con cincuenta
+ * céntimos", "三点五美元". Null when the currency or language is unknown.
+ */
+export function spellAmount(
+  number: ParsedNumber,
+  currency: string,
+  language: string,
+): string | null {
+  const rules = LANGUAGES[language];
+  let minorDigits: number;
+  try {
+    minorDigits =
+      new Intl.NumberFormat("en", {
+        style: "currency",
+        currency,
+      }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return null;
+  }
+  if (!rules) return null;
+
+  // Languages without a cent-like unit, currencies without one and odd decimals are read as
+  // a decimal number before the currency name ("三点五美元", "three point five Japanese yen").
+  const decimal =
+    number.fraction !== "" &&
+    (!rules.minor || minorDigits === 0 || number.fraction.length > minorDigits);
+  const count = (n: number) =>
+    rules.beforeNoun ? rules.beforeNoun(rules.spell(n)) : rules.spell(n);
+
+  const words = decimal ? spellParsed(number, language) : count(number.integer);
+  const name = currencyName(currency, decimal ? 2 : number.integer, language);
+  if (words === null || name === null) return null;
+  if (rules.noSpaces) return words + name;
+  const major = `${words} ${name}`;
+
+  const minor = Number(number.fraction.padEnd(minorDigits, "0"));
+  if (decimal || !minor || !rules.minor) return major;
+  const minorPart = `${count(minor)} ${rules.minor.name(minor, currency)}`;
+  return number.integer === 0
+    ? minorPart
+    : `${major}${rules.minor.and}${minorPart}`;
+}
+
+/**
+ * spellDate
+ * Says a calendar date the way the language's long date format orders it, e.g. "May first,
+ * twenty twenty-four", "primero de mayo de dos mil veinticuatro", "二零二四年五月一日".
+ */
+export function spellDate(date: Date, language: string): string | null {
+  const rules = LANGUAGES[language];
+  if (!rules) return null;
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat(language, {
+      dateStyle: "long",
+      timeZone: "UTC",
+      numberingSystem: "latn",
+    }).formatToParts(date);
+  } catch {
+    return null;
+  }
+  if (rules.keepDateDigits) return parts.map((part) => part.value).join("");
+
+  return parts
+    .map((part, i) => {
+      if (part.type === "literal") {
+        // "1. Mai" → "erster Mai".
+        return language === "de" && parts[i - 1]?.type === "day"
+          ? part.value.replace(/^\./, "")
+          : part.value;
+      }
+      // Korean writes the month with its unit ("5월").
+      return part.value.replace(/^\d+/, (digits) => {
+        const value = Number(digits);
+        if (part.type === "day") return (rules.day ?? rules.spell)(value);
+        if (part.type === "year") return (rules.year ?? rules.spell)(value);
+        // Numeric months (Chinese, Japanese, Korean); Korean says June and October as 유월
+        // and 시월.
+        if (language === "ko" && (value === 6 || value === 10)) {
+          return value === 6 ? "유" : "시";
+        }
+        return rules.spell(value);
+      });
+    })
+    .join("");
+}
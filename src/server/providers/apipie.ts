@@ -0,0 +1,148 @@
+/*
+src/server/providers/apipie.ts
+
+Summary:
+  APIpie implementation of UpstreamProvider. Wraps the APIpie chat completions, audio speech,
+  audio transcription, model catalogue and usage query endpoints, and exposes the APIpie-only
+  request extensions (memory, web search) used by VoiceLibre.
+
+Imports to:
+  - src/server/providers/index.ts
+
+Exports:
+  - createApipieProvider(apiKey): UpstreamProvider for the given APIpie key
+
+Exports used by:
+  - src/server/providers/index.ts
+
+Nuances:
+  - The base URL comes from APIPIE_BASE_URL (defaults to https://apipie.ai).
+  - Voice models are stored as "provider/model"; APIpie expects them as separate fields.
+  - Memory flags are only forwarded when present so plain chat requests stay unchanged.
+*/
+
+import type {
+  ChatCompletionParams,
+  ModelListQuery,
+  SpeechParams,
+  TranscriptionParams,
+  UpstreamProvider,
+  UsageQuery,
+} from "./types";
+
+const baseUrl = () => process.env.APIPIE_BASE_URL ?? "https://apipie.ai";
+
+/**
+ * createApipieProvider
+ * Builds an APIpie-backed provider that authenticates every request with `apiKey`.
+ */
+export function createApipieProvider(apiKey: string): UpstreamProvider {
+  return {
+    id: "apipie",
+
+    chatCompletion: ({
+      model,
+      messages,
+      max_tokens,
+      user,
+      web_search_options,
+      memory,
+      signal,
+      ...sampling
+    }: ChatCompletionParams) =>
+      fetch(`${baseUrl()}/v1/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          ...(web_search_options && { web_search_options }),
+          ...(memory && { memory: true }),
+          ...(memory?.mem_clear && { mem_clear: true }),
+          user,
+          ...(memory?.short_mem !== undefined && {
+            short_mem: memory.short_mem,
+          }),
+          ...(memory?.long_mem !== undefined && { long_mem: memory.long_mem }),
+          ...(memory?.mem_expire !== undefined && {
+            mem_expire: memory.mem_expire,
+          }),
+          stream: true,
+          ...sampling,
+          max_tokens,
+        }),
+        signal,
+      }),
+
+    synthesizeSpeech: ({ voice_model, voice, input, user }: SpeechParams) =>
+      fetch(`${baseUrl()}/v1/audio/speech`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: voice_model?.split("/")[1] ?? "gpt-4o-mini-tts",
+          provider: voice_model?.split("/")[0] ?? "openai",
+          input,
+          voice: voice ?? "echo",
+          response_format: "mp3",
+          user,
+        }),
+      }),
+
+    transcribe: ({
+      file,
+      model,
+      user,
+      language,
+      prompt,
+    }: TranscriptionParams) => {
+      const form = new FormData();
+      form.append("file", file, file.name);
+      form.append("model", model);
+      form.append("stream", "true");
+      form.append("user", user);
+      if (language) form.append("language", language);
+      if (prompt) form.append("prompt", prompt);
+
+      return fetch(`${baseUrl()}/v1/audio/transcriptions`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: form,
+      });
+    },
+
+    listModels: (query: ModelListQuery) => {
+      let endpoint = "/v1/models";
+
+      if (query.voices) {
+        endpoint = "/v1/models?voices";
+      } else if (query.type) {
+        endpoint += `?type=${query.type}`;
+      } else if (query.provider === "pool") {
+        endpoint += `?provider=pool`;
+      }
+
+      return fetch(`${baseUrl()}${endpoint}`, {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      });
+    },
+
+    queryUsage: ({ show, days }: UsageQuery) =>
+      fetch(`${baseUrl()}/v1/queries?show=${show}&days=${days}`, {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          Accept: "application/json",
+        },
+      }),
+  };
+}
@@ -0,0 +1,157 @@
+/*
+src/server/providers/index.ts
+
+Summary:
+  Entry point of the upstream provider layer. Resolves a provider id (usually taken from a
+  responder) into a ready-to-use UpstreamProvider, including API key selection, and falls back
+  to the default provider when the requested one cannot perform an operation.
+
+Imports to:
+  - src/app/api/chat/route.ts
+  - src/app/api/tts/route.ts
+  - src/app/api/transcribe/route.ts
+  - src/app/api/models/route.ts
+  - src/app/api/usage/route.ts
+
+Exports:
+  - resolveProvider(id, userId?, capability?): provider or error NextResponse
+  - defaultProviderId(): the provider used when none is requested
+  - UpstreamProvider and request types (re-exported from ./types)
+
+Exports used by:
+  - src/app/api/* routes listed above
+
+Nuances:
+  - Mirrors decryptApiKey: failures are returned as NextResponse objects, so callers check
+    `instanceof NextResponse` and return it directly.
+  - APIpie uses the caller's stored (encrypted) key when present, otherwise APIPIE_API_KEY.
+    Without a userId only the system key is considered.
+  - The OpenAI-compatible provider is configured through OPENAI_COMPATIBLE_BASE_URL,
+    OPENAI_COMPATIBLE_API_KEY and OPENAI_COMPATIBLE_AUDIO ("false" disables /v1/audio use).
+  - DEFAULT_PROVIDER selects the fallback provider (defaults to "apipie").
+*/
+
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { decryptApiKey } from "~/lib/utils/crypto";
+import { isProviderId, type ProviderId } from "~/types/provider";
+import { createApipieProvider } from "./apipie";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { createOllamaProvider } from "./ollama";
+import type { ProviderCapability, UpstreamProvider } from "./types";
+
+export type * from "./types";
+
+/**
+ * defaultProviderId
+ * Returns the provider configured via DEFAULT_PROVIDER, or "apipie".
+ */
+export function defaultProviderId(): ProviderId {
+  const configured = process.env.DEFAULT_PROVIDER;
+  return isProviderId(configured) ? configured : "apipie";
+}
+
+/**
+ * resolveApipieKey
+ * Picks the caller's decrypted APIpie key, falling back to the system key.
+ */
+async function resolveApipieKey(
+  userId?: string,
+): Promise<string | NextResponse> {
+  let apiKey = process.env.APIPIE_API_KEY ?? "";
+
+  if (userId) {
+    const user = await db.user.findUnique({ where: { id: userId } });
+    if (user?.apipie_key) {
+      const decrypted = decryptApiKey(user.apipie_key);
+      if (typeof decrypted !== "string") return decrypted;
+      apiKey = decrypted;
+    }
+  }
+
+  if (!apiKey) {
+    return NextResponse.json(
+      { error: "APIpie API key not configured" },
+      { status: 500 },
+    );
+  }
+
+  return apiKey;
+}
+
+/**
+ * createProvider
+ * Instantiates the provider for `id` with its credentials.
+ */
+async function createProvider(
+  id: ProviderId,
+  userId?: string,
+): Promise<UpstreamProvider | NextResponse> {
+  switch (id) {
+    case "openai": {
+      const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseUrl) {
+        return NextResponse.json(
+          { error: "OpenAI-compatible provider not configured" },
+          { status: 500 },
+        );
+      }
+      return createOpenAICompatibleProvider({
+        id,
+        baseUrl,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        audio: process.env.OPENAI_COMPATIBLE_AUDIO !== "false",
+      });
+    }
+    case "ollama":
+      return createOllamaProvider();
+    case "apipie": {
+      const apiKey = await resolveApipieKey(userId);
+      if (typeof apiKey !== "string") return apiKey;
+      return createApipieProvider(apiKey);
+    }
+  }
+}
+
+/**
+ * resolveProvider
+ *
+ * Resolves `id` (falling back to the default provider for unknown or empty ids) into a
+ * provider instance. When `capability` is given and the requested provider does not
+ * implement it, the default provider is used instead; if that one cannot serve it either,
+ * a 501 response is returned.
+ */
+export async function resolveProvider(
+  id?: string | null,
+  userId?: string,
+): Promise<UpstreamProvider | NextResponse>;
+export async function resolveProvider<C extends ProviderCapability>(
+  id: string | null | undefined,
+  userId: string | undefined,
+  capability: C,
+): Promise<
+  (UpstreamProvider & Required<Pick<UpstreamProvider, C>>) | NextResponse
+>;
+export async function resolveProvider(
+  id?: string | null,
+  userId?: string,
+  capability?: ProviderCapability,
+): Promise<UpstreamProvider | NextResponse> {
+  const fallbackId = defaultProviderId();
+  const requestedId = isProviderId(id) ? id : fallbackId;
+
+  const provider = await createProvider(requestedId, userId);
+  if (provider instanceof NextResponse) return provider;
+  if (!capability || provider[capability]) return provider;
+
+  if (requestedId !== fallbackId) {
+    const fallback = await createProvider(fallbackId, userId);
+    if (fallback instanceof NextResponse) return fallback;
+    if (fallback[capability]) return fallback;
+  }
+
+  return NextResponse.json(
+    { error: `Provider "${requestedId}" does not support ${capability}` },
+    { status: 501 },
+  );
+}
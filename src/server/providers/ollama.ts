@@ -0,0 +1,38 @@
+/*
+src/server/providers/ollama.ts
+
+Summary:
+  Provider for a self-hosted Ollama instance. Ollama serves an OpenAI-compatible chat and
+  model API under /v1, so this module configures the generic OpenAI-compatible provider for it
+  with no API key and without audio support.
+
+Imports to:
+  - src/server/providers/index.ts
+
+Exports:
+  - createOllamaProvider(): UpstreamProvider
+
+Exports used by:
+  - src/server/providers/index.ts
+
+Nuances:
+  - OLLAMA_BASE_URL defaults to http://localhost:11434.
+  - Ollama has no speech or transcription endpoints; those requests fall back to the default
+    provider through resolveProvider.
+*/
+
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import type { UpstreamProvider } from "./types";
+
+/**
+ * createOllamaProvider
+ * Returns an OpenAI-compatible provider pointed at the configured Ollama server.
+ */
+export function createOllamaProvider(): UpstreamProvider {
+  return createOpenAICompatibleProvider({
+    id: "ollama",
+    baseUrl: process.env.OLLAMA_BASE_URL ?? "http://localhost:11434",
+    apiKey: process.env.OLLAMA_API_KEY,
+    audio: false,
+  });
+}
@@ -0,0 +1,194 @@
+/*
+src/server/providers/openaiCompatible.ts
+
+Summary:
+  Generic provider for any server that implements the OpenAI REST API (OpenAI itself, vLLM,
+  LiteLLM, LocalAI, OpenRouter, ...). Streams chat completions, optionally serves the
+  /v1/audio endpoints, and normalizes the /v1/models listing into the catalogue shape the
+  responder editor expects.
+
+Imports to:
+  - src/server/providers/index.ts
+  - src/server/providers/ollama.ts
+
+Exports:
+  - createOpenAICompatibleProvider(options): UpstreamProvider
+  - OpenAICompatibleOptions (type)
+
+Exports used by:
+  - src/server/providers/index.ts
+  - src/server/providers/ollama.ts
+
+Nuances:
+  - Model catalogue entries are reported as `${id}/${model}`, so the leading provider segment
+    is stripped again before a request is sent upstream.
+  - APIpie-only request fields (memory, mem_clear, ...) are never forwarded.
+  - `stream_options.include_usage` is requested so token usage still reaches the client.
+  - OpenAI exposes no voice catalogue endpoint; voice queries are answered from a static list
+    of the OpenAI speech models and voices.
+  - There is no usage query endpoint in the OpenAI API, so queryUsage is not implemented.
+*/
+
+import type { ProviderId } from "~/types/provider";
+import type {
+  ChatCompletionParams,
+  ModelListQuery,
+  SpeechParams,
+  TranscriptionParams,
+  UpstreamProvider,
+} from "./types";
+
+export type OpenAICompatibleOptions = {
+  id: ProviderId;
+  baseUrl: string;
+  apiKey?: string;
+  audio: boolean;
+};
+
+const OPENAI_VOICE_MODELS = ["tts-1-hd", "gpt-4o-mini-tts"];
+
+const OPENAI_VOICES = [
+  "alloy",
+  "ash",
+  "coral",
+  "echo",
+  "fable",
+  "onyx",
+  "nova",
+  "sage",
+  "shimmer",
+];
+
+/**
+ * createOpenAICompatibleProvider
+ * Builds a provider targeting an OpenAI-compatible base URL. When `audio` is false the
+ * speech and transcription operations are omitted so the resolver can fall back.
+ */
+export function createOpenAICompatibleProvider({
+  id,
+  baseUrl,
+  apiKey,
+  audio,
+}: OpenAICompatibleOptions): UpstreamProvider {
+  const root = baseUrl.replace(/\/+$/, "");
+  const authHeaders: Record<string, string> = apiKey
+    ? { Authorization: `Bearer ${apiKey}` }
+    : {};
+
+  const upstreamModel = (model: string) =>
+    model.startsWith(`${id}/`) ? model.slice(id.length + 1) : model;
+
+  const provider: UpstreamProvider = {
+    id,
+
+    chatCompletion: ({
+      model,
+      messages,
+      max_tokens,
+      user,
+      web_search_options,
+      signal,
+      ...sampling
+    }: ChatCompletionParams) =>
+      fetch(`${root}/v1/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders },
+        body: JSON.stringify({
+          model: upstreamModel(model),
+          messages,
+          ...(web_search_options && { web_search_options }),
+          user,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...sampling,
+          max_tokens,
+        }),
+        signal,
+      }),
+
+    listModels: async (query: ModelListQuery) => {
+      if (query.voices) {
+        return Response.json({
+          data: OPENAI_VOICE_MODELS.flatMap((model) =>
+            OPENAI_VOICES.map((voice) => ({
+              provider: "openai",
+              model,
+              voice_id: voice,
+              name: voice,
+            })),
+          ),
+        });
+      }
+
+      if (query.type === "voice") {
+        return Response.json({
+          data: OPENAI_VOICE_MODELS.map((model) => ({
+            provider: "openai",
+            model,
+            avg_cost: "0",
+            latency: "",
+          })),
+        });
+      }
+
+      const res = await fetch(`${root}/v1/models`, { headers: authHeaders });
+      if (!res.ok) return res;
+
+      const json = (await res.json()) as { data?: { id?: unknown }[] };
+      const data = (json.data ?? [])
+        .filter((m): m is { id: string } => typeof m.id === "string")
+        .map((m) => ({
+          provider: id,
+          model: m.id,
+          avg_cost: "0",
+          latency: "",
+        }));
+
+      return Response.json({ data });
+    },
+  };
+
+  if (audio) {
+    provider.synthesizeSpeech = ({
+      voice_model,
+      voice,
+      input,
+      user,
+    }: SpeechParams) =>
+      fetch(`${root}/v1/audio/speech`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders },
+        body: JSON.stringify({
+          model: voice_model?.split("/")[1] ?? "gpt-4o-mini-tts",
+          input,
+          voice: voice ?? "echo",
+          response_format: "mp3",
+          user,
+        }),
+      });
+
+    provider.transcribe = ({
+      file,
+      model,
+      user,
+      language,
+      prompt,
+    }: TranscriptionParams) => {
+      const form = new FormData();
+      form.append("file", file, file.name);
+      form.append("model", model.split("/").pop() ?? model);
+      form.append("stream", "true");
+      form.append("user", user);
+      if (language) form.append("language", language);
+      if (prompt) form.append("prompt", prompt);
+
+      return fetch(`${root}/v1/audio/transcriptions`, {
+        method: "POST",
+        headers: authHeaders,
+        body: form,
+      });
+    };
+  }
+
+  return provider;
+}
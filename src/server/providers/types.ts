@@ -0,0 +1,101 @@
+/*
+src/server/providers/types.ts
+
+Summary:
+  Shared contract for upstream AI providers. Each provider adapts one backend (APIpie,
+  a generic OpenAI-compatible server, a local Ollama instance) to the operations the
+  API routes need: streaming chat completions, speech synthesis, transcription, model
+  listing and usage queries.
+
+Imports to:
+  - src/server/providers/apipie.ts
+  - src/server/providers/openaiCompatible.ts
+  - src/server/providers/ollama.ts
+  - src/server/providers/index.ts
+
+Exports:
+  - ChatMessage, ChatCompletionParams, SpeechParams, TranscriptionParams,
+    ModelListQuery, UsageQuery (request shapes)
+  - UpstreamProvider (provider interface)
+  - ProviderCapability (names of the optional provider operations)
+
+Exports used by:
+  - src/server/providers/*
+  - src/app/api/chat/route.ts, src/app/api/tts/route.ts, src/app/api/transcribe/route.ts,
+    src/app/api/models/route.ts, src/app/api/usage/route.ts
+
+Nuances:
+  - Every operation returns the raw upstream `Response` so routes keep control over status
+    codes, headers (e.g. X-Audio-Details) and stream proxying.
+  - chatCompletion must resolve to an OpenAI-style SSE stream (`data: {...}` lines ending
+    with `data: [DONE]`); createResponseStream relies on that shape.
+  - Sampling options (temperature, top_p, stop, seed, ...) are optional and forwarded as-is;
+    callers drop the ones the model does not accept (see src/lib/utils/sampling.ts).
+  - Speech, transcription and usage are optional: providers that cannot serve them omit the
+    method and the resolver falls back to the default provider.
+*/
+
+import type { ProviderId } from "~/types/provider";
+import type { SamplingOptions } from "~/types/responder";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ChatCompletionParams = SamplingOptions & {
+  model: string;
+  messages: ChatMessage[];
+  max_tokens: number;
+  user: string;
+  web_search_options?: {
+    search_context_size?: "low" | "medium" | "high";
+  };
+  memory?: {
+    mem_clear?: boolean;
+    short_mem?: number;
+    long_mem?: number;
+    mem_expire?: number;
+  };
+  signal?: AbortSignal;
+};
+
+export type SpeechParams = {
+  voice_model: string | null;
+  voice: string | null;
+  input: string;
+  user: string;
+};
+
+export type TranscriptionParams = {
+  file: File;
+  model: string;
+  user: string;
+  language?: string;
+  prompt?: string;
+};
+
+export type ModelListQuery = {
+  type?: "voice" | "llm";
+  provider?: string;
+  voices?: boolean;
+};
+
+export type UsageQuery = {
+  show: string;
+  days: string;
+};
+
+export interface UpstreamProvider {
+  id: ProviderId;
+  chatCompletion(params: ChatCompletionParams): Promise<Response>;
+  listModels(query: ModelListQuery): Promise<Response>;
+  synthesizeSpeech?(params: SpeechParams): Promise<Response>;
+  transcribe?(params: TranscriptionParams): Promise<Response>;
+  queryUsage?(query: UsageQuery): Promise<Response>;
+}
+
+export type ProviderCapability =
+  | "synthesizeSpeech"
+  | "transcribe"
+  | "queryUsage";
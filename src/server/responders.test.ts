@@ -0,0 +1,71 @@
+// src/server/responders.test.ts
+//
+// Unit tests for findResponder: name collisions between user and system responders.
+// The database is replaced by an in-memory table that applies the same `where` filter
+// (name + owner in [...]) as Prisma would, so owner scoping is exercised for real.
+
+import type { Responders } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const rows: Responders[] = [];
+
+vi.mock("~/server/db", () => ({
+  db: {
+    responders: {
+      findMany: async ({
+        where,
+      }: {
+        where: { name: string; owner: { in: string[] } };
+      }) =>
+        rows.filter(
+          (r) => r.name === where.name && where.owner.in.includes(r.owner),
+        ),
+    },
+  },
+}));
+
+const { findResponder } = await import("./responders");
+
+function responder(owner: string, name: string): Responders {
+  return { id: rows.length + 1, owner, name } as Responders;
+}
+
+describe("findResponder", () => {
+  beforeEach(() => {
+    rows.length = 0;
+  });
+
+  it("prefers the caller's own responder over the system one", async () => {
+    rows.push(responder("system", "General"), responder("alice", "General"));
+
+    const found = await findResponder("General", "alice");
+
+    expect(found?.owner).toBe("alice");
+  });
+
+  it("falls back to the system responder when the caller has none", async () => {
+    rows.push(responder("system", "General"));
+
+    const found = await findResponder("General", "alice");
+
+    expect(found?.owner).toBe("system");
+  });
+
+  it("never returns another user's responder of the same name", async () => {
+    rows.push(responder("bob", "General"), responder("system", "General"));
+    expect((await findResponder("General", "alice"))?.owner).toBe("system");
+
+    rows.length = 0;
+    rows.push(responder("bob", "Tutor"));
+    expect(await findResponder("Tutor", "alice")).toBeNull();
+  });
+
+  it("resolves system responders only without a userId", async () => {
+    rows.push(responder("alice", "General"), responder("system", "General"));
+    expect((await findResponder("General"))?.owner).toBe("system");
+
+    rows.length = 0;
+    rows.push(responder("alice", "Tutor"));
+    expect(await findResponder("Tutor")).toBeNull();
+  });
+});
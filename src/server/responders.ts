@@ -0,0 +1,49 @@
+/*
+src/server/responders.ts
+
+Summary:
+  Server-side responder lookup shared by the API routes that act on behalf of a responder
+  (chat, TTS and the memory calls that go through /api/chat). Resolves a responder name for
+  the calling user, preferring the user's own responder and falling back to the system one.
+
+Imports to:
+  - src/app/api/chat/route.ts
+  - src/app/api/tts/route.ts
+
+Exports:
+  - findResponder(name, userId?): Responders row or null
+
+Exports used by:
+  - src/app/api/chat/route.ts
+  - src/app/api/tts/route.ts
+
+Nuances:
+  - Users may create a responder with the same name as a system responder (names are only
+    unique per owner). In that case the user's responder wins for that user only; other users
+    still get the system one.
+  - Without a userId only system responders are considered.
+*/
+
+import type { Responders } from "@prisma/client";
+import { db } from "~/server/db";
+
+/**
+ * findResponder
+ * Returns the caller's responder named `name`, or the system responder of that name, or null.
+ */
+export async function findResponder(
+  name: string,
+  userId?: string,
+): Promise<Responders | null> {
+  const owners = userId ? [userId, "system"] : ["system"];
+
+  const candidates = await db.responders.findMany({
+    where: { name, owner: { in: owners } },
+  });
+
+  return (
+    candidates.find((r) => r.owner === userId) ??
+    candidates.find((r) => r.owner === "system") ??
+    null
+  );
+}
@@ -0,0 +1,76 @@
+/*
+src/server/storage/index.ts
+
+Summary:
+  Entry point of the audio storage layer. Picks the backend configured through AUDIO_STORAGE
+  ("local" or "s3") and returns a ready-to-use AudioStorage; without one, audio is not kept.
+
+Imports to:
+  - src/app/api/_utils/audio.ts
+
+Exports:
+  - getAudioStorage(): the configured storage, or null when storing audio is disabled
+  - AudioStorage, StorageId (re-exported from ./types)
+
+Exports used by:
+  - src/app/api/_utils/audio.ts
+
+Nuances:
+  - Storing audio is optional. AUDIO_STORAGE unset (or unknown) disables it; the routes then
+    skip storing clips and report `enabled: false` to the client.
+  - "local" writes below AUDIO_STORAGE_DIR (default ./data/audio).
+  - "s3" needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY; S3_REGION defaults to
+    us-east-1 and S3_ENDPOINT to AWS (set it for MinIO, R2 and other compatible stores).
+    Missing credentials disable storage with a logged warning instead of failing requests.
+  - The storage is created once per server process.
+*/
+
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+import type { AudioStorage } from "./types";
+
+export type * from "./types";
+
+let storage: AudioStorage | null | undefined;
+
+/**
+ * createStorage
+ * Builds the backend named by AUDIO_STORAGE from the environment.
+ */
+function createStorage(): AudioStorage | null {
+  switch (process.env.AUDIO_STORAGE) {
+    case "local":
+      return createLocalStorage(
+        process.env.AUDIO_STORAGE_DIR ?? "./data/audio",
+      );
+    case "s3": {
+      const bucket = process.env.S3_BUCKET;
+      const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+      const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+      if (!bucket || !accessKeyId || !secretAccessKey) {
+        console.warn(
+          "AUDIO_STORAGE=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY; audio is not stored",
+        );
+        return null;
+      }
+      return createS3Storage({
+        endpoint: process.env.S3_ENDPOINT,
+        region: process.env.S3_REGION ?? "us-east-1",
+        bucket,
+        accessKeyId,
+        secretAccessKey,
+      });
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * getAudioStorage
+ * Returns the configured audio storage, or null when storing audio is disabled.
+ */
+export function getAudioStorage(): AudioStorage | null {
+  if (storage === undefined) storage = createStorage();
+  return storage;
+}
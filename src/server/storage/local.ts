@@ -0,0 +1,62 @@
+/*
+src/server/storage/local.ts
+
+Summary:
+  AudioStorage adapter that keeps clips as files below a directory on the server's disk
+  (AUDIO_STORAGE_DIR, default ./data/audio).
+
+Imports to:
+  - src/server/storage/index.ts
+
+Exports:
+  - createLocalStorage(rootDir)
+
+Exports used by:
+  - src/server/storage/index.ts
+
+Nuances:
+  - Keys are resolved against the root and rejected when they would escape it.
+  - The content type is not stored; the database row (AudioClip.content_type) carries it.
+  - Deleting a missing file is not an error.
+*/
+
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AudioStorage } from "./types";
+
+export function createLocalStorage(rootDir: string): AudioStorage {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    id: "local",
+
+    async put(key, data) {
+      const file = resolveKey(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+
+    async get(key) {
+      try {
+        return new Uint8Array(await readFile(resolveKey(key)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(keys) {
+      await Promise.all(
+        keys.map((key) => rm(resolveKey(key), { force: true })),
+      );
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/*
+src/server/storage/types.ts
+
+Summary:
+  Shared contract for audio storage backends. Each adapter stores opaque blobs under a key:
+  a directory on the local disk, or a bucket on any S3-compatible object store.
+
+Imports to:
+  - src/server/storage/local.ts
+  - src/server/storage/s3.ts
+  - src/server/storage/index.ts
+
+Exports:
+  - AudioStorage (storage interface)
+  - StorageId (names of the available backends)
+
+Exports used by:
+  - src/server/storage/*
+  - src/app/api/_utils/audio.ts
+
+Nuances:
+  - Keys are relative paths built by the caller (`<user id>/<clip id>`); adapters do not
+    interpret them beyond mapping them to a file or object name.
+  - get resolves to null for a missing key rather than throwing, so routes can answer 404.
+  - Clips are small (one utterance or one spoken sentence), so data is passed as whole
+    buffers instead of streams.
+*/
+
+export type StorageId = "local" | "s3";
+
+export interface AudioStorage {
+  id: StorageId;
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<Uint8Array | null>;
+  delete(keys: string[]): Promise<void>;
+}
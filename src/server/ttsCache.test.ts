@@ -0,0 +1,36 @@
+// src/server/ttsCache.test.ts
+//
+// Unit tests for ttsCacheKey: what makes two requests share cached speech.
+
+import { describe, expect, it } from "vitest";
+import { ttsCacheKey } from "./ttsCache";
+
+const request = {
+  provider: "openai",
+  text: "Hello there.",
+  voice_model: "tts-1",
+  voice: "alloy",
+};
+
+describe("ttsCacheKey", () => {
+  it("separates providers that share a voice model and voice", () => {
+    expect(ttsCacheKey(request)).not.toBe(
+      ttsCacheKey({ ...request, provider: "apipie" }),
+    );
+  });
+
+  it("ignores whitespace and Unicode composition differences in the text", () => {
+    expect(ttsCacheKey(request)).toBe(
+      ttsCacheKey({ ...request, text: "  Hello \n there. " }),
+    );
+    expect(ttsCacheKey({ ...request, text: "café" })).toBe(
+      ttsCacheKey({ ...request, text: "cafe\u0301" }),
+    );
+  });
+
+  it("keeps case and punctuation, which change how the text is spoken", () => {
+    expect(ttsCacheKey(request)).not.toBe(
+      ttsCacheKey({ ...request, text: "hello there?" }),
+    );
+  });
+});
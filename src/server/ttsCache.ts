@@ -0,0 +1,179 @@
+/*
+src/server/ttsCache.ts
+
+Summary:
+  Content-addressed disk cache for generated speech. Audio is stored under a hash of the
+  provider, the normalized text, the voice model and the voice, so the same sentence spoken by
+  the same voice is synthesized (and billed) once, whoever asks for it and however often.
+
+Imports to:
+  - src/app/api/tts/route.ts
+
+Exports:
+  - ttsCacheKey({ provider, text, voice_model, voice }): cache key (hex SHA-256)
+  - getCachedSpeech(key): cached audio or null
+  - cacheSpeech(key, data): stores audio and evicts the least recently used entries
+
+Exports used by:
+  - src/app/api/tts/route.ts
+
+Nuances:
+  - Configured through TTS_CACHE_DIR (default ./data/tts-cache) and TTS_CACHE_MAX_MB (default
+    500); TTS_CACHE_MAX_MB=0 disables the cache.
+  - Text is normalized before hashing (Unicode NFC, whitespace collapsed and trimmed); case
+    and punctuation are kept because they change how the sentence is spoken.
+  - The cache is shared by all users: audio only depends on the text and the voice.
+  - The provider is part of the key because providers may serve different audio under the
+    same model and voice names.
+  - Recency is tracked in memory, seeded from the files' modification times on first use, and
+    hits touch the file so the order survives a restart. Eviction keeps the total size under
+    the limit; a single entry larger than the limit is not cached.
+  - Files are written to a temporary name and renamed, so concurrent readers never see a
+    partial entry. Cache failures are logged and treated as misses.
+*/
+
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+const DEFAULT_MAX_MB = 500;
+
+type CacheIndex = {
+  dir: string;
+  maxBytes: number;
+  // Entry sizes in least-recently-used-first order (Map keeps insertion order).
+  entries: Map<string, number>;
+  totalBytes: number;
+};
+
+let indexPromise: Promise<CacheIndex | null> | undefined;
+
+/**
+ * loadIndex
+ * Reads the configuration and the entries already on disk, oldest first.
+ */
+async function loadIndex(): Promise<CacheIndex | null> {
+  const maxMb = Number(process.env.TTS_CACHE_MAX_MB ?? DEFAULT_MAX_MB);
+  if (!Number.isFinite(maxMb) || maxMb <= 0) return null;
+
+  const dir = path.resolve(process.env.TTS_CACHE_DIR ?? "./data/tts-cache");
+  await mkdir(dir, { recursive: true });
+
+  const files = await Promise.all(
+    (await readdir(dir))
+      .filter((name) => /^[0-9a-f]{64}$/.test(name))
+      .map(async (name) => ({ name, ...(await stat(path.join(dir, name))) })),
+  );
+  files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+  const entries = new Map(files.map((f) => [f.name, f.size]));
+  const totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+  return { dir, maxBytes: maxMb * 1024 * 1024, entries, totalBytes };
+}
+
+/**
+ * getIndex
+ * Returns the cache index, loading it once per server process; null when the cache is off.
+ */
+function getIndex(): Promise<CacheIndex | null> {
+  indexPromise ??= loadIndex().catch((error) => {
+    console.error("TTS cache unavailable:", error);
+    return null;
+  });
+  return indexPromise;
+}
+
+/**
+ * ttsCacheKey
+ * Hashes the normalized text with the provider id, voice model and voice.
+ */
+export function ttsCacheKey({
+  provider,
+  text,
+  voice_model,
+  voice,
+}: {
+  provider: string;
+  text: string;
+  voice_model?: string | null;
+  voice?: string | null;
+}): string {
+  const normalized = text.normalize("NFC").replace(/\s+/g, " ").trim();
+  return createHash("sha256")
+    .update([provider, voice_model ?? "", voice ?? "", normalized].join("\0"))
+    .digest("hex");
+}
+
+/**
+ * getCachedSpeech
+ * Returns the cached audio for `key` and marks it as recently used, or null on a miss.
+ */
+export async function getCachedSpeech(key: string): Promise<Uint8Array | null> {
+  const index = await getIndex();
+  const size = index?.entries.get(key);
+  if (!index || size === undefined) return null;
+
+  const file = path.join(index.dir, key);
+  try {
+    const data = new Uint8Array(await readFile(file));
+    index.entries.delete(key);
+    index.entries.set(key, size);
+    const now = new Date();
+    await utimes(file, now, now).catch(() => undefined);
+    return data;
+  } catch (error) {
+    // Removed behind our back (e.g. the directory was cleared): forget the entry.
+    index.entries.delete(key);
+    index.totalBytes -= size;
+    console.error("TTS cache read failed:", error);
+    return null;
+  }
+}
+
+/**
+ * cacheSpeech
+ * Stores audio under `key`, then evicts least recently used entries beyond the size limit.
+ */
+export async function cacheSpeech(key: string, data: Uint8Array) {
+  const index = await getIndex();
+  if (!index || !data.byteLength || data.byteLength > index.maxBytes) return;
+  if (index.entries.has(key)) return;
+
+  const file = path.join(index.dir, key);
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await writeFile(tmp, data);
+    await rename(tmp, file);
+  } catch (error) {
+    await rm(tmp, { force: true }).catch(() => undefined);
+    console.error("TTS cache write failed:", error);
+    return;
+  }
+  if (index.entries.has(key)) return;
+  index.entries.set(key, data.byteLength);
+  index.totalBytes += data.byteLength;
+
+  const evicted: string[] = [];
+  for (const [oldKey, size] of index.entries) {
+    if (index.totalBytes <= index.maxBytes) break;
+    index.entries.delete(oldKey);
+    index.totalBytes -= size;
+    evicted.push(oldKey);
+  }
+  await Promise.all(
+    evicted.map((name) =>
+      rm(path.join(index.dir, name), { force: true }).catch((error) =>
+        console.error("TTS cache eviction failed:", error),
+      ),
+    ),
+  );
+}
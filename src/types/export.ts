@@ -0,0 +1,35 @@
+// src/types/export.ts
+//
+// Transcript export formats.
+// Shared by the export API route (/api/transcripts/[id]/export) and the transcripts page UI.
+
+export const EXPORT_FORMATS = [
+  "md",
+  "json",
+  "html",
+  "srt",
+  "vtt",
+  "csv",
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  md: "Markdown",
+  json: "JSON",
+  html: "HTML page",
+  srt: "Subtitles (SRT)",
+  vtt: "Subtitles (WebVTT)",
+  csv: "CSV",
+};
+
+/**
+ * isExportFormat
+ * Narrows an arbitrary value to a known ExportFormat.
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return (
+    typeof value === "string" &&
+    (EXPORT_FORMATS as readonly string[]).includes(value)
+  );
+}
@@ -1,7 +1,18 @@
+// Web source a reply cites (url_citation annotations streamed with internet search).
+export type Citation = {
+  url: string;
+  title?: string;
+};
+
 export type Message = {
   id: string;
   type: "user" | "assistant";
   text: string;
+  // Message this one answers or follows; null for the first message. Siblings (same parent)
+  // are alternative branches: edited user turns or regenerated replies.
+  parentId?: string | null;
+  // Responder that generated an assistant message.
+  responder?: string;
   usage?: {
     cost?: number;
     latencyMs?: number;
@@ -10,6 +21,9 @@ export type Message = {
     promptTokens?: number;
     completionTokens?: number;
     promptChar?: number;
+    // Token counts are estimates and the cost is unknown (reply stopped early, or the
+    // provider reported no usage).
+    estimated?: boolean;
     audioUsage?: {
       cost?: number;
       char_count?: number;
@@ -17,4 +31,33 @@ export type Message = {
     };
   };
   createdAt?: Date;
+  // Sources of an assistant reply, numbered in order of appearance.
+  citations?: Citation[];
+};
+
+// Message as stored in a saved transcript (Library.messages_json). All branches are saved;
+// `active` marks the branch that was on screen. Transcripts saved before branching have
+// neither ids nor `active` and read as one linear conversation. Messages deleted in the chat
+// stay in place with `deletedAt` (never active; their replies still point at them) until they
+// are restored from the trash or purged.
+export type TranscriptMessage = {
+  id?: string;
+  parentId?: string | null;
+  role: "user" | "assistant";
+  content: string;
+  createdAt?: string;
+  responder?: string;
+  usage?: Message["usage"];
+  citations?: Citation[];
+  active?: boolean;
+  deletedAt?: string;
+};
+
+// Message deleted in the chat, kept aside with what is needed to put it back: its position in
+// creation order and the replies that moved up to its parent (see removeNode/restoreNode).
+export type DeletedMessage = {
+  message: Message;
+  index: number;
+  childIds: string[];
+  deletedAt: string;
 };
@@ -0,0 +1,25 @@
+// src/types/provider.ts
+//
+// Identifiers for the upstream AI providers a responder can be routed to.
+// Shared by the server provider layer, the responder API routes and the responder editor UI.
+
+export const PROVIDER_IDS = ["apipie", "openai", "ollama"] as const;
+
+export type ProviderId = (typeof PROVIDER_IDS)[number];
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  apipie: "APIpie",
+  openai: "OpenAI-compatible",
+  ollama: "Ollama (local)",
+};
+
+/**
+ * isProviderId
+ * Narrows an arbitrary value to a known ProviderId.
+ */
+export function isProviderId(value: unknown): value is ProviderId {
+  return (
+    typeof value === "string" &&
+    (PROVIDER_IDS as readonly string[]).includes(value)
+  );
+}
@@ -1,4 +1,31 @@
-export type Responder = {
+import type { ProviderId } from "./provider";
+
+// Language code (e.g. "es") → TTS voice used for sentences detected in that language.
+export type VoiceMap = Record<string, string>;
+
+export const REASONING_EFFORTS = ["low", "medium", "high"] as const;
+
+export type ReasoningEffort = (typeof REASONING_EFFORTS)[number];
+
+// Sampling settings stored per responder; null means the model's default.
+export type ResponderSampling = {
+  temperature: number | null;
+  top_p: number | null;
+  frequency_penalty: number | null;
+  presence_penalty: number | null;
+  stop: string[] | null;
+  seed: number | null;
+  reasoning_effort: ReasoningEffort | null;
+};
+
+export type SamplingParam = keyof ResponderSampling;
+
+// The settings that are actually sent upstream (see src/lib/utils/sampling.ts).
+export type SamplingOptions = {
+  [K in SamplingParam]?: NonNullable<ResponderSampling[K]>;
+};
+
+export type Responder = ResponderSampling & {
   id: number;
   name: string;
   model: string;
@@ -10,4 +37,45 @@ export type Responder = {
   long_mem?: number;
   mem_expire?: number;
   owner: string;
+  provider: ProviderId;
+  context_tokens: number;
+  voice_map: VoiceMap | null;
+  stt_model: string | null;
+  stt_languages: string | null;
+  stt_prompt: string | null;
 };
+
+/**
+ * isVoiceMap
+ * Narrows an arbitrary value to a VoiceMap (plain object of non-empty string voices).
+ */
+export function isVoiceMap(value: unknown): value is VoiceMap {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string" && v.length > 0)
+  );
+}
+
+/**
+ * isStopSequences
+ * Narrows an arbitrary value to a list of non-empty stop sequences.
+ */
+export function isStopSequences(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((v) => typeof v === "string" && v.length > 0)
+  );
+}
+
+/**
+ * isReasoningEffort
+ * Narrows an arbitrary value to a known ReasoningEffort.
+ */
+export function isReasoningEffort(value: unknown): value is ReasoningEffort {
+  return (
+    typeof value === "string" &&
+    (REASONING_EFFORTS as readonly string[]).includes(value)
+  );
+}